@@ -0,0 +1,106 @@
+/**
+ * Baseline of accepted findings (`.dockervet-baseline.json`).
+ *
+ * `dockervet baseline create` records the fingerprint (see engine/fingerprint) of every
+ * current finding; linting with
+ * `--baseline <file>` then reports only findings whose fingerprint is not recorded for that
+ * file, and `dockervet baseline prune` drops entries that no longer reproduce. Files are
+ * stored relative to the baseline file, with `/` separators.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { Violation } from '../rules/types';
+import { isLocalFile } from './fingerprint';
+
+export const DEFAULT_BASELINE_FILE = '.dockervet-baseline.json';
+
+export interface BaselineEntry {
+  file: string;
+  rule: string;
+  fingerprint: string;
+  /** Where and what the finding was when recorded; informational only */
+  line: number;
+  message: string;
+}
+
+export interface Baseline {
+  version: 1;
+  entries: BaselineEntry[];
+}
+
+/** A file's findings, fingerprinted by the linter; suppressed findings are not recorded */
+export interface FileFindings {
+  filename: string;
+  violations: Violation[];
+}
+
+/** Key of `filename` in a baseline stored in `baseDir`; stdin and remote names are kept as is */
+export function baselineFileKey(filename: string, baseDir: string): string {
+  if (!isLocalFile(filename)) return filename;
+  return path.relative(baseDir, path.resolve(filename)).split(path.sep).join('/');
+}
+
+export function createBaseline(results: FileFindings[], baseDir: string): Baseline {
+  const entries: BaselineEntry[] = [];
+  for (const { filename, violations } of results) {
+    const file = baselineFileKey(filename, baseDir);
+    for (const v of violations) {
+      if (v.fingerprint && !v.suppression) entries.push({ file, rule: v.rule, fingerprint: v.fingerprint, line: v.line, message: v.message });
+    }
+  }
+  entries.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.rule.localeCompare(b.rule));
+  return { version: 1, entries };
+}
+
+export function loadBaseline(file: string): Baseline {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Cannot read baseline ${file}: ${(err as Error).message}`);
+  }
+  const baseline = data as Partial<Baseline>;
+  if (!baseline || baseline.version !== 1 || !Array.isArray(baseline.entries)) {
+    throw new Error(`Baseline ${file} is not a version 1 DockerVet baseline`);
+  }
+  return baseline as Baseline;
+}
+
+export function writeBaseline(file: string, baseline: Baseline): void {
+  fs.writeFileSync(file, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+}
+
+/** Fingerprints the baseline records for each file key */
+export function baselineIndex(baseline: Baseline): Map<string, Set<string>> {
+  const index = new Map<string, Set<string>>();
+  for (const e of baseline.entries) {
+    let set = index.get(e.file);
+    if (!set) index.set(e.file, set = new Set());
+    set.add(e.fingerprint);
+  }
+  return index;
+}
+
+/** The findings of one file that the baseline does not record */
+export function filterBaseline(index: Map<string, Set<string>>, file: string, violations: Violation[]): Violation[] {
+  const known = index.get(file);
+  if (!known) return violations;
+  return violations.filter(v => !v.fingerprint || !known.has(v.fingerprint));
+}
+
+/** Mark the findings of one file that the baseline records as suppressed, keeping them in the list */
+export function markBaseline(index: Map<string, Set<string>>, file: string, violations: Violation[]): Violation[] {
+  const known = index.get(file);
+  for (const v of violations) {
+    if (known && !v.suppression && v.fingerprint && known.has(v.fingerprint)) v.suppression = { kind: 'baseline' };
+  }
+  return violations;
+}
+
+/**
+ * Drop entries that no longer reproduce. `current` holds the findings of every file still
+ * present, keyed as in the baseline; entries of files missing from it are dropped.
+ */
+export function pruneBaseline(baseline: Baseline, current: Map<string, Set<string>>): Baseline {
+  return { version: 1, entries: baseline.entries.filter(e => current.get(e.file)?.has(e.fingerprint)) };
+}
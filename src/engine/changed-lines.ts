@@ -0,0 +1,129 @@
+/**
+ * Diff-aware linting (`--diff`, `--diff-base`): the lines a unified diff adds to each file,
+ * and whether a violation touches them.
+ *
+ * A violation touches the change when an added line falls inside its instruction
+ * (continuation lines included). Violations of stage-scoped rules, such as a missing USER,
+ * concern their whole stage and touch the change when any line of that stage was added.
+ */
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import { DockerfileAST, DockerfileInstruction } from '../parser/types';
+import { Violation } from '../rules/types';
+import { findInstruction, findStage } from '../parser/locate';
+import { isLocalFile } from './fingerprint';
+
+/** Lines (1-based, in the new version of the file) a diff adds, keyed by absolute path */
+export type ChangedLines = Map<string, Set<number>>;
+
+const HUNK_RE = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/** Path of a `---`/`+++` header, without a trailing timestamp; undefined for /dev/null */
+function headerPath(text: string): string | undefined {
+  const name = text.replace(/\t.*$/, '').trim();
+  return name === '/dev/null' ? undefined : name;
+}
+
+/**
+ * Added lines of every file in a unified diff. Paths resolve against `root`; the `a/` and
+ * `b/` prefixes git adds are dropped.
+ */
+export function parseUnifiedDiff(patch: string, root: string = process.cwd()): ChangedLines {
+  const changes: ChangedLines = new Map();
+  let oldPath: string | undefined;
+  let added: Set<number> | undefined;
+  let line = 0;
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  for (const text of patch.split(/\r?\n/)) {
+    // Inside a hunk, count lines off rather than trusting prefixes: `+++ x` may be an added line
+    if (oldLeft > 0 || newLeft > 0) {
+      if (text.startsWith('+')) {
+        added?.add(line++);
+        newLeft--;
+      } else if (text.startsWith('-')) {
+        oldLeft--;
+      } else if (!text.startsWith('\\')) {
+        line++;
+        oldLeft--;
+        newLeft--;
+      }
+      continue;
+    }
+    const hunk = HUNK_RE.exec(text);
+    if (hunk) {
+      oldLeft = hunk[1] === undefined ? 1 : Number(hunk[1]);
+      line = Number(hunk[2]);
+      newLeft = hunk[3] === undefined ? 1 : Number(hunk[3]);
+    } else if (text.startsWith('--- ')) {
+      oldPath = headerPath(text.slice(4));
+    } else if (text.startsWith('+++ ')) {
+      let newPath = headerPath(text.slice(4));
+      added = undefined;
+      if (newPath === undefined) continue;
+      if (newPath.startsWith('b/') && (oldPath === undefined || oldPath.startsWith('a/'))) newPath = newPath.slice(2);
+      const file = path.resolve(root, newPath);
+      added = changes.get(file) ?? new Set();
+      changes.set(file, added);
+    }
+  }
+  return changes;
+}
+
+function git(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: 64 * 1024 * 1024 });
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (err as Error).message}`);
+  }
+}
+
+/**
+ * Lines added since `base`: the working tree compared with the merge base of `base` and
+ * HEAD, so commits that landed on `base` after the branch point do not count.
+ */
+export function gitChangedLines(base: string, cwd: string = process.cwd()): ChangedLines {
+  const root = git(['rev-parse', '--show-toplevel'], cwd).trim();
+  const mergeBase = git(['merge-base', base, 'HEAD'], cwd).trim();
+  const patch = git(['diff', '--no-color', '--no-ext-diff', '--unified=0', '--src-prefix=a/', '--dst-prefix=b/', mergeBase, '--'], cwd);
+  return parseUnifiedDiff(patch, root);
+}
+
+/**
+ * Added lines of `filename`; empty when the diff does not touch it. Stdin and remote files
+ * have no path to match, so they take the lines of a diff that touches a single file.
+ */
+export function changedLinesOf(changes: ChangedLines, filename: string): Set<number> {
+  if (isLocalFile(filename)) return changes.get(path.resolve(filename)) ?? new Set();
+  return changes.size === 1 ? [...changes.values()][0] : new Set();
+}
+
+/**
+ * Whether `v` touches an added line. `wholeStage` widens the instruction to its stage;
+ * violations outside any instruction (comments, line 0) count when their own line, or for
+ * line 0 anything, was added.
+ */
+export function touchesChange(
+  ast: DockerfileAST, instructions: DockerfileInstruction[], v: Violation, added: Set<number>, wholeStage: boolean,
+): boolean {
+  let first: number;
+  let last: number;
+  const stage = wholeStage ? findStage(ast, v.line) : undefined;
+  const inst = stage ? undefined : findInstruction(instructions, v.line);
+  if (stage) {
+    const end = stage.instructions[stage.instructions.length - 1] ?? stage.from;
+    first = stage.from.line;
+    last = end.endLine ?? end.line;
+  } else if (inst) {
+    first = inst.line;
+    last = inst.endLine ?? inst.line;
+  } else {
+    return v.line < 1 ? added.size > 0 : added.has(v.line);
+  }
+  for (let line = first; line <= last; line++) {
+    if (added.has(line)) return true;
+  }
+  return false;
+}
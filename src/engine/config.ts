@@ -1,5 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { Rule, Severity } from '../rules/types';
+import { BUILTIN_RULE_IDS } from '../rules/index';
+import { resolveOptions } from '../rules/options';
+import { PRESETS, presetRulesOf } from './presets';
+import { resolvePlugin } from './plugins';
 
 export interface IgnoreEntry {
   id: string;
@@ -12,6 +17,63 @@ export interface SarifConfig {
   outputFile?: string;
 }
 
+/**
+ * A rule declared in the config instead of code. Instructions are selected by `instruction`
+ * and `pattern`; selected instructions are then checked against `requiredFlags` and
+ * `forbiddenFlags`, and `inStage` asks for a selected instruction to appear in (or be absent
+ * from) every stage in `stage` scope. Without flags or `inStage`, every selected instruction
+ * is reported.
+ */
+export interface CustomRuleConfig {
+  id: string;
+  severity: string;
+  message: string;
+  /** Rule description for SARIF; defaults to `message` */
+  description?: string;
+  /** Instruction type(s) to select, e.g. RUN or [COPY, ADD]; any when omitted */
+  instruction?: string | string[];
+  /** Regular expression matched against the instruction arguments */
+  pattern?: string;
+  /**
+   * Flags a selected instruction must have: `link`, `--chown` or `network=none`. A RUN
+   * `--mount=type=secret` matches any of its mounts with those fields
+   */
+  requiredFlags?: string[];
+  /** Flags a selected instruction must not have */
+  forbiddenFlags?: string[];
+  /** Stages the rule looks at (default: any) */
+  stage?: 'any' | 'final' | 'builder';
+  inStage?: 'must-appear' | 'must-not-appear';
+}
+
+/** Settings of one rule under `rules:`; `severity` works like `override` */
+export interface RuleSettings {
+  severity?: string;
+  /** Values for the options the rule declares; see rules/options */
+  options?: Record<string, unknown>;
+}
+
+/** Settings for the Dockerfiles matching `files`; see engine/overrides */
+export interface ConfigOverride {
+  /** Globs matched against the path relative to `baseDir` */
+  files: string | string[];
+  ignore?: (string | IgnoreEntry)[];
+  override?: Record<string, { severity?: string }>;
+  rules?: Record<string, RuleSettings>;
+  severityThreshold?: 'error' | 'warning' | 'info';
+  /** Directory of the config file that declares the entry; the working directory when unset */
+  baseDir?: string;
+}
+
+/** `ignore` entries and the config file, or `overrides:` entry of one, that declares them */
+export interface IgnoreSource {
+  /** Unset for configs built in code */
+  file?: string;
+  /** Index of the `overrides:` entry in `file` */
+  override?: number;
+  entries: (string | IgnoreEntry)[];
+}
+
 export interface DockerVetConfig {
   version?: number;
   ignore: (string | IgnoreEntry)[];
@@ -19,11 +81,30 @@ export interface DockerVetConfig {
   requiredLabels: string[];
   allowedLabels?: string[];
   override: Record<string, { severity?: string }>;
+  /** Severity and options by rule ID */
+  rules?: Record<string, RuleSettings>;
   /** Minimum severity that triggers a non-zero exit code (error|warning|info) */
   severityThreshold?: 'error' | 'warning' | 'info';
   /** Which severity levels cause CI failure (exit code 2). Defaults to ['error'] */
   failOn?: ('error' | 'warning' | 'info')[];
   sarif?: SarifConfig;
+  /** Rule plugin modules or packages; relative paths are resolved against the config file */
+  plugins?: string[];
+  /** Declarative rules; see engine/custom-rules */
+  customRules?: CustomRuleConfig[];
+  /** Rule presets (hadolint, recommended, strict, cis); see engine/presets */
+  preset?: string | string[];
+  /**
+   * Preset names, applied before `preset`. Config files (relative to this one) and packages
+   * exporting a config are merged in when the config is loaded, and dropped from the list.
+   */
+  extends?: string | string[];
+  /** Stop config discovery at this file's directory */
+  root?: boolean;
+  /** Per-path settings, applied by `configForFile` */
+  overrides?: ConfigOverride[];
+  /** Where the `ignore` entries come from, set when config files are loaded; see `ignoreSourcesOf` */
+  ignoreSources?: IgnoreSource[];
 }
 
 const DEFAULT_CONFIG: DockerVetConfig = {
@@ -33,33 +114,164 @@ const DEFAULT_CONFIG: DockerVetConfig = {
   override: {},
 };
 
-export function loadConfig(configPath?: string): DockerVetConfig {
-  const searchPaths = configPath
-    ? [configPath]
-    : ['.dockervet.yaml', '.dockervet.yml', '.dockervetrc.yaml', '.dockervetrc.yml', '.dockervetrc.json', '.dockervetrc'];
+const CONFIG_FILE_NAMES = ['.dockervet.yaml', '.dockervet.yml', '.dockervetrc.yaml', '.dockervetrc.yml', '.dockervetrc.json', '.dockervetrc'];
 
-  for (const p of searchPaths) {
-    const resolved = path.resolve(p);
-    if (!fs.existsSync(resolved)) continue;
+/**
+ * Load the config file at `configPath` (defaults when it does not exist), or without a path
+ * the configs discovered from the working directory up, as `discoverConfig` does.
+ */
+export function loadConfig(configPath?: string): DockerVetConfig {
+  if (configPath === undefined) return discoverConfig(process.cwd());
+  const resolved = path.resolve(configPath);
+  return fs.existsSync(resolved) ? loadConfigFile(resolved) : { ...DEFAULT_CONFIG };
+}
 
-    const content = fs.readFileSync(resolved, 'utf-8');
+function isFile(file: string): boolean {
+  return fs.statSync(file, { throwIfNoEntry: false })?.isFile() ?? false;
+}
 
-    if (p.endsWith('.json')) {
-      return normalizeConfig({ ...DEFAULT_CONFIG, ...JSON.parse(content) });
+/**
+ * The config for Dockerfiles in `dir`: the config file of `dir` and of each parent up to
+ * the repository root (the first directory with `.git`), merged so that nearer files win.
+ * A config with `root: true` ends the search.
+ */
+export function discoverConfig(dir: string): DockerVetConfig {
+  const found: DockerVetConfig[] = [];
+  let current = path.resolve(dir);
+  for (;;) {
+    const name = CONFIG_FILE_NAMES.find(n => isFile(path.join(current, n)));
+    if (name) {
+      const config = loadConfigFile(path.join(current, name));
+      found.unshift(config);
+      if (config.root) break;
     }
+    const parent = path.dirname(current);
+    if (parent === current || fs.existsSync(path.join(current, '.git'))) break;
+    current = parent;
+  }
+  return found.reduce(mergeConfigs, { ...DEFAULT_CONFIG });
+}
+
+/** Parse one config file and merge in what it `extends`; `chain` holds the files extending it */
+function loadConfigFile(file: string, chain: string[] = []): DockerVetConfig {
+  if (chain.includes(file)) throw new Error(`Config ${file} extends itself: ${[...chain, file].join(' -> ')}`);
+  const content = fs.readFileSync(file, 'utf-8');
+  const parsed = file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  return resolveExtends(normalizeConfig({ ...DEFAULT_CONFIG, ...parsed }, file), file, [...chain, file]);
+}
+
+/** `cfg` merged on top of the config files and packages it extends; preset names stay in `extends` */
+function resolveExtends(cfg: DockerVetConfig, file: string, chain: string[]): DockerVetConfig {
+  const specs = [cfg.extends ?? []].flat();
+  const presets = specs.filter(spec => Object.prototype.hasOwnProperty.call(PRESETS, spec));
+  if (presets.length === specs.length) return cfg;
+  const bases = specs.filter(spec => !presets.includes(spec)).map(spec => loadExtendedConfig(spec, path.dirname(file), chain));
+  return [...bases, { ...cfg, extends: presets }].reduce(mergeConfigs, { ...DEFAULT_CONFIG });
+}
 
-    return normalizeConfig({ ...DEFAULT_CONFIG, ...parseYaml(content) });
+/**
+ * Load a config named in `extends`: a path relative to `baseDir`, or a package resolved
+ * from there. YAML and JSON files are parsed; a JS module exports the config object (as
+ * `module.exports` or `default`).
+ */
+function loadExtendedConfig(spec: string, baseDir: string, chain: string[]): DockerVetConfig {
+  const extendedBy = chain[chain.length - 1];
+  let mod: unknown;
+  let resolved: string;
+  try {
+    resolved = spec.startsWith('.') || path.isAbsolute(spec) ? path.resolve(baseDir, spec) : require.resolve(spec, { paths: [baseDir] });
+    if (/\.(ya?ml|json)$/.test(resolved) || path.basename(resolved) === '.dockervetrc') return loadConfigFile(resolved, chain);
+    mod = require(resolved);
+  } catch (err) {
+    const hint = /^[\w-]+$/.test(spec) ? ` (presets are ${Object.keys(PRESETS).join(', ')})` : '';
+    throw new Error(`Cannot load config "${spec}" extended by ${extendedBy}: ${(err as Error).message}${hint}`);
   }
+  const exported = (mod as { default?: unknown })?.default ?? mod;
+  if (!exported || typeof exported !== 'object' || Array.isArray(exported)) {
+    throw new Error(`Config "${spec}" extended by ${extendedBy} does not export a config object`);
+  }
+  const cfg = normalizeConfig({ ...DEFAULT_CONFIG, ...(exported as Partial<DockerVetConfig>) }, resolved);
+  return resolveExtends(cfg, resolved, [...chain, resolved]);
+}
 
-  return { ...DEFAULT_CONFIG };
+/**
+ * `next` on top of `base`: lists are concatenated (custom rules replaced by ID), `override`
+ * and `sarif` merged by key, and other settings taken from `next` when it has them.
+ */
+function mergeConfigs(base: DockerVetConfig, next: DockerVetConfig): DockerVetConfig {
+  const unique = <T>(...lists: (T | T[] | undefined)[]) => [...new Set(lists.flatMap(l => l ?? []))] as T[];
+  const merged: DockerVetConfig = {
+    ...base,
+    ...next,
+    ignore: [...base.ignore, ...next.ignore],
+    trustedRegistries: unique(base.trustedRegistries, next.trustedRegistries),
+    requiredLabels: unique(base.requiredLabels, next.requiredLabels),
+    override: { ...base.override },
+  };
+  for (const [id, settings] of Object.entries(next.override ?? {})) {
+    merged.override[id] = { ...merged.override[id], ...settings };
+  }
+  if (base.allowedLabels || next.allowedLabels) merged.allowedLabels = unique(base.allowedLabels, next.allowedLabels);
+  if (base.sarif || next.sarif) merged.sarif = { ...base.sarif, ...next.sarif };
+  if (base.plugins || next.plugins) merged.plugins = unique(base.plugins, next.plugins);
+  if (base.customRules || next.customRules) {
+    const replaced = new Set((next.customRules ?? []).map(r => r.id));
+    merged.customRules = [...(base.customRules ?? []).filter(r => !replaced.has(r.id)), ...(next.customRules ?? [])];
+  }
+  if (base.rules || next.rules) merged.rules = mergeRuleSettings(base.rules, next.rules);
+  if (base.overrides || next.overrides) merged.overrides = [...(base.overrides ?? []), ...(next.overrides ?? [])];
+  if (base.ignoreSources || next.ignoreSources) merged.ignoreSources = [...(base.ignoreSources ?? []), ...(next.ignoreSources ?? [])];
+  for (const key of ['extends', 'preset'] as const) {
+    const names = unique<string>(base[key], next[key]);
+    if (names.length > 0) merged[key] = names;
+  }
+  return merged;
 }
 
-function normalizeConfig(cfg: DockerVetConfig): DockerVetConfig {
+/** `cfg` as loaded from `file`, with paths resolved against its directory */
+function normalizeConfig(cfg: DockerVetConfig, file: string): DockerVetConfig {
+  const baseDir = path.dirname(file);
   // Normalize ignore to always be string | IgnoreEntry[]
   cfg.ignore = cfg.ignore || [];
+  cfg.ignoreSources = [{ file, entries: cfg.ignore }];
+  // Plugins are resolved from the config's directory, packages included
+  if (cfg.plugins) {
+    cfg.plugins = cfg.plugins.map(p => {
+      try {
+        return resolvePlugin(p, baseDir);
+      } catch (err) {
+        throw new Error(`Cannot load plugin "${p}": ${(err as Error).message}`);
+      }
+    });
+  }
+  if (cfg.overrides) {
+    cfg.overrides = cfg.overrides.map((o, i) => {
+      const entry = { ...o, baseDir: o.baseDir ?? baseDir };
+      overrideSources.set(entry, { file, override: i, entries: entry.ignore ?? [] });
+      return entry;
+    });
+  }
   return cfg;
 }
 
+const overrideSources = new WeakMap<ConfigOverride, IgnoreSource>();
+const inlineSources = new WeakMap<(string | IgnoreEntry)[], IgnoreSource>();
+
+/** Where the config's `ignore` entries come from; one source without a file for configs built in code */
+export function ignoreSourcesOf(config: DockerVetConfig): IgnoreSource[] {
+  if (config.ignoreSources) return config.ignoreSources;
+  let source = inlineSources.get(config.ignore);
+  if (!source) inlineSources.set(config.ignore, source = { entries: config.ignore });
+  return [source];
+}
+
+/** Where the `ignore` entries of an `overrides:` entry come from; `index` is used for entries built in code */
+export function overrideIgnoreSource(entry: ConfigOverride, index: number): IgnoreSource {
+  let source = overrideSources.get(entry);
+  if (!source) overrideSources.set(entry, source = { override: index, entries: entry.ignore ?? [] });
+  return source;
+}
+
 /**
  * Load config from a `.securify.yaml` file, reading the `securify.docker` section.
  * Falls back to `loadConfig()` when no securify file is found.
@@ -81,16 +293,14 @@ export function loadSecurifyConfig(securifyPath?: string): DockerVetConfig {
   return loadConfig();
 }
 
-/**
- * Returns the set of currently active (non-expired) ignore rule IDs.
- */
-export function getActiveIgnoreIds(config: DockerVetConfig): Set<string> {
+/** Ignore entries that are in effect (not expired) by rule ID; plain IDs become `{ id }` */
+export function getActiveIgnores(config: DockerVetConfig): Map<string, IgnoreEntry> {
   const now = new Date();
-  const ids = new Set<string>();
+  const entries = new Map<string, IgnoreEntry>();
 
   for (const entry of config.ignore) {
     if (typeof entry === 'string') {
-      ids.add(entry);
+      if (!entries.has(entry)) entries.set(entry, { id: entry });
     } else {
       if (entry.expires) {
         const expiry = new Date(entry.expires);
@@ -99,11 +309,105 @@ export function getActiveIgnoreIds(config: DockerVetConfig): Set<string> {
           continue;
         }
       }
-      ids.add(entry.id);
+      if (!entries.has(entry.id)) entries.set(entry.id, entry);
     }
   }
 
-  return ids;
+  return entries;
+}
+
+/**
+ * Returns the set of currently active (non-expired) ignore rule IDs.
+ */
+export function getActiveIgnoreIds(config: DockerVetConfig): Set<string> {
+  return new Set(getActiveIgnores(config).keys());
+}
+
+/** Ignore entries whose `expires` date has passed, for rules no other entry still ignores */
+export function getExpiredIgnores(config: DockerVetConfig): IgnoreEntry[] {
+  const now = new Date();
+  const active = getActiveIgnoreIds(config);
+  return config.ignore.filter((entry): entry is IgnoreEntry =>
+    typeof entry !== 'string' && !!entry.expires && new Date(entry.expires) < now && !active.has(entry.id));
+}
+
+/** `next` on top of `base`, by rule; options are merged by name */
+export function mergeRuleSettings(
+  base: Record<string, RuleSettings> = {}, next: Record<string, RuleSettings> = {},
+): Record<string, RuleSettings> {
+  const merged = { ...base };
+  for (const [id, settings] of Object.entries(next)) {
+    const options = base[id]?.options || settings.options ? { ...base[id]?.options, ...settings.options } : undefined;
+    merged[id] = { ...base[id], ...settings, ...(options && { options }) };
+  }
+  return merged;
+}
+
+/** The severity the config gives a rule under `rules` or `override`, if any */
+export function configuredSeverity(config: DockerVetConfig, id: string): string | undefined {
+  return config.rules?.[id]?.severity ?? config.override?.[id]?.severity;
+}
+
+const resolvedOptions = new WeakMap<object, Record<string, unknown>>();
+
+/** The rule's options under the config, defaults filled in; undefined for rules without options */
+export function ruleOptionsOf(config: DockerVetConfig, rule: Rule): Record<string, unknown> | undefined {
+  if (!rule.options) return undefined;
+  const values = config.rules?.[rule.id]?.options;
+  const key = values ?? rule.options;
+  let resolved = resolvedOptions.get(key);
+  if (!resolved) {
+    resolved = resolveOptions(rule.options, values, `Rule ${rule.id}`);
+    resolvedOptions.set(key, resolved);
+  }
+  return resolved;
+}
+
+const SEVERITIES = ['error', 'warning', 'info', 'style'];
+
+/** Check `rules:` (top level and in `overrides:`) against the known rules; throws on the first problem */
+export function checkRuleSettings(config: DockerVetConfig, rules: Rule[]): void {
+  const sections = [config.rules, ...(config.overrides ?? []).map(o => o.rules)];
+  for (const section of sections) {
+    for (const [id, settings] of Object.entries(section ?? {})) {
+      const rule = rules.find(r => r.id === id);
+      if (!rule) throw new Error(`Unknown rule "${id}" under rules`);
+      if (settings.severity !== undefined && !SEVERITIES.includes(settings.severity)) {
+        throw new Error(`Rule ${id} has invalid severity "${settings.severity}". Expected one of: ${SEVERITIES.join(', ')}`);
+      }
+      if (settings.options) resolveOptions(rule.options ?? {}, settings.options, `Rule ${id}`);
+    }
+  }
+}
+
+export interface RuleStatus {
+  severity: Severity;
+  enabled: boolean;
+  /** Preset that enabled the rule, when the config uses presets */
+  preset?: string;
+  /** The rule would run, but an active `ignore` entry turns it off */
+  ignored?: boolean;
+}
+
+/**
+ * How the config treats a rule: its severity after presets and `override` (or `rules`), and
+ * whether it runs. With presets, a built-in rule runs if a preset enables it, `override`
+ * mentions it or `rules` gives it a severity; an active `ignore` entry turns any rule off.
+ */
+export function ruleStatus(config: DockerVetConfig, rule: Pick<Rule, 'id' | 'severity'>): RuleStatus {
+  const presetRules = presetRulesOf(config);
+  const fromPreset = presetRules?.get(rule.id);
+  const configured = configuredSeverity(config, rule.id);
+  const severity = (configured ?? fromPreset?.severity ?? rule.severity) as Severity;
+  const mentioned = !!config.override?.[rule.id] || configured !== undefined;
+  const inPresets = !presetRules || !!fromPreset || mentioned || !BUILTIN_RULE_IDS.has(rule.id);
+  const ignored = getActiveIgnoreIds(config).has(rule.id);
+  return {
+    severity,
+    enabled: inPresets && !ignored,
+    ...(fromPreset && { preset: fromPreset.preset }),
+    ...(inPresets && ignored && { ignored: true }),
+  };
 }
 
 /**
@@ -118,9 +422,31 @@ export function getActiveIgnoreIds(config: DockerVetConfig): Set<string> {
  *     - id: DV1001
  *       reason: "Using vault at runtime"
  *       expires: "2026-12-31"
+ *   preset: recommended
+ *   override:
+ *     DV3023:
+ *       severity: error
+ *   rules:
+ *     DV6014:
+ *       severity: warning
+ *       options:
+ *         min-interval: 10s
  *   sarif:
  *     export: true
  *     outputFile: results.sarif
+ *   plugins:
+ *     - ./dockervet-rules.js
+ *   custom-rules:
+ *     - id: acme/no-apt-upgrade
+ *       severity: error
+ *       message: Do not upgrade packages in the image
+ *       instruction: RUN
+ *       pattern: 'apt-get\s+(dist-)?upgrade'
+ *   overrides:
+ *     - files: [testdata/**, Dockerfile.dev]
+ *       severity-threshold: error
+ *       ignore:
+ *         - DV1006
  */
 function parseYaml(content: string): Partial<DockerVetConfig> {
   const result: any = {};
@@ -158,6 +484,14 @@ function parseYaml(content: string): Partial<DockerVetConfig> {
         result[key] = parseIgnoreBlock(block.lines);
       } else if (key === 'sarif') {
         result[key] = parseMappingBlock(block.lines);
+      } else if (key === 'override') {
+        result[key] = parseOverrideBlock(block.lines);
+      } else if (key === 'rules') {
+        result[key] = parseRulesBlock(block.lines);
+      } else if (key === 'customRules') {
+        result[key] = parseMappingSequence(block.lines);
+      } else if (key === 'overrides') {
+        result[key] = parseOverridesBlock(block.lines);
       } else if (key === 'failOn') {
         result[key] = parseSequenceBlock(block.lines);
       } else {
@@ -243,6 +577,99 @@ function parseMappingBlock(lines: string[]): Record<string, any> {
   return result;
 }
 
+/**
+ * Parse the override block: a mapping from rule ID to that rule's settings.
+ *
+ *   DV3023:
+ *     severity: error
+ */
+function parseOverrideBlock(lines: string[]): Record<string, Record<string, string>> {
+  const result: Record<string, Record<string, string>> = {};
+  let settings: Record<string, string> | undefined;
+  let ruleIndent = -1;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const m = trimmed.match(/^("[^"]+"|'[^']+'|[^\s:]+):\s*(.*)$/);
+    if (!m) continue;
+    const indent = line.length - line.trimStart().length;
+    if (ruleIndent < 0 || indent <= ruleIndent) {
+      ruleIndent = indent;
+      settings = result[parseString(m[1])] = {};
+    } else if (settings) {
+      settings[camelCase(m[1])] = parseString(m[2].trim());
+    }
+  }
+
+  return result;
+}
+
+/** A scalar or an inline list (`[a, b]`) of scalars */
+function parseValue(value: string): unknown {
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(s => s.trim()).filter(Boolean).map(parseScalar);
+  }
+  return parseScalar(value);
+}
+
+/**
+ * Parse the rules block: settings by rule ID, with option values given as scalars, inline
+ * lists or nested `- item` lists. Option names are camel-cased.
+ *
+ *   DV3021:
+ *     severity: error
+ *     options:
+ *       ports: [2375, 6379]
+ */
+function parseRulesBlock(lines: string[]): Record<string, RuleSettings> {
+  const result: Record<string, RuleSettings> = {};
+  let settings: RuleSettings | undefined;
+  let options: Record<string, unknown> | undefined;
+  let ruleIndent = -1;
+  let settingIndent = -1;
+  let listKey: string | undefined;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    if (options && indent > settingIndent) {
+      if (listKey && trimmed.startsWith('- ')) {
+        (options[listKey] as unknown[]).push(parseScalar(trimmed.slice(2).trim()));
+        continue;
+      }
+      const m = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_-]*):\s*(.*)$/);
+      if (!m) continue;
+      listKey = undefined;
+      const value = m[2].trim();
+      if (value === '') {
+        listKey = camelCase(m[1]);
+        options[listKey] = [];
+      } else {
+        options[camelCase(m[1])] = parseValue(value);
+      }
+      continue;
+    }
+
+    const m = trimmed.match(/^("[^"]+"|'[^']+'|[^\s:]+):\s*(.*)$/);
+    if (!m) continue;
+    options = undefined;
+    if (ruleIndent < 0 || indent <= ruleIndent) {
+      ruleIndent = indent;
+      settings = result[parseString(m[1])] = {};
+    } else if (settings && m[1] === 'options') {
+      settingIndent = indent;
+      options = settings.options = {};
+    } else if (settings) {
+      settingIndent = indent;
+      (settings as Record<string, unknown>)[camelCase(m[1])] = parseString(m[2].trim());
+    }
+  }
+
+  return result;
+}
+
 /**
  * Parse the ignore block, supporting both plain strings and structured entries.
  *
@@ -313,3 +740,92 @@ function parseIgnoreBlock(lines: string[]): (string | IgnoreEntry)[] {
 
   return result;
 }
+
+/** A YAML string scalar: double quotes take escapes, single quotes keep backslashes literal */
+function parseString(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, (_, c) => ({ n: '\n', t: '\t' } as Record<string, string>)[c] ?? c);
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+/**
+ * Parse a sequence of mappings, such as the custom-rules block. Values are strings, inline
+ * lists (`[a, b]`) or nested `- item` lists; keys are camel-cased.
+ *
+ *   - id: acme/team-label
+ *     instruction: [LABEL]
+ *     forbidden-flags:
+ *       - --chmod
+ */
+function parseMappingSequence(lines: string[]): Record<string, string | string[]>[] {
+  const result: Record<string, string | string[]>[] = [];
+  let entry: Record<string, string | string[]> | undefined;
+  let keyIndent = -1;
+  let listKey: string | undefined;
+
+  for (const line of lines) {
+    let trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    let indent = line.length - line.trimStart().length;
+
+    if (trimmed.startsWith('- ') && (!entry || indent < keyIndent)) {
+      entry = {};
+      result.push(entry);
+      trimmed = trimmed.slice(2).trim();
+      keyIndent = indent + 2;
+      indent = keyIndent;
+      listKey = undefined;
+    }
+    if (!entry) continue;
+
+    if (listKey && trimmed.startsWith('- ')) {
+      (entry[listKey] as string[]).push(parseString(trimmed.slice(2).trim()));
+      continue;
+    }
+
+    const m = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_-]*):\s*(.*)$/);
+    if (!m) continue;
+    const key = camelCase(m[1]);
+    const value = m[2].trim();
+    listKey = undefined;
+    if (value === '') {
+      entry[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      entry[key] = value.slice(1, -1).split(',').map(s => parseString(s.trim())).filter(Boolean);
+    } else {
+      entry[key] = parseString(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse the overrides block: a sequence of mappings whose keys take the same forms as at
+ * the top level, so each entry is parsed as a config of its own.
+ *
+ *   - files: [examples/**]
+ *     ignore:
+ *       - DL3008
+ *     override:
+ *       DV1006:
+ *         severity: info
+ */
+function parseOverridesBlock(lines: string[]): Partial<DockerVetConfig>[] {
+  const entries: string[][] = [];
+  const itemIndent = lines.length > 0 ? lines[0].length - lines[0].trimStart().length : 0;
+  for (let line of lines) {
+    const indent = line.length - line.trimStart().length;
+    if (indent === itemIndent && line.trim().startsWith('- ')) {
+      entries.push([]);
+      // Turn `- key: value` into `  key: value` so the entry's keys line up
+      line = line.replace('-', ' ');
+    }
+    entries[entries.length - 1]?.push(line.slice(itemIndent + 2));
+  }
+  return entries.map(entry => parseYaml(entry.join('\n')));
+}
@@ -0,0 +1,133 @@
+/**
+ * Declarative rules from the `customRules:` config section, compiled into `Rule` objects
+ * that the linter runs next to ALL_RULES.
+ */
+import { DockerfileInstruction, RunInstruction, RunMount, Stage } from '../parser/types';
+import { Rule, Severity, Violation } from '../rules/types';
+import { RULE_MAP } from '../rules/index';
+import { CustomRuleConfig, DockerVetConfig } from './config';
+
+const SEVERITIES = new Set(['error', 'warning', 'info', 'style']);
+const INSTRUCTIONS = new Set([
+  'FROM', 'RUN', 'CMD', 'LABEL', 'MAINTAINER', 'EXPOSE', 'ENV', 'ADD', 'COPY', 'ENTRYPOINT',
+  'VOLUME', 'USER', 'WORKDIR', 'ARG', 'ONBUILD', 'STOPSIGNAL', 'HEALTHCHECK', 'SHELL',
+]);
+
+interface FlagCheck {
+  name: string;
+  value?: string;
+}
+
+/** `--name=value`; the value is everything after the first `=`, so `mount=type=secret` keeps `type=secret` */
+function parseFlag(spec: string): FlagCheck {
+  const flag = spec.replace(/^--/, '');
+  const eq = flag.indexOf('=');
+  return eq < 0 ? { name: flag } : { name: flag.slice(0, eq), value: flag.slice(eq + 1) };
+}
+
+const MOUNT_FIELD_ALIASES: Record<string, keyof RunMount> = {
+  dst: 'target', destination: 'target', src: 'source', ro: 'readonly',
+};
+
+/** Whether the mount has every `key=value` field of `criteria`, such as `type=secret,id=npmrc` */
+function mountMatches(mount: RunMount, criteria: string): boolean {
+  return criteria.split(',').filter(f => f !== '').every(field => {
+    const eq = field.indexOf('=');
+    const key = (eq < 0 ? field : field.slice(0, eq)).toLowerCase();
+    const expected = eq < 0 ? 'true' : field.slice(eq + 1);
+    const actual = mount[MOUNT_FIELD_ALIASES[key] ?? key as keyof RunMount];
+    if (actual === undefined) return false;
+    return key === 'type' ? String(actual) === expected.toLowerCase() : String(actual) === expected;
+  });
+}
+
+function hasFlag(inst: DockerfileInstruction, flag: FlagCheck): boolean {
+  // A RUN may carry several --mount flags: match their fields one mount at a time
+  if (flag.name === 'mount' && inst.type === 'RUN') {
+    const mounts = (inst as RunInstruction).mounts ?? [];
+    return mounts.some(m => flag.value === undefined || mountMatches(m, flag.value));
+  }
+  const value = inst.flags[flag.name];
+  return value !== undefined && (flag.value === undefined || value === flag.value);
+}
+
+function list(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Turn one config entry into a Rule; throws on invalid entries */
+export function compileCustomRule(def: CustomRuleConfig): Rule {
+  const where = `Custom rule "${def.id ?? '?'}"`;
+  if (!def.id || typeof def.id !== 'string') throw new Error('Custom rule is missing an id');
+  if (!def.message) throw new Error(`${where} is missing a message`);
+  if (!SEVERITIES.has(def.severity)) throw new Error(`${where} has invalid severity "${def.severity}"`);
+  if (RULE_MAP.has(def.id)) throw new Error(`${where} uses the ID of a built-in or plugin rule`);
+
+  const types = list(def.instruction).map(t => t.toUpperCase());
+  const unknown = types.find(t => !INSTRUCTIONS.has(t));
+  if (unknown) throw new Error(`${where} has unknown instruction "${unknown}"`);
+  let pattern: RegExp | undefined;
+  try {
+    pattern = def.pattern ? new RegExp(def.pattern) : undefined;
+  } catch (err) {
+    throw new Error(`${where} has an invalid pattern: ${(err as Error).message}`);
+  }
+  const scope = def.stage ?? 'any';
+  if (!['any', 'final', 'builder'].includes(scope)) throw new Error(`${where} has invalid stage "${scope}"`);
+  if (def.inStage && !['must-appear', 'must-not-appear'].includes(def.inStage)) {
+    throw new Error(`${where} has invalid in-stage "${def.inStage}"`);
+  }
+  const required = list(def.requiredFlags).map(parseFlag);
+  const forbidden = list(def.forbiddenFlags).map(parseFlag);
+  // Without other checks, a selected instruction is the problem
+  const reportSelected = def.inStage === 'must-not-appear' || (!def.inStage && required.length === 0 && forbidden.length === 0);
+
+  const id = def.id;
+  const severity = def.severity as Severity;
+  const selects = (inst: DockerfileInstruction) =>
+    (types.length === 0 || types.includes(inst.type)) && (!pattern || pattern.test(inst.arguments));
+
+  return {
+    id,
+    severity,
+    description: def.description ?? def.message,
+    // A missing instruction is a problem of the whole stage
+    scope: def.inStage === 'must-appear' ? 'stage' : undefined,
+    check(ctx) {
+      const violations: Violation[] = [];
+      const stages = ctx.ast.stages;
+      const inScope = (stage: Stage) => scope === 'any' || (scope === 'final') === (stage === stages[stages.length - 1]);
+      for (const stage of stages.filter(inScope)) {
+        const selected = [stage.from, ...stage.instructions].filter(selects);
+        if (def.inStage === 'must-appear' && selected.length === 0) {
+          violations.push({ rule: id, severity, message: def.message, line: stage.from.line });
+        }
+        for (const inst of selected) {
+          const flagged = reportSelected || required.some(f => !hasFlag(inst, f)) || forbidden.some(f => hasFlag(inst, f));
+          if (flagged) violations.push({ rule: id, severity, message: def.message, line: inst.line });
+        }
+      }
+      return violations;
+    },
+  };
+}
+
+const compiled = new WeakMap<CustomRuleConfig[], Rule[]>();
+
+/** The config's custom rules, compiled once per config */
+export function customRulesOf(config: DockerVetConfig): Rule[] {
+  const defs = config.customRules;
+  if (!defs || defs.length === 0) return [];
+  let rules = compiled.get(defs);
+  if (!rules) {
+    rules = defs.map(compileCustomRule);
+    const seen = new Set<string>();
+    for (const r of rules) {
+      if (seen.has(r.id)) throw new Error(`Custom rule "${r.id}" is defined more than once`);
+      seen.add(r.id);
+    }
+    compiled.set(defs, rules);
+  }
+  return rules;
+}
@@ -0,0 +1,66 @@
+/**
+ * Line-independent identity of violations, used to match findings across edits of a file:
+ * by baselines, and by code scanning through SARIF `partialFingerprints`.
+ *
+ * A fingerprint hashes the rule ID, the file, the stage (its alias, else its index), the
+ * normalized text of the instruction the violation points at, and an occurrence index that
+ * tells apart repeats of the same rule on identical instructions. Adding or removing
+ * unrelated lines leaves it unchanged.
+ */
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DockerfileAST } from '../parser/types';
+import { Violation } from '../rules/types';
+import { collectInstructions, findInstruction, findStage } from '../parser/locate';
+
+/** Whether a file name is a path on disk, not `<stdin>` or a remote name such as `github:...` */
+export function isLocalFile(filename: string): boolean {
+  return !filename.startsWith('<') && !/^[a-z][a-z0-9+.-]+:(?![\\/])/i.test(filename);
+}
+
+/** The nearest directory at or above `dir` with a `.git` entry */
+function repoRootOf(dir: string): string | undefined {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, '.git'))) return current;
+    if (path.dirname(current) === current) return undefined;
+  }
+}
+
+/**
+ * Paths on disk count relative to their repository root (else as absolute paths), so that
+ * the key does not depend on the directory DockerVet runs from
+ */
+function fileKey(filePath: string | undefined): string {
+  if (!filePath || !isLocalFile(filePath)) return filePath ?? '';
+  const file = path.resolve(filePath);
+  const root = repoRootOf(path.dirname(file));
+  return (root ? path.relative(root, file) : file).split(path.sep).join('/');
+}
+
+function stageKey(ast: DockerfileAST, line: number): string {
+  const stage = findStage(ast, line);
+  if (!stage) return '';
+  return stage.from.alias ? stage.from.alias.toLowerCase() : `#${stage.index}`;
+}
+
+/** Instruction keyword and arguments with line continuations and whitespace runs collapsed */
+function normalizedInstruction(type: string, args: string): string {
+  return `${type} ${args.replace(/\\\r?\n/g, ' ').replace(/\s+/g, ' ').trim()}`;
+}
+
+/** Fingerprints of `violations` (as returned by `lint` for `ast`), in the same order */
+export function fingerprintViolations(ast: DockerfileAST, violations: Violation[], filePath?: string): string[] {
+  const instructions = collectInstructions(ast);
+  const file = fileKey(filePath);
+  const occurrences = new Map<string, number>();
+  return violations.map(v => {
+    const inst = findInstruction(instructions, v.line);
+    // Violations outside any instruction (comments, whole-file checks) are keyed by message
+    const content = inst ? normalizedInstruction(inst.type, inst.arguments) : v.message;
+    const key = [v.rule, file, stageKey(ast, v.line), content].join('\0');
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    return createHash('sha256').update(`${key}\0${occurrence}`).digest('hex').slice(0, 32);
+  });
+}
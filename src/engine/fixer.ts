@@ -0,0 +1,101 @@
+/**
+ * Autofix: apply the edits attached to violations.
+ *
+ * Each pass lints the content and applies the fixes of every violation whose edits do not
+ * overlap an edit already taken in that pass; the rest wait for the next pass, where they
+ * are re-derived from the updated text. Passes repeat until no fix applies.
+ */
+import { parse } from '../parser/parser';
+import { TextEdit, Violation } from '../rules/types';
+import { lint, LintOptions } from './linter';
+
+export interface FixOptions extends LintOptions {
+  /** Also apply fixes marked unsafe */
+  unsafe?: boolean;
+}
+
+export interface FixResult {
+  /** Content after all passes */
+  output: string;
+  /** Violations whose fixes were applied, across all passes */
+  fixed: Violation[];
+}
+
+// Guards against fixes that keep re-triggering each other
+const MAX_PASSES = 10;
+
+interface OffsetEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function lineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function toOffsets(edit: TextEdit, starts: number[], length: number): OffsetEdit | undefined {
+  const offsetOf = (line: number, column: number) => {
+    if (line < 1 || line > starts.length || column < 1) return undefined;
+    const offset = starts[line - 1] + column - 1;
+    const lineEnd = line < starts.length ? starts[line] - 1 : length;
+    return offset <= lineEnd ? offset : undefined;
+  };
+  const start = offsetOf(edit.line, edit.column);
+  const end = offsetOf(edit.endLine, edit.endColumn);
+  if (start === undefined || end === undefined || end < start) return undefined;
+  return { start, end, text: edit.text };
+}
+
+function overlaps(a: OffsetEdit, b: OffsetEdit): boolean {
+  // Two insertions at the same point conflict too: their order would be arbitrary
+  if (a.start === b.start) return true;
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Apply the fixes of `violations` that do not overlap each other, in source order.
+ * Unsafe fixes are skipped unless `unsafe` is set.
+ */
+export function applyFixes(
+  content: string, violations: Violation[], unsafe = false,
+): { output: string; applied: Violation[] } {
+  const starts = lineStarts(content);
+  const taken: OffsetEdit[] = [];
+  const applied: Violation[] = [];
+  for (const v of violations) {
+    if (!v.fixes || v.fixes.length === 0) continue;
+    if (v.fixSafety === 'unsafe' && !unsafe) continue;
+    const edits = v.fixes.map(e => toOffsets(e, starts, content.length));
+    if (edits.some(e => !e)) continue;
+    const mapped = edits as OffsetEdit[];
+    const conflict = mapped.some((e, i) =>
+      taken.some(t => overlaps(e, t)) || mapped.some((o, j) => j !== i && overlaps(e, o)));
+    if (conflict) continue;
+    taken.push(...mapped);
+    applied.push(v);
+  }
+  let output = content;
+  for (const e of taken.sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, e.start) + e.text + output.slice(e.end);
+  }
+  return { output, applied };
+}
+
+/** Lint and fix `content` until no further fix applies */
+export function fixContent(content: string, options: FixOptions): FixResult {
+  const fixed: Violation[] = [];
+  let output = content;
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const violations = lint(parse(output), options);
+    const result = applyFixes(output, violations, options.unsafe);
+    if (result.applied.length === 0 || result.output === output) break;
+    fixed.push(...result.applied);
+    output = result.output;
+  }
+  return { output, fixed };
+}
@@ -1,17 +1,58 @@
-import { DockerfileAST } from '../parser/types';
+import { DockerfileAST, DockerfileInstruction, Stage, Suppression } from '../parser/types';
 import { ALL_RULES, RULE_MAP } from '../rules/index';
-import { Rule, RuleContext, Violation } from '../rules/types';
-import { DockerVetConfig, getActiveIgnoreIds } from './config';
+import { Rule, RuleContext, Violation, ViolationSuppression } from '../rules/types';
+import { DockerVetConfig, IgnoreEntry, configuredSeverity, getActiveIgnores, getExpiredIgnores, ruleOptionsOf, ruleStatus } from './config';
+import { presetRulesOf } from './presets';
+import { createVariableResolver, BuildArgs } from '../parser/variables';
+import { PARSE_DIAGNOSTICS } from '../parser/diagnostics';
+import { selectTarget } from '../parser/stage-graph';
+import { collectInstructions, findInstruction, findStage } from '../parser/locate';
+import { platformOf } from '../rules/utils';
+import { configRulesOf } from './plugins';
+import { fingerprintViolations } from './fingerprint';
+import { touchesChange } from './changed-lines';
+import { SuppressionUsage, silencedBy } from './suppression-usage';
 
 export interface LintOptions {
   config: DockerVetConfig;
   trustedRegistries?: string[];
   filePath?: string;
+  /** `--build-arg` values used to resolve ARG references */
+  buildArgs?: BuildArgs;
+  /** `--target` stage: lint only the stages it needs, treating it as the final stage */
+  target?: string;
+  /** Lines a diff adds: report only violations that touch them (see engine/changed-lines) */
+  changedLines?: Set<number>;
+  /** Records which suppressions silenced a finding, over every file linted with it */
+  usage?: SuppressionUsage;
+  /** Return inline- and config-suppressed findings too, marked with `suppression` */
+  keepSuppressed?: boolean;
+}
+
+function configSuppression(entry: IgnoreEntry): ViolationSuppression {
+  return {
+    kind: 'config',
+    ...(entry.reason !== undefined && { reason: entry.reason }),
+    ...(entry.expires !== undefined && { expires: entry.expires }),
+  };
+}
+
+/** The inline suppression that silences `rule` at `line`, if any */
+function suppressionOf(ast: DockerfileAST, rule: string, line: number): Suppression | undefined {
+  return ast.suppressions.find(s => s.rule === rule && s.startLine <= line && line <= s.endLine);
 }
 
 export function lint(ast: DockerfileAST, options: LintOptions): Violation[] {
-  const { config } = options;
-  const ignoredRules = getActiveIgnoreIds(config);
+  const { config, usage } = options;
+  // Registered up front, so that the config's unused and expired ignore entries are reported even when nothing is silenced
+  const silenced = usage && silencedBy(usage, config);
+  if (options.target) {
+    const selected = selectTarget(ast, options.target);
+    if (!selected) throw new Error(`Target stage "${options.target}" not found`);
+    ast = selected;
+  }
+  const ignores = getActiveIgnores(config);
+  const presetRules = presetRulesOf(config);
   const trustedRegistries = options.trustedRegistries || config.trustedRegistries || [];
 
   const ctx: RuleContext = {
@@ -20,51 +61,136 @@ export function lint(ast: DockerfileAST, options: LintOptions): Violation[] {
     requiredLabels: config.requiredLabels || [],
     allowedLabels: config.allowedLabels,
     filePath: options.filePath,
+    variables: createVariableResolver(ast, options.buildArgs),
   };
 
   const violations: Violation[] = [];
+  const instructions = collectInstructions(ast);
+  const stageScoped = new Set<Violation>();
+  const usedSuppressions = new Set<Suppression>();
+  // Rules that ran, so that their inline suppressions could have matched
+  const ranRules = new Set<string>();
 
-  for (const rule of ALL_RULES) {
-    if (ignoredRules.has(rule.id)) continue;
+  const report = (v: Violation) => {
+    // Violations may point into a continuation line; suppressions apply from the instruction's first line
+    const inst = findInstruction(instructions, v.line);
+    const suppression = v.suppression ? undefined : suppressionOf(ast, v.rule, inst?.line ?? v.line);
+    if (suppression) {
+      usedSuppressions.add(suppression);
+      if (!options.keepSuppressed) return;
+      v.suppression = { kind: 'inline', ...(suppression.reason !== undefined && { reason: suppression.reason }) };
+    }
 
-    const ruleViolations = rule.check(ctx);
+    // Without a precise column, highlight the whole instruction
+    if (inst && v.column === undefined && v.line === inst.line) {
+      v.column = inst.column;
+      v.endLine = inst.endLine;
+      v.endColumn = inst.endColumn;
+    }
 
-    for (const v of ruleViolations) {
-      // Check inline ignores
-      const lineIgnores = ast.inlineIgnores.get(v.line);
-      if (lineIgnores && lineIgnores.includes(v.rule)) continue;
+    // Apply severity override, else the severity the preset gives the rule
+    const severity = configuredSeverity(config, v.rule) ?? presetRules?.get(v.rule)?.severity;
+    if (severity) {
+      v.severity = severity as any;
+    }
 
-      // Apply severity override
-      const override = config.override?.[v.rule];
-      if (override?.severity) {
-        v.severity = override.severity as any;
-      }
+    violations.push(v);
+  };
 
-      violations.push(v);
-    }
+  // A finding of a rule the config ignores counts as a use of the ignore entry, and is kept when asked
+  const reportIgnored = (v: Violation) => {
+    silenced?.add(v.rule);
+    if (!options.keepSuppressed) return;
+    v.suppression = configSuppression(ignores.get(v.rule)!);
+    report(v);
+  };
+
+  // Parse diagnostics are reported under their DV0xxx code like rule violations
+  for (const d of ast.diagnostics) {
+    const { line, column, endLine, endColumn } = d;
+    const v: Violation = { rule: d.code, severity: d.severity, message: d.message, line, column, endLine, endColumn };
+    if (ignores.has(d.code)) reportIgnored(v);
+    else report(v);
   }
 
-  // DL3056: Validate inline ignore rule IDs against known rules
-  if (!ignoredRules.has('DL3056')) {
-    const ignoreCommentRe = /^#\s*(?:dockervet|hadolint)\s+ignore\s*=\s*(.+)$/i;
-    for (const comment of ast.comments) {
-      const m = comment.arguments.match(ignoreCommentRe);
-      if (!m) continue;
-      const ruleIds = m[1].split(',').map(r => r.trim()).filter(Boolean);
-      for (const rid of ruleIds) {
-        if (!RULE_MAP.has(rid)) {
-          violations.push({ rule: 'DL3056', severity: 'style', message: `Unknown rule ID "${rid}" in inline ignore comment. Check for typos.`, line: comment.line });
-        }
+  const configRules = configRulesOf(config);
+  for (const rule of [...ALL_RULES, ...configRules]) {
+    const status = ruleStatus(config, rule);
+    // An ignored rule runs to keep its findings as suppressed, or until it shows that its ignore entry silences something
+    const runIgnored = !!status.ignored && (!!options.keepSuppressed || (!!silenced && !silenced.has(rule.id)));
+    if (!status.enabled && !runIgnored) continue;
+    if (status.enabled) ranRules.add(rule.id);
+    const ruleOptions = ruleOptionsOf(config, rule);
+    for (const v of rule.check(ruleOptions ? { ...ctx, options: ruleOptions } : ctx)) {
+      // Platform-specific rules stay quiet in stages built for the other platform
+      if (rule.platform) {
+        const stage = findStage(ast, v.line);
+        if (stage && platformOf(ctx, stage) !== rule.platform) continue;
+      }
+      if (rule.scope === 'stage') stageScoped.add(v);
+      if (status.enabled) {
+        report(v);
+      } else {
+        reportIgnored(v);
+        if (!options.keepSuppressed) break;
       }
     }
   }
 
+  // DL3056: Validate inline suppression rule IDs against known rules
+  const known = (rid: string) => RULE_MAP.has(rid) || rid in PARSE_DIAGNOSTICS || configRules.some(r => r.id === rid);
+  for (const { rule: rid, line } of ast.suppressions) {
+    if (known(rid)) continue;
+    const message = rid.includes('/')
+      ? `Unknown plugin rule ID "${rid}" in inline ignore comment. Check for typos and that the plugin is listed under plugins in the config.`
+      : `Unknown rule ID "${rid}" in inline ignore comment. Check for typos.`;
+    const v: Violation = { rule: 'DL3056', severity: 'style', message, line };
+    if (ignores.has('DL3056')) reportIgnored(v);
+    else report(v);
+  }
+
+  // DV9011: inline suppressions that silenced nothing, and expired config ignore entries
+  const ran = (rid: string) => rid in PARSE_DIAGNOSTICS || rid === 'DL3056' ? !ignores.has(rid) : ranRules.has(rid);
+  // With --target, suppressions in skipped stages have nothing to silence
+  const linted = (s: Suppression) =>
+    !options.target || instructions.some(i => i.line <= s.endLine && s.startLine <= (i.endLine ?? i.line));
+  const unused = ast.suppressions.filter(s => s.rule !== 'DV9011' && !usedSuppressions.has(s) && known(s.rule) && ran(s.rule) && linted(s));
+  usage?.unusedInline.push(...unused.map(suppression => ({ filePath: options.filePath, suppression })));
+  const stale: Violation[] = unused.map(s => ({
+    rule: 'DV9011', severity: 'info', line: s.line,
+    message: s.startLine > s.endLine
+      ? `Inline ignore of ${s.rule} has no instruction directly below it, so it suppresses nothing.`
+      : `Inline suppression of ${s.rule} matches no finding. Remove the comment.`,
+  }));
+  for (const entry of getExpiredIgnores(config)) {
+    const first = violations.find(v => v.rule === entry.id && !v.suppression);
+    if (!first) continue;
+    stale.push({
+      rule: 'DV9011', severity: 'info', line: first.line,
+      message: `The config ignore entry for ${entry.id} expired on ${entry.expires}, so its findings are reported again. Fix them or renew the entry.`,
+    });
+  }
+  if (ranRules.has('DV9011')) stale.forEach(report);
+  else if (ruleStatus(config, RULE_MAP.get('DV9011')!).ignored) stale.forEach(reportIgnored);
+
   // Deduplicate: if DV1001 (error) already covers a line, drop DV1011 (warning) for the same line
-  const dv1001Lines = new Set(violations.filter(v => v.rule === 'DV1001').map(v => v.line));
+  const dv1001Lines = new Set(violations.filter(v => v.rule === 'DV1001' && !v.suppression).map(v => v.line));
   const deduped = violations.filter(v => !(v.rule === 'DV1011' && dv1001Lines.has(v.line)));
 
-  // Sort by line number
-  deduped.sort((a, b) => a.line - b.line || a.rule.localeCompare(b.rule));
+  // Sort by position
+  deduped.sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0) || a.rule.localeCompare(b.rule));
 
+  // Suppressed findings are fingerprinted apart, so that keeping them does not shift the occurrence index of others
+  for (const group of [deduped.filter(v => !v.suppression), deduped.filter(v => v.suppression)]) {
+    fingerprintViolations(ast, group, options.filePath).forEach((fingerprint, i) => {
+      group[i].fingerprint = fingerprint;
+    });
+  }
+
+  // Filter by the diff last, so that fingerprints do not depend on it
+  const { changedLines } = options;
+  if (changedLines) {
+    return deduped.filter(v => touchesChange(ast, instructions, v, changedLines, stageScoped.has(v)));
+  }
   return deduped;
 }
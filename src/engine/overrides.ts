@@ -0,0 +1,101 @@
+/**
+ * Path-based config sections from `overrides:`. An entry whose `files` globs match a
+ * Dockerfile adds its `ignore` entries, `override` and `rules` settings and
+ * `severityThreshold` to the config for that file only; later entries win over earlier ones.
+ *
+ * Globs match the path relative to the directory of the config file that declares them
+ * (the working directory for configs built in code): `*` and `?` stay within one path
+ * segment, `**` spans any number of segments, and `{a,b}` matches either alternative.
+ * Remote names such as `github:owner/repo/Dockerfile` are matched as they are.
+ */
+import * as path from 'path';
+import { ConfigOverride, DockerVetConfig, ignoreSourcesOf, mergeRuleSettings, overrideIgnoreSource } from './config';
+import { isLocalFile } from './fingerprint';
+
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const slash = glob[i + 2] === '/';
+      i += slash && atStart ? 2 : 1;
+      // `**/` also matches no directory at all; a trailing `/**` also matches the directory itself
+      if (slash && atStart) re += '(?:.*/)?';
+      else if (atStart && i === glob.length - 1 && re.endsWith('/')) re = `${re.slice(0, -1)}(?:/.*)?`;
+      else re += '.*';
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      braces++;
+      re += '(?:';
+    } else if (c === '}' && braces > 0) {
+      braces--;
+      re += ')';
+    } else if (c === ',' && braces > 0) {
+      re += '|';
+    } else {
+      re += c.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+interface CompiledOverride {
+  entry: ConfigOverride;
+  patterns: RegExp[];
+}
+
+const compiled = new WeakMap<ConfigOverride[], CompiledOverride[]>();
+
+/** The config's overrides with their globs compiled once per config; throws on entries without `files` */
+export function overridesOf(config: DockerVetConfig): CompiledOverride[] {
+  const entries = config.overrides;
+  if (!entries || entries.length === 0) return [];
+  let result = compiled.get(entries);
+  if (!result) {
+    result = entries.map((entry, i) => {
+      const files = [entry.files ?? []].flat();
+      if (files.length === 0) throw new Error(`overrides[${i}] has no files patterns`);
+      return { entry, patterns: files.map(globToRegExp) };
+    });
+    compiled.set(entries, result);
+  }
+  return result;
+}
+
+/** The path `files` globs of an override are matched against */
+function matchPath(entry: ConfigOverride, filePath: string): string {
+  if (!isLocalFile(filePath)) return filePath;
+  const relative = path.relative(entry.baseDir ?? process.cwd(), path.resolve(filePath));
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * The config that applies to one Dockerfile: `config` with the overrides matching
+ * `filePath` merged in, and without `overrides`. Returns `config` when none match.
+ */
+export function configForFile(config: DockerVetConfig, filePath: string): DockerVetConfig {
+  const matching = overridesOf(config)
+    .map(({ entry, patterns }, index) => ({ entry, index, matches: patterns.some(re => re.test(matchPath(entry, filePath))) }))
+    .filter(({ matches }) => matches);
+  if (matching.length === 0) return config;
+
+  const { overrides: _, ...resolved } = config;
+  resolved.ignore = [...config.ignore];
+  resolved.ignoreSources = [...ignoreSourcesOf(config)];
+  resolved.override = { ...config.override };
+  for (const { entry, index } of matching) {
+    resolved.ignore.push(...(entry.ignore ?? []));
+    if (entry.ignore) resolved.ignoreSources.push(overrideIgnoreSource(entry, index));
+    for (const [id, settings] of Object.entries(entry.override ?? {})) {
+      resolved.override[id] = { ...resolved.override[id], ...settings };
+    }
+    if (entry.rules) resolved.rules = mergeRuleSettings(resolved.rules, entry.rules);
+    if (entry.severityThreshold !== undefined) resolved.severityThreshold = entry.severityThreshold;
+  }
+  return resolved;
+}
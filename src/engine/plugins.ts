@@ -0,0 +1,107 @@
+/**
+ * Rule plugins listed under `plugins:` in the config.
+ *
+ * A plugin is a JS/TS module or package exporting `Rule[]`: as the module itself
+ * (`module.exports = [...]`), as `default`, or as `rules` next to an optional `namespace`
+ * that is prefixed to its rule IDs. A config's plugin rules run for the files linted with
+ * that config only (see `pluginRulesOf`); `loadPlugins` registers them for every config.
+ */
+import * as path from 'path';
+import { Rule } from '../rules/types';
+import { RULE_MAP, pluginRule, registerRule } from '../rules/index';
+import { customRulesOf } from './custom-rules';
+import type { DockerVetConfig } from './config';
+
+interface PluginModule {
+  namespace?: string;
+  rules?: Rule[];
+  default?: Rule[] | PluginModule;
+}
+
+function pluginRules(mod: unknown): { rules: Rule[]; namespace?: string } | undefined {
+  if (Array.isArray(mod)) return { rules: mod };
+  if (!mod || typeof mod !== 'object') return undefined;
+  const m = mod as PluginModule;
+  if (Array.isArray(m.rules)) return { rules: m.rules, namespace: m.namespace };
+  if (m.default) return pluginRules(m.default);
+  return undefined;
+}
+
+/** Resolve a plugin spec: paths relative to `baseDir`, anything else as a package from there */
+export function resolvePlugin(spec: string, baseDir: string): string {
+  if (spec.startsWith('.') || path.isAbsolute(spec)) return path.resolve(baseDir, spec);
+  return require.resolve(spec, { paths: [baseDir] });
+}
+
+/** The checked, namespaced rules of one plugin; `require` caches the module */
+function loadPlugin(spec: string, baseDir: string): Rule[] {
+  let mod: unknown;
+  try {
+    mod = require(resolvePlugin(spec, baseDir));
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException;
+    const hint = e.code === 'ERR_UNKNOWN_FILE_EXTENSION'
+      ? ' (TypeScript plugins need a runtime that can load .ts files, such as tsx)'
+      : '';
+    throw new Error(`Cannot load plugin "${spec}": ${e.message}${hint}`);
+  }
+  const plugin = pluginRules(mod);
+  if (!plugin) throw new Error(`Plugin "${spec}" does not export an array of rules`);
+  return plugin.rules.map(rule => {
+    try {
+      return pluginRule(rule, plugin.namespace);
+    } catch (err) {
+      throw new Error(`Plugin "${spec}": ${(err as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Load and register the rules of each plugin, so that they run under every config.
+ * Loading the same plugin again registers nothing new.
+ */
+export function loadPlugins(specs: string[], baseDir = process.cwd()): Rule[] {
+  return specs.flatMap(spec => loadPlugin(spec, baseDir).map(rule => {
+    try {
+      return registerRule(rule);
+    } catch (err) {
+      throw new Error(`Plugin "${spec}": ${(err as Error).message}`);
+    }
+  }));
+}
+
+const loaded = new WeakMap<string[], Rule[]>();
+
+/**
+ * The rules of the config's plugins, loaded once per config; they are not registered, so
+ * other configs do not run them. Rules already registered with `loadPlugins` are left out,
+ * as they run anyway. Throws on plugins that cannot be loaded and on IDs that are taken.
+ */
+export function pluginRulesOf(config: DockerVetConfig): Rule[] {
+  const specs = config.plugins;
+  if (!specs || specs.length === 0) return [];
+  let rules = loaded.get(specs);
+  if (!rules) {
+    const seen = new Set<string>();
+    rules = [];
+    for (const spec of specs) {
+      for (const rule of loadPlugin(spec, process.cwd())) {
+        if (RULE_MAP.get(rule.id) === rule) continue;
+        if (RULE_MAP.has(rule.id) || seen.has(rule.id)) throw new Error(`Plugin "${spec}": Rule ID "${rule.id}" is already registered`);
+        seen.add(rule.id);
+        rules.push(rule);
+      }
+    }
+    loaded.set(specs, rules);
+  }
+  return rules;
+}
+
+/** The plugin and custom rules of the config, which run next to ALL_RULES */
+export function configRulesOf(config: DockerVetConfig): Rule[] {
+  const plugins = pluginRulesOf(config);
+  const custom = customRulesOf(config);
+  const clash = custom.find(c => plugins.some(p => p.id === c.id));
+  if (clash) throw new Error(`Custom rule "${clash.id}" uses the ID of a built-in or plugin rule`);
+  return [...plugins, ...custom];
+}
@@ -0,0 +1,107 @@
+/**
+ * Rule presets, selected with `preset:` or `extends:` in the config or with `--preset`.
+ *
+ * A preset enables a subset of the built-in rules, optionally at another severity. Once a
+ * config names a preset, built-in rules outside all of its presets are off unless `override`
+ * mentions them; plugin and custom rules are not affected. `ignore` and `override` apply on
+ * top of the presets.
+ */
+import { ALL_RULES, BUILTIN_RULE_IDS } from '../rules/index';
+import { ruleMeta } from '../rules/catalog';
+import { Rule, Severity } from '../rules/types';
+import type { DockerVetConfig } from './config';
+
+export interface Preset {
+  description: string;
+  includes(rule: Rule): boolean;
+  /** Severity the preset gives an included rule; the rule's own when undefined */
+  severity?(rule: Rule): Severity | undefined;
+}
+
+/** A rule enabled by presets: the preset that enabled it and the severity it gave */
+export interface PresetRule {
+  preset: string;
+  severity?: Severity;
+}
+
+/**
+ * hadolint's default severity of each DL rule DockerVet implements (hadolint 2.12). Rules
+ * left out are not reported by hadolint by default: DL3057 is off unless enabled, and
+ * DL3005, DL3017, DL3031 and DL3039 were removed from hadolint.
+ */
+export const HADOLINT_SEVERITIES: Record<string, Severity> = {
+  DL3000: 'error', DL3001: 'info', DL3002: 'warning', DL3003: 'warning', DL3004: 'error',
+  DL3006: 'warning', DL3007: 'warning', DL3008: 'warning', DL3009: 'info', DL3010: 'info',
+  DL3011: 'error', DL3012: 'error', DL3013: 'warning', DL3014: 'warning', DL3015: 'info',
+  DL3016: 'warning', DL3018: 'warning', DL3019: 'info', DL3020: 'error', DL3021: 'error',
+  DL3022: 'warning', DL3023: 'error', DL3024: 'error', DL3025: 'warning', DL3026: 'error',
+  DL3027: 'warning', DL3028: 'warning', DL3029: 'warning', DL3030: 'warning', DL3032: 'warning',
+  DL3033: 'warning', DL3034: 'warning', DL3035: 'warning', DL3036: 'warning', DL3037: 'warning',
+  DL3038: 'warning', DL3040: 'warning', DL3041: 'warning', DL3042: 'warning', DL3043: 'error',
+  DL3044: 'error', DL3045: 'warning', DL3046: 'warning', DL3047: 'info', DL3048: 'style',
+  DL3049: 'info', DL3050: 'info', DL3051: 'warning', DL3052: 'warning', DL3053: 'warning',
+  DL4006: 'warning',
+};
+
+export const PRESETS: Record<string, Preset> = {
+  hadolint: {
+    description: 'DL rules only, at hadolint\'s default severities',
+    includes: rule => Object.prototype.hasOwnProperty.call(HADOLINT_SEVERITIES, rule.id),
+    severity: rule => HADOLINT_SEVERITIES[rule.id],
+  },
+  recommended: {
+    description: 'Security and supply-chain rules that report errors or warnings',
+    includes: rule => {
+      const category = ruleMeta(rule)?.category;
+      return (category === 'security' || category === 'supply-chain')
+        && (rule.severity === 'error' || rule.severity === 'warning');
+    },
+  },
+  strict: {
+    description: 'Every rule, with info rules promoted to warning',
+    includes: () => true,
+    severity: rule => rule.severity === 'info' ? 'warning' : undefined,
+  },
+  cis: {
+    description: 'Rules mapped to CIS Docker Benchmark section 4 (container images and build file)',
+    includes: rule => (ruleMeta(rule)?.cis ?? []).some(cis => cis.startsWith('4.')),
+  },
+};
+
+/** Preset names from `extends:` followed by `preset:`, without repeats */
+export function presetsOf(config: DockerVetConfig): string[] {
+  const names = [config.extends ?? [], config.preset ?? []].flat();
+  return [...new Set(names)];
+}
+
+const resolved = new Map<string, Map<string, PresetRule>>();
+
+/**
+ * The built-in rules the presets enable, keyed by rule ID. A rule in several presets takes
+ * the last one's name and severity. Throws on an unknown preset.
+ */
+export function resolvePresets(names: string[]): Map<string, PresetRule> {
+  const key = names.join(',');
+  const cached = resolved.get(key);
+  if (cached) return cached;
+
+  const rules = new Map<string, PresetRule>();
+  for (const name of names) {
+    const preset = Object.prototype.hasOwnProperty.call(PRESETS, name) ? PRESETS[name] : undefined;
+    if (!preset) {
+      throw new Error(`Unknown preset "${name}". Expected one of: ${Object.keys(PRESETS).join(', ')}`);
+    }
+    for (const rule of ALL_RULES) {
+      if (!BUILTIN_RULE_IDS.has(rule.id) || !preset.includes(rule)) continue;
+      rules.set(rule.id, { preset: name, severity: preset.severity?.(rule) });
+    }
+  }
+  resolved.set(key, rules);
+  return rules;
+}
+
+/** Rules enabled by the config's presets, or undefined when it names none */
+export function presetRulesOf(config: DockerVetConfig): Map<string, PresetRule> | undefined {
+  const names = presetsOf(config);
+  return names.length > 0 ? resolvePresets(names) : undefined;
+}
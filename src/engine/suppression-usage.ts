@@ -0,0 +1,89 @@
+/**
+ * Suppression debt (`--report-unused-ignores`): which inline suppressions and config `ignore`
+ * entries silenced nothing over a run, and which `ignore` entries have expired.
+ *
+ * A config ignore applies to every file linted with a config that includes it, so an entry
+ * counts as unused only when it silenced nothing in any of them. Entries are reported
+ * against the config file (or `overrides:` entry) that declares them.
+ */
+import { Suppression } from '../parser/types';
+import { DockerVetConfig, IgnoreEntry, IgnoreSource, getActiveIgnoreIds, getExpiredIgnores, ignoreSourcesOf } from './config';
+
+/** An inline suppression that silenced nothing, and the file it is in */
+export interface UnusedSuppression {
+  filePath?: string;
+  suppression: Suppression;
+}
+
+/** Filled in by `lint` when passed as `LintOptions.usage` */
+export interface SuppressionUsage {
+  /** Per config files were linted with: rule IDs whose `ignore` entry silenced at least one finding */
+  config: Map<DockerVetConfig, Set<string>>;
+  unusedInline: UnusedSuppression[];
+}
+
+/** A config `ignore` entry and where it is declared */
+export interface ConfigIgnore<E extends string | IgnoreEntry = string | IgnoreEntry> {
+  entry: E;
+  source: IgnoreSource;
+}
+
+export interface UnusedIgnores {
+  inline: UnusedSuppression[];
+  /** Active config `ignore` entries that silenced nothing */
+  config: ConfigIgnore[];
+  expired: ConfigIgnore<IgnoreEntry>[];
+}
+
+export function createSuppressionUsage(): SuppressionUsage {
+  return { config: new Map(), unusedInline: [] };
+}
+
+/** The rule IDs whose `ignore` entry in `config` silenced a finding so far */
+export function silencedBy(usage: SuppressionUsage, config: DockerVetConfig): Set<string> {
+  let silenced = usage.config.get(config);
+  if (!silenced) usage.config.set(config, silenced = new Set());
+  return silenced;
+}
+
+/** Sources loaded from a file are loaded again for each Dockerfile, so they are told apart by file */
+function sourceKey(source: IgnoreSource): unknown {
+  return source.file !== undefined ? `${source.file}\0${source.override ?? ''}` : source;
+}
+
+/**
+ * Unused and expired entries of the configs files were linted with, and of `config`, which
+ * may be one no file was linted with (such as the run's config).
+ */
+export function unusedIgnores(config: DockerVetConfig, usage: SuppressionUsage): UnusedIgnores {
+  const id = (entry: string | IgnoreEntry) => typeof entry === 'string' ? entry : entry.id;
+  const sources = new Map<unknown, { source: IgnoreSource; active: Set<number>; used: Set<number>; expired: Set<number> }>();
+  const configs = usage.config.has(config) ? usage.config : new Map([[config, new Set<string>()], ...usage.config]);
+
+  for (const [c, silenced] of configs) {
+    const active = getActiveIgnoreIds(c);
+    const expired = new Set(getExpiredIgnores(c));
+    for (const source of ignoreSourcesOf(c)) {
+      const key = sourceKey(source);
+      let state = sources.get(key);
+      if (!state) sources.set(key, state = { source, active: new Set(), used: new Set(), expired: new Set() });
+      source.entries.forEach((entry, i) => {
+        if (typeof entry !== 'string' && expired.has(entry)) {
+          state!.expired.add(i);
+        } else if (active.has(id(entry))) {
+          state!.active.add(i);
+          if (silenced.has(id(entry))) state!.used.add(i);
+        }
+      });
+    }
+  }
+
+  const report: UnusedIgnores = { inline: usage.unusedInline, config: [], expired: [] };
+  for (const state of sources.values()) {
+    state.source.entries.forEach((entry, i) => {
+      if (state.active.has(i) && !state.used.has(i)) report.config.push({ entry, source: state.source });
+      if (state.expired.has(i)) report.expired.push({ entry: entry as IgnoreEntry, source: state.source });
+    });
+  }
+  return report;
+}
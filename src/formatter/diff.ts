@@ -0,0 +1,69 @@
+/**
+ * Unified diff of two versions of a file, as printed by `--fix-dry-run`.
+ */
+
+const CONTEXT = 3;
+
+type Op = { kind: ' ' | '-' | '+'; text: string };
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/** Line operations turning `a` into `b`, from a longest common subsequence */
+function diffLines(a: string[], b: string[]): Op[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: ' ', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ kind: '-', text: a[i++] });
+    } else {
+      ops.push({ kind: '+', text: b[j++] });
+    }
+  }
+  return ops;
+}
+
+/** Unified diff with three lines of context; empty when the texts are equal */
+export function formatUnifiedDiff(before: string, after: string, filename: string): string {
+  if (before === after) return '';
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops.map((op, k) => op.kind !== ' ' ? k : -1).filter(k => k >= 0);
+  if (changed.length === 0) return '';
+
+  const out = [`--- ${filename}`, `+++ ${filename}`];
+  let k = 0;
+  while (k < changed.length) {
+    // Grow the hunk while the next change is within two context windows
+    let last = k;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= CONTEXT * 2) last++;
+    const start = Math.max(0, changed[k] - CONTEXT);
+    const end = Math.min(ops.length, changed[last] + CONTEXT + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.kind !== '+') oldLine++;
+      if (op.kind !== '-') newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.kind !== '+').length;
+    const newCount = hunk.filter(op => op.kind !== '-').length;
+    out.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+    for (const op of hunk) out.push(op.kind + op.text);
+    k = last + 1;
+  }
+  return out.join('\n') + '\n';
+}
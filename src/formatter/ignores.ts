@@ -0,0 +1,29 @@
+import * as path from 'path';
+import { IgnoreSource } from '../engine/config';
+import { UnusedIgnores } from '../engine/suppression-usage';
+
+const SCOPE_TEXT = { 'next-line': 'ignore', block: 'disable block', file: 'file-wide disable' } as const;
+
+/** The config file relative to the working directory, and the `overrides:` entry in it */
+function sourceText(source: IgnoreSource): string {
+  const file = source.file !== undefined ? path.relative(process.cwd(), source.file).split(path.sep).join('/') : 'config';
+  return source.override !== undefined ? `${file} overrides[${source.override}]` : file;
+}
+
+/** Suppression debt as printed by `--report-unused-ignores` */
+export function formatUnusedIgnores(report: UnusedIgnores): string {
+  const lines: string[] = [];
+  for (const { filePath, suppression: s } of report.inline) {
+    const reason = s.reason ? ` (reason: ${s.reason})` : '';
+    lines.push(`${filePath ?? '<stdin>'}:${s.line}  ${s.rule}  ${SCOPE_TEXT[s.scope]} matches no finding${reason}`);
+  }
+  for (const { entry, source } of report.config) {
+    const id = typeof entry === 'string' ? entry : entry.id;
+    lines.push(`${sourceText(source)}  ${id}  ignore entry matches no finding`);
+  }
+  for (const { entry, source } of report.expired) {
+    lines.push(`${sourceText(source)}  ${entry.id}  ignore entry expired on ${entry.expires}`);
+  }
+  if (lines.length === 0) return 'No unused or expired suppressions.\n';
+  return `Unused and expired suppressions (${lines.length}):\n${lines.map(line => `  ${line}`).join('\n')}\n`;
+}
@@ -1,23 +1,47 @@
-import { Violation } from '../rules/types';
+import { Rule, RuleCategory, Violation, ViolationSuppression } from '../rules/types';
+import { RULE_MAP } from '../rules/index';
+import { ruleMeta } from '../rules/catalog';
 
 export interface ViolationEntry {
   file: string;
   line: number;
   column: number;
+  endLine?: number;
+  endColumn?: number;
   rule: string;
   severity: 'error' | 'warning' | 'info' | 'style';
   message: string;
+  category?: RuleCategory;
+  cwe?: string[];
+  cis?: string[];
+  fingerprint?: string;
+  /** Present on suppressed findings, which do not count towards the exit code */
+  suppression?: ViolationSuppression;
 }
 
-export function formatJSON(violations: Violation[], filename: string): string {
-  return JSON.stringify(violations.map(v => ({
-    file: filename,
+/** `extraRules` describes rules outside RULE_MAP, such as plugin and custom rules of the config */
+function toEntry(v: Violation, file: string, extraRules: Rule[] = []): ViolationEntry {
+  const rule = RULE_MAP.get(v.rule) ?? extraRules.find(r => r.id === v.rule);
+  const meta = rule && ruleMeta(rule);
+  return {
+    file,
     line: v.line,
     column: v.column || 1,
+    endLine: v.endLine,
+    endColumn: v.endColumn,
     rule: v.rule,
     severity: v.severity,
     message: v.message,
-  })), null, 2);
+    category: meta?.category,
+    cwe: meta?.cwe,
+    cis: meta?.cis,
+    fingerprint: v.fingerprint,
+    suppression: v.suppression,
+  };
+}
+
+export function formatJSON(violations: Violation[], filename: string, extraRules: Rule[] = []): string {
+  return JSON.stringify(violations.map(v => toEntry(v, filename, extraRules)), null, 2);
 }
 
 interface ProcessResult {
@@ -30,19 +54,12 @@ interface ProcessResult {
  * Format multiple file results as a single JSON array.
  * This ensures valid JSON output when processing multiple files.
  */
-export function formatJSONBatch(results: ProcessResult[]): string {
+export function formatJSONBatch(results: ProcessResult[], extraRules: Rule[] = []): string {
   const allViolations: ViolationEntry[] = [];
   
   for (const result of results) {
     for (const v of result.violations) {
-      allViolations.push({
-        file: result.filename,
-        line: v.line,
-        column: v.column || 1,
-        rule: v.rule,
-        severity: v.severity,
-        message: v.message,
-      });
+      allViolations.push(toEntry(v, result.filename, extraRules));
     }
   }
   
@@ -0,0 +1,98 @@
+import { RuleCatalogEntry, RuleOptionEntry } from '../rules/catalog';
+
+function status(e: RuleCatalogEntry): string {
+  return e.enabled === false ? 'disabled' : 'enabled';
+}
+
+function severityText(e: RuleCatalogEntry): string {
+  return e.defaultSeverity ? `${e.severity} (default: ${e.defaultSeverity})` : e.severity;
+}
+
+function references(e: RuleCatalogEntry): string[] {
+  return [...e.cwe ?? [], ...(e.cis ?? []).map(cis => `CIS Docker Benchmark ${cis}`)];
+}
+
+function defaultText(o: RuleOptionEntry): string {
+  const value = Array.isArray(o.default) ? o.default.join(', ') : String(o.default);
+  return value || 'none';
+}
+
+function optionText(o: RuleOptionEntry): string {
+  return `${o.name} (${o.type}, default: ${defaultText(o)})`;
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => `  ${line}`).join('\n');
+}
+
+/** Markdown table cells cannot contain raw pipes or newlines */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/** Rule catalogue as printed by `dockervet rules`: aligned columns, a Markdown table or JSON */
+export function formatRuleList(entries: RuleCatalogEntry[], format: string): string {
+  if (format === 'json') return JSON.stringify(entries, null, 2);
+  if (format === 'md') {
+    const lines = ['| Rule | Severity | Category | Status | Description |', '|------|----------|----------|--------|-------------|'];
+    for (const e of entries) {
+      lines.push(`| [${e.id}](${e.url}) | ${e.severity} | ${e.category ?? '-'} | ${status(e)} | ${cell(e.description)} |`);
+    }
+    return lines.join('\n') + '\n';
+  }
+  const idWidth = Math.max(4, ...entries.map(e => e.id.length));
+  const categoryWidth = Math.max(8, ...entries.map(e => (e.category ?? '').length));
+  const row = (id: string, severity: string, category: string, state: string, description: string) =>
+    `${id.padEnd(idWidth)}  ${severity.padEnd(7)}  ${category.padEnd(categoryWidth)}  ${state.padEnd(8)}  ${description}`;
+  const lines = [row('RULE', 'LEVEL', 'CATEGORY', 'STATUS', 'DESCRIPTION')];
+  for (const e of entries) lines.push(row(e.id, e.severity, e.category ?? '-', status(e), e.description));
+  return lines.join('\n') + '\n';
+}
+
+/** One rule as printed by `dockervet explain` */
+export function formatRuleExplanation(e: RuleCatalogEntry, format: string): string {
+  if (format === 'json') return JSON.stringify(e, null, 2);
+  const refs = references(e);
+  if (format === 'md') {
+    const parts = [`## ${e.id}: ${e.description}`];
+    const facts = [`**Severity:** ${severityText(e)}`, `**Status:** ${status(e)}`];
+    if (e.preset) facts.push(`**Preset:** ${e.preset}`);
+    if (e.category) facts.push(`**Category:** ${e.category}`);
+    if (e.platform) facts.push(`**Platform:** ${e.platform}`);
+    if (refs.length > 0) facts.push(`**References:** ${refs.join(', ')}`);
+    parts.push(facts.join('  \n'));
+    if (e.rationale) parts.push(e.rationale);
+    if (e.remediation) parts.push(`**Remediation:** ${e.remediation}`);
+    if (e.options) {
+      parts.push(`**Options:**\n\n${e.options.map(o => `- \`${o.name}\` (${o.type}, default: \`${defaultText(o)}\`): ${o.description}`).join('\n')}`);
+    }
+    if (e.example) {
+      parts.push(`Bad:\n\n\`\`\`dockerfile\n${e.example.bad}\n\`\`\``);
+      parts.push(`Good:\n\n\`\`\`dockerfile\n${e.example.good}\n\`\`\``);
+    }
+    parts.push(`See [DockerVet Rules](${e.url})`);
+    return parts.join('\n\n') + '\n';
+  }
+  const lines = [`${e.id}: ${e.description}`, ''];
+  lines.push(`Severity:    ${severityText(e)}`);
+  lines.push(`Status:      ${status(e)}`);
+  if (e.preset) lines.push(`Preset:      ${e.preset}`);
+  if (e.category) lines.push(`Category:    ${e.category}`);
+  if (e.platform) lines.push(`Platform:    ${e.platform}`);
+  if (refs.length > 0) lines.push(`References:  ${refs.join(', ')}`);
+  lines.push(`Docs:        ${e.url}`);
+  if (e.rationale) lines.push('', 'Why:', indent(e.rationale));
+  if (e.remediation) lines.push('', 'Fix:', indent(e.remediation));
+  if (e.options) {
+    const width = Math.max(...e.options.map(o => optionText(o).length));
+    lines.push('', `Options (rules.${e.id}.options):`, ...e.options.map(o => `  ${optionText(o).padEnd(width)}  ${o.description}`));
+  }
+  if (e.example) lines.push('', 'Bad:', indent(e.example.bad), '', 'Good:', indent(e.example.good));
+  return lines.join('\n') + '\n';
+}
+
+/** The rules named to `dockervet explain`: one JSON object for a single rule, an array for several */
+export function formatRuleExplanations(entries: RuleCatalogEntry[], format: string): string {
+  if (format === 'json' && entries.length > 1) return JSON.stringify(entries, null, 2);
+  return entries.map(e => formatRuleExplanation(e, format)).join('\n');
+}
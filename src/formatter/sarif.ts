@@ -1,5 +1,6 @@
-import { Violation } from '../rules/types';
+import { Rule, Violation, ViolationSuppression } from '../rules/types';
 import { RULE_MAP } from '../rules/index';
+import { catalogEntry, RuleCatalogEntry, ruleDocsUrl } from '../rules/catalog';
 
 const SEVERITY_MAP: Record<string, string> = {
   error: 'error',
@@ -8,6 +9,8 @@ const SEVERITY_MAP: Record<string, string> = {
   style: 'note',
 };
 
+const FINGERPRINT_KEY = 'dockervetFingerprint/v1';
+
 const PRECISION_MAP: Record<string, string> = {
   error: 'high',
   warning: 'medium',
@@ -15,40 +18,99 @@ const PRECISION_MAP: Record<string, string> = {
   style: 'low',
 };
 
-const DOCS_BASE = 'https://github.com/3-shake/DockerVet#rules';
-
 interface ProcessResult {
   filename: string;
   violations: Violation[];
   exitCode: number;
 }
 
-function buildRuleEntry(id: string) {
-  const rule = RULE_MAP.get(id);
-  const severity = rule?.severity || 'info';
-  const description = rule?.description || id;
-  const ruleUrl = rule?.url || `${DOCS_BASE}`;
-  const helpText = `${description}\n\nSee: ${ruleUrl}`;
+function helpMarkdown(entry: RuleCatalogEntry): string {
+  const parts = [`**${entry.id}**: ${entry.description}`];
+  if (entry.rationale) parts.push(entry.rationale);
+  if (entry.remediation) parts.push(`**Remediation:** ${entry.remediation}`);
+  if (entry.example) {
+    parts.push(`Bad:\n\n\`\`\`dockerfile\n${entry.example.bad}\n\`\`\``);
+    parts.push(`Good:\n\n\`\`\`dockerfile\n${entry.example.good}\n\`\`\``);
+  }
+  parts.push(`See [DockerVet Rules](${entry.url})`);
+  return parts.join('\n\n');
+}
+
+/** Tags for GitHub code scanning: `security` marks security alerts, CWEs use its external/cwe form */
+function ruleTags(entry: RuleCatalogEntry): string[] {
+  if (!entry.category) return ['security', 'dockerfile'];
+  const tags = ['dockerfile', entry.category];
+  if (entry.category === 'security' || entry.category === 'supply-chain') tags.unshift('security');
+  tags.push(...entry.tags ?? []);
+  tags.push(...(entry.cwe ?? []).map(cwe => `external/cwe/${cwe.toLowerCase()}`));
+  tags.push(...(entry.cis ?? []).map(cis => `cis-docker-benchmark/${cis}`));
+  // `security` is both the code-scanning tag and a category, and rule tags may repeat either
+  return [...new Set(tags)];
+}
+
+/** `extraRules` describes rules outside RULE_MAP, such as config custom rules */
+function buildRuleEntry(id: string, extraRules: Rule[] = []) {
+  const rule = RULE_MAP.get(id) ?? extraRules.find(r => r.id === id);
+  const entry: RuleCatalogEntry = rule
+    ? catalogEntry(rule)
+    : { id, severity: 'info', description: id, url: ruleDocsUrl({ id }) };
+  const helpText = [entry.description, entry.rationale, entry.remediation && `Remediation: ${entry.remediation}`, `See: ${entry.url}`]
+    .filter(Boolean).join('\n\n');
   return {
     id,
-    shortDescription: { text: description },
-    fullDescription: { text: description },
-    helpUri: ruleUrl,
+    shortDescription: { text: entry.description },
+    fullDescription: { text: entry.rationale ?? entry.description },
+    helpUri: entry.url,
     help: {
       text: helpText,
-      markdown: `**${id}**: ${description}\n\nSee [DockerVet Rules](${ruleUrl})`,
+      markdown: helpMarkdown(entry),
     },
-    defaultConfiguration: { level: SEVERITY_MAP[severity] || 'note' },
+    defaultConfiguration: { level: SEVERITY_MAP[entry.severity] || 'note' },
     properties: {
-      precision: PRECISION_MAP[severity] || 'low',
-      tags: ['security', 'dockerfile'],
+      precision: PRECISION_MAP[entry.severity] || 'low',
+      tags: ruleTags(entry),
+      ...(entry.category && { category: entry.category }),
+      ...(entry.cis && { cis: entry.cis }),
     },
   };
 }
 
-export function formatSARIF(violations: Violation[], filename: string): string {
+function buildRegion(v: Violation) {
+  const region: Record<string, number> = { startLine: v.line, startColumn: v.column || 1 };
+  if (v.endLine !== undefined) region.endLine = v.endLine;
+  if (v.endColumn !== undefined) region.endColumn = v.endColumn;
+  return region;
+}
+
+/** Inline comments are in-source suppressions; config ignores and baselines are external */
+function buildSuppression(suppression: ViolationSuppression) {
+  return {
+    kind: suppression.kind === 'inline' ? 'inSource' : 'external',
+    status: 'accepted',
+    ...(suppression.reason !== undefined && { justification: suppression.reason }),
+  };
+}
+
+/** Code scanning matches results across runs by `partialFingerprints`, so moved lines keep their alerts */
+function buildResult(v: Violation, uri: string) {
+  return {
+    ruleId: v.rule,
+    level: SEVERITY_MAP[v.severity] || 'note',
+    message: { text: v.message },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri },
+        region: buildRegion(v),
+      },
+    }],
+    ...(v.fingerprint && { partialFingerprints: { [FINGERPRINT_KEY]: v.fingerprint } }),
+    ...(v.suppression && { suppressions: [buildSuppression(v.suppression)] }),
+  };
+}
+
+export function formatSARIF(violations: Violation[], filename: string, extraRules: Rule[] = []): string {
   const usedRules = new Set(violations.map(v => v.rule));
-  const rules = Array.from(usedRules).map(id => buildRuleEntry(id));
+  const rules = Array.from(usedRules).map(id => buildRuleEntry(id, extraRules));
 
   const sarif = {
     $schema: 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json',
@@ -62,17 +124,7 @@ export function formatSARIF(violations: Violation[], filename: string): string {
           rules,
         },
       },
-      results: violations.map(v => ({
-        ruleId: v.rule,
-        level: SEVERITY_MAP[v.severity] || 'note',
-        message: { text: v.message },
-        locations: [{
-          physicalLocation: {
-            artifactLocation: { uri: filename },
-            region: { startLine: v.line, startColumn: v.column || 1 },
-          },
-        }],
-      })),
+      results: violations.map(v => buildResult(v, filename)),
     }],
   };
 
@@ -83,7 +135,7 @@ export function formatSARIF(violations: Violation[], filename: string): string {
  * Format multiple file results as a single SARIF output.
  * This ensures valid JSON output when processing multiple files.
  */
-export function formatSARIFBatch(results: ProcessResult[]): string {
+export function formatSARIFBatch(results: ProcessResult[], extraRules: Rule[] = []): string {
   const usedRules = new Set<string>();
 
   for (const result of results) {
@@ -92,21 +144,9 @@ export function formatSARIFBatch(results: ProcessResult[]): string {
     }
   }
 
-  const rules = Array.from(usedRules).map(id => buildRuleEntry(id));
-
-  const sarifResults = results.flatMap(result =>
-    result.violations.map(v => ({
-      ruleId: v.rule,
-      level: SEVERITY_MAP[v.severity] || 'note',
-      message: { text: v.message },
-      locations: [{
-        physicalLocation: {
-          artifactLocation: { uri: result.filename },
-          region: { startLine: v.line, startColumn: v.column || 1 },
-        },
-      }],
-    }))
-  );
+  const rules = Array.from(usedRules).map(id => buildRuleEntry(id, extraRules));
+
+  const sarifResults = results.flatMap(result => result.violations.map(v => buildResult(v, result.filename)));
 
   const sarif = {
     $schema: 'https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json',
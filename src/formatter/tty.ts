@@ -1,4 +1,4 @@
-import { Violation } from '../rules/types';
+import { Violation, ViolationSuppression } from '../rules/types';
 
 const COLORS = {
   error: '\x1b[31m',
@@ -10,7 +10,14 @@ const COLORS = {
   dim: '\x1b[2m',
 };
 
-export function formatTTY(violations: Violation[], filename: string, useColor = true): string {
+function suppressionNote(s: ViolationSuppression): string {
+  const details = [s.kind, s.reason, s.expires && `expires ${s.expires}`].filter(Boolean);
+  return `(suppressed: ${details.join(', ')})`;
+}
+
+/** Findings of one file; suppressed findings are left out unless `showSuppressed` */
+export function formatTTY(all: Violation[], filename: string, useColor = true, showSuppressed = false): string {
+  const violations = showSuppressed ? all : all.filter(v => !v.suppression);
   if (violations.length === 0) {
     return useColor
       ? `${COLORS.bold}${filename}${COLORS.reset}: ${COLORS.dim}No issues found ✓${COLORS.reset}\n`
@@ -25,19 +32,24 @@ export function formatTTY(violations: Violation[], filename: string, useColor =
   }
 
   for (const v of violations) {
+    const loc = v.column !== undefined ? `${v.line}:${v.column}` : `${v.line}`;
+    const note = v.suppression ? ` ${suppressionNote(v.suppression)}` : '';
     if (useColor) {
       const color = COLORS[v.severity] || COLORS.info;
-      lines.push(`  ${COLORS.dim}${v.line}${COLORS.reset} ${color}${v.severity}${COLORS.reset} ${COLORS.dim}${v.rule}${COLORS.reset} ${v.message}`);
+      const dimNote = note && `${COLORS.dim}${note}${COLORS.reset}`;
+      lines.push(`  ${COLORS.dim}${loc}${COLORS.reset} ${color}${v.severity}${COLORS.reset} ${COLORS.dim}${v.rule}${COLORS.reset} ${v.message}${dimNote}`);
     } else {
-      lines.push(`  ${v.line} ${v.severity} ${v.rule} ${v.message}`);
+      lines.push(`  ${loc} ${v.severity} ${v.rule} ${v.message}${note}`);
     }
   }
 
-  const errors = violations.filter(v => v.severity === 'error').length;
-  const warnings = violations.filter(v => v.severity === 'warning').length;
-  const infos = violations.filter(v => v.severity === 'info' || v.severity === 'style').length;
+  const counted = violations.filter(v => !v.suppression);
+  const errors = counted.filter(v => v.severity === 'error').length;
+  const warnings = counted.filter(v => v.severity === 'warning').length;
+  const infos = counted.filter(v => v.severity === 'info' || v.severity === 'style').length;
+  const suppressed = violations.length - counted.length;
 
-  const summary = `\n  ${errors} error(s), ${warnings} warning(s), ${infos} info(s)\n`;
+  const summary = `\n  ${errors} error(s), ${warnings} warning(s), ${infos} info(s)${suppressed > 0 ? `, ${suppressed} suppressed` : ''}\n`;
   if (useColor) {
     lines.push(`${COLORS.dim}${summary}${COLORS.reset}`);
   } else {
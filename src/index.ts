@@ -1,17 +1,35 @@
 #!/usr/bin/env node
 
 import * as fs from 'fs';
+import * as path from 'path';
 import { parse } from './parser/parser';
-import { lint } from './engine/linter';
-import { loadConfig } from './engine/config';
+import { lint, LintOptions } from './engine/linter';
+import { fixContent } from './engine/fixer';
+import { loadConfig, discoverConfig, checkRuleSettings, ruleStatus, DockerVetConfig } from './engine/config';
+import { configRulesOf } from './engine/plugins';
+import { presetRulesOf } from './engine/presets';
+import { configForFile, overridesOf } from './engine/overrides';
+import { isLocalFile } from './engine/fingerprint';
+import {
+  DEFAULT_BASELINE_FILE, baselineFileKey, baselineIndex, createBaseline, loadBaseline, markBaseline,
+  pruneBaseline, writeBaseline,
+} from './engine/baseline';
+import { ChangedLines, changedLinesOf, gitChangedLines, parseUnifiedDiff } from './engine/changed-lines';
+import { SuppressionUsage, createSuppressionUsage, unusedIgnores } from './engine/suppression-usage';
 import { formatTTY } from './formatter/tty';
 import { formatJSON, formatJSONBatch } from './formatter/json';
 import { formatSARIF, formatSARIFBatch } from './formatter/sarif';
+import { formatUnifiedDiff } from './formatter/diff';
+import { formatRuleExplanations, formatRuleList } from './formatter/rules';
+import { formatUnusedIgnores } from './formatter/ignores';
+import { ruleCatalog, RuleCatalogEntry, RULE_CATEGORIES } from './rules/catalog';
+import { RULE_MAP } from './rules/index';
 import { fetchDockerfiles } from './github';
-import { Violation } from './rules/types';
+import { Rule, RuleCategory, Violation } from './rules/types';
 import { extractComponents } from './sbom/extractor';
 import { formatCycloneDX } from './sbom/cyclonedx';
 import { formatSPDX } from './sbom/spdx';
+import { BuildArgs } from './parser/variables';
 
 const VERSION = '0.1.0';
 
@@ -23,13 +41,27 @@ Usage:
   dockervet [options] <Dockerfile> [Dockerfile...]
   dockervet --stdin
   dockervet --github <owner/repo or URL> [--branch <branch>]
-  dockervet sbom <Dockerfile> [--format cyclonedx|spdx|json]
+  dockervet sbom <Dockerfile> [--format cyclonedx|spdx|json] [--build-arg KEY=VALUE]
+  dockervet rules [--category <cat>] [--severity <level>] [--format tty|json|md] [--config <path>] [--preset <name>]
+  dockervet explain <RULE>... [--format tty|json|md] [--config <path>] [--preset <name>]
+  dockervet baseline create|prune [options] [Dockerfile...]
 
 Options:
   --format <tty|json|sarif>    Output format (default: tty)
   --config <path>              Config file path
+  --preset <name>              Rule preset: hadolint, recommended, strict, cis (repeatable)
   --trusted-registry <reg>     Trusted registry (repeatable)
   --ignore <rule>              Ignore rule (repeatable)
+  --build-arg <KEY=VALUE>      Resolve ARG KEY to VALUE, as docker build does (repeatable)
+  --target <stage>             Lint only the stages needed to build <stage>
+  --baseline <file>            Report only findings not recorded in the baseline file
+  --diff <patch>               Report only findings on lines the unified diff adds (- reads stdin)
+  --diff-base <git-rev>        Report only findings on lines added since <git-rev> (its merge base)
+  --show-suppressed            Also print suppressed findings (always in JSON and SARIF output)
+  --report-unused-ignores      Also list inline and config ignores that suppress nothing, or have expired
+  --fix                        Apply safe fixes in place (with --stdin, print the fixed file)
+  --fix-dry-run                Print fixes as a unified diff without writing
+  --fix-unsafe                 Also apply fixes that may change the build (implies --fix)
   --no-color                   Disable colored output
   --stdin                      Read Dockerfile from stdin
   --github <ref>               GitHub repo (owner/repo, URL, or blob URL)
@@ -41,16 +73,45 @@ SBOM subcommand:
   dockervet sbom <Dockerfile> --format cyclonedx   CycloneDX 1.5 JSON
   dockervet sbom <Dockerfile> --format spdx         SPDX 2.3 JSON
   dockervet sbom <Dockerfile> --format json          Same as cyclonedx
+
+Rules subcommands:
+  dockervet rules                     List all rules with severity, category and status under the config
+  dockervet rules --category security Only rules of one category (security, supply-chain, reliability,
+                                      efficiency, maintainability)
+  dockervet rules --severity error    Only rules with this severity after config overrides
+  dockervet rules --format json|md    Full catalogue as JSON, or a Markdown table
+  dockervet explain DV3023            Rationale, remediation and examples of a rule
+
+Baseline subcommands:
+  dockervet baseline create <Dockerfile...>   Record current findings in .dockervet-baseline.json
+                                              (or the file given with --baseline)
+  dockervet baseline prune                    Drop baseline entries that no longer reproduce
 `);
 }
 
+/**
+ * Parse a `--build-arg` value. Like docker build, a bare `KEY` takes its value from the environment.
+ */
+function addBuildArg(buildArgs: BuildArgs, spec: string | undefined): void {
+  if (!spec) return;
+  const eq = spec.indexOf('=');
+  if (eq > 0) {
+    buildArgs[spec.slice(0, eq)] = spec.slice(eq + 1);
+  } else if (eq < 0 && process.env[spec] !== undefined) {
+    buildArgs[spec] = process.env[spec]!;
+  }
+}
+
 function handleSbom(args: string[]): void {
   let format = 'cyclonedx';
   let file = '';
+  const buildArgs: BuildArgs = {};
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--format') {
       format = args[++i] || 'cyclonedx';
+    } else if (args[i] === '--build-arg') {
+      addBuildArg(buildArgs, args[++i]);
     } else if (!args[i].startsWith('-')) {
       file = args[i];
     }
@@ -68,7 +129,7 @@ function handleSbom(args: string[]): void {
 
   const content = fs.readFileSync(file, 'utf-8');
   const ast = parse(content);
-  const components = extractComponents(ast);
+  const components = extractComponents(ast, buildArgs);
 
   const fmt = format === 'spdx' ? 'spdx' : 'cyclonedx';
 
@@ -80,11 +141,115 @@ function handleSbom(args: string[]): void {
   process.exit(0);
 }
 
+/**
+ * Load the config (`--config`, else the configs discovered from `dir` up), add `--preset`
+ * names to its presets and load the plugin and custom rules it declares; exits on
+ * invalid configs, rules or unknown presets.
+ */
+function loadConfigWithRules(configPath?: string, presets: string[] = [], dir = process.cwd()): DockerVetConfig {
+  let config: DockerVetConfig;
+  try {
+    config = configPath !== undefined ? loadConfig(configPath) : discoverConfig(dir);
+    if (presets.length > 0) config.preset = [config.preset ?? [], presets].flat();
+    presetRulesOf(config);
+    overridesOf(config);
+    checkRuleSettings(config, [...RULE_MAP.values(), ...configRulesOf(config)]);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(3);
+  }
+  return config;
+}
+
+interface CatalogOptions {
+  format: string;
+  configPath?: string;
+  presets: string[];
+  category?: string;
+  severity?: string;
+  ruleIds: string[];
+}
+
+const CATALOG_FORMATS = ['tty', 'json', 'md'];
+
+function parseCatalogArgs(args: string[]): CatalogOptions {
+  const opts: CatalogOptions = { format: 'tty', presets: [], ruleIds: [] };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--format': opts.format = args[++i] || 'tty'; break;
+      case '--config': opts.configPath = args[++i]; break;
+      case '--preset': opts.presets.push(args[++i]); break;
+      case '--category': opts.category = args[++i]; break;
+      case '--severity': opts.severity = args[++i]; break;
+      default:
+        if (!args[i].startsWith('-')) opts.ruleIds.push(args[i]);
+    }
+  }
+  if (!CATALOG_FORMATS.includes(opts.format)) {
+    console.error(`Error: Unknown format "${opts.format}". Expected one of: ${CATALOG_FORMATS.join(', ')}`);
+    process.exit(3);
+  }
+  return opts;
+}
+
+/** Catalogue of built-in, plugin and custom rules with severities and state under the config */
+function configuredCatalog(opts: CatalogOptions): RuleCatalogEntry[] {
+  const config = loadConfigWithRules(opts.configPath, opts.presets);
+  return ruleCatalog([...RULE_MAP.values(), ...configRulesOf(config)], rule => ruleStatus(config, rule));
+}
+
+function handleRules(args: string[]): void {
+  const opts = parseCatalogArgs(args);
+  if (opts.category && !RULE_CATEGORIES.includes(opts.category as RuleCategory)) {
+    console.error(`Error: Unknown category "${opts.category}". Expected one of: ${RULE_CATEGORIES.join(', ')}`);
+    process.exit(3);
+  }
+  if (opts.severity && !['error', 'warning', 'info', 'style'].includes(opts.severity)) {
+    console.error(`Error: Unknown severity "${opts.severity}". Expected one of: error, warning, info, style`);
+    process.exit(3);
+  }
+  const entries = configuredCatalog(opts)
+    .filter(e => !opts.category || e.category === opts.category)
+    .filter(e => !opts.severity || e.severity === opts.severity);
+  process.stdout.write(formatRuleList(entries, opts.format));
+  process.exit(0);
+}
+
+function handleExplain(args: string[]): void {
+  const opts = parseCatalogArgs(args);
+  if (opts.ruleIds.length === 0) {
+    console.error('Error: No rule specified for explain subcommand.');
+    process.exit(3);
+  }
+  const catalog = configuredCatalog(opts);
+  const entries: RuleCatalogEntry[] = [];
+  for (const id of opts.ruleIds) {
+    const entry = catalog.find(e => e.id.toUpperCase() === id.toUpperCase());
+    if (!entry) {
+      console.error(`Error: Unknown rule "${id}". Run \`dockervet rules\` to list rules.`);
+      process.exit(3);
+    }
+    entries.push(entry);
+  }
+  process.stdout.write(formatRuleExplanations(entries, opts.format));
+  process.exit(0);
+}
+
 interface CLIOptions {
   format: string;
   configPath?: string;
+  presets: string[];
   trustedRegistries: string[];
   ignoreRules: string[];
+  buildArgs: BuildArgs;
+  target?: string;
+  baselinePath?: string;
+  diffPath?: string;
+  diffBase?: string;
+  showSuppressed: boolean;
+  reportUnusedIgnores: boolean;
+  fix?: 'write' | 'dry-run';
+  fixUnsafe: boolean;
   noColor: boolean;
   useStdin: boolean;
   githubRef?: string;
@@ -96,13 +261,26 @@ interface ProcessResult {
   filename: string;
   violations: Violation[];
   exitCode: number;
+  /** Fixed content, when fixes were requested */
+  output?: string;
+}
+
+/** A loaded `--baseline` file: recorded fingerprints per file key, and the file's directory */
+interface BaselineFilter {
+  index: Map<string, Set<string>>;
+  dir: string;
 }
 
 function parseArgs(args: string[]): CLIOptions {
   const opts: CLIOptions = {
     format: 'tty',
+    presets: [],
     trustedRegistries: [],
     ignoreRules: [],
+    buildArgs: {},
+    showSuppressed: false,
+    reportUnusedIgnores: false,
+    fixUnsafe: false,
     noColor: false,
     useStdin: false,
     files: [],
@@ -116,12 +294,45 @@ function parseArgs(args: string[]): CLIOptions {
       case '--config':
         opts.configPath = args[++i];
         break;
+      case '--preset':
+        opts.presets.push(args[++i]);
+        break;
       case '--trusted-registry':
         opts.trustedRegistries.push(args[++i]);
         break;
       case '--ignore':
         opts.ignoreRules.push(args[++i]);
         break;
+      case '--build-arg':
+        addBuildArg(opts.buildArgs, args[++i]);
+        break;
+      case '--target':
+        opts.target = args[++i];
+        break;
+      case '--baseline':
+        opts.baselinePath = args[++i];
+        break;
+      case '--diff':
+        opts.diffPath = args[++i];
+        break;
+      case '--diff-base':
+        opts.diffBase = args[++i];
+        break;
+      case '--show-suppressed':
+        opts.showSuppressed = true;
+        break;
+      case '--report-unused-ignores':
+        opts.reportUnusedIgnores = true;
+        break;
+      case '--fix':
+        opts.fix = 'write';
+        break;
+      case '--fix-dry-run':
+        opts.fix = 'dry-run';
+        break;
+      case '--fix-unsafe':
+        opts.fixUnsafe = true;
+        break;
       case '--no-color':
         opts.noColor = true;
         break;
@@ -142,14 +353,147 @@ function parseArgs(args: string[]): CLIOptions {
     }
   }
 
+  if (opts.fixUnsafe && !opts.fix) opts.fix = 'write';
   return opts;
 }
 
+/**
+ * Config for a lint run, or for the Dockerfile `file` (found from its directory up): the
+ * loaded config with `--preset`, `--ignore` and `--trusted-registry` added
+ */
+function configFromOptions(opts: CLIOptions, file?: string): DockerVetConfig {
+  const dir = file !== undefined && isLocalFile(file) ? path.dirname(path.resolve(file)) : undefined;
+  const config = loadConfigWithRules(opts.configPath, opts.presets, dir);
+  config.ignore = [...config.ignore, ...opts.ignoreRules] as (string | import('./engine/config').IgnoreEntry)[];
+  if (opts.trustedRegistries.length > 0) {
+    config.trustedRegistries = [...config.trustedRegistries, ...opts.trustedRegistries];
+  }
+  return config;
+}
+
+/** The plugin and custom rules of every config of the run, so JSON and SARIF output describe them all */
+function configRulesOfAll(configs: DockerVetConfig[]): Rule[] {
+  const rules = new Map<string, Rule>();
+  for (const c of configs) {
+    for (const rule of configRulesOf(c)) {
+      if (!rules.has(rule.id)) rules.set(rule.id, rule);
+    }
+  }
+  return [...rules.values()];
+}
+
+function loadBaselineFilter(file: string): BaselineFilter {
+  try {
+    return { index: baselineIndex(loadBaseline(file)), dir: path.dirname(path.resolve(file)) };
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(3);
+  }
+}
+
+/** Added lines from `--diff` (a patch file, or `-` for stdin) or `--diff-base`; exits on errors */
+function loadChangedLines(opts: CLIOptions): ChangedLines | undefined {
+  if (opts.diffPath !== undefined && opts.diffBase !== undefined) {
+    console.error('Error: Use either --diff or --diff-base, not both.');
+    process.exit(3);
+  }
+  if (opts.diffPath === '-' && opts.useStdin) {
+    console.error('Error: --diff - and --stdin cannot both read standard input.');
+    process.exit(3);
+  }
+  try {
+    if (opts.diffBase !== undefined) return gitChangedLines(opts.diffBase);
+    if (opts.diffPath !== undefined) return parseUnifiedDiff(fs.readFileSync(opts.diffPath === '-' ? 0 : opts.diffPath, 'utf-8'));
+  } catch (err) {
+    console.error(`Error: Cannot read diff: ${(err as Error).message}`);
+    process.exit(3);
+  }
+  return undefined;
+}
+
+/**
+ * `baseline create` lints the given files and records their findings; `baseline prune`
+ * re-lints the files the baseline mentions and drops entries that no longer reproduce.
+ */
+function handleBaseline(args: string[]): void {
+  const action = args[0];
+  if (action !== 'create' && action !== 'prune') {
+    console.error('Error: Expected `dockervet baseline create <Dockerfile...>` or `dockervet baseline prune`.');
+    process.exit(3);
+  }
+  const opts = parseArgs(args.slice(1));
+  const file = opts.baselinePath ?? DEFAULT_BASELINE_FILE;
+  const dir = path.dirname(path.resolve(file));
+  const lintFile = (name: string) =>
+    processContent(fs.readFileSync(name, 'utf-8'), name, configFromOptions(opts, name), opts.trustedRegistries, opts.buildArgs, opts.target);
+
+  if (action === 'create') {
+    if (opts.files.length === 0) {
+      console.error('Error: No Dockerfile specified for baseline create.');
+      process.exit(3);
+    }
+    const results: ProcessResult[] = [];
+    for (const name of opts.files) {
+      if (!fs.existsSync(name)) {
+        console.error(`Error: File not found: ${name}`);
+        process.exit(2);
+      }
+      results.push(lintFile(name));
+    }
+    const baseline = createBaseline(results, dir);
+    writeBaseline(file, baseline);
+    process.stderr.write(`Baseline with ${baseline.entries.length} finding(s) written to ${file}\n`);
+    process.exit(0);
+  }
+
+  let baseline;
+  try {
+    baseline = loadBaseline(file);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(3);
+  }
+  const current = new Map<string, Set<string>>();
+  for (const key of new Set(baseline.entries.map(e => e.file))) {
+    const name = path.resolve(dir, key);
+    if (!isLocalFile(key)) {
+      // stdin and remote entries cannot be re-linted; keep them
+      current.set(key, new Set(baseline.entries.filter(e => e.file === key).map(e => e.fingerprint)));
+    } else if (fs.existsSync(name)) {
+      current.set(key, new Set(lintFile(name).violations.filter(v => !v.suppression).map(v => v.fingerprint!)));
+    }
+  }
+  const pruned = pruneBaseline(baseline, current);
+  writeBaseline(file, pruned);
+  process.stderr.write(`Pruned ${baseline.entries.length - pruned.entries.length} of ${baseline.entries.length} baseline entries in ${file}\n`);
+  process.exit(0);
+}
+
 function processContent(
-  content: string, filename: string, config: any, trustedRegistries: string[]
+  content: string, filename: string, config: any, trustedRegistries: string[], buildArgs: BuildArgs = {},
+  target?: string, fix?: { unsafe: boolean; write: boolean }, baseline?: BaselineFilter, changes?: ChangedLines,
+  usage?: SuppressionUsage,
 ): ProcessResult {
-  const ast = parse(content);
-  const violations = lint(ast, { config, trustedRegistries, filePath: filename });
+  // `overrides:` entries matching this file add ignores, severities and a threshold
+  config = configForFile(config, filename);
+  const options: LintOptions = { config, trustedRegistries, filePath: filename, buildArgs, target };
+  let output: string | undefined;
+  let ast;
+  let violations: Violation[];
+  try {
+    if (fix) output = fixContent(content, { ...options, unsafe: fix.unsafe }).output;
+    // Report what is left after fixing when the fixes are written; a dry run leaves the file as it is
+    ast = parse(fix?.write ? output ?? content : content);
+    violations = lint(ast, {
+      ...options, usage, keepSuppressed: true,
+      ...(changes && { changedLines: changedLinesOf(changes, filename) }),
+    });
+  } catch (err) {
+    console.error(`Error: ${filename}: ${(err as Error).message}`);
+    return { filename, violations: [], exitCode: 3 };
+  }
+
+  if (baseline) violations = markBaseline(baseline.index, baselineFileKey(filename, baseline.dir), violations);
 
   const failOn: string[] = config.failOn ?? ['error'];
   const threshold: string = config.severityThreshold ?? 'style';
@@ -162,35 +506,51 @@ function processContent(
     return idx !== -1 && idx <= thresholdIdx;
   });
 
-  const hasFail = activeViolations.some(v => failOn.includes(v.severity));
-  const hasWarnings = activeViolations.some(v => v.severity === 'warning') && !hasFail;
+  // Suppressed findings are reported but never fail the run
+  const counted = activeViolations.filter(v => !v.suppression);
+  const hasFail = counted.some(v => failOn.includes(v.severity));
+  const hasWarnings = counted.some(v => v.severity === 'warning') && !hasFail;
   let exitCode = 0;
-  if (hasFail) exitCode = 2;
+  if (ast.diagnostics.some(d => d.fatal)) exitCode = 3;
+  else if (hasFail) exitCode = 2;
   else if (hasWarnings) exitCode = 1;
 
-  return { filename, violations: activeViolations, exitCode };
+  return { filename, violations: activeViolations, exitCode, output };
+}
+
+/** Print `--report-unused-ignores` results; beside JSON/SARIF they go to stderr */
+function printUnusedIgnores(config: DockerVetConfig, usage: SuppressionUsage | undefined, format: string): void {
+  if (!usage) return;
+  (format === 'tty' ? process.stdout : process.stderr).write(formatUnusedIgnores(unusedIgnores(config, usage)));
+}
+
+/** Print the fixes made to `content` as a diff; beside JSON/SARIF it goes to stderr */
+function printFixDiff(result: ProcessResult, content: string, format: string): void {
+  const diff = formatUnifiedDiff(content, result.output ?? content, result.filename);
+  if (diff) (format === 'tty' ? process.stdout : process.stderr).write(diff);
 }
 
 function outputResults(
-  results: ProcessResult[], format: string, noColor: boolean, config?: any
+  results: ProcessResult[], format: string, noColor: boolean, config?: any, showSuppressed = false,
+  rules: Rule[] = config ? configRulesOf(config) : [],
 ): void {
   switch (format) {
     case 'json':
-      console.log(formatJSONBatch(results));
+      console.log(formatJSONBatch(results, rules));
       break;
     case 'sarif':
-      console.log(formatSARIFBatch(results));
+      console.log(formatSARIFBatch(results, rules));
       break;
     default:
       for (const result of results) {
-        console.log(formatTTY(result.violations, result.filename, !noColor && process.stdout.isTTY !== false));
+        console.log(formatTTY(result.violations, result.filename, !noColor && process.stdout.isTTY !== false, showSuppressed));
       }
       break;
   }
 
   // Auto-export SARIF if configured
   if (config?.sarif?.export && format !== 'sarif') {
-    const sarifOutput = formatSARIFBatch(results);
+    const sarifOutput = formatSARIFBatch(results, rules);
     const outFile = config.sarif.outputFile || 'dockervet-results.sarif';
     fs.writeFileSync(outFile, sarifOutput, 'utf-8');
     process.stderr.write(`SARIF output written to ${outFile}\n`);
@@ -199,18 +559,22 @@ function outputResults(
 
 async function handleGitHub(
   ref: string, branch: string | undefined, format: string,
-  noColor: boolean, config: any, trustedRegistries: string[]
+  noColor: boolean, config: any, trustedRegistries: string[], buildArgs: BuildArgs, target?: string,
+  fix?: { unsafe: boolean; write: boolean }, baseline?: BaselineFilter, changes?: ChangedLines, usage?: SuppressionUsage,
+  showSuppressed = false,
 ): Promise<number> {
   const entries = await fetchDockerfiles(ref, branch);
   const results: ProcessResult[] = [];
   
   for (const entry of entries) {
     const filename = `github:${ref}/${entry.path}`;
-    const result = processContent(entry.content, filename, config, trustedRegistries);
+    const result = processContent(entry.content, filename, config, trustedRegistries, buildArgs, target, fix, baseline, changes, usage);
+    if (fix) printFixDiff(result, entry.content, format);
     results.push(result);
   }
   
-  outputResults(results, format, noColor, config);
+  outputResults(results, format, noColor, config, showSuppressed);
+  printUnusedIgnores(config, usage, format);
   return Math.max(...results.map(r => r.exitCode), 0);
 }
 
@@ -233,15 +597,35 @@ function main(): void {
     return;
   }
 
-  const opts = parseArgs(args);
-  const config = loadConfig(opts.configPath);
-  config.ignore = [...config.ignore, ...opts.ignoreRules] as (string | import('./engine/config').IgnoreEntry)[];
-  if (opts.trustedRegistries.length > 0) {
-    config.trustedRegistries = [...config.trustedRegistries, ...opts.trustedRegistries];
+  if (args[0] === 'rules') {
+    handleRules(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'explain') {
+    handleExplain(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'baseline') {
+    handleBaseline(args.slice(1));
+    return;
   }
 
+  const opts = parseArgs(args);
+  const config = configFromOptions(opts);
+  const baseline = opts.baselinePath ? loadBaselineFilter(opts.baselinePath) : undefined;
+  const changes = loadChangedLines(opts);
+  const usage = opts.reportUnusedIgnores ? createSuppressionUsage() : undefined;
+
+  const fix = opts.fix ? { unsafe: opts.fixUnsafe, write: opts.fix === 'write' } : undefined;
+
   if (opts.githubRef) {
-    handleGitHub(opts.githubRef, opts.githubBranch, opts.format, opts.noColor, config, opts.trustedRegistries).then(
+    if (opts.fix === 'write') {
+      console.error('Error: --fix cannot write to a GitHub repository. Use --fix-dry-run to see the fixes.');
+      process.exit(2);
+    }
+    handleGitHub(opts.githubRef, opts.githubBranch, opts.format, opts.noColor, config, opts.trustedRegistries, opts.buildArgs, opts.target, fix, baseline, changes, usage, opts.showSuppressed).then(
       (code) => process.exit(code),
       (err) => {
         console.error(`Error: ${(err as Error).message}`);
@@ -253,8 +637,14 @@ function main(): void {
 
   if (opts.useStdin) {
     const content = fs.readFileSync(0, 'utf-8');
-    const result = processContent(content, '<stdin>', config, opts.trustedRegistries);
-    outputResults([result], opts.format, opts.noColor, config);
+    const result = processContent(content, '<stdin>', config, opts.trustedRegistries, opts.buildArgs, opts.target, fix, baseline, changes, usage);
+    if (opts.fix === 'write' && result.output !== undefined) {
+      process.stdout.write(result.output);
+      process.exit(result.exitCode);
+    }
+    if (fix) printFixDiff(result, content, opts.format);
+    outputResults([result], opts.format, opts.noColor, config, opts.showSuppressed);
+    printUnusedIgnores(config, usage, opts.format);
     process.exit(result.exitCode);
   }
 
@@ -264,6 +654,7 @@ function main(): void {
   }
 
   const results: ProcessResult[] = [];
+  const fileConfigs: DockerVetConfig[] = [];
   let maxExit = 0;
   
   for (const file of opts.files) {
@@ -273,12 +664,20 @@ function main(): void {
       continue;
     }
     const content = fs.readFileSync(file, 'utf-8');
-    const result = processContent(content, file, config, opts.trustedRegistries);
+    const fileConfig = configFromOptions(opts, file);
+    fileConfigs.push(fileConfig);
+    const result = processContent(content, file, fileConfig, opts.trustedRegistries, opts.buildArgs, opts.target, fix, baseline, changes, usage);
+    if (opts.fix === 'write' && result.output !== undefined && result.output !== content) {
+      fs.writeFileSync(file, result.output, 'utf-8');
+    } else if (opts.fix === 'dry-run') {
+      printFixDiff(result, content, opts.format);
+    }
     results.push(result);
     maxExit = Math.max(maxExit, result.exitCode);
   }
   
-  outputResults(results, opts.format, opts.noColor, config);
+  outputResults(results, opts.format, opts.noColor, config, opts.showSuppressed, configRulesOfAll([config, ...fileConfigs]));
+  printUnusedIgnores(config, usage, opts.format);
   process.exit(maxExit);
 }
 
@@ -18,14 +18,58 @@
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
 import { parse } from './parser/parser';
 import { lint } from './engine/linter';
-import { loadConfig, DockerVetConfig, getActiveIgnoreIds } from './engine/config';
+import { loadConfig, discoverConfig, checkRuleSettings, DockerVetConfig, getActiveIgnoreIds, ruleStatus } from './engine/config';
+import { isLocalFile } from './engine/fingerprint';
+import { configRulesOf } from './engine/plugins';
+import { changedLinesOf, parseUnifiedDiff } from './engine/changed-lines';
+import { configForFile } from './engine/overrides';
+import { ALL_RULES, RULE_MAP } from './rules/index';
 import { Violation } from './rules/types';
+import { BuildArgs } from './parser/variables';
 
-export { DockerVetConfig, Violation };
-export type { IgnoreEntry, SarifConfig } from './engine/config';
-export { ALL_RULES, RULE_MAP } from './rules/index';
+export { DockerVetConfig, Violation, BuildArgs };
+export type { IgnoreEntry, IgnoreSource, SarifConfig, CustomRuleConfig, ConfigOverride, RuleSettings } from './engine/config';
+export { ruleStatus, loadConfig, discoverConfig } from './engine/config';
+export type { RuleStatus } from './engine/config';
+export { PRESETS, resolvePresets } from './engine/presets';
+export type { Preset, PresetRule } from './engine/presets';
+export { ALL_RULES, RULE_MAP, registerRule } from './rules/index';
+export { loadPlugins, pluginRulesOf, configRulesOf } from './engine/plugins';
+export { configForFile, globToRegExp } from './engine/overrides';
+export type { Rule, RuleContext, Severity, RuleMeta, RuleCategory, RuleExample } from './rules/types';
+export type { RuleOptionType, RuleOptionSpec, RuleOptionSchema, RuleOptionValue, RuleOptionValues } from './rules/types';
+export { defineOptions, optionsOf, resolveOptions, parseDuration } from './rules/options';
+export { ruleMeta, ruleCatalog } from './rules/catalog';
+export type { RuleCatalogEntry } from './rules/catalog';
+export { parse } from './parser/parser';
+export type { Suppression, SuppressionScope } from './parser/types';
+export { createSuppressionUsage, unusedIgnores } from './engine/suppression-usage';
+export type { ConfigIgnore, SuppressionUsage, UnusedIgnores, UnusedSuppression } from './engine/suppression-usage';
+export { buildStageGraph } from './parser/stage-graph';
+export type { StageGraph, StageReference } from './parser/stage-graph';
+export { stagePlatforms, isAbsolutePath } from './parser/platform';
+export type { Platform } from './parser/platform';
+// Lossless syntax tree for tools that rewrite Dockerfiles
+export { parseCst, print, instructionAt, replaceArguments, insertInstruction, deleteInstruction } from './parser/cst';
+export type { DockerfileCst, CstNode, CstInstruction } from './parser/types';
+// Autofix: apply the edits rules attach to violations
+export { fixContent, applyFixes } from './engine/fixer';
+export type { FixOptions, FixResult } from './engine/fixer';
+export type { TextEdit, FixSafety, ViolationSuppression } from './rules/types';
+export { formatUnifiedDiff } from './formatter/diff';
+// Baselines: record accepted findings by fingerprint and report only new ones
+export { fingerprintViolations, isLocalFile } from './engine/fingerprint';
+export {
+  DEFAULT_BASELINE_FILE, createBaseline, loadBaseline, writeBaseline, baselineIndex, baselineFileKey,
+  filterBaseline, markBaseline, pruneBaseline,
+} from './engine/baseline';
+export type { Baseline, BaselineEntry, FileFindings } from './engine/baseline';
+// Diff-aware linting: report only violations on lines a change adds
+export { parseUnifiedDiff, gitChangedLines, changedLinesOf } from './engine/changed-lines';
+export type { ChangedLines } from './engine/changed-lines';
 
 /**
  * Exit codes used by DockerVet:
@@ -44,7 +88,11 @@ export const EXIT_CODES = {
 export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
 
 export interface ScanOptions {
-  /** Path to a config file (.dockervet.yaml or .dockervetrc.yaml) */
+  /**
+   * Path to a config file (.dockervet.yaml or .dockervetrc.yaml). Without it, configs are
+   * discovered from the directory of `filePath` (else the working directory) up to the
+   * repository root.
+   */
   configPath?: string;
   /** Config object (overrides configPath) */
   config?: DockerVetConfig;
@@ -52,8 +100,25 @@ export interface ScanOptions {
   trustedRegistries?: string[];
   /** Additional rules to ignore */
   ignoreRules?: string[];
-  /** Logical file path (used in violation messages and SARIF output) */
+  /** Additional presets, as passed with `--preset` */
+  preset?: string | string[];
+  /** Logical file path (used in violation messages and SARIF output, and to select `overrides:` entries) */
   filePath?: string;
+  /** ARG values as passed with `docker build --build-arg` */
+  buildArgs?: BuildArgs;
+  /** Build target stage, as passed with `docker build --target` */
+  target?: string;
+  /**
+   * Unified diff (e.g. `git diff` output): report only violations on lines it adds to this
+   * file, or anywhere in a stage it changes for stage-wide rules such as DV1006. Paths in
+   * the diff resolve against the working directory.
+   */
+  diff?: string;
+  /**
+   * Keep findings silenced by inline comments or config `ignore` entries, marked with
+   * `suppression`. They never affect the exit code.
+   */
+  includeSuppressed?: boolean;
 }
 
 export interface ScanResult {
@@ -78,15 +143,23 @@ export function scanDockerfileContent(
   options: ScanOptions = {},
 ): ScanResult {
   try {
-    const config = resolveConfig(options);
+    const config = resolveConfig({ ...options, filePath });
     const ast = parse(content);
-    const violations = lint(ast, {
+    const found = lint(ast, {
       config,
       trustedRegistries: options.trustedRegistries,
       filePath,
+      buildArgs: options.buildArgs,
+      target: options.target,
+      changedLines: options.diff !== undefined ? changedLinesOf(parseUnifiedDiff(options.diff), filePath) : undefined,
+      keepSuppressed: options.includeSuppressed,
     });
+    // Like the CLI, drop findings below the (per-file) severity threshold
+    const threshold = SEVERITY_ORDER.indexOf(config.severityThreshold ?? 'style');
+    const violations = found.filter(v => SEVERITY_ORDER.indexOf(v.severity) <= threshold);
 
-    return { filePath, violations, exitCode: computeExitCode(violations, config) };
+    const exitCode = ast.diagnostics.some(d => d.fatal) ? EXIT_CODES.FAILURE : computeExitCode(violations, config);
+    return { filePath, violations, exitCode };
   } catch (err) {
     // Parse or rule errors — return exit code 3
     const msg = err instanceof Error ? err.message : String(err);
@@ -141,12 +214,26 @@ export function scanDockerfiles(
   return paths.map(p => scanDockerfile(p, options));
 }
 
-// ---------------------------------------------------------------------------
-// Internal helpers
-// ---------------------------------------------------------------------------
+export interface ResolvedConfig extends DockerVetConfig {
+  /** Every rule that runs, with the preset that enabled it; null when no preset did */
+  enabledBy: Record<string, string | null>;
+}
 
-function resolveConfig(options: ScanOptions): DockerVetConfig {
-  const base = options.config ?? loadConfig(options.configPath);
+/**
+ * The config a scan with these options uses: the loaded config with the option's ignores,
+ * registries and presets added, plugins loaded, and the rules it enables. With
+ * `filePath`, configs are discovered from its directory and the `overrides:` entries
+ * matching it are applied, as a scan of that file does.
+ */
+export function resolveConfig(options: ScanOptions = {}): ResolvedConfig {
+  const { filePath } = options;
+  const dir = filePath !== undefined && isLocalFile(filePath) ? path.dirname(path.resolve(filePath)) : process.cwd();
+  // A copy, so that callers reusing `options.config` do not collect presets and ignores across calls
+  const base = { ...(options.config ?? (options.configPath !== undefined ? loadConfig(options.configPath) : discoverConfig(dir))) };
+
+  if (options.preset) {
+    base.preset = [base.preset ?? [], options.preset].flat();
+  }
 
   if (options.ignoreRules && options.ignoreRules.length > 0) {
     base.ignore = [...base.ignore, ...options.ignoreRules];
@@ -156,17 +243,29 @@ function resolveConfig(options: ScanOptions): DockerVetConfig {
     base.trustedRegistries = [...(base.trustedRegistries || []), ...options.trustedRegistries];
   }
 
-  return base;
+  checkRuleSettings(base, [...RULE_MAP.values(), ...configRulesOf(base)]);
+  const config = filePath !== undefined ? configForFile(base, filePath) : base;
+  const enabledBy: Record<string, string | null> = {};
+  for (const rule of [...ALL_RULES, ...configRulesOf(config)]) {
+    const status = ruleStatus(config, rule);
+    if (status.enabled) enabledBy[rule.id] = status.preset ?? null;
+  }
+  return { ...config, enabledBy };
 }
 
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
 const SEVERITY_ORDER = ['error', 'warning', 'info', 'style'] as const;
 
 function computeExitCode(violations: Violation[], config: DockerVetConfig): ExitCode {
   const failOn: string[] = config.failOn ?? ['error'];
-  const hasFail = violations.some(v => failOn.includes(v.severity));
+  const counted = violations.filter(v => !v.suppression);
+  const hasFail = counted.some(v => failOn.includes(v.severity));
   if (hasFail) return EXIT_CODES.ERRORS;
 
-  const hasWarnings = violations.some(v => v.severity === 'warning');
+  const hasWarnings = counted.some(v => v.severity === 'warning');
   if (hasWarnings) return EXIT_CODES.WARNINGS;
 
   return EXIT_CODES.OK;
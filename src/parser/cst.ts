@@ -0,0 +1,94 @@
+/**
+ * Lossless concrete syntax tree.
+ *
+ * Every byte of the source belongs to exactly one node, so `print(parseCst(s)) === s` for any
+ * input: comments inside continuations, heredoc bodies, CRLF line endings and trailing
+ * whitespace are all kept. The edit functions return a new tree built from the rewritten
+ * text, so line numbers and offsets in the result always match what `parse()` would report.
+ */
+import { tokenize, Token } from './lexer';
+import { CstNode, CstInstruction, DockerfileCst } from './types';
+
+/**
+ * Group the source into nodes along the lexer's token boundaries. A node runs from its
+ * token's first line up to the line before the next token, which also covers lines the
+ * lexer skipped (such as comments at the end of a continuation).
+ */
+export function buildCst(content: string, tokens: Token[]): DockerfileCst {
+  const lines = content.split('\n');
+  const lineStarts = [0];
+  for (const line of lines) lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1);
+  const lineOffset = (line: number) => Math.min(lineStarts[line - 1], content.length);
+
+  const nodes = tokens.map((token, k): CstNode => {
+    const endLine = k + 1 < tokens.length ? tokens[k + 1].line - 1 : lines.length;
+    const offset = lineOffset(token.line);
+    const text = content.slice(offset, lineOffset(endLine + 1));
+    const node = { text, offset, line: token.line, endLine };
+    if (token.type === 'COMMENT') return { kind: 'comment', ...node };
+    if (token.type !== 'INSTRUCTION') return { kind: 'blank', ...node };
+
+    const keyword = token.value.split(/\s/, 1)[0];
+    const keywordEnd = token.column - 1 + keyword.length;
+    // The instruction's own lines end where its first heredoc body begins
+    const lastLine = token.heredocs ? token.heredocs[0].startLine - 1 : token.endLine;
+    return {
+      kind: 'instruction', ...node, keyword,
+      argumentsStart: keywordEnd + (text.slice(keywordEnd).match(/^[ \t]*/)![0].length),
+      argumentsEnd: lineOffset(lastLine) - offset + lines[lastLine - 1].replace(/\r$/, '').length,
+    } as CstInstruction;
+  });
+  return { nodes };
+}
+
+export function parseCst(content: string): DockerfileCst {
+  return buildCst(content, tokenize(content));
+}
+
+/** Reproduce the source text of a tree */
+export function print(cst: DockerfileCst): string {
+  return cst.nodes.map(n => n.text).join('');
+}
+
+/** The instruction node starting on `line`, e.g. to edit the node behind an AST instruction */
+export function instructionAt(cst: DockerfileCst, line: number): CstInstruction | undefined {
+  return cst.nodes.find((n): n is CstInstruction => n.kind === 'instruction' && n.line === line);
+}
+
+function indexOf(cst: DockerfileCst, node: CstNode): number {
+  const index = cst.nodes.indexOf(node);
+  if (index < 0) throw new Error(`Node at line ${node.line} does not belong to this tree`);
+  return index;
+}
+
+function withText(cst: DockerfileCst, index: number, deleteCount: number, text: string): DockerfileCst {
+  const before = cst.nodes.slice(0, index).map(n => n.text).join('');
+  const after = cst.nodes.slice(index + deleteCount).map(n => n.text).join('');
+  return parseCst(before + text + after);
+}
+
+/**
+ * Replace an instruction's arguments, keeping its indentation, keyword and line terminator.
+ * Continuation lines of the old arguments are replaced too; heredoc bodies are kept.
+ */
+export function replaceArguments(cst: DockerfileCst, node: CstInstruction, args: string): DockerfileCst {
+  const text = node.text.slice(0, node.argumentsStart) + args + node.text.slice(node.argumentsEnd);
+  return withText(cst, indexOf(cst, node), 1, text);
+}
+
+/**
+ * Insert an instruction (e.g. `USER app`) before `before`, or at the end of the file when
+ * `before` is omitted. The new line uses the file's line ending.
+ */
+export function insertInstruction(cst: DockerfileCst, text: string, before?: CstNode): DockerfileCst {
+  const source = print(cst);
+  const eol = source.includes('\r\n') ? '\r\n' : '\n';
+  if (before) return withText(cst, indexOf(cst, before), 0, text + eol);
+  const separator = source === '' || source.endsWith('\n') ? '' : eol;
+  return parseCst(source + separator + text + eol);
+}
+
+/** Remove an instruction together with its continuation lines and heredoc bodies */
+export function deleteInstruction(cst: DockerfileCst, node: CstInstruction): DockerfileCst {
+  return withText(cst, indexOf(cst, node), 1, '');
+}
@@ -0,0 +1,11 @@
+/**
+ * Codes for problems the parser reports instead of failing. They share the rule namespace
+ * so they can be ignored, overridden and suppressed like any rule.
+ */
+export const PARSE_DIAGNOSTICS: Record<string, string> = {
+  DV0001: 'Unknown instruction keyword.',
+  DV0002: 'Instruction outside a build stage, or no FROM instruction at all.',
+  DV0003: 'CMD/ENTRYPOINT starts like a JSON array but is not valid JSON, so it runs in shell form.',
+  DV0004: 'Heredoc is never closed and consumes the rest of the file.',
+  DV0005: 'Line continuation at the end of the file.',
+};
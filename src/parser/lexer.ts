@@ -1,27 +1,77 @@
+import { SourceMapping, ParserDirectives, Heredoc } from './types';
+
 export interface Token {
   type: 'INSTRUCTION' | 'COMMENT' | 'EMPTY' | 'CONTINUATION';
   line: number;
+  /** 1-based column of the first non-whitespace character */
+  column: number;
+  /** Last physical line covered by the token (continuations and heredoc bodies included) */
+  endLine: number;
+  /** 1-based column just past the last non-whitespace character on endLine */
+  endColumn: number;
   value: string;
   raw: string;
+  /** Maps offsets within `value` back to physical line/column */
+  segments: SourceMapping[];
+  /** Here-document bodies; offsets continue past `value` (one `\n` per physical line) */
+  heredocs?: Heredoc[];
+  /** Delimiter of a here-document that runs to the end of the file */
+  unclosedHeredoc?: string;
+  /** Line of a trailing escape character with no line left to continue onto */
+  danglingEscape?: number;
+}
+
+function leadingWhitespace(s: string): number {
+  return s.length - s.trimStart().length;
+}
+
+const DIRECTIVE_NAMES = new Set(['syntax', 'escape', 'check']);
+
+/**
+ * Read BuildKit parser directives (`# syntax=`, `# escape=`, `# check=`) from the top of a file.
+ * Directive parsing stops at the first blank line, instruction, ordinary comment or unknown
+ * directive; a repeated directive is treated as a comment, matching BuildKit.
+ */
+export function parseDirectives(content: string): ParserDirectives {
+  const directives: ParserDirectives = {};
+  const lines = content.replace(/^\uFEFF/, '').split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].trim().match(/^#\s*([a-zA-Z][a-zA-Z0-9]*)\s*=\s*(.*?)\s*$/);
+    if (!m) break;
+    const name = m[1].toLowerCase() as keyof ParserDirectives;
+    if (!DIRECTIVE_NAMES.has(name) || directives[name]) break;
+    directives[name] = { value: m[2], line: i + 1 };
+  }
+  return directives;
 }
 
 /**
- * Extract heredoc delimiter names from a Dockerfile instruction.
- * Supports: <<EOF, <<"EOF", <<'EOF', <<-EOF, <<-"EOF", <<-'EOF'
- * Returns array of delimiter names (without quotes/dash).
+ * Resolve the escape character declared by `# escape=`. Only `\` and `` ` `` are valid.
+ */
+export function escapeCharOf(directives: ParserDirectives): string {
+  return directives.escape?.value === '`' ? '`' : '\\';
+}
+
+/** Only these instructions accept here-documents */
+const HEREDOC_INSTRUCTION = /^(?:ONBUILD\s+)?(?:RUN|COPY|ADD)\s/i;
+
+/**
+ * Extract heredoc delimiters from a Dockerfile instruction.
+ * Supports: <<EOF, <<"EOF", <<'EOF', <<-EOF, <<-"EOF", <<-'EOF'; `<<<` here-strings are skipped.
  */
-function extractHeredocDelimiters(line: string): string[] {
-  const delimiters: string[] = [];
+function extractHeredocDelimiters(line: string): Array<Pick<Heredoc, 'delimiter' | 'stripTabs' | 'quoted'>> {
+  if (!HEREDOC_INSTRUCTION.test(line)) return [];
+  const delimiters: Array<Pick<Heredoc, 'delimiter' | 'stripTabs' | 'quoted'>> = [];
   // Match <<[-]?["']?WORD["']? patterns
-  const regex = /<<-?\s*(?:"([^"]+)"|'([^']+)'|([A-Za-z_][A-Za-z0-9_]*))/g;
+  const regex = /(?<!<)<<(?!<)(-?)\s*(?:"([^"]+)"|'([^']+)'|([A-Za-z_][A-Za-z0-9_]*))/g;
   let m: RegExpExecArray | null;
   while ((m = regex.exec(line)) !== null) {
-    delimiters.push(m[1] ?? m[2] ?? m[3]);
+    delimiters.push({ delimiter: m[2] ?? m[3] ?? m[4], stripTabs: m[1] === '-', quoted: m[4] === undefined });
   }
   return delimiters;
 }
 
-export function tokenize(content: string): Token[] {
+export function tokenize(content: string, escapeChar = escapeCharOf(parseDirectives(content))): Token[] {
   const lines = content.split('\n');
   const tokens: Token[] = [];
   let i = 0;
@@ -29,15 +79,20 @@ export function tokenize(content: string): Token[] {
   while (i < lines.length) {
     const raw = lines[i];
     const trimmed = raw.trim();
+    const column = leadingWhitespace(raw) + 1;
+    const lineEnd = raw.trimEnd().length + 1;
 
     if (trimmed === '') {
-      tokens.push({ type: 'EMPTY', line: i + 1, value: '', raw });
+      tokens.push({ type: 'EMPTY', line: i + 1, column: 1, endLine: i + 1, endColumn: 1, value: '', raw, segments: [] });
       i++;
       continue;
     }
 
     if (trimmed.startsWith('#')) {
-      tokens.push({ type: 'COMMENT', line: i + 1, value: trimmed, raw });
+      tokens.push({
+        type: 'COMMENT', line: i + 1, column, endLine: i + 1, endColumn: lineEnd, value: trimmed, raw,
+        segments: [{ offset: 0, line: i + 1, column }],
+      });
       i++;
       continue;
     }
@@ -45,39 +100,110 @@ export function tokenize(content: string): Token[] {
     // Handle line continuations
     let fullLine = raw;
     const startLine = i + 1;
-    while (fullLine.trimEnd().endsWith('\\') && i + 1 < lines.length) {
+    // Segment offsets are relative to fullLine until the final trim below
+    const segments: SourceMapping[] = [{ offset: 0, line: startLine, column: 1 }];
+    let endLine = startLine;
+    let endColumn = lineEnd;
+    let escapeLine = startLine;
+    while (fullLine.trimEnd().endsWith(escapeChar) && i + 1 < lines.length) {
       i++;
       const nextTrimmed = lines[i].trim();
       // Skip comment lines within continuations (e.g., `apk add --no-cache \ \n # comment \n pkg`)
       if (nextTrimmed.startsWith('#')) {
-        fullLine = fullLine.trimEnd().slice(0, -1) + ' \\';
+        fullLine = fullLine.trimEnd().slice(0, -1) + ' ' + escapeChar;
         continue;
       }
-      fullLine = fullLine.trimEnd().slice(0, -1) + ' ' + nextTrimmed;
+      fullLine = fullLine.trimEnd().slice(0, -1) + ' ';
+      segments.push({ offset: fullLine.length, line: i + 1, column: leadingWhitespace(lines[i]) + 1 });
+      fullLine += nextTrimmed;
+      endLine = i + 1;
+      endColumn = lines[i].trimEnd().length + 1;
+      if (nextTrimmed.endsWith(escapeChar)) escapeLine = i + 1;
     }
+    // The file ends inside a continuation (directly or after blank lines)
+    const danglingEscape = (fullLine.trimEnd().endsWith(escapeChar) || (i + 1 > startLine && lines[i].trim() === '')) &&
+      lines.slice(i + 1).every(l => l.trim() === '')
+      ? escapeLine : undefined;
+
+    const value = fullLine.trim();
+    const valueSegments = shiftSegments(segments, leadingWhitespace(fullLine));
 
     // Handle heredoc syntax (BuildKit feature): COPY/RUN/ADD with <<DELIMITER
     // Collect all heredoc delimiters from the instruction, then skip until all are closed
     // Include heredoc body in raw so variable references can be detected (DL3052 etc.)
-    const heredocDelimiters = extractHeredocDelimiters(fullLine.trim());
+    const heredocDelimiters = extractHeredocDelimiters(value);
     if (heredocDelimiters.length > 0) {
-      let delimIdx = 0;
+      const heredocs: Heredoc[] = [];
+      let body: string[] = [];
+      let bodyOffset = value.length + 1;
+      let offset = bodyOffset;
       let rawWithHeredoc = fullLine;
       i++;
-      while (i < lines.length && delimIdx < heredocDelimiters.length) {
+      while (i < lines.length && heredocs.length < heredocDelimiters.length) {
+        const current = heredocDelimiters[heredocs.length];
+        if (body.length === 0) bodyOffset = offset;
         rawWithHeredoc += '\n' + lines[i];
-        if (lines[i].trim() === heredocDelimiters[delimIdx]) {
-          delimIdx++;
+        valueSegments.push({ offset, line: i + 1, column: 1 });
+        if (lines[i].trim() === current.delimiter) {
+          heredocs.push({ ...current, body: body.join('\n'), startLine: i + 1 - body.length, offset: bodyOffset });
+          body = [];
+        } else {
+          body.push(lines[i]);
         }
+        offset += lines[i].length + 1;
+        endLine = i + 1;
+        endColumn = lines[i].trimEnd().length + 1;
         i++;
       }
-      tokens.push({ type: 'INSTRUCTION', line: startLine, value: fullLine.trim(), raw: rawWithHeredoc });
+      // An unterminated heredoc runs to the end of the file
+      let unclosedHeredoc: string | undefined;
+      if (heredocs.length < heredocDelimiters.length) {
+        const current = heredocDelimiters[heredocs.length];
+        heredocs.push({ ...current, body: body.join('\n'), startLine: i + 1 - body.length, offset: body.length > 0 ? bodyOffset : offset });
+        unclosedHeredoc = current.delimiter;
+      }
+      tokens.push({
+        type: 'INSTRUCTION', line: startLine, column, endLine, endColumn,
+        value, raw: rawWithHeredoc, segments: valueSegments, heredocs, unclosedHeredoc, danglingEscape,
+      });
       continue;
     }
 
-    tokens.push({ type: 'INSTRUCTION', line: startLine, value: fullLine.trim(), raw: fullLine });
+    tokens.push({ type: 'INSTRUCTION', line: startLine, column, endLine, endColumn, value, raw: fullLine, segments: valueSegments, danglingEscape });
     i++;
   }
 
   return tokens;
 }
+
+/**
+ * Re-base a segment map so that `offset` becomes offset 0.
+ * Segments that start before the new origin are clipped to it.
+ */
+export function shiftSegments(segments: SourceMapping[], offset: number): SourceMapping[] {
+  if (offset === 0) return segments;
+  const shifted: SourceMapping[] = [];
+  for (let k = 0; k < segments.length; k++) {
+    const seg = segments[k];
+    const next = segments[k + 1];
+    if (seg.offset >= offset) {
+      shifted.push({ offset: seg.offset - offset, line: seg.line, column: seg.column });
+    } else if (!next || next.offset > offset) {
+      shifted.push({ offset: 0, line: seg.line, column: seg.column + (offset - seg.offset) });
+    }
+  }
+  return shifted;
+}
+
+/**
+ * Translate a logical offset into its physical 1-based line and column.
+ */
+export function positionAt(segments: SourceMapping[], offset: number): { line: number; column: number } {
+  let seg = segments[0];
+  for (const s of segments) {
+    if (s.offset > offset) break;
+    seg = s;
+  }
+  if (!seg) return { line: 0, column: 1 };
+  return { line: seg.line, column: seg.column + Math.max(0, offset - seg.offset) };
+}
@@ -0,0 +1,24 @@
+/**
+ * Find what a source line belongs to: its instruction (continuation lines included) or stage.
+ */
+import { DockerfileAST, DockerfileInstruction, Stage } from './types';
+
+/** Global ARGs followed by each stage's FROM and instructions, in source order */
+export function collectInstructions(ast: DockerfileAST): DockerfileInstruction[] {
+  const all: DockerfileInstruction[] = [...ast.globalArgs];
+  for (const stage of ast.stages) {
+    all.push(stage.from, ...stage.instructions);
+  }
+  return all;
+}
+
+export function findStage(ast: DockerfileAST, line: number): Stage | undefined {
+  return ast.stages.find(s => {
+    const last = s.instructions[s.instructions.length - 1] ?? s.from;
+    return s.from.line <= line && line <= (last.endLine ?? last.line);
+  });
+}
+
+export function findInstruction(instructions: DockerfileInstruction[], line: number): DockerfileInstruction | undefined {
+  return instructions.find(i => i.line <= line && line <= (i.endLine ?? i.line));
+}
@@ -1,33 +1,61 @@
-import { tokenize } from './lexer';
+import { tokenize, shiftSegments, positionAt, parseDirectives, escapeCharOf, Token } from './lexer';
+import { parseShell, parseExecForm, isPosixShell, walkShell, basename } from './shell';
+import { buildCst } from './cst';
+import { collectSuppressions } from './suppressions';
 import {
   DockerfileAST, DockerfileInstruction, FromInstruction, CopyInstruction,
   ExposeInstruction, HealthcheckInstruction, EnvInstruction, ArgInstruction,
-  LabelInstruction, UserInstruction, WorkdirInstruction, Stage, InstructionType,
+  LabelInstruction, UserInstruction, WorkdirInstruction, RunInstruction, RunMount, Stage, InstructionType,
+  SourceMapping, Heredoc, ShellNode, ShellRedirect, ParseDiagnostic,
 } from './types';
 
+const SHELL_COMMAND_INSTRUCTIONS = new Set<string>(['RUN', 'CMD', 'ENTRYPOINT', 'HEALTHCHECK']);
+const HEREDOC_INSTRUCTIONS = new Set<string>(['RUN', 'COPY', 'ADD']);
+/** A RUN whose whole command is one here-document executes the body as a script */
+const HEREDOC_SCRIPT = /^<<-?\s*(?:"[^"]+"|'[^']+'|[A-Za-z_][A-Za-z0-9_]*)$/;
+
+/** A CMD/ENTRYPOINT argument that was meant as exec form (`["a", ...]` or `['a']`) */
+const JSON_ARRAY_INTENT = /^\[\s*(?:["']|\])/;
+
 const VALID_INSTRUCTIONS = new Set<string>([
   'FROM', 'RUN', 'CMD', 'LABEL', 'EXPOSE', 'ENV', 'ADD', 'COPY',
   'ENTRYPOINT', 'VOLUME', 'USER', 'WORKDIR', 'ARG', 'ONBUILD',
   'STOPSIGNAL', 'HEALTHCHECK', 'SHELL', 'MAINTAINER',
 ]);
 
-function parseFlags(args: string): { flags: Record<string, string>; rest: string } {
+interface ParsedFlag {
+  name: string;
+  value: string;
+  /** Offset and length of the flag within the parsed arguments */
+  offset: number;
+  length: number;
+}
+
+/**
+ * Split leading `--flag[=value]` options off instruction arguments. `flags` keeps the last
+ * value of each flag; `list` keeps every occurrence, for flags like `--mount` that repeat.
+ */
+function parseFlags(args: string): { flags: Record<string, string>; list: ParsedFlag[]; rest: string } {
   const flags: Record<string, string> = {};
-  let rest = args;
+  const list: ParsedFlag[] = [];
   // Do not capture space-separated value if next token starts with '[' (JSON array)
   // since COPY/ADD flags like --link, --mount use no value or use =value syntax
   const flagRegex = /^--([a-zA-Z][a-zA-Z0-9-]*)(?:=(\S+)|\s+(?!--|\[)(\S+))?/;
 
-  while (rest.trim().startsWith('--')) {
-    const m = rest.trim().match(flagRegex);
+  let pos = 0;
+  for (;;) {
+    const lead = args.slice(pos).match(/^\s*/)![0].length;
+    const m = args.slice(pos + lead).match(flagRegex);
     if (!m) break;
-    flags[m[1]] = m[2] ?? m[3] ?? 'true';
-    rest = rest.trim().slice(m[0].length).trim();
+    const value = m[2] ?? m[3] ?? 'true';
+    flags[m[1]] = value;
+    list.push({ name: m[1], value, offset: pos + lead, length: m[0].length });
+    pos += lead + m[0].length;
   }
-  return { flags, rest };
+  return { flags, list, rest: pos === 0 ? args : args.slice(pos).trim() };
 }
 
-function parseFromArgs(args: string, line: number): FromInstruction {
+export function parseFromArgs(args: string, line: number): FromInstruction {
   const { flags, rest } = parseFlags(args);
   const parts = rest.trim().split(/\s+/);
   let imageSpec = parts[0] || '';
@@ -67,6 +95,56 @@ function parseFromArgs(args: string, line: number): FromInstruction {
   };
 }
 
+/** Split a `--mount` value on commas outside double quotes */
+function splitMountFields(value: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of value) {
+    if (ch === '"') { quoted = !quoted; continue; }
+    if (ch === ',' && !quoted) { fields.push(current); current = ''; continue; }
+    current += ch;
+  }
+  fields.push(current);
+  return fields.filter(f => f !== '');
+}
+
+function parseMount(flag: ParsedFlag): RunMount {
+  const mount: RunMount = { type: 'bind', offset: flag.offset, length: flag.length };
+  for (const field of splitMountFields(flag.value)) {
+    const eq = field.indexOf('=');
+    const key = (eq < 0 ? field : field.slice(0, eq)).toLowerCase();
+    const value = eq < 0 ? undefined : field.slice(eq + 1);
+    const bool = value === undefined || value.toLowerCase() === 'true';
+    switch (key) {
+      case 'type': mount.type = (value ?? '').toLowerCase(); break;
+      case 'target': case 'dst': case 'destination': mount.target = value; break;
+      case 'source': case 'src': mount.source = value; break;
+      case 'readonly': case 'ro': mount.readonly = bool; break;
+      case 'rw': case 'readwrite': mount.readonly = !bool; break;
+      case 'required': mount.required = bool; break;
+      case 'id': case 'from': case 'sharing': case 'mode': case 'uid': case 'gid': case 'env':
+        mount[key] = value;
+        break;
+    }
+  }
+  // BuildKit names a secret after its target file and mounts it under /run/secrets by default
+  if (mount.type === 'secret') {
+    if (!mount.id && mount.target) mount.id = mount.target.slice(mount.target.lastIndexOf('/') + 1);
+    if (!mount.target && !mount.env && mount.id) mount.target = `/run/secrets/${mount.id}`;
+  }
+  return mount;
+}
+
+function parseRunArgs(args: string, line: number): RunInstruction {
+  const { flags, list } = parseFlags(args);
+  return {
+    type: 'RUN', raw: `RUN ${args}`, line, arguments: args, flags,
+    mounts: list.filter(f => f.name === 'mount').map(parseMount),
+    network: flags['network'], security: flags['security'],
+  };
+}
+
 function parseJsonArray(s: string): string[] | null {
   const trimmed = s.trim();
   if (!trimmed.startsWith('[') || !trimmed.endsWith(']')) return null;
@@ -77,10 +155,21 @@ function parseJsonArray(s: string): string[] | null {
   return null;
 }
 
-function parseCopyArgs(type: 'COPY' | 'ADD', args: string, line: number): CopyInstruction {
+/** Why an argument meant as a JSON array is not one, or undefined when no single cause stands out */
+function jsonArrayProblem(s: string): string | undefined {
+  const trimmed = s.trim();
+  if (!trimmed.endsWith(']')) return 'missing closing ]';
+  if (/[[,]\s*'/.test(trimmed)) return 'strings need double quotes';
+  try {
+    if (Array.isArray(JSON.parse(trimmed))) return 'elements must be strings';
+  } catch { /* not valid JSON */ }
+  return undefined;
+}
+
+function parseCopyArgs(type: 'COPY' | 'ADD', args: string, line: number, escapeChar: string): CopyInstruction {
   const { flags, rest } = parseFlags(args);
   const jsonArr = parseJsonArray(rest.trim());
-  const parts = jsonArr ?? parseShellWords(rest.trim());
+  const parts = jsonArr ?? parseShellWords(rest.trim(), escapeChar);
   const destination = parts.length > 0 ? parts[parts.length - 1] : '';
   const sources = parts.slice(0, -1);
 
@@ -91,7 +180,7 @@ function parseCopyArgs(type: 'COPY' | 'ADD', args: string, line: number): CopyIn
   };
 }
 
-function parseShellWords(s: string): string[] {
+function parseShellWords(s: string, escapeChar = '\\'): string[] {
   const words: string[] = [];
   let current = '';
   let inQuote: string | null = null;
@@ -99,7 +188,7 @@ function parseShellWords(s: string): string[] {
 
   for (const ch of s) {
     if (escape) { current += ch; escape = false; continue; }
-    if (ch === '\\' && !inQuote) { escape = true; continue; }
+    if (ch === escapeChar && !inQuote) { escape = true; continue; }
     if (ch === inQuote) { inQuote = null; continue; }
     if (!inQuote && (ch === '"' || ch === "'")) { inQuote = ch; continue; }
     if (!inQuote && /\s/.test(ch)) {
@@ -201,21 +290,39 @@ function parseHealthcheckArgs(args: string, line: number): HealthcheckInstructio
   return { type: 'HEALTHCHECK', raw: `HEALTHCHECK ${args}`, line, arguments: args, flags: {}, none: false, cmd };
 }
 
-function parseInstruction(value: string, line: number): DockerfileInstruction {
+function parseInstruction(
+  value: string, line: number, segments: SourceMapping[] = [], escapeChar = '\\',
+): DockerfileInstruction {
+  const spaceIdx = value.indexOf(' ');
+  const keyword = (spaceIdx > 0 ? value.slice(0, spaceIdx) : value).toUpperCase();
+  // Unknown keywords keep the whole line as their arguments
+  const argsOffset = !VALID_INSTRUCTIONS.has(keyword) ? 0 : spaceIdx > 0 ? spaceIdx + 1 : value.length;
+  const instruction = buildInstruction(value, line, segments, escapeChar);
+  if (segments.length > 0) {
+    instruction.column = positionAt(segments, 0).column;
+    instruction.argumentsMap = shiftSegments(segments, argsOffset);
+  }
+  return instruction;
+}
+
+function buildInstruction(
+  value: string, line: number, segments: SourceMapping[], escapeChar: string,
+): DockerfileInstruction {
   const spaceIdx = value.indexOf(' ');
   const keyword = (spaceIdx > 0 ? value.slice(0, spaceIdx) : value).toUpperCase();
   const args = spaceIdx > 0 ? value.slice(spaceIdx + 1) : '';
 
   if (!VALID_INSTRUCTIONS.has(keyword)) {
-    return { type: 'RUN' as InstructionType, raw: value, line, arguments: value, flags: {} };
+    return { type: 'RUN' as InstructionType, raw: value, line, arguments: value, flags: {}, mounts: [] } as RunInstruction;
   }
 
   const type = keyword as InstructionType;
 
   switch (type) {
     case 'FROM': return parseFromArgs(args, line);
-    case 'COPY': return parseCopyArgs('COPY', args, line);
-    case 'ADD': return parseCopyArgs('ADD', args, line);
+    case 'RUN': return { ...parseRunArgs(args, line), raw: value };
+    case 'COPY': return parseCopyArgs('COPY', args, line, escapeChar);
+    case 'ADD': return parseCopyArgs('ADD', args, line, escapeChar);
     case 'EXPOSE': return parseExposeArgs(args, line);
     case 'HEALTHCHECK': return parseHealthcheckArgs(args, line);
     case 'ENV': return parseEnvArgs(args, line);
@@ -229,7 +336,8 @@ function parseInstruction(value: string, line: number): DockerfileInstruction {
       return { type, raw: `WORKDIR ${args}`, line, arguments: args, flags: {}, path: unquotedPath } as WorkdirInstruction;
     }
     case 'ONBUILD': {
-      const inner = parseInstruction(args.trim(), line);
+      const innerOffset = spaceIdx + 1 + (args.length - args.trimStart().length);
+      const inner = parseInstruction(args.trim(), line, shiftSegments(segments, innerOffset), escapeChar);
       return { type: 'ONBUILD', raw: value, line, arguments: args, flags: {}, innerInstruction: inner };
     }
     default:
@@ -237,36 +345,161 @@ function parseInstruction(value: string, line: number): DockerfileInstruction {
   }
 }
 
+/**
+ * Copy the lexer's here-documents onto a RUN, COPY or ADD instruction, re-basing body
+ * offsets onto `inst.arguments`. COPY/ADD bodies become files under the destination.
+ */
+function attachHeredocs(inst: DockerfileInstruction, token: Token): void {
+  const shift = token.value.length - inst.arguments.length;
+  const heredocs: Heredoc[] = token.heredocs!.map(h => ({ ...h, offset: h.offset - shift }));
+  if (inst.type === 'COPY' || inst.type === 'ADD') {
+    const dest = (inst as CopyInstruction).destination;
+    for (const h of heredocs) {
+      h.targetPath = dest.endsWith('/') ? dest + h.delimiter : dest;
+    }
+  }
+  inst.heredocs = heredocs;
+}
+
+/** Whether a RUN heredoc body runs under a POSIX shell (no shebang, or a shell shebang) */
+function isShellScriptBody(body: string): boolean {
+  const shebang = body.match(/^#!\s*(\S+)(?:\s+(\S+))?/);
+  if (!shebang) return true;
+  const interpreter = basename(shebang[1]) === 'env' && shebang[2] ? shebang[2] : shebang[1];
+  return isPosixShell(interpreter);
+}
+
+/**
+ * Hand RUN heredoc bodies to the `<<` redirects that consume them, in source order,
+ * record the file written by `cat <<EOF > file` or `tee file <<EOF`, and parse bodies
+ * fed to a shell's standard input.
+ */
+function bindHeredocs(inst: DockerfileInstruction): void {
+  const consumers: Array<{ redirect: ShellRedirect; node: ShellNode }> = [];
+  walkShell(inst.shell!, node => {
+    const redirects = 'redirects' in node ? node.redirects : [];
+    for (const redirect of redirects) {
+      if (redirect.op === '<<' || redirect.op === '<<-') consumers.push({ redirect, node });
+    }
+  });
+  consumers.sort((a, b) => a.redirect.offset - b.redirect.offset);
+  consumers.forEach(({ redirect, node }, k) => {
+    const heredoc = inst.heredocs![k];
+    if (!heredoc || node.type !== 'command' || !node.name) return;
+    redirect.heredoc = heredoc.body;
+    const name = basename(node.name);
+    if (name === 'cat') {
+      const out = node.redirects.find(r => ['>', '>>', '>|'].includes(r.op) && (r.fd === undefined || r.fd === 1));
+      if (out?.target) heredoc.targetPath = out.target.text;
+    } else if (name === 'tee') {
+      const file = node.argv.slice(1).find(w => !w.text.startsWith('-'));
+      if (file) heredoc.targetPath = file.text;
+    } else if (isPosixShell(name) && !node.script && node.argv.slice(1).every(w => w.text.startsWith('-'))) {
+      // `bash <<EOF` reads its script from the heredoc
+      node.script = heredoc.script = parseShell(heredoc.body, heredoc.offset);
+    }
+  });
+}
+
+/**
+ * Attach the parsed shell tree to RUN, CMD, ENTRYPOINT and HEALTHCHECK instructions.
+ * Offsets in the tree are relative to `inst.arguments`; for `RUN <<EOF` the tree is the
+ * parsed heredoc body, whose offsets continue past the arguments.
+ */
+function attachShell(inst: DockerfileInstruction): void {
+  let script = inst.arguments;
+  if (inst.type === 'RUN') {
+    script = parseFlags(inst.arguments).rest;
+  } else if (inst.type === 'HEALTHCHECK') {
+    const hc = inst as HealthcheckInstruction;
+    if (hc.none || !hc.cmd) return;
+    script = hc.cmd;
+  }
+  script = script.trim();
+  if (!script) return;
+  const heredoc = inst.heredocs?.[0];
+  if (heredoc && HEREDOC_SCRIPT.test(script)) {
+    if (isShellScriptBody(heredoc.body)) inst.shell = heredoc.script = parseShell(heredoc.body, heredoc.offset);
+    return;
+  }
+  const offset = inst.arguments.lastIndexOf(script);
+  const execArgs = parseJsonArray(script);
+  inst.shell = execArgs
+    ? parseExecForm(execArgs, script, offset)
+    : parseShell(script, offset);
+  if (inst.heredocs) bindHeredocs(inst);
+}
+
 export function parse(content: string): DockerfileAST {
-  const tokens = tokenize(content);
+  const directives = parseDirectives(content);
+  const escapeChar = escapeCharOf(directives);
+  const tokens = tokenize(content, escapeChar);
   const stages: Stage[] = [];
   const globalArgs: ArgInstruction[] = [];
   const comments: DockerfileInstruction[] = [];
-  const inlineIgnores = new Map<number, string[]>();
+  const diagnostics: ParseDiagnostic[] = [];
+  // Instructions other than ARG that appear before the first FROM
+  const orphans: DockerfileInstruction[] = [];
   let currentStage: Stage | null = null;
+  // SHELL ["powershell", ...] switches the stage away from POSIX shell parsing
+  let posixShell = true;
 
   for (const token of tokens) {
     if (token.type === 'EMPTY') continue;
 
     if (token.type === 'COMMENT') {
       comments.push({ type: 'COMMENT', raw: token.value, line: token.line, arguments: token.value, flags: {} });
+      continue;
+    }
 
-      // Parse inline ignores: # dockervet ignore=RULE1,RULE2 or # hadolint ignore=RULE1,RULE2
-      const ignoreMatch = token.value.match(/^#\s*(?:dockervet|hadolint)\s+ignore\s*=\s*(.+)$/i);
-      if (ignoreMatch) {
-        const rules = ignoreMatch[1].split(',').map(r => r.trim());
-        // Apply to next instruction line
-        inlineIgnores.set(token.line, rules);
-      }
+    if (token.danglingEscape) {
+      diagnostics.push({
+        code: 'DV0005', severity: 'warning', line: token.danglingEscape, column: 1,
+        message: `Line continuation "${escapeChar}" at the end of the file has no line to continue onto.`,
+      });
+    }
+    if (token.unclosedHeredoc) {
+      diagnostics.push({
+        code: 'DV0004', severity: 'error', line: token.line, column: 1, fatal: true,
+        message: `Heredoc "${token.unclosedHeredoc}" is never closed; lines ${token.line + 1}-${token.endLine} are read as its body.`,
+      });
+    }
+
+    const keyword = token.value.split(/\s/, 1)[0];
+    if (!VALID_INSTRUCTIONS.has(keyword.toUpperCase())) {
+      diagnostics.push({
+        code: 'DV0001', severity: 'error', line: token.line, column: token.column,
+        endLine: token.line, endColumn: token.column + keyword.length,
+        message: `Unknown instruction "${keyword}". The instruction is ignored.`,
+      });
       continue;
     }
 
-    const instruction = parseInstruction(token.value, token.line);
+    const instruction = parseInstruction(token.value, token.line, token.segments, escapeChar);
+    instruction.endLine = token.endLine;
+    instruction.endColumn = token.endColumn;
     // Preserve full raw content including heredoc body from lexer token
     if (token.raw && token.raw !== token.value) {
       instruction.raw = token.raw;
     }
 
+    if (instruction.type === 'FROM') posixShell = true;
+    if (instruction.type === 'SHELL') {
+      const shellArgs = parseJsonArray(instruction.arguments);
+      if (shellArgs && shellArgs.length > 0) posixShell = isPosixShell(shellArgs[0]);
+    }
+    const target = instruction.innerInstruction ?? instruction;
+    if (token.heredocs && HEREDOC_INSTRUCTIONS.has(target.type)) attachHeredocs(target, token);
+    if (posixShell && SHELL_COMMAND_INSTRUCTIONS.has(target.type)) attachShell(target);
+    if ((target.type === 'CMD' || target.type === 'ENTRYPOINT') && JSON_ARRAY_INTENT.test(target.arguments.trim()) &&
+        !parseJsonArray(target.arguments)) {
+      const problem = jsonArrayProblem(target.arguments);
+      diagnostics.push({
+        code: 'DV0003', severity: 'warning', line: instruction.line, column: 1,
+        message: `${target.type} is not a valid JSON array${problem ? ` (${problem})` : ''}, so it runs in shell form as "/bin/sh -c ${target.arguments.trim()}".`,
+      });
+    }
+
     if (instruction.type === 'FROM') {
       currentStage = { from: instruction as FromInstruction, instructions: [], index: stages.length };
       stages.push(currentStage);
@@ -274,30 +507,31 @@ export function parse(content: string): DockerfileAST {
       globalArgs.push(instruction as ArgInstruction);
     } else if (currentStage) {
       currentStage.instructions.push(instruction);
+    } else {
+      orphans.push(instruction);
     }
   }
 
-  // Resolve inline ignores: map comment line -> next instruction line
-  const resolvedIgnores = new Map<number, string[]>();
-  for (const [commentLine, rules] of inlineIgnores) {
-    // Find next instruction after this comment
-    for (const stage of stages) {
-      if (stage.from.line === commentLine + 1) {
-        resolvedIgnores.set(stage.from.line, rules);
-        break;
-      }
-      for (const inst of stage.instructions) {
-        if (inst.line === commentLine + 1) {
-          resolvedIgnores.set(inst.line, rules);
-          break;
-        }
-      }
-    }
-    // Also support same-line comments (not common in Dockerfile but handle it)
-    if (!resolvedIgnores.has(commentLine + 1)) {
-      resolvedIgnores.set(commentLine + 1, rules);
+  if (stages.length === 0 && (globalArgs.length > 0 || orphans.length > 0)) {
+    diagnostics.push({
+      code: 'DV0002', severity: 'error', line: Math.min(...[...globalArgs, ...orphans].map(i => i.line)), column: 1, fatal: true,
+      message: 'No FROM instruction found. A Dockerfile must start a build stage with FROM.',
+    });
+  } else {
+    for (const orphan of orphans) {
+      diagnostics.push({
+        code: 'DV0002', severity: 'error', line: orphan.line, column: 1,
+        message: `${orphan.type} before the first FROM is ignored. Only ARG may precede FROM.`,
+      });
     }
   }
+  diagnostics.sort((a, b) => a.line - b.line);
+
+  const suppressions = collectSuppressions(tokens);
+  const inlineIgnores = new Map<number, string[]>();
+  for (const s of suppressions) {
+    if (s.scope === 'next-line' && s.startLine <= s.endLine) inlineIgnores.set(s.startLine, [...inlineIgnores.get(s.startLine) ?? [], s.rule]);
+  }
 
-  return { stages, globalArgs, comments, inlineIgnores: resolvedIgnores };
+  return { stages, globalArgs, comments, inlineIgnores, suppressions, directives, diagnostics, cst: buildCst(content, tokens) };
 }
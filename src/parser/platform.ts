@@ -0,0 +1,80 @@
+/**
+ * Stage platform detection.
+ *
+ * Windows images run PowerShell or cmd instead of a POSIX shell and address files by drive
+ * letter, so Linux-oriented checks do not apply to them. A stage is Windows when its FROM
+ * asks for a `windows/*` platform, its base image (or the stage it builds on) is a Windows
+ * image, a SHELL in it runs powershell or cmd, or the file sets the backtick escape
+ * directive that Windows Dockerfiles use to keep `\` free for paths.
+ */
+import { DockerfileAST, FromInstruction, Stage } from './types';
+
+export type Platform = 'linux' | 'windows';
+
+const WINDOWS_IMAGE = /(?:^|[/:_.-])(?:windows|windowsservercore|servercore|nanoserver)(?:[/:_.-]|$)/i;
+// pwsh also ships on Linux images, so only Windows PowerShell and cmd decide the platform
+const WINDOWS_SHELL = /^(?:powershell|cmd)(?:\.exe)?$/i;
+
+/** Whether an image reference names a Windows base image (servercore, nanoserver, ...) */
+export function isWindowsImage(image: string, tag?: string): boolean {
+  return WINDOWS_IMAGE.test(tag ? `${image}:${tag}` : image);
+}
+
+/** Whether a SHELL executable is a Windows-only shell */
+export function isWindowsShell(executable: string): boolean {
+  return WINDOWS_SHELL.test(executable.slice(Math.max(executable.lastIndexOf('/'), executable.lastIndexOf('\\')) + 1));
+}
+
+function shellExecutable(args: string): string | undefined {
+  try {
+    const parsed = JSON.parse(args.trim());
+    return Array.isArray(parsed) && typeof parsed[0] === 'string' ? parsed[0] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function fromPlatform(from: FromInstruction, parent: Platform | undefined, escapeBacktick: boolean): Platform | undefined {
+  const os = from.platform?.match(/^(linux|windows)\//i)?.[1].toLowerCase();
+  if (os) return os as Platform;
+  if (isWindowsImage(from.image, from.tag)) return 'windows';
+  if (parent) return parent;
+  return escapeBacktick ? 'windows' : undefined;
+}
+
+/**
+ * Platform of every stage. `resolve` supplies the FROM to inspect, e.g. with ARG references
+ * in the image expanded.
+ */
+export function stagePlatforms(
+  ast: DockerfileAST,
+  resolve: (stage: Stage) => FromInstruction = s => s.from,
+): Map<Stage, Platform> {
+  const escapeBacktick = ast.directives.escape?.value === '`';
+  const byAlias = new Map<string, Platform>();
+  const platforms = new Map<Stage, Platform>();
+  for (const stage of ast.stages) {
+    const from = resolve(stage);
+    let platform = fromPlatform(from, byAlias.get(from.image.toLowerCase()), escapeBacktick);
+    if (!platform) {
+      const windowsShell = stage.instructions.some(i => {
+        if (i.type !== 'SHELL') return false;
+        const executable = shellExecutable(i.arguments);
+        return executable !== undefined && isWindowsShell(executable);
+      });
+      platform = windowsShell ? 'windows' : 'linux';
+    }
+    platforms.set(stage, platform);
+    if (stage.from.alias) byAlias.set(stage.from.alias.toLowerCase(), platform);
+  }
+  return platforms;
+}
+
+/**
+ * Whether `path` is absolute on `platform`. Drive paths (`C:\app`, `c:/app`) count everywhere;
+ * on Windows so do UNC paths and paths rooted at the current drive (`\app`).
+ */
+export function isAbsolutePath(path: string, platform: Platform = 'linux'): boolean {
+  if (path.startsWith('/') || /^[A-Za-z]:[/\\]/.test(path)) return true;
+  return platform === 'windows' && path.startsWith('\\');
+}
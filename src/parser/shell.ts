@@ -0,0 +1,658 @@
+/**
+ * POSIX shell parser for RUN, CMD, ENTRYPOINT and HEALTHCHECK commands.
+ *
+ * The parser is deliberately tolerant: unterminated quotes, unbalanced parentheses and
+ * missing `fi`/`done` never throw — parsing simply stops at the end of the input.
+ * Offsets in the resulting tree are `baseOffset` + index into the parsed text.
+ */
+import {
+  ShellList, ShellNode, ShellCommand, ShellWord, ShellExpansion, ShellRedirect,
+  ShellAssignment, ShellCompound, ShellSubshell,
+} from './types';
+
+type ShellToken =
+  | { kind: 'word'; word: ShellWord }
+  | { kind: 'op'; op: string; offset: number; end: number }
+  | { kind: 'redirect'; redirect: ShellRedirect }
+  | { kind: 'newline'; offset: number; end: number };
+
+// Longest operators first so that `;;` wins over `;` and `&>>` over `&>`
+const REDIRECT_OPS = ['<<<', '<<-', '&>>', '<<', '>>', '>&', '<&', '<>', '>|', '&>', '<', '>'];
+const CONTROL_OPS = [';;&', '&&', '||', ';;', ';&', '|&', '|', '&', ';', '(', ')'];
+const WORD_BREAK = /[\s|&;()<>]/;
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)(?:\[[^\]]*\])?\+?=/;
+const POSIX_SHELLS = /^(?:sh|bash|ash|dash|zsh|ksh|mksh)$/;
+
+/** Final path component of a command name (`/usr/bin/curl` -> `curl`) */
+export function basename(name: string): string {
+  return name.slice(name.lastIndexOf('/') + 1);
+}
+
+/** Whether a command name refers to a POSIX-compatible shell */
+export function isPosixShell(name: string): boolean {
+  return POSIX_SHELLS.test(basename(name));
+}
+
+class ShellLexer {
+  private tokens: ShellToken[] = [];
+  private pendingHeredocs: ShellRedirect[] = [];
+
+  constructor(private src: string, private base: number) {}
+
+  tokenize(start: number, end: number): ShellToken[] {
+    let i = start;
+    while (i < end) {
+      const c = this.src[i];
+      if (c === '\n') {
+        this.tokens.push({ kind: 'newline', offset: this.base + i, end: this.base + i + 1 });
+        i = this.pendingHeredocs.length > 0 ? this.readHeredocBodies(i + 1, end) : i + 1;
+        continue;
+      }
+      if (c === ' ' || c === '\t' || c === '\r') { i++; continue; }
+      if (c === '\\' && this.src[i + 1] === '\n') { i += 2; continue; }
+      if (c === '#') {
+        while (i < end && this.src[i] !== '\n') i++;
+        continue;
+      }
+      if ((c === '<' || c === '>') && this.src[i + 1] === '(') {
+        const word = this.readWord(i, end);
+        this.tokens.push({ kind: 'word', word });
+        i = word.end - this.base;
+        continue;
+      }
+      const redirectOp = this.matchOp(REDIRECT_OPS, i, end);
+      if (redirectOp) {
+        i = this.pushRedirect(redirectOp, undefined, i, end);
+        continue;
+      }
+      const op = this.matchOp(CONTROL_OPS, i, end);
+      if (op) {
+        this.tokens.push({ kind: 'op', op, offset: this.base + i, end: this.base + i + op.length });
+        i += op.length;
+        continue;
+      }
+      const word = this.readWord(i, end);
+      const next = word.end - this.base;
+      // IO number: `2>&1`, `1>/dev/null`
+      const fdOp = !word.quoted && /^\d+$/.test(word.raw) ? this.matchOp(REDIRECT_OPS, next, end) : undefined;
+      if (fdOp) {
+        i = this.pushRedirect(fdOp, parseInt(word.raw, 10), i, end, next);
+        continue;
+      }
+      this.tokens.push({ kind: 'word', word });
+      i = next;
+    }
+    return this.tokens;
+  }
+
+  private matchOp(ops: string[], i: number, end: number): string | undefined {
+    return ops.find(op => i + op.length <= end && this.src.startsWith(op, i));
+  }
+
+  private pushRedirect(op: string, fd: number | undefined, start: number, end: number, opStart = start): number {
+    const redirect: ShellRedirect = { op, fd, offset: this.base + start, end: this.base + opStart + op.length };
+    this.tokens.push({ kind: 'redirect', redirect });
+    let i = opStart + op.length;
+    if (op === '<<' || op === '<<-') {
+      // The delimiter belongs to the redirect; the body follows the next newline
+      while (i < end && (this.src[i] === ' ' || this.src[i] === '\t')) i++;
+      if (i < end && !WORD_BREAK.test(this.src[i])) {
+        redirect.target = this.readWord(i, end);
+        redirect.end = redirect.target.end;
+        i = redirect.target.end - this.base;
+        this.pendingHeredocs.push(redirect);
+      }
+    }
+    return i;
+  }
+
+  private readHeredocBodies(start: number, end: number): number {
+    let i = start;
+    for (const redirect of this.pendingHeredocs) {
+      const delimiter = redirect.target!.text;
+      const body: string[] = [];
+      while (i < end) {
+        let nl = this.src.indexOf('\n', i);
+        if (nl === -1 || nl > end) nl = end;
+        const line = this.src.slice(i, nl);
+        i = nl + 1;
+        const compared = (redirect.op === '<<-' ? line.replace(/^\t+/, '') : line).replace(/\r$/, '');
+        if (compared === delimiter) break;
+        body.push(line);
+      }
+      redirect.heredoc = body.join('\n');
+    }
+    this.pendingHeredocs = [];
+    return Math.min(i, end);
+  }
+
+  readWord(start: number, end: number): ShellWord {
+    const expansions: ShellExpansion[] = [];
+    let text = '';
+    let quoted = false;
+    let i = start;
+
+    // Process substitution <(...) / >(...) forms a word on its own
+    if ((this.src[i] === '<' || this.src[i] === '>') && this.src[i + 1] === '(') {
+      const close = findClosing(this.src, i + 1, end);
+      const exp = this.expansion('process', i, Math.min(close + 1, end));
+      exp.script = parseRange(this.src, this.base, i + 2, close);
+      expansions.push(exp);
+      i = Math.min(close + 1, end);
+      text = this.src.slice(start, i);
+    }
+
+    while (i < end) {
+      const c = this.src[i];
+      if (c === '\\') {
+        if (this.src[i + 1] === '\n') { i += 2; continue; }
+        if (i + 1 < end) text += this.src[i + 1];
+        quoted = true;
+        i += 2;
+        continue;
+      }
+      if (c === "'") {
+        let close = this.src.indexOf("'", i + 1);
+        if (close === -1 || close >= end) close = end;
+        text += this.src.slice(i + 1, close);
+        quoted = true;
+        i = close + 1;
+        continue;
+      }
+      if (c === '"') {
+        quoted = true;
+        i++;
+        while (i < end && this.src[i] !== '"') {
+          const d = this.src[i];
+          if (d === '\\' && i + 1 < end && '$`"\\\n'.includes(this.src[i + 1])) {
+            text += this.src[i + 1];
+            i += 2;
+            continue;
+          }
+          if (d === '$' || d === '`') {
+            const exp = this.readExpansion(i, end);
+            if (exp) {
+              expansions.push(exp);
+              text += exp.raw;
+              i = exp.end - this.base;
+              continue;
+            }
+          }
+          text += d;
+          i++;
+        }
+        i++;
+        continue;
+      }
+      if (c === '$' && this.src[i + 1] === "'") {
+        // ANSI-C quoting: $'...'
+        let j = i + 2;
+        while (j < end && this.src[j] !== "'") j += this.src[j] === '\\' ? 2 : 1;
+        text += this.src.slice(i + 2, Math.min(j, end));
+        quoted = true;
+        i = j + 1;
+        continue;
+      }
+      if (c === '$' || c === '`') {
+        const exp = this.readExpansion(i, end);
+        if (exp) {
+          expansions.push(exp);
+          text += exp.raw;
+          i = exp.end - this.base;
+          continue;
+        }
+      }
+      if (WORD_BREAK.test(c)) break;
+      text += c;
+      i++;
+    }
+
+    i = Math.min(i, end);
+    return { text, raw: this.src.slice(start, i), quoted, expansions, offset: this.base + start, end: this.base + i };
+  }
+
+  private readExpansion(i: number, end: number): ShellExpansion | undefined {
+    const src = this.src;
+    if (src[i] === '`') {
+      let j = i + 1;
+      while (j < end && src[j] !== '`') j += src[j] === '\\' ? 2 : 1;
+      const exp = this.expansion('command', i, Math.min(j + 1, end));
+      exp.script = parseShell(src.slice(i + 1, Math.min(j, end)), this.base + i + 1);
+      return exp;
+    }
+    const next = src[i + 1];
+    if (next === '(' && src[i + 2] === '(') {
+      const close = findClosing(src, i + 1, end);
+      return this.expansion('arithmetic', i, Math.min(close + 1, end));
+    }
+    if (next === '(') {
+      const close = findClosing(src, i + 1, end);
+      const exp = this.expansion('command', i, Math.min(close + 1, end));
+      exp.script = parseRange(src, this.base, i + 2, close);
+      return exp;
+    }
+    if (next === '{') {
+      let depth = 0;
+      let j = i + 1;
+      for (; j < end; j++) {
+        if (src[j] === '\\') { j++; continue; }
+        if (src[j] === '{') depth++;
+        else if (src[j] === '}' && --depth === 0) break;
+      }
+      const exp = this.expansion('parameter', i, Math.min(j + 1, end));
+      const m = src.slice(i + 2, j).match(/^[#!]?([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/);
+      if (m) exp.name = m[1];
+      return exp;
+    }
+    const m = src.slice(i + 1, end).match(/^(?:[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/);
+    if (m) {
+      const exp = this.expansion('parameter', i, i + 1 + m[0].length);
+      exp.name = m[0];
+      return exp;
+    }
+    return undefined;
+  }
+
+  private expansion(kind: ShellExpansion['kind'], start: number, end: number): ShellExpansion {
+    return { kind, raw: this.src.slice(start, end), offset: this.base + start, end: this.base + end };
+  }
+}
+
+/**
+ * Index of the `)` matching the `(` at `open`, skipping quoted text.
+ * Returns `end` when the parenthesis is never closed.
+ */
+function findClosing(src: string, open: number, end: number): number {
+  let depth = 0;
+  for (let j = open; j < end; j++) {
+    const c = src[j];
+    if (c === '\\') { j++; continue; }
+    if (c === "'") {
+      const close = src.indexOf("'", j + 1);
+      if (close === -1 || close >= end) return end;
+      j = close;
+      continue;
+    }
+    if (c === '"') {
+      j++;
+      while (j < end && src[j] !== '"') j += src[j] === '\\' ? 2 : 1;
+      continue;
+    }
+    if (c === '(') depth++;
+    else if (c === ')' && --depth === 0) return j;
+  }
+  return end;
+}
+
+class ShellParser {
+  private pos = 0;
+
+  constructor(private tokens: ShellToken[], private start: number) {}
+
+  parse(): ShellList {
+    return this.parseList([], []);
+  }
+
+  private peek(ahead = 0): ShellToken | undefined {
+    return this.tokens[this.pos + ahead];
+  }
+
+  private isWord(t: ShellToken | undefined, ...values: string[]): boolean {
+    return !!t && t.kind === 'word' && !t.word.quoted && values.includes(t.word.raw);
+  }
+
+  private isOp(t: ShellToken | undefined, ...ops: string[]): boolean {
+    return !!t && t.kind === 'op' && ops.includes(t.op);
+  }
+
+  private tokenOffset(t: ShellToken | undefined): number {
+    if (!t) return this.start;
+    if (t.kind === 'word') return t.word.offset;
+    if (t.kind === 'redirect') return t.redirect.offset;
+    return t.offset;
+  }
+
+  private lastEnd(): number {
+    const t = this.tokens[this.pos - 1];
+    if (!t) return this.start;
+    if (t.kind === 'word') return t.word.end;
+    if (t.kind === 'redirect') return t.redirect.end;
+    return t.end;
+  }
+
+  private skipNewlines(): void {
+    while (this.peek()?.kind === 'newline') this.pos++;
+  }
+
+  private expectWord(value: string): void {
+    if (this.isWord(this.peek(), value)) this.pos++;
+  }
+
+  private parseList(stopWords: string[], stopOps: string[]): ShellList {
+    const items: ShellNode[] = [];
+    const offset = this.tokenOffset(this.peek());
+    for (;;) {
+      while (this.peek()?.kind === 'newline' || this.isOp(this.peek(), ';', '&')) this.pos++;
+      const t = this.peek();
+      if (!t || this.isOp(t, ...stopOps) || this.isWord(t, ...stopWords)) break;
+      const node = this.parseAndOr();
+      if (!node) {
+        // Unexpected token (stray `)`, `;;`, ...): skip it and keep going
+        this.pos++;
+        continue;
+      }
+      items.push(node);
+    }
+    return { type: 'list', items, offset, end: items.length > 0 ? items[items.length - 1].end : offset };
+  }
+
+  private parseAndOr(): ShellNode | undefined {
+    let left = this.parsePipeline();
+    if (!left) return undefined;
+    while (this.isOp(this.peek(), '&&', '||')) {
+      const op = (this.peek() as { op: '&&' | '||' }).op;
+      this.pos++;
+      this.skipNewlines();
+      const right = this.parsePipeline();
+      if (!right) break;
+      left = { type: 'logical', op, left, right, offset: left.offset, end: right.end };
+    }
+    return left;
+  }
+
+  private parsePipeline(): ShellNode | undefined {
+    const offset = this.tokenOffset(this.peek());
+    let negated = false;
+    if (this.isWord(this.peek(), '!')) {
+      negated = true;
+      this.pos++;
+    }
+    const first = this.parseCommand();
+    if (!first) return undefined;
+    const commands = [first];
+    while (this.isOp(this.peek(), '|', '|&')) {
+      this.pos++;
+      this.skipNewlines();
+      const next = this.parseCommand();
+      if (!next) break;
+      commands.push(next);
+    }
+    if (commands.length === 1 && !negated) return first;
+    return { type: 'pipeline', negated, commands, offset, end: commands[commands.length - 1].end };
+  }
+
+  private parseCommand(): ShellNode | undefined {
+    const t = this.peek();
+    if (!t) return undefined;
+    const offset = this.tokenOffset(t);
+    if (this.isOp(t, '(')) {
+      this.pos++;
+      const body = this.parseList([], [')']);
+      if (this.isOp(this.peek(), ')')) this.pos++;
+      return this.withRedirects<ShellSubshell>({ type: 'subshell', body, redirects: [], offset, end: this.lastEnd() });
+    }
+    if (this.isWord(t, '{')) {
+      this.pos++;
+      const body = this.parseList(['}'], []);
+      this.expectWord('}');
+      return this.withRedirects<ShellSubshell>({ type: 'group', body, redirects: [], offset, end: this.lastEnd() });
+    }
+    if (this.isWord(t, 'if')) return this.parseIf(offset);
+    if (this.isWord(t, 'while', 'until')) return this.parseLoop(offset, (t as { word: ShellWord }).word.raw as 'while' | 'until');
+    if (this.isWord(t, 'for')) return this.parseFor(offset);
+    if (this.isWord(t, 'case')) return this.parseCase(offset);
+    return this.parseSimple();
+  }
+
+  private withRedirects<T extends { redirects: ShellRedirect[]; end: number }>(node: T): T {
+    while (this.peek()?.kind === 'redirect') {
+      node.redirects.push(this.readRedirect());
+      node.end = this.lastEnd();
+    }
+    return node;
+  }
+
+  private readRedirect(): ShellRedirect {
+    const redirect = (this.tokens[this.pos++] as { redirect: ShellRedirect }).redirect;
+    const next = this.peek();
+    if (!redirect.target && next?.kind === 'word') {
+      redirect.target = next.word;
+      redirect.end = next.word.end;
+      this.pos++;
+    }
+    return redirect;
+  }
+
+  private parseSimple(): ShellNode | undefined {
+    const offset = this.tokenOffset(this.peek());
+    const argv: ShellWord[] = [];
+    const assignments: ShellAssignment[] = [];
+    const redirects: ShellRedirect[] = [];
+    for (;;) {
+      const t = this.peek();
+      if (t?.kind === 'redirect') {
+        redirects.push(this.readRedirect());
+        continue;
+      }
+      if (t?.kind !== 'word') break;
+      this.pos++;
+      const m = argv.length === 0 ? t.word.raw.match(ASSIGNMENT) : null;
+      if (m) {
+        assignments.push({ name: m[1], value: sliceWord(t.word, m[0].length) });
+      } else {
+        argv.push(t.word);
+      }
+    }
+    if (argv.length === 0 && assignments.length === 0 && redirects.length === 0) return undefined;
+
+    // Function definition: name() compound-command
+    if (argv.length === 1 && assignments.length === 0 && this.isOp(this.peek(), '(') && this.isOp(this.peek(1), ')')) {
+      this.pos += 2;
+      this.skipNewlines();
+      const body = this.parseCommand();
+      if (body) return { type: 'function', name: argv[0].text, body, offset, end: body.end };
+    }
+
+    const cmd: ShellCommand = {
+      type: 'command', name: argv[0]?.text, argv, assignments, redirects, offset, end: this.lastEnd(),
+    };
+    cmd.script = inlineScript(cmd);
+    return cmd;
+  }
+
+  private parseIf(offset: number): ShellCompound {
+    this.pos++;
+    const bodies: ShellList[] = [];
+    bodies.push(this.parseList(['then'], []));
+    this.expectWord('then');
+    bodies.push(this.parseList(['elif', 'else', 'fi'], []));
+    while (this.isWord(this.peek(), 'elif')) {
+      this.pos++;
+      bodies.push(this.parseList(['then'], []));
+      this.expectWord('then');
+      bodies.push(this.parseList(['elif', 'else', 'fi'], []));
+    }
+    if (this.isWord(this.peek(), 'else')) {
+      this.pos++;
+      bodies.push(this.parseList(['fi'], []));
+    }
+    this.expectWord('fi');
+    return this.withRedirects<ShellCompound>({ type: 'compound', keyword: 'if', words: [], bodies, redirects: [], offset, end: this.lastEnd() });
+  }
+
+  private parseLoop(offset: number, keyword: 'while' | 'until'): ShellCompound {
+    this.pos++;
+    const condition = this.parseList(['do'], []);
+    this.expectWord('do');
+    const body = this.parseList(['done'], []);
+    this.expectWord('done');
+    return this.withRedirects<ShellCompound>({ type: 'compound', keyword, words: [], bodies: [condition, body], redirects: [], offset, end: this.lastEnd() });
+  }
+
+  private parseFor(offset: number): ShellCompound {
+    this.pos++;
+    const words: ShellWord[] = [];
+    // Covers both `for x in a b c` and arithmetic `for ((i = 0; ...))` headers
+    while (this.peek() && !this.isWord(this.peek(), 'do')) {
+      const t = this.peek()!;
+      if (t.kind === 'word' && !this.isWord(t, 'in')) words.push(t.word);
+      this.pos++;
+    }
+    this.expectWord('do');
+    const body = this.parseList(['done'], []);
+    this.expectWord('done');
+    return this.withRedirects<ShellCompound>({ type: 'compound', keyword: 'for', words, bodies: [body], redirects: [], offset, end: this.lastEnd() });
+  }
+
+  private parseCase(offset: number): ShellCompound {
+    this.pos++;
+    const words: ShellWord[] = [];
+    const bodies: ShellList[] = [];
+    const subject = this.peek();
+    if (subject?.kind === 'word') {
+      words.push(subject.word);
+      this.pos++;
+    }
+    this.skipNewlines();
+    this.expectWord('in');
+    for (;;) {
+      this.skipNewlines();
+      const t = this.peek();
+      if (!t || this.isWord(t, 'esac')) break;
+      const before = this.pos;
+      if (this.isOp(t, '(')) this.pos++;
+      while (this.peek() && !this.isOp(this.peek(), ')')) {
+        const p = this.peek()!;
+        if (p.kind === 'word') words.push(p.word);
+        this.pos++;
+      }
+      this.pos++;
+      bodies.push(this.parseList(['esac'], [';;', ';&', ';;&']));
+      if (this.isOp(this.peek(), ';;', ';&', ';;&')) this.pos++;
+      if (this.pos === before) this.pos++;
+    }
+    this.expectWord('esac');
+    return this.withRedirects<ShellCompound>({ type: 'compound', keyword: 'case', words, bodies, redirects: [], offset, end: this.lastEnd() });
+  }
+}
+
+/** Portion of a word after its first `length` raw characters (the `NAME=` of an assignment) */
+function sliceWord(word: ShellWord, length: number): ShellWord {
+  return {
+    text: word.text.slice(length),
+    raw: word.raw.slice(length),
+    quoted: word.quoted,
+    expansions: word.expansions.filter(e => e.offset >= word.offset + length),
+    offset: word.offset + length,
+    end: word.end,
+  };
+}
+
+function parseScriptWord(script: ShellWord | undefined): ShellList | undefined {
+  if (!script) return undefined;
+  const quoteWidth = /^["']/.test(script.raw) ? 1 : 0;
+  return parseShell(script.text, script.offset + quoteWidth);
+}
+
+/**
+ * Parse the script argument of `sh -c '...'`, `bash -euxc "..."` and similar invocations,
+ * and of `su [user] -c '...'`, which runs it through the user's shell
+ */
+function inlineScript(cmd: ShellCommand): ShellList | undefined {
+  if (!cmd.name) return undefined;
+  if (['su', 'runuser'].includes(basename(cmd.name))) {
+    const k = cmd.argv.findIndex(w => w.text === '-c' || w.text === '--command');
+    return k > 0 ? parseScriptWord(cmd.argv[k + 1]) : undefined;
+  }
+  if (!isPosixShell(cmd.name)) return undefined;
+  for (let k = 1; k < cmd.argv.length; k++) {
+    const arg = cmd.argv[k].text;
+    if (arg.startsWith('--')) continue;
+    if (!/^[-+][A-Za-z]+$/.test(arg)) return undefined;
+    if (arg.startsWith('-') && arg.includes('c')) return parseScriptWord(cmd.argv[k + 1]);
+    // `-o pipefail` / `-euo pipefail`: the option name is the next word
+    if (arg.slice(1).includes('o')) k++;
+  }
+  return undefined;
+}
+
+function parseRange(src: string, base: number, start: number, end: number): ShellList {
+  const tokens = new ShellLexer(src, base).tokenize(start, end);
+  return new ShellParser(tokens, base + start).parse();
+}
+
+/**
+ * Parse a shell script into a list of commands.
+ * @param baseOffset Added to every offset in the tree (e.g. the script's position in `arguments`)
+ */
+export function parseShell(script: string, baseOffset = 0): ShellList {
+  return parseRange(script, baseOffset, 0, script.length);
+}
+
+/**
+ * Parse an exec-form command (`["sh", "-c", "..."]`) into a single-command list.
+ * Word offsets point at each JSON element within the original text.
+ */
+export function parseExecForm(argv: string[], source: string, baseOffset = 0): ShellList {
+  const words: ShellWord[] = [];
+  let cursor = 0;
+  for (const arg of argv) {
+    const encoded = JSON.stringify(arg);
+    const idx = source.indexOf(encoded, cursor);
+    const start = idx >= 0 ? idx : cursor;
+    cursor = idx >= 0 ? idx + encoded.length : cursor;
+    words.push({
+      text: arg, raw: encoded, quoted: true, expansions: [],
+      offset: baseOffset + start, end: baseOffset + start + encoded.length,
+    });
+  }
+  const offset = words[0]?.offset ?? baseOffset;
+  const end = words.length > 0 ? words[words.length - 1].end : baseOffset;
+  const cmd: ShellCommand = { type: 'command', name: argv[0], argv: words, assignments: [], redirects: [], offset, end };
+  cmd.script = inlineScript(cmd);
+  return { type: 'list', items: [cmd], offset, end };
+}
+
+/**
+ * Visit every node in a shell tree, including command substitutions and `sh -c` scripts.
+ */
+export function walkShell(node: ShellNode, cb: (node: ShellNode) => void): void {
+  cb(node);
+  const visitWord = (w: ShellWord | undefined) => {
+    for (const e of w?.expansions ?? []) {
+      if (e.script) walkShell(e.script, cb);
+    }
+  };
+  const visitRedirects = (redirects: ShellRedirect[]) => redirects.forEach(r => visitWord(r.target));
+  switch (node.type) {
+    case 'list':
+      node.items.forEach(n => walkShell(n, cb));
+      break;
+    case 'logical':
+      walkShell(node.left, cb);
+      walkShell(node.right, cb);
+      break;
+    case 'pipeline':
+      node.commands.forEach(n => walkShell(n, cb));
+      break;
+    case 'subshell':
+    case 'group':
+      walkShell(node.body, cb);
+      visitRedirects(node.redirects);
+      break;
+    case 'compound':
+      node.words.forEach(visitWord);
+      node.bodies.forEach(b => walkShell(b, cb));
+      visitRedirects(node.redirects);
+      break;
+    case 'function':
+      walkShell(node.body, cb);
+      break;
+    case 'command':
+      node.argv.forEach(visitWord);
+      node.assignments.forEach(a => visitWord(a.value));
+      visitRedirects(node.redirects);
+      if (node.script) walkShell(node.script, cb);
+      break;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Stage dependency graph.
+ *
+ * Models how build stages use each other: `FROM <stage>` inheritance, `COPY --from=<stage>`
+ * by name or index, and `RUN --mount=from=<stage>`. References that name no stage are kept
+ * as external images. BuildKit only builds the stages a target depends on, so reachability
+ * from a target decides which stages end up in (or feed into) the image.
+ */
+import { DockerfileAST, DockerfileInstruction, CopyInstruction, RunInstruction, Stage } from './types';
+
+export type StageReferenceKind = 'from' | 'copy' | 'mount';
+
+export interface StageReference {
+  kind: StageReferenceKind;
+  /** The FROM, COPY/ADD or RUN instruction making the reference */
+  instruction: DockerfileInstruction;
+  /** Reference as written: stage name, stage index or image */
+  ref: string;
+  /** The referenced stage, or undefined for an external image */
+  stage?: Stage;
+}
+
+export interface StageGraph {
+  stages: Stage[];
+  /** References made by `stage`, in source order */
+  references(stage: Stage): StageReference[];
+  /** Stages `stage` uses directly */
+  dependencies(stage: Stage): Stage[];
+  /** Stage named `target` (case-insensitive) or at index `target` */
+  find(target: string): Stage | undefined;
+  /** `target` and every stage it depends on, in source order */
+  reachable(target: Stage): Stage[];
+}
+
+function stageByName(stages: Stage[], name: string): Stage | undefined {
+  const lower = name.toLowerCase();
+  return stages.find(s => s.from.alias?.toLowerCase() === lower);
+}
+
+function stageByRef(stages: Stage[], ref: string): Stage | undefined {
+  if (/^\d+$/.test(ref)) return stages.find(s => s.index === Number(ref));
+  return stageByName(stages, ref);
+}
+
+export function buildStageGraph(ast: DockerfileAST): StageGraph {
+  const { stages } = ast;
+  const references = new Map<Stage, StageReference[]>();
+
+  for (const [k, stage] of stages.entries()) {
+    const refs: StageReference[] = [];
+    // FROM only sees stages defined above it
+    refs.push({
+      kind: 'from', instruction: stage.from, ref: stage.from.image,
+      stage: stageByName(stages.slice(0, k), stage.from.image),
+    });
+    for (const inst of stage.instructions) {
+      if (inst.type === 'COPY' || inst.type === 'ADD') {
+        const from = (inst as CopyInstruction).from;
+        if (from) refs.push({ kind: 'copy', instruction: inst, ref: from, stage: stageByRef(stages, from) });
+      } else if (inst.type === 'RUN') {
+        for (const mount of (inst as RunInstruction).mounts ?? []) {
+          if (mount.from) refs.push({ kind: 'mount', instruction: inst, ref: mount.from, stage: stageByRef(stages, mount.from) });
+        }
+      }
+    }
+    references.set(stage, refs);
+  }
+
+  const referencesOf = (stage: Stage) => references.get(stage) ?? [];
+  const dependencies = (stage: Stage) => [...new Set(
+    referencesOf(stage).map(r => r.stage).filter((s): s is Stage => !!s && s !== stage),
+  )];
+
+  return {
+    stages,
+    references: referencesOf,
+    dependencies,
+    find: (target) => stageByRef(stages, target),
+    reachable(target) {
+      const seen = new Set<Stage>([target]);
+      const queue = [target];
+      while (queue.length > 0) {
+        for (const dep of dependencies(queue.shift()!)) {
+          if (!seen.has(dep)) {
+            seen.add(dep);
+            queue.push(dep);
+          }
+        }
+      }
+      return stages.filter(s => seen.has(s));
+    },
+  };
+}
+
+/**
+ * The AST as built with `--target`: only stages reachable from the target, with the target
+ * last so that rules about the final image apply to it. Stages keep their original `index`.
+ * Returns undefined when no stage matches `target`.
+ */
+export function selectTarget(ast: DockerfileAST, target: string): DockerfileAST | undefined {
+  const graph = buildStageGraph(ast);
+  const stage = graph.find(target);
+  if (!stage) return undefined;
+  const stages = graph.reachable(stage).filter(s => s !== stage);
+  return { ...ast, stages: [...stages, stage] };
+}
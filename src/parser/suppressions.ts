@@ -0,0 +1,102 @@
+/**
+ * Inline suppression comments and the lines each one silences:
+ *
+ *   # dockervet ignore=DL3008,DV1001 reason="..."   the next instruction, continuation lines included
+ *   # hadolint ignore=DL3008                        same, for hadolint compatibility
+ *   # dockervet disable=DV1007 … # dockervet enable=DV1007   the lines in between (or to the end)
+ *   # dockervet disable-file=DL3057                 the whole file
+ *   # hadolint global ignore=DL3057                 same, for hadolint compatibility
+ *
+ * A next-line ignore may be stacked with other comments directly above its instruction; a
+ * blank line in between leaves it without one.
+ */
+import { Token } from './lexer';
+import { Suppression, SuppressionScope } from './types';
+
+type PragmaAction = 'ignore' | 'disable' | 'enable' | 'disable-file';
+
+interface Pragma {
+  action: PragmaAction;
+  rules: string[];
+  reason?: string;
+}
+
+const PRAGMA_RE = /^#\s*(dockervet|hadolint)\s+(global\s+ignore|ignore|disable-file|disable|enable)\s*=\s*(.*)$/i;
+const REASON_RE = /\s+reason\s*=\s*(?:"([^"]*)"|'([^']*)')\s*$/i;
+
+function parsePragma(comment: string): Pragma | undefined {
+  const m = comment.match(PRAGMA_RE);
+  if (!m) return undefined;
+  const tool = m[1].toLowerCase();
+  const keyword = m[2].toLowerCase().replace(/\s+/, ' ');
+  let action: PragmaAction;
+  if (keyword === 'ignore') action = 'ignore';
+  else if (keyword === 'global ignore' && tool === 'hadolint') action = 'disable-file';
+  else if (tool === 'dockervet' && keyword !== 'global ignore') action = keyword as PragmaAction;
+  else return undefined;
+
+  let list = m[3];
+  let reason: string | undefined;
+  const r = list.match(REASON_RE);
+  if (r) {
+    reason = r[1] ?? r[2];
+    list = list.slice(0, r.index);
+  }
+  const rules = list.split(',').map(id => id.trim()).filter(Boolean);
+  return rules.length > 0 ? { action, rules, reason } : undefined;
+}
+
+export function collectSuppressions(tokens: Token[]): Suppression[] {
+  const suppressions: Suppression[] = [];
+  const lastLine = tokens.length > 0 ? tokens[tokens.length - 1].endLine : 0;
+  // Next-line ignores waiting for their instruction, and open `disable=` blocks by rule
+  let pending: Suppression[] = [];
+  const open = new Map<string, Suppression>();
+
+  const add = (rule: string, scope: SuppressionScope, line: number, startLine: number, endLine: number, reason?: string) => {
+    const s: Suppression = { rule, scope, line, startLine, endLine };
+    if (reason !== undefined) s.reason = reason;
+    suppressions.push(s);
+    return s;
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'EMPTY') {
+      pending = [];
+      continue;
+    }
+    if (token.type !== 'COMMENT') {
+      for (const s of pending) {
+        s.startLine = token.line;
+        s.endLine = token.endLine;
+      }
+      pending = [];
+      continue;
+    }
+
+    const pragma = parsePragma(token.value);
+    if (!pragma) continue;
+    for (const rule of pragma.rules) {
+      switch (pragma.action) {
+        case 'ignore':
+          pending.push(add(rule, 'next-line', token.line, token.line + 1, token.line, pragma.reason));
+          break;
+        case 'disable-file':
+          add(rule, 'file', token.line, 1, lastLine, pragma.reason);
+          break;
+        case 'disable':
+          if (!open.has(rule)) open.set(rule, add(rule, 'block', token.line, token.line + 1, lastLine, pragma.reason));
+          break;
+        case 'enable': {
+          const block = open.get(rule);
+          if (block) {
+            block.endLine = token.line - 1;
+            open.delete(rule);
+          }
+          break;
+        }
+      }
+    }
+  }
+  return suppressions;
+}
@@ -3,12 +3,54 @@ export type InstructionType =
   | 'ENTRYPOINT' | 'VOLUME' | 'USER' | 'WORKDIR' | 'ARG' | 'ONBUILD'
   | 'STOPSIGNAL' | 'HEALTHCHECK' | 'SHELL' | 'MAINTAINER' | 'COMMENT';
 
+/** Start of a run of logical text that was copied verbatim from one physical line */
+export interface SourceMapping {
+  /** Offset into the logical (continuation-joined) text */
+  offset: number;
+  /** 1-based physical line */
+  line: number;
+  /** 1-based physical column of the character at `offset` */
+  column: number;
+}
+
+/** A here-document attached to RUN, COPY or ADD (`<<EOF` ... `EOF`) */
+export interface Heredoc {
+  /** Delimiter word without quotes or the `-` prefix */
+  delimiter: string;
+  /** `<<-EOF`: leading tabs are stripped from body lines at build time */
+  stripTabs: boolean;
+  /** `<<'EOF'` / `<<"EOF"`: variables in the body are not expanded */
+  quoted: boolean;
+  /** File the body is written to: the COPY/ADD destination, or `cat > file` / `tee file` in RUN */
+  targetPath?: string;
+  /** Body text as written, without the terminating delimiter line */
+  body: string;
+  /** 1-based physical line of the first body line */
+  startLine: number;
+  /** Offset of the body in the instruction's argument space, resolvable through `argumentsMap` */
+  offset: number;
+  /** Parsed body when RUN executes it as a shell script (`RUN <<EOF`) */
+  script?: ShellList;
+}
+
 export interface DockerfileInstruction {
   type: InstructionType;
   raw: string;
   line: number;
+  /** 1-based column of the instruction keyword */
+  column?: number;
+  /** Last physical line of the instruction (continuations and heredoc bodies included) */
+  endLine?: number;
+  /** 1-based column just past the last character on endLine */
+  endColumn?: number;
   arguments: string;
+  /** Maps offsets within `arguments` (and heredoc bodies past its end) back to physical positions */
+  argumentsMap?: SourceMapping[];
   flags: Record<string, string>;
+  /** Parsed command for RUN, CMD, ENTRYPOINT and HEALTHCHECK when the stage uses a POSIX shell */
+  shell?: ShellList;
+  /** Here-documents of RUN, COPY and ADD, in the order their delimiters appear */
+  heredocs?: Heredoc[];
   /** For ONBUILD, the inner instruction */
   innerInstruction?: DockerfileInstruction;
 }
@@ -22,6 +64,38 @@ export interface FromInstruction extends DockerfileInstruction {
   platform?: string;
 }
 
+/** One `--mount` flag of a RUN instruction */
+export interface RunMount {
+  /** bind (the default), cache, tmpfs, secret or ssh */
+  type: string;
+  id?: string;
+  /** Mount path; secret mounts default to /run/secrets/<id> unless exposed through `env` */
+  target?: string;
+  source?: string;
+  from?: string;
+  required?: boolean;
+  readonly?: boolean;
+  sharing?: string;
+  mode?: string;
+  uid?: string;
+  gid?: string;
+  /** Environment variable a secret is exposed through */
+  env?: string;
+  /** Offset and length of the whole flag within `arguments` */
+  offset: number;
+  length: number;
+}
+
+export interface RunInstruction extends DockerfileInstruction {
+  type: 'RUN';
+  /** Every `--mount`, in source order */
+  mounts: RunMount[];
+  /** `--network`: default, none or host */
+  network?: string;
+  /** `--security`: sandbox or insecure */
+  security?: string;
+}
+
 export interface CopyInstruction extends DockerfileInstruction {
   type: 'COPY' | 'ADD';
   from?: string;
@@ -74,9 +148,198 @@ export interface Stage {
   index: number;
 }
 
+export interface ParserDirective {
+  value: string;
+  line: number;
+}
+
+/** BuildKit parser directives declared at the top of the file */
+export interface ParserDirectives {
+  /** `# syntax=docker/dockerfile:1.4` — frontend image */
+  syntax?: ParserDirective;
+  /** `# escape=\`` — line continuation / escape character (default backslash) */
+  escape?: ParserDirective;
+  /** `# check=skip=JSONArgsRecommended;error=true` — BuildKit build check configuration */
+  check?: ParserDirective;
+}
+
+/** A top-level span of source text: one instruction, comment line or blank line */
+export interface CstNode {
+  kind: 'instruction' | 'comment' | 'blank';
+  /** Exact source text, including its line terminator(s) */
+  text: string;
+  /** Offset of `text` within the file */
+  offset: number;
+  line: number;
+  /** Last physical line, including comments inside continuations and heredoc bodies */
+  endLine: number;
+}
+
+export interface CstInstruction extends CstNode {
+  kind: 'instruction';
+  /** Keyword as written, e.g. `run` or `RUN` */
+  keyword: string;
+  /** Offset within `text` where the arguments start */
+  argumentsStart: number;
+  /** Offset within `text` where the instruction's own lines end (before the newline and any heredoc bodies) */
+  argumentsEnd: number;
+}
+
+/** Lossless concrete syntax tree: concatenating the node texts reproduces the file */
+export interface DockerfileCst {
+  nodes: CstNode[];
+}
+
+/** A syntax problem found while parsing; reported by the linter under its code */
+export interface ParseDiagnostic {
+  /** DV0xxx code, see PARSE_DIAGNOSTICS */
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  /** The file cannot be linted reliably (no build stage, or the rest of the file was swallowed) */
+  fatal?: boolean;
+}
+
+/** How far an inline suppression comment reaches */
+export type SuppressionScope = 'next-line' | 'block' | 'file';
+
+/**
+ * One rule silenced by an inline comment: `# dockervet ignore=` (the next instruction),
+ * `# dockervet disable=` … `# dockervet enable=` (a block), or `# dockervet disable-file=` and
+ * `# hadolint global ignore=` (the whole file).
+ */
+export interface Suppression {
+  rule: string;
+  scope: SuppressionScope;
+  /** Line of the comment */
+  line: number;
+  /** Lines silenced, inclusive; empty (endLine < startLine) for an ignore no instruction follows */
+  startLine: number;
+  endLine: number;
+  /** Text of a `reason="..."` after the rule IDs */
+  reason?: string;
+}
+
 export interface DockerfileAST {
   stages: Stage[];
   globalArgs: ArgInstruction[];
   comments: DockerfileInstruction[];
+  /** Next-line ignores by the first line of the instruction they apply to; see `suppressions` */
   inlineIgnores: Map<number, string[]>;
+  /** Inline suppressions of every scope, in source order */
+  suppressions: Suppression[];
+  directives: ParserDirectives;
+  /** Syntax problems, in source order */
+  diagnostics: ParseDiagnostic[];
+  /** Source text the AST was parsed from, for printing and editing */
+  cst: DockerfileCst;
 }
+
+// ---------------------------------------------------------------------------
+// Shell AST (RUN / CMD / ENTRYPOINT / HEALTHCHECK commands)
+//
+// Offsets are relative to the owning instruction's `arguments` string, so they can be
+// passed straight to the argument source map for line/column reporting.
+// ---------------------------------------------------------------------------
+
+export interface ShellExpansion {
+  kind: 'parameter' | 'command' | 'arithmetic' | 'process';
+  /** Variable name for parameter expansions (`$FOO`, `${FOO:-x}` -> FOO) */
+  name?: string;
+  raw: string;
+  offset: number;
+  end: number;
+  /** Parsed body of command and process substitutions */
+  script?: ShellList;
+}
+
+export interface ShellWord {
+  /** Value after quote removal; expansions are kept verbatim */
+  text: string;
+  raw: string;
+  /** True when any part of the word was quoted or escaped */
+  quoted: boolean;
+  expansions: ShellExpansion[];
+  offset: number;
+  end: number;
+}
+
+export interface ShellRedirect {
+  /** `>`, `>>`, `<`, `<<`, `<<-`, `<<<`, `>&`, `<&`, `<>`, `>|`, `&>`, `&>>` */
+  op: string;
+  fd?: number;
+  target?: ShellWord;
+  /** Body of a `<<` / `<<-` here-document, from the parsed text or the instruction's heredocs */
+  heredoc?: string;
+  offset: number;
+  end: number;
+}
+
+export interface ShellAssignment {
+  name: string;
+  value: ShellWord;
+}
+
+interface ShellNodeBase {
+  offset: number;
+  end: number;
+}
+
+export interface ShellCommand extends ShellNodeBase {
+  type: 'command';
+  /** argv[0] after quote removal */
+  name?: string;
+  argv: ShellWord[];
+  assignments: ShellAssignment[];
+  redirects: ShellRedirect[];
+  /** Parsed script for `sh -c '...'` and `su user -c '...'` style invocations, or a heredoc fed to `sh <<EOF` */
+  script?: ShellList;
+}
+
+export interface ShellPipeline extends ShellNodeBase {
+  type: 'pipeline';
+  negated: boolean;
+  commands: ShellNode[];
+}
+
+export interface ShellLogical extends ShellNodeBase {
+  type: 'logical';
+  op: '&&' | '||';
+  left: ShellNode;
+  right: ShellNode;
+}
+
+export interface ShellList extends ShellNodeBase {
+  type: 'list';
+  items: ShellNode[];
+}
+
+export interface ShellSubshell extends ShellNodeBase {
+  type: 'subshell' | 'group';
+  body: ShellList;
+  redirects: ShellRedirect[];
+}
+
+export interface ShellCompound extends ShellNodeBase {
+  type: 'compound';
+  keyword: 'if' | 'while' | 'until' | 'for' | 'case';
+  /** Loop variable / word list for `for`, subject and patterns for `case` */
+  words: ShellWord[];
+  /** Conditions and bodies in source order */
+  bodies: ShellList[];
+  redirects: ShellRedirect[];
+}
+
+export interface ShellFunction extends ShellNodeBase {
+  type: 'function';
+  name: string;
+  body: ShellNode;
+}
+
+export type ShellNode =
+  | ShellCommand | ShellPipeline | ShellLogical | ShellList
+  | ShellSubshell | ShellCompound | ShellFunction;
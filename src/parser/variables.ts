@@ -0,0 +1,190 @@
+/**
+ * ARG / ENV variable resolution.
+ *
+ * Follows BuildKit's scoping: global ARGs (before the first FROM) are visible to FROM lines
+ * only, a stage sees a global ARG once it re-declares it with `ARG NAME`, ENV values override
+ * ARGs of the same name, and a stage built `FROM` an earlier stage inherits that stage's ENV.
+ * References that cannot be resolved are left in place so rules can still recognise them.
+ */
+import { DockerfileAST, DockerfileInstruction, ArgInstruction, EnvInstruction, FromInstruction, Stage } from './types';
+import { parseFromArgs } from './parser';
+import { escapeCharOf } from './lexer';
+
+/** Values supplied with `--build-arg KEY=VALUE` */
+export type BuildArgs = Record<string, string>;
+
+/** Variables in scope; `undefined` marks an ARG declared without a value */
+export type VariableScope = ReadonlyMap<string, string | undefined>;
+
+export interface VariableResolver {
+  /** Variables visible to `inst`, i.e. after every preceding ARG/ENV of its stage */
+  scopeAt(inst: DockerfileInstruction): VariableScope;
+  /** `inst.arguments` with every resolvable variable reference expanded */
+  resolve(inst: DockerfileInstruction): string;
+  /** Expand `text` in the scope of `inst` */
+  expand(text: string, inst: DockerfileInstruction): string;
+  /** The stage's FROM with global ARGs applied to the image reference */
+  from(stage: Stage): FromInstruction;
+}
+
+// Automatic platform ARGs: BuildKit defines these in the global scope
+const PLATFORM_ARGS = new Set([
+  'TARGETPLATFORM', 'TARGETOS', 'TARGETARCH', 'TARGETVARIANT',
+  'BUILDPLATFORM', 'BUILDOS', 'BUILDARCH', 'BUILDVARIANT',
+]);
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+function isSet(scope: VariableScope, name: string): boolean {
+  return scope.get(name) !== undefined;
+}
+
+/** Index of the `}` closing the `${` that starts at `start`, or -1 */
+function closingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '$' && text[i + 1] === '{') { depth++; i++; continue; }
+    if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Expand the body of `${...}`; returns undefined when it should stay verbatim */
+function expandBraced(body: string, scope: VariableScope, escapeChar: string): string | undefined {
+  const m = body.match(NAME);
+  if (!m) return undefined;
+  const name = m[0];
+  const rest = body.slice(name.length);
+  const value = scope.get(name);
+  if (rest === '') return value;
+  const op = rest.match(/^:?[-+?]/)?.[0];
+  if (!op) return undefined;
+  const word = rest.slice(op.length);
+  // `:-`/`:+`/`:?` treat an empty value like an unset one
+  const present = op.startsWith(':') ? isSet(scope, name) && value !== '' : isSet(scope, name);
+  switch (op.slice(-1)) {
+    case '-': return present ? value : expandVariables(word, scope, escapeChar);
+    case '+': return present ? expandVariables(word, scope, escapeChar) : '';
+    default: return present ? value : undefined;
+  }
+}
+
+/**
+ * Expand `$VAR`, `${VAR}`, `${VAR:-default}`, `${VAR-default}`, `${VAR:+alt}`, `${VAR+alt}`
+ * and `${VAR:?msg}` against `scope`. Single-quoted text and escaped `$` are left untouched,
+ * as are references to variables that are not set.
+ */
+export function expandVariables(text: string, scope: VariableScope, escapeChar = '\\'): string {
+  let out = '';
+  let inSingle = false;
+  let inDouble = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inSingle) {
+      out += ch;
+      if (ch === "'") inSingle = false;
+      continue;
+    }
+    if (ch === escapeChar && i + 1 < text.length) {
+      out += ch + text[++i];
+      continue;
+    }
+    if (ch === "'" && !inDouble) inSingle = true;
+    if (ch === '"') inDouble = !inDouble;
+    if (ch !== '$') {
+      out += ch;
+      continue;
+    }
+    if (text[i + 1] === '{') {
+      const end = closingBrace(text, i);
+      const expanded = end < 0 ? undefined : expandBraced(text.slice(i + 2, end), scope, escapeChar);
+      if (expanded === undefined) {
+        out += ch;
+        continue;
+      }
+      out += expanded;
+      i = end;
+      continue;
+    }
+    const name = text.slice(i + 1).match(NAME)?.[0];
+    const value = name ? scope.get(name) : undefined;
+    if (value === undefined) {
+      out += ch;
+      continue;
+    }
+    out += value;
+    i += name!.length;
+  }
+  return out;
+}
+
+/**
+ * Build a resolver for `ast`. `buildArgs` override the defaults of declared ARGs, as
+ * `docker build --build-arg` does; values for undeclared ARGs are ignored except for the
+ * automatic platform ARGs.
+ */
+export function createVariableResolver(ast: DockerfileAST, buildArgs: BuildArgs = {}): VariableResolver {
+  const escapeChar = escapeCharOf(ast.directives);
+  const global = new Map<string, string | undefined>();
+  for (const name of PLATFORM_ARGS) {
+    if (buildArgs[name] !== undefined) global.set(name, buildArgs[name]);
+  }
+  const scopes = new Map<DockerfileInstruction, VariableScope>();
+  for (const arg of ast.globalArgs) {
+    scopes.set(arg, new Map(global));
+    global.set(arg.name, argValue(arg, global));
+  }
+
+  function argValue(arg: ArgInstruction, scope: VariableScope): string | undefined {
+    if (buildArgs[arg.name] !== undefined) return buildArgs[arg.name];
+    if (arg.defaultValue !== undefined) return expandVariables(arg.defaultValue, scope, escapeChar);
+    return global.get(arg.name);
+  }
+
+  // ENV exported by each stage, for stages that build on it
+  const stageEnv = new Map<string, Map<string, string>>();
+  for (const stage of ast.stages) {
+    scopes.set(stage.from, global);
+    const parent = stageEnv.get(stage.from.image.toLowerCase());
+    const env = new Map<string, string>(parent ?? []);
+    const scope = new Map<string, string | undefined>(env);
+    for (const inst of stage.instructions) {
+      scopes.set(inst, new Map(scope));
+      if (inst.type === 'ARG') {
+        const arg = inst as ArgInstruction;
+        if (!env.has(arg.name)) scope.set(arg.name, argValue(arg, scope));
+      } else if (inst.type === 'ENV') {
+        // All pairs of one ENV see the scope from before the instruction
+        const before = new Map(scope);
+        for (const pair of (inst as EnvInstruction).pairs) {
+          const value = expandVariables(pair.value, before, escapeChar);
+          env.set(pair.key, value);
+          scope.set(pair.key, value);
+        }
+      }
+    }
+    if (stage.from.alias) stageEnv.set(stage.from.alias.toLowerCase(), env);
+  }
+
+  const empty: VariableScope = new Map();
+  const scopeAt = (inst: DockerfileInstruction) => scopes.get(inst) ?? empty;
+  const expand = (text: string, inst: DockerfileInstruction) => expandVariables(text, scopeAt(inst), escapeChar);
+  const froms = new Map<Stage, FromInstruction>();
+
+  return {
+    scopeAt,
+    expand,
+    resolve: (inst) => expand(inst.arguments, inst),
+    from(stage) {
+      let from = froms.get(stage);
+      if (!from) {
+        const resolved = expand(stage.from.arguments, stage.from);
+        from = resolved === stage.from.arguments
+          ? stage.from
+          : { ...stage.from, ...parseFromArgs(resolved, stage.from.line), argumentsMap: undefined };
+        froms.set(stage, from);
+      }
+      return from;
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Rule catalogue: metadata lookup and the entries behind `dockervet rules` and the rule
+ * descriptions in JSON and SARIF output.
+ */
+import { Rule, RuleCategory, RuleExample, RuleMeta, RuleOptionType, Severity } from './types';
+import { ALL_RULES } from './index';
+import { DL_METADATA } from './dl/metadata';
+import { DV_METADATA } from './dv/metadata';
+
+const BUILTIN_METADATA: Record<string, RuleMeta> = { ...DL_METADATA, ...DV_METADATA };
+
+export const RULE_CATEGORIES: RuleCategory[] = ['security', 'supply-chain', 'reliability', 'efficiency', 'maintainability'];
+
+const DOCS_BASE = 'https://github.com/3-shake/DockerVet#';
+
+// README section listing each rule family
+const DOCS_SECTIONS: [RegExp, string][] = [
+  [/^DV0/, 'parse-diagnostics'],
+  [/^DL/, 'hadolint-compatible-dl3xxx'],
+  [/^DV1/, 'dockervet-security-rules-dv1xxx'],
+  [/^DV2/, 'cis-docker-benchmark-rules-dv2xxx'],
+  [/^DV3/, 'security-advanced-rules-dv3xxx'],
+  [/^DV4/, 'best-practices-rules-dv4xxx'],
+  [/^DV5/, 'base-image-rules-dv5xxx'],
+  [/^DV6/, 'supply-chain-hardening-rules-dv6xxx'],
+  [/^DV7/, 'runtime-hardening-rules-dv7xxx'],
+  [/^DV8/, 'container-isolation-rules-dv8xxx'],
+  [/^DV9/, 'build-hygiene-rules-dv9xxx'],
+];
+
+export interface RuleOptionEntry {
+  name: string;
+  type: RuleOptionType;
+  default: unknown;
+  description: string;
+}
+
+export interface RuleCatalogEntry {
+  id: string;
+  severity: Severity;
+  description: string;
+  url: string;
+  platform?: string;
+  category?: RuleCategory;
+  cwe?: string[];
+  cis?: string[];
+  tags?: string[];
+  rationale?: string;
+  remediation?: string;
+  example?: RuleExample;
+  /** Options settable under `rules.<ID>.options`, with their defaults */
+  options?: RuleOptionEntry[];
+  /** Built-in severity, set when the config overrides it */
+  defaultSeverity?: Severity;
+  /** Whether the rule runs under the config; unset when listed without one */
+  enabled?: boolean;
+  /** Preset that enabled the rule, when the config uses presets */
+  preset?: string;
+}
+
+/** The rule's own `meta`, or its entry in the built-in catalogue */
+export function ruleMeta(rule: Rule): RuleMeta | undefined {
+  return rule.meta ?? BUILTIN_METADATA[rule.id];
+}
+
+/** Documentation link: the rule's `url`, or the README section of its family */
+export function ruleDocsUrl(rule: Pick<Rule, 'id' | 'url' | 'platform'>): string {
+  if (rule.url) return rule.url;
+  if (rule.platform === 'windows') return `${DOCS_BASE}windows-rules`;
+  const section = DOCS_SECTIONS.find(([prefix]) => prefix.test(rule.id));
+  return DOCS_BASE + (section ? section[1] : 'rules');
+}
+
+export function catalogEntry(rule: Rule): RuleCatalogEntry {
+  return {
+    id: rule.id,
+    severity: rule.severity,
+    description: rule.description,
+    url: ruleDocsUrl(rule),
+    platform: rule.platform,
+    ...ruleMeta(rule),
+    ...(rule.options && {
+      options: Object.entries(rule.options).map(([name, spec]) => ({ name, type: spec.type, default: spec.default, description: spec.description })),
+    }),
+  };
+}
+
+/** Severity and enabled state a config gives a rule; see `ruleStatus` in engine/config */
+export type RuleStatusOf = (rule: Rule) => { severity: Severity; enabled: boolean; preset?: string };
+
+/**
+ * Catalogue entries of the given rules (default: all registered), sorted by ID. With
+ * `statusOf`, entries carry the configured severity and enabled state.
+ */
+export function ruleCatalog(rules: Rule[] = ALL_RULES, statusOf?: RuleStatusOf): RuleCatalogEntry[] {
+  return rules
+    .map(rule => {
+      const entry = catalogEntry(rule);
+      if (!statusOf) return entry;
+      const { severity, enabled, preset } = statusOf(rule);
+      return {
+        ...entry, severity, enabled,
+        ...(severity !== rule.severity && { defaultSeverity: rule.severity }),
+        ...(preset && { preset }),
+      };
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -1,5 +1,7 @@
 import { Rule, Violation } from '../types';
 import { WorkdirInstruction } from '../../parser/types';
+import { isAbsolutePath } from '../../parser/platform';
+import { platformOf } from '../utils';
 
 export const DL3000: Rule = {
   id: 'DL3000',
@@ -11,8 +13,8 @@ export const DL3000: Rule = {
       for (const inst of stage.instructions) {
         if (inst.type === 'WORKDIR') {
           const w = inst as WorkdirInstruction;
-          // Unix absolute paths start with /; Windows absolute paths start with drive letter (C:/ or C:\)
-          if (!w.path.startsWith('/') && !w.path.startsWith('$') && !/^[A-Za-z]:[/\\]/.test(w.path)) {
+          // Drive paths (C:/ or C:\) are absolute anywhere; Windows stages also accept \app
+          if (!w.path.startsWith('$') && !isAbsolutePath(w.path, platformOf(ctx, stage))) {
             violations.push({ rule: 'DL3000', severity: 'error', message: 'Use absolute WORKDIR', line: inst.line });
           }
         }
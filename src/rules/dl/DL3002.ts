@@ -5,6 +5,7 @@ export const DL3002: Rule = {
   id: 'DL3002',
   severity: 'warning',
   description: 'Last USER should not be root',
+  platform: 'linux',
   check(ctx) {
     const violations: Violation[] = [];
     const lastStage = ctx.ast.stages[ctx.ast.stages.length - 1];
@@ -1,4 +1,5 @@
 import { Rule, Violation } from '../types';
+import { findCommands, shellRegion } from '../utils';
 
 export const DL3003: Rule = {
   id: 'DL3003',
@@ -8,8 +9,10 @@ export const DL3003: Rule = {
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
-        if (inst.type === 'RUN' && /(?:^|[;&|]\s*)cd\s+/.test(inst.arguments)) {
-          violations.push({ rule: 'DL3003', severity: 'warning', message: 'Use WORKDIR to switch to a directory', line: inst.line });
+        if (inst.type !== 'RUN') continue;
+        const cd = findCommands(inst, 'cd')[0];
+        if (cd) {
+          violations.push({ rule: 'DL3003', severity: 'warning', message: 'Use WORKDIR to switch to a directory', ...shellRegion(inst, cd) });
         }
       }
     }
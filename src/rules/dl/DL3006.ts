@@ -1,4 +1,5 @@
 import { Rule, Violation } from '../types';
+import { resolvedFrom } from '../utils';
 
 // Docker's automatic platform ARGs (available without explicit ARG declaration in multi-arch builds)
 // See: https://docs.docker.com/reference/dockerfile/#automatic-platform-args-in-the-global-scope
@@ -53,6 +54,9 @@ export const DL3006: Rule = {
       if (TEMPLATE_PLACEHOLDER_RE.test(f.image)) continue;
       // Skip references to other build stages (e.g., FROM gobuild)
       if (stageAliases.has(f.image.toLowerCase())) continue;
+      // ARG values (defaults or --build-arg) may supply the tag, e.g. FROM ${BASE_IMAGE}
+      const effective = resolvedFrom(ctx, stage);
+      if (effective.tag || effective.digest) continue;
       if (!f.tag && !f.digest) {
         // If image is a variable reference (e.g., ${BASEIMG} or base-${BUILD_TYPE}),
         // resolve from global ARGs to check if the default value already contains a tag/digest,
@@ -1,4 +1,5 @@
 import { Rule, Violation } from '../types';
+import { resolvedFrom } from '../utils';
 
 export const DL3007: Rule = {
   id: 'DL3007',
@@ -7,7 +8,7 @@ export const DL3007: Rule = {
   check(ctx) {
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
-      if (stage.from.tag === 'latest') {
+      if (resolvedFrom(ctx, stage).tag === 'latest') {
         violations.push({ rule: 'DL3007', severity: 'warning', message: 'Using latest is prone to errors. Pin the version explicitly.', line: stage.from.line });
       }
     }
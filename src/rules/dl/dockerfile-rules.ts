@@ -4,7 +4,8 @@
  * Uses shared utilities from ../utils.ts for common iteration patterns.
  */
 import { Rule, Violation } from '../types';
-import { forEachInstruction, ARCHIVE_PATTERN, isUrl } from '../utils';
+import { forEachInstruction, ARCHIVE_PATTERN, isUrl, stageGraphOf, platformOf, keywordEdit } from '../utils';
+import { isAbsolutePath } from '../../parser/platform';
 import {
   ArgInstruction, CopyInstruction, ExposeInstruction,
   EnvInstruction, LabelInstruction,
@@ -62,6 +63,8 @@ export const DL3012: Rule = {
   },
 };
 
+const ADD_ONLY_FLAGS = new Set(['checksum', 'keep-git-dir', 'unpack']);
+
 // DL3020: Use COPY instead of ADD for files/folders
 export const DL3020: Rule = {
   id: 'DL3020', severity: 'error',
@@ -91,7 +94,14 @@ export const DL3020: Rule = {
         return ARCHIVE_PATTERN.test(s) || ARCHIVE_PATTERN.test(resolved);
       });
       if (!hasUrlSrc && !hasArchive) {
-        violations.push({ rule: 'DL3020', severity: 'error', message: 'Use COPY instead of ADD for files and folders', line: inst.line });
+        const v: Violation = { rule: 'DL3020', severity: 'error', message: 'Use COPY instead of ADD for files and folders', line: inst.line };
+        // COPY rejects ADD-only flags, and an unresolved source could still be a URL or archive
+        const addOnlyFlag = Object.keys(a.flags).some(f => ADD_ONLY_FLAGS.has(f));
+        if (!addOnlyFlag && !a.sources.some(s => s.includes('$'))) {
+          v.fixes = [keywordEdit(ctx, inst, 'COPY')];
+          v.fixSafety = 'safe';
+        }
+        violations.push(v);
       }
     });
     return violations;
@@ -130,17 +140,16 @@ export const DL3022: Rule = {
   description: 'COPY --from should reference a previously defined FROM alias',
   check(ctx) {
     const violations: Violation[] = [];
-    const aliases = new Set<string>();
+    const graph = stageGraphOf(ctx);
     for (const stage of ctx.ast.stages) {
-      for (const inst of stage.instructions) {
-        if (inst.type === 'COPY') {
-          const c = inst as CopyInstruction;
-          if (c.from && !/^\d+$/.test(c.from) && !aliases.has(c.from) && !c.from.includes('/') && !c.from.includes('.') && !c.from.includes(':')) {
-            violations.push({ rule: 'DL3022', severity: 'warning', message: `COPY --from=${c.from} references an undefined FROM alias`, line: inst.line });
-          }
+      for (const ref of graph.references(stage)) {
+        if (ref.kind !== 'copy' || ref.stage || ref.instruction.type !== 'COPY') continue;
+        // Names with a registry, tag or path are external images
+        const from = ref.ref;
+        if (!/^\d+$/.test(from) && !from.includes('/') && !from.includes('.') && !from.includes(':')) {
+          violations.push({ rule: 'DL3022', severity: 'warning', message: `COPY --from=${from} references an undefined FROM alias`, line: ref.instruction.line });
         }
       }
-      if (stage.from.alias) aliases.add(stage.from.alias);
     }
     return violations;
   },
@@ -152,14 +161,12 @@ export const DL3023: Rule = {
   description: 'COPY --from should not reference its own FROM alias',
   check(ctx) {
     const violations: Violation[] = [];
+    const graph = stageGraphOf(ctx);
     for (const stage of ctx.ast.stages) {
-      for (const inst of stage.instructions) {
-        if (inst.type === 'COPY') {
-          const c = inst as CopyInstruction;
-          if (c.from && stage.from.alias && c.from === stage.from.alias) {
-            violations.push({ rule: 'DL3023', severity: 'error', message: `COPY --from=${c.from} references its own FROM alias`, line: inst.line });
-          }
-        }
+      for (const ref of graph.references(stage)) {
+        // Numeric self-references are reported by DV4016
+        if (ref.kind !== 'copy' || ref.stage !== stage || ref.instruction.type !== 'COPY' || /^\d+$/.test(ref.ref)) continue;
+        violations.push({ rule: 'DL3023', severity: 'error', message: `COPY --from=${ref.ref} references its own FROM alias`, line: ref.instruction.line });
       }
     }
     return violations;
@@ -322,7 +329,7 @@ export const DL3045: Rule = {
         if (inst.type === 'WORKDIR') hasWorkdir = true;
         if (inst.type === 'COPY') {
           const c = inst as CopyInstruction;
-          if (!hasWorkdir && c.destination && !c.destination.startsWith('/') && !c.destination.startsWith('$')) {
+          if (!hasWorkdir && c.destination && !isAbsolutePath(c.destination, platformOf(ctx, stage)) && !c.destination.startsWith('$')) {
             violations.push({ rule: 'DL3045', severity: 'warning', message: 'COPY to a relative destination without WORKDIR set. Use absolute paths or set WORKDIR.', line: inst.line });
           }
         }
@@ -393,6 +400,7 @@ export const DL3048: Rule = {
 export const DL3049: Rule = {
   id: 'DL3049', severity: 'info',
   description: 'Label is missing',
+  scope: 'stage',
   check(ctx) {
     if (!ctx.requiredLabels || ctx.requiredLabels.length === 0) return [];
     const violations: Violation[] = [];
@@ -602,6 +610,7 @@ const DL3057_SKIP_DIRS = /(?:^|[/\\])(?:\.devcontainer|RELEASING|releasing|hack|
 export const DL3057: Rule = {
   id: 'DL3057', severity: 'info',
   description: 'HEALTHCHECK instruction missing',
+  scope: 'stage',
   check(ctx) {
     const violations: Violation[] = [];
     // Skip non-service Dockerfiles by path or filename pattern
@@ -638,6 +647,7 @@ export const DL3057: Rule = {
 export const DL4006: Rule = {
   id: 'DL4006', severity: 'warning',
   description: 'Set the SHELL option -o pipefail before RUN with a pipe in.',
+  platform: 'linux',
   check(ctx) {
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
@@ -0,0 +1,377 @@
+/**
+ * Catalogue metadata for the DL rules: category, CWE/CIS references, rationale, remediation
+ * and a bad/good example. Looked up through `ruleMeta` in rules/catalog.
+ */
+import { RuleMeta } from '../types';
+
+export const DL_METADATA: Record<string, RuleMeta> = {
+  DL3000: {
+    category: 'reliability', tags: ['workdir'],
+    rationale: 'A relative WORKDIR is resolved against the previous WORKDIR, so the final directory depends on instructions that may be far away or inherited from the base image.',
+    remediation: 'Use an absolute path in WORKDIR.',
+    example: { bad: 'WORKDIR app', good: 'WORKDIR /app' },
+  },
+  DL3001: {
+    category: 'maintainability', tags: ['shell'],
+    rationale: 'Commands such as ssh, vim, service, top or shutdown are interactive or manage a full system; in a build step they either do nothing useful or hang the build.',
+    remediation: 'Remove the command, or use the tool it stands for at runtime with docker exec.',
+    example: { bad: 'RUN service nginx start', good: 'CMD ["nginx", "-g", "daemon off;"]' },
+  },
+  DL3002: {
+    category: 'security', cwe: ['CWE-250'], cis: ['4.1'], tags: ['user', 'privileges'],
+    rationale: 'The last USER is the user the container runs as. Running as root turns any code execution flaw in the application into root access inside the container and widens the impact of a container escape.',
+    remediation: 'Create an unprivileged user and switch to it with USER at the end of the final stage.',
+    example: {
+      bad: 'FROM alpine:3.21\nUSER root\nCMD ["app"]',
+      good: 'FROM alpine:3.21\nRUN adduser -D -u 10001 app\nUSER app\nCMD ["app"]',
+    },
+  },
+  DL3003: {
+    category: 'maintainability', tags: ['workdir', 'shell'],
+    rationale: 'A `cd` only lasts for the RUN it appears in, so later instructions silently run elsewhere; WORKDIR makes the working directory explicit and persistent.',
+    remediation: 'Replace `cd <dir>` with a WORKDIR instruction before the RUN.',
+    example: { bad: 'RUN cd /app && make', good: 'WORKDIR /app\nRUN make' },
+  },
+  DL3004: {
+    category: 'security', cwe: ['CWE-250'], tags: ['sudo', 'privileges'],
+    rationale: 'RUN already executes as the current USER; sudo adds a setuid binary and a privilege escalation path to the image and behaves unpredictably without a TTY.',
+    remediation: 'Run privileged steps as root with USER root, then switch back to the unprivileged user.',
+    example: { bad: 'USER app\nRUN sudo apt-get update', good: 'USER root\nRUN apt-get update\nUSER app' },
+  },
+  DL3005: {
+    category: 'reliability', cis: ['4.7'], tags: ['apt', 'upgrade'],
+    rationale: 'dist-upgrade pulls in whatever package versions are current at build time, including new major versions, so two builds of the same Dockerfile can differ.',
+    remediation: 'Rebuild on an updated base image instead of upgrading packages in the Dockerfile.',
+    example: { bad: 'RUN apt-get update && apt-get dist-upgrade -y', good: 'FROM debian:12.8' },
+  },
+  DL3006: {
+    category: 'supply-chain', cwe: ['CWE-1357'], cis: ['4.2'], tags: ['base-image', 'pinning'],
+    rationale: 'An untagged image resolves to `latest`, which moves whenever the publisher pushes, so the build can pick up an unexpected and unreviewed base image.',
+    remediation: 'Tag the image with an explicit version, or pin it by digest.',
+    example: { bad: 'FROM node', good: 'FROM node:22.11-bookworm-slim' },
+  },
+  DL3007: {
+    category: 'supply-chain', cwe: ['CWE-1357'], cis: ['4.2'], tags: ['base-image', 'pinning'],
+    rationale: 'The `latest` tag is mutable; rebuilds silently switch to a new base image, which makes builds irreproducible and can introduce breaking changes.',
+    remediation: 'Replace `latest` with a specific version tag or digest.',
+    example: { bad: 'FROM ubuntu:latest', good: 'FROM ubuntu:24.04' },
+  },
+  DL3008: {
+    category: 'supply-chain', tags: ['apt', 'pinning'],
+    rationale: 'Unpinned apt packages install whatever version the mirror has at build time, so rebuilds are not reproducible and may pull in regressions.',
+    remediation: 'Pin versions with `package=version`.',
+    example: {
+      bad: 'RUN apt-get update && apt-get install -y curl',
+      good: 'RUN apt-get update && apt-get install -y curl=7.88.1-10+deb12u8',
+    },
+  },
+  DL3009: {
+    category: 'efficiency', tags: ['apt', 'cache', 'image-size'],
+    rationale: 'The package lists downloaded by apt-get update stay in /var/lib/apt/lists and add tens of megabytes to the layer without being needed at runtime.',
+    remediation: 'Remove /var/lib/apt/lists/* in the same RUN as the install.',
+    example: {
+      bad: 'RUN apt-get update && apt-get install -y curl',
+      good: 'RUN apt-get update && apt-get install -y curl \\\n    && rm -rf /var/lib/apt/lists/*',
+    },
+  },
+  DL3010: {
+    category: 'efficiency', tags: ['add', 'layers'],
+    rationale: 'Copying an archive and extracting it in a later RUN stores both the archive and its contents in the image.',
+    remediation: 'Let ADD extract local archives directly into the destination.',
+    example: { bad: 'COPY app.tar.gz /tmp/\nRUN tar -xzf /tmp/app.tar.gz -C /app', good: 'ADD app.tar.gz /app/' },
+  },
+  DL3011: {
+    category: 'reliability', tags: ['expose'],
+    rationale: 'Ports outside 0-65535 do not exist; the EXPOSE instruction is wrong and the build fails or the metadata is meaningless.',
+    remediation: 'Use a port number between 0 and 65535.',
+    example: { bad: 'EXPOSE 80000', good: 'EXPOSE 8000' },
+  },
+  DL3012: {
+    category: 'reliability', tags: ['healthcheck'],
+    rationale: 'Only the last HEALTHCHECK of a stage takes effect, so earlier ones are dead code that suggests checks which never run.',
+    remediation: 'Keep a single HEALTHCHECK per stage.',
+    example: {
+      bad: 'HEALTHCHECK CMD curl -f http://localhost/ || exit 1\nHEALTHCHECK CMD wget -q --spider http://localhost/',
+      good: 'HEALTHCHECK CMD curl -f http://localhost/ || exit 1',
+    },
+  },
+  DL3013: {
+    category: 'supply-chain', tags: ['pip', 'pinning'],
+    rationale: 'pip installs the newest release of an unpinned package, so builds change with every upstream release and can pull in compromised versions.',
+    remediation: 'Pin versions with `package==version`, or install from a pinned requirements file.',
+    example: { bad: 'RUN pip install flask', good: 'RUN pip install flask==3.1.0' },
+  },
+  DL3014: {
+    category: 'reliability', tags: ['apt', 'non-interactive'],
+    rationale: 'apt-get install asks for confirmation before installing; without a terminal the build aborts or hangs.',
+    remediation: 'Pass `-y` (or `--yes`) to apt-get install.',
+    example: { bad: 'RUN apt-get install curl', good: 'RUN apt-get install -y curl' },
+  },
+  DL3015: {
+    category: 'efficiency', cis: ['4.3'], tags: ['apt', 'image-size'],
+    rationale: 'apt installs recommended packages by default, adding size and attack surface the image usually does not need.',
+    remediation: 'Pass `--no-install-recommends` and list the packages that are really needed.',
+    example: { bad: 'RUN apt-get install -y curl', good: 'RUN apt-get install -y --no-install-recommends curl' },
+  },
+  DL3016: {
+    category: 'supply-chain', tags: ['npm', 'pinning'],
+    rationale: 'npm resolves an unpinned package to its newest release at build time, so rebuilds are not reproducible.',
+    remediation: 'Pin versions with `package@version`, or install from a lockfile with npm ci.',
+    example: { bad: 'RUN npm install -g typescript', good: 'RUN npm install -g typescript@5.6.3' },
+  },
+  DL3017: {
+    category: 'reliability', cis: ['4.7'], tags: ['apk', 'upgrade'],
+    rationale: 'apk upgrade changes package versions at build time independently of the base image tag, so builds are not reproducible.',
+    remediation: 'Use a newer base image tag instead of upgrading packages.',
+    example: { bad: 'RUN apk upgrade', good: 'FROM alpine:3.21' },
+  },
+  DL3018: {
+    category: 'supply-chain', tags: ['apk', 'pinning'],
+    rationale: 'Unpinned apk packages install whatever version the repository offers at build time.',
+    remediation: 'Pin versions with `package=version`.',
+    example: { bad: 'RUN apk add --no-cache curl', good: 'RUN apk add --no-cache curl=8.11.1-r0' },
+  },
+  DL3019: {
+    category: 'efficiency', tags: ['apk', 'cache', 'image-size'],
+    rationale: 'Without --no-cache, apk keeps its index in /var/cache/apk, which ends up in the layer.',
+    remediation: 'Use `apk add --no-cache` instead of `apk update` and manual cache removal.',
+    example: { bad: 'RUN apk update && apk add curl', good: 'RUN apk add --no-cache curl' },
+  },
+  DL3020: {
+    category: 'security', cis: ['4.9'], tags: ['add', 'copy'],
+    rationale: 'ADD also fetches URLs and extracts archives, so a plain file copy with ADD can do more than it appears to; COPY does exactly one thing.',
+    remediation: 'Use COPY for local files and directories.',
+    example: { bad: 'ADD ./src /app/src', good: 'COPY ./src /app/src' },
+  },
+  DL3021: {
+    category: 'reliability', tags: ['copy'],
+    rationale: 'With several sources, COPY needs a directory destination; without the trailing slash the build fails.',
+    remediation: 'End the destination with `/`.',
+    example: { bad: 'COPY package.json package-lock.json /app', good: 'COPY package.json package-lock.json /app/' },
+  },
+  DL3022: {
+    category: 'reliability', tags: ['multi-stage', 'copy'],
+    rationale: 'A COPY --from name that is not a previous stage is treated as an image reference, so a typo pulls an image from a registry instead of failing.',
+    remediation: 'Reference a stage defined earlier with `FROM ... AS <name>`.',
+    example: {
+      bad: 'FROM golang:1.23 AS build\nFROM alpine:3.21\nCOPY --from=builder /out/app /app',
+      good: 'FROM golang:1.23 AS build\nFROM alpine:3.21\nCOPY --from=build /out/app /app',
+    },
+  },
+  DL3023: {
+    category: 'reliability', tags: ['multi-stage', 'copy'],
+    rationale: 'A stage cannot copy from itself; the build fails.',
+    remediation: 'Copy from an earlier stage, or use a plain COPY or RUN cp inside the stage.',
+    example: {
+      bad: 'FROM alpine:3.21 AS app\nCOPY --from=app /a /b',
+      good: 'FROM alpine:3.21 AS build\nFROM alpine:3.21 AS app\nCOPY --from=build /a /b',
+    },
+  },
+  DL3024: {
+    category: 'reliability', tags: ['multi-stage'],
+    rationale: 'Duplicate stage names make COPY --from and --target ambiguous.',
+    remediation: 'Give every stage a unique name.',
+    example: {
+      bad: 'FROM node:22 AS build\nFROM golang:1.23 AS build',
+      good: 'FROM node:22 AS web-build\nFROM golang:1.23 AS api-build',
+    },
+  },
+  DL3025: {
+    category: 'reliability', tags: ['cmd', 'signals'],
+    rationale: 'Shell-form CMD and ENTRYPOINT run under /bin/sh -c, so the process is not PID 1 and does not receive SIGTERM on docker stop.',
+    remediation: 'Use the JSON (exec) form.',
+    example: { bad: 'CMD node server.js', good: 'CMD ["node", "server.js"]' },
+  },
+  DL3026: {
+    category: 'supply-chain', cwe: ['CWE-1357'], cis: ['4.2'], tags: ['base-image', 'registry'],
+    rationale: 'Base images from registries outside the allowed list have not been vetted by the organisation.',
+    remediation: 'Pull the image from a trusted registry, or add the registry to `trustedRegistries`.',
+    example: { bad: 'FROM randomuser/node:22', good: 'FROM registry.example.com/base/node:22' },
+  },
+  DL3027: {
+    category: 'reliability', tags: ['apt'],
+    rationale: 'apt is meant for interactive use and warns that its command line interface is unstable in scripts.',
+    remediation: 'Use apt-get or apt-cache.',
+    example: { bad: 'RUN apt install -y curl', good: 'RUN apt-get install -y curl' },
+  },
+  DL3028: {
+    category: 'supply-chain', tags: ['gem', 'pinning'],
+    rationale: 'gem install without a version installs the newest release at build time.',
+    remediation: 'Pin versions with `gem install <gem>:<version>` or `-v`.',
+    example: { bad: 'RUN gem install bundler', good: 'RUN gem install bundler:2.5.23' },
+  },
+  DL3029: {
+    category: 'reliability', tags: ['platform'],
+    rationale: 'A hard-coded FROM --platform overrides the platform requested for the build, which breaks multi-platform builds and emulates on other hosts.',
+    remediation: 'Drop --platform, or use `$BUILDPLATFORM`/`$TARGETPLATFORM`.',
+    example: { bad: 'FROM --platform=linux/amd64 golang:1.23', good: 'FROM --platform=$BUILDPLATFORM golang:1.23' },
+  },
+  DL3030: {
+    category: 'reliability', tags: ['yum', 'non-interactive'],
+    rationale: 'yum install prompts for confirmation and fails the build without a terminal.',
+    remediation: 'Pass `-y` to yum install.',
+    example: { bad: 'RUN yum install httpd', good: 'RUN yum install -y httpd' },
+  },
+  DL3031: {
+    category: 'reliability', cis: ['4.7'], tags: ['zypper', 'upgrade'],
+    rationale: 'zypper update changes package versions at build time regardless of the base image, so builds are not reproducible.',
+    remediation: 'Use an updated base image instead.',
+    example: { bad: 'RUN zypper update -y', good: 'FROM opensuse/leap:15.6' },
+  },
+  DL3032: {
+    category: 'efficiency', tags: ['yum', 'cache', 'image-size'],
+    rationale: 'yum keeps metadata and packages in /var/cache/yum, which stay in the layer.',
+    remediation: 'Run `yum clean all` in the same RUN.',
+    example: { bad: 'RUN yum install -y httpd', good: 'RUN yum install -y httpd && yum clean all' },
+  },
+  DL3033: {
+    category: 'supply-chain', tags: ['yum', 'pinning'],
+    rationale: 'Unpinned yum packages resolve to the newest version in the repository at build time.',
+    remediation: 'Pin versions with `package-version`.',
+    example: { bad: 'RUN yum install -y httpd', good: 'RUN yum install -y httpd-2.4.62' },
+  },
+  DL3034: {
+    category: 'reliability', tags: ['zypper', 'non-interactive'],
+    rationale: 'zypper install asks for confirmation and fails without a terminal.',
+    remediation: 'Pass `-y` (or `--non-interactive`).',
+    example: { bad: 'RUN zypper install curl', good: 'RUN zypper install -y curl' },
+  },
+  DL3035: {
+    category: 'reliability', cis: ['4.7'], tags: ['zypper', 'upgrade'],
+    rationale: 'zypper dist-upgrade replaces the distribution packages during the build, defeating the base image version.',
+    remediation: 'Use a newer base image instead.',
+    example: { bad: 'RUN zypper dist-upgrade -y', good: 'FROM opensuse/leap:15.6' },
+  },
+  DL3036: {
+    category: 'efficiency', tags: ['zypper', 'cache', 'image-size'],
+    rationale: 'zypper keeps repository metadata and packages in its cache, which stays in the layer.',
+    remediation: 'Run `zypper clean` in the same RUN.',
+    example: { bad: 'RUN zypper install -y curl', good: 'RUN zypper install -y curl && zypper clean' },
+  },
+  DL3037: {
+    category: 'supply-chain', tags: ['zypper', 'pinning'],
+    rationale: 'Unpinned zypper packages resolve to the newest version at build time.',
+    remediation: 'Pin versions with `package=version`.',
+    example: { bad: 'RUN zypper install -y curl', good: 'RUN zypper install -y curl=8.6.0' },
+  },
+  DL3038: {
+    category: 'reliability', tags: ['dnf', 'non-interactive'],
+    rationale: 'dnf install asks for confirmation and fails without a terminal.',
+    remediation: 'Pass `-y` to dnf install.',
+    example: { bad: 'RUN dnf install httpd', good: 'RUN dnf install -y httpd' },
+  },
+  DL3039: {
+    category: 'reliability', tags: ['zypper', 'non-interactive'],
+    rationale: 'zypper addrepo can prompt to trust the repository key and fails without a terminal.',
+    remediation: 'Pass `-y` (or `--non-interactive`).',
+    example: {
+      bad: 'RUN zypper addrepo https://download.example.com/repo example',
+      good: 'RUN zypper --non-interactive addrepo https://download.example.com/repo example',
+    },
+  },
+  DL3040: {
+    category: 'efficiency', tags: ['dnf', 'cache', 'image-size'],
+    rationale: 'dnf keeps metadata and packages in /var/cache/dnf, which stay in the layer.',
+    remediation: 'Run `dnf clean all` in the same RUN.',
+    example: { bad: 'RUN dnf install -y httpd', good: 'RUN dnf install -y httpd && dnf clean all' },
+  },
+  DL3041: {
+    category: 'supply-chain', tags: ['dnf', 'pinning'],
+    rationale: 'Unpinned dnf packages resolve to the newest version at build time.',
+    remediation: 'Pin versions with `package-version`.',
+    example: { bad: 'RUN dnf install -y httpd', good: 'RUN dnf install -y httpd-2.4.62' },
+  },
+  DL3042: {
+    category: 'efficiency', tags: ['pip', 'cache', 'image-size'],
+    rationale: 'pip stores downloaded wheels in ~/.cache/pip, which is useless in an image and can double the size of the layer.',
+    remediation: 'Pass `--no-cache-dir`, or set PIP_NO_CACHE_DIR=1.',
+    example: { bad: 'RUN pip install -r requirements.txt', good: 'RUN pip install --no-cache-dir -r requirements.txt' },
+  },
+  DL3043: {
+    category: 'reliability', tags: ['onbuild'],
+    rationale: 'FROM and MAINTAINER are not allowed as ONBUILD triggers; the build of the derived image fails.',
+    remediation: 'Remove the ONBUILD trigger.',
+    example: { bad: 'ONBUILD FROM alpine:3.21', good: 'ONBUILD COPY . /app' },
+  },
+  DL3044: {
+    category: 'reliability', tags: ['env', 'variables'],
+    rationale: 'Variables defined in an ENV are not visible to other assignments of the same instruction, so the reference expands to its previous value, usually empty.',
+    remediation: 'Split the assignments into separate ENV instructions.',
+    example: { bad: 'ENV APP_HOME=/app APP_BIN=$APP_HOME/bin', good: 'ENV APP_HOME=/app\nENV APP_BIN=$APP_HOME/bin' },
+  },
+  DL3045: {
+    category: 'reliability', tags: ['copy', 'workdir'],
+    rationale: 'A relative COPY destination is resolved against the WORKDIR, which without a WORKDIR in the stage is whatever the base image set.',
+    remediation: 'Set WORKDIR before the COPY, or use an absolute destination.',
+    example: { bad: 'FROM node:22\nCOPY . app/', good: 'FROM node:22\nWORKDIR /app\nCOPY . .' },
+  },
+  DL3046: {
+    category: 'efficiency', tags: ['useradd', 'image-size'],
+    rationale: 'useradd writes the lastlog entry at an offset proportional to the UID, so a high UID creates a huge sparse file that bloats the layer and exhausts disk space.',
+    remediation: 'Pass `-l` (`--no-log-init`) to useradd.',
+    example: { bad: 'RUN useradd -u 123456 app', good: 'RUN useradd -l -u 123456 app' },
+  },
+  DL3047: {
+    category: 'efficiency', tags: ['wget', 'logs'],
+    rationale: 'wget prints a progress update for every chunk, which floods build logs with thousands of lines.',
+    remediation: 'Use `wget --progress=dot:giga`, or `-q` for quiet downloads.',
+    example: { bad: 'RUN wget https://example.com/app.tar.gz', good: 'RUN wget --progress=dot:giga https://example.com/app.tar.gz' },
+  },
+  DL3048: {
+    category: 'maintainability', tags: ['labels'],
+    rationale: 'Label keys must start with a letter or digit and contain only letters, digits, dots, dashes and underscores; other keys break tools that read image metadata.',
+    remediation: 'Rename the key, preferably in reverse-DNS form such as `org.example.team`.',
+    example: { bad: 'LABEL team@example="core"', good: 'LABEL org.example.team="core"' },
+  },
+  DL3049: {
+    category: 'maintainability', tags: ['labels'],
+    rationale: 'Labels listed in `requiredLabels` are part of the organisation\'s image metadata contract, for example for ownership and provenance.',
+    remediation: 'Add the missing label.',
+    example: { bad: 'FROM alpine:3.21', good: 'FROM alpine:3.21\nLABEL org.opencontainers.image.source="https://github.com/example/app"' },
+  },
+  DL3050: {
+    category: 'maintainability', tags: ['labels'],
+    rationale: 'When `allowedLabels` is configured, other labels are not part of the metadata contract and are usually typos or leftovers.',
+    remediation: 'Remove the label, or add it to `allowedLabels`.',
+    example: { bad: 'LABEL foo="bar"', good: 'LABEL org.opencontainers.image.version="1.2.3"' },
+  },
+  DL3051: {
+    category: 'maintainability', tags: ['labels'],
+    rationale: 'A label listed in `requiredLabels` that is present but empty satisfies the check in name only, and usually means a build argument was not passed.',
+    remediation: 'Set a meaningful value.',
+    example: {
+      bad: 'LABEL org.opencontainers.image.source=""',
+      good: 'LABEL org.opencontainers.image.source="https://github.com/example/app"',
+    },
+  },
+  DL3052: {
+    category: 'maintainability', tags: ['arg', 'variables'],
+    rationale: 'An ARG that is never referenced does nothing; it is either dead code or a typo in the variable name where it was meant to be used.',
+    remediation: 'Remove the ARG, or fix the reference.',
+    example: { bad: 'ARG VERSION\nRUN echo building', good: 'ARG VERSION\nRUN echo building $VERSION' },
+  },
+  DL3053: {
+    category: 'reliability', tags: ['arg', 'env', 'variables'],
+    rationale: 'An ENV with the same name as an ARG takes precedence, so `--build-arg` for that name no longer has any effect.',
+    remediation: 'Set the ENV from the ARG, or give them different names.',
+    example: { bad: 'ARG VERSION=1.0\nENV VERSION=2.0', good: 'ARG VERSION=1.0\nENV VERSION=$VERSION' },
+  },
+  DL3057: {
+    category: 'reliability', cis: ['4.6'], tags: ['healthcheck'],
+    rationale: 'Without a HEALTHCHECK the container runtime only knows whether the process is alive, not whether it still serves requests.',
+    remediation: 'Add a HEALTHCHECK to the final stage.',
+    example: {
+      bad: 'FROM nginx:1.27\nCOPY site /usr/share/nginx/html\nCMD ["nginx", "-g", "daemon off;"]',
+      good: 'FROM nginx:1.27\nCOPY site /usr/share/nginx/html\nHEALTHCHECK CMD curl -f http://localhost/ || exit 1\nCMD ["nginx", "-g", "daemon off;"]',
+    },
+  },
+  DL4006: {
+    category: 'reliability', tags: ['shell', 'pipefail'],
+    rationale: 'A pipeline only fails if its last command fails, so a failed download in `curl ... | tar x` goes unnoticed and the build succeeds with broken content.',
+    remediation: 'Set `SHELL ["/bin/bash", "-o", "pipefail", "-c"]` before RUN instructions with pipes.',
+    example: {
+      bad: 'RUN curl -fsSL https://example.com/app.tar.gz | tar -xz',
+      good: 'SHELL ["/bin/bash", "-o", "pipefail", "-c"]\nRUN curl -fsSL https://example.com/app.tar.gz | tar -xz',
+    },
+  },
+};
@@ -1,16 +1,62 @@
 /**
  * Package manager related DL rules (DL3008-DL3042).
  *
- * Uses shared utilities from ../utils.ts for common patterns.
+ * Uses shared utilities from ../utils.ts for common patterns. Rules match package manager
+ * commands in the parsed shell tree, so `echo "apt-get install curl"` installs nothing.
  */
 import { Rule, Violation } from '../types';
-import { runCheck, runCheckNeg, checkVersionPinning, forEachInstruction } from '../utils';
+import { DockerfileInstruction, ShellCommand, ShellWord } from '../../parser/types';
+import { basename } from '../../parser/shell';
+import {
+  runCheck, runCheckNeg, checkVersionPinning, forEachInstruction, hasMount, findCommands, shellCommands,
+  effectiveArgv, hasFlag, subcommandArgs, resolveWords, ResolvedArgument, shellRegion, cleansAll, runsCommand, removesPath,
+} from '../utils';
+
+const APT = ['apt-get', 'apt'];
+
+/** Arguments that are not flags, skipping the values of `valueFlags` */
+function positionals(args: ResolvedArgument[], valueFlags: ReadonlySet<string> = new Set()): ResolvedArgument[] {
+  const result: ResolvedArgument[] = [];
+  for (let k = 0; k < args.length; k++) {
+    const a = args[k].text;
+    if (a.startsWith('-')) {
+      if (valueFlags.has(a)) k++;
+      continue;
+    }
+    result.push(args[k]);
+  }
+  return result;
+}
+
+interface PipInstall {
+  cmd: ShellCommand;
+  /** Arguments after `install` */
+  args: ShellWord[];
+}
+
+/** `install` commands of pip, pip3, `python -m pip` (unless `module` is false) and `uv pip` */
+function pipInstalls(inst: DockerfileInstruction, opts: { module?: boolean } = {}): PipInstall[] {
+  const installs: PipInstall[] = [];
+  for (const cmd of shellCommands(inst)) {
+    const argv = effectiveArgv(cmd);
+    if (argv.length === 0) continue;
+    const name = basename(argv[0].text);
+    let rest: ShellWord[];
+    if (/^pip3?$/.test(name)) rest = argv.slice(1);
+    else if (opts.module !== false && /^python[\d.]*$/.test(name) && argv[1]?.text === '-m' && argv[2]?.text === 'pip') rest = argv.slice(3);
+    else if (name === 'uv' && argv[1]?.text === 'pip') rest = argv.slice(2);
+    else continue;
+    const sub = rest.findIndex(w => !w.text.startsWith('-'));
+    if (sub >= 0 && rest[sub].text === 'install') installs.push({ cmd, args: rest.slice(sub + 1) });
+  }
+  return installs;
+}
 
 // DL3005: Do not use apt-get dist-upgrade
 export const DL3005: Rule = {
   id: 'DL3005', severity: 'error',
   description: 'Do not use apt-get dist-upgrade',
-  check(ctx) { return runCheck(ctx, /apt-get\s+dist-upgrade/, 'DL3005', 'error', 'Do not use apt-get dist-upgrade. Use package pinning for reproducible builds.'); },
+  check(ctx) { return runCheck(ctx, 'apt-get', { subcommand: 'dist-upgrade' }, 'DL3005', 'error', 'Do not use apt-get dist-upgrade. Use package pinning for reproducible builds.'); },
 };
 
 // DL3008: Pin versions in apt-get install
@@ -18,39 +64,17 @@ export const DL3008: Rule = {
   id: 'DL3008', severity: 'warning',
   description: 'Pin versions in apt-get install',
   check(ctx) {
+    // Values of -t (target release), -o and -c are not packages
+    const valueFlags = new Set(['-t', '--target-release', '-o', '--option', '-c', '--config-file']);
     const violations: Violation[] = [];
     forEachInstruction(ctx, 'RUN', (inst) => {
-      const m = inst.arguments.match(/(?:apt-get|apt)\s+install\s+(.+?)(?:[;&|]|$)/s);
-      if (!m) return;
-      // Strip shell subcommands $(...) (with balanced parens) and backtick commands
-      let cleaned = m[1].replace(/`[^`]*`/g, ' ');
-      // Remove $(...) with balanced parentheses using manual parsing
-      let result = '';
-      let i = 0;
-      while (i < cleaned.length) {
-        if (cleaned[i] === '$' && cleaned[i + 1] === '(') {
-          let depth = 1;
-          i += 2;
-          while (i < cleaned.length && depth > 0) {
-            if (cleaned[i] === '(') depth++;
-            else if (cleaned[i] === ')') depth--;
-            i++;
-          }
-          result += ' ';
-        } else {
-          result += cleaned[i];
-          i++;
-        }
-      }
-      cleaned = result;
-      const pkgs = cleaned.replace(/-[yqf]+\b|--yes|--no-install-recommends|--quiet|--fix-broken/g, '').trim().split(/\s+/).filter(p => p && !p.startsWith('-'));
-      const shellTokens = /^[![\]{}()=<>"';\\|&]+$|^if$|^then$|^else$|^fi$|^do$|^done$/;
-      for (const rawPkg of pkgs) {
-        // Strip surrounding quotes
-        const pkg = rawPkg.replace(/^["']|["']$/g, '');
-        if (!pkg || pkg.includes('=') || pkg.startsWith('$') || shellTokens.test(pkg)) continue;
-        {
-          violations.push({ rule: 'DL3008', severity: 'warning', message: `Pin versions in apt-get install. Instead of \`apt-get install ${pkg}\` use \`apt-get install ${pkg}=<version>\``, line: inst.line });
+      for (const cmd of findCommands(inst, APT, { subcommand: 'install' })) {
+        // Packages are read after ARG/ENV resolution; those from a variable are reported on the instruction line
+        for (const arg of positionals(resolveWords(ctx, inst, subcommandArgs(cmd)), valueFlags)) {
+          const pkg = arg.text;
+          if (!pkg || pkg.includes('=')) continue;
+          const region = arg.literal ? shellRegion(inst, arg.word) : { line: inst.line };
+          violations.push({ rule: 'DL3008', severity: 'warning', message: `Pin versions in apt-get install. Instead of \`apt-get install ${pkg}\` use \`apt-get install ${pkg}=<version>\``, ...region });
         }
       }
     });
@@ -63,7 +87,7 @@ export const DL3009: Rule = {
   id: 'DL3009', severity: 'info',
   description: 'Delete the apt-get lists after installing something',
   check(ctx) {
-    return runCheckNeg(ctx, /(?:apt-get|apt)\s+install/, /rm\s+(?:-[rf]+\s+|(?:--(?:recursive|force|verbose)\s+)+)*\/var\/lib\/apt\/lists/, 'DL3009', 'info', 'Delete the apt-get lists after installing something');
+    return runCheckNeg(ctx, APT, { subcommand: 'install' }, (_, inst) => removesPath(inst, '/var/lib/apt/lists'), 'DL3009', 'info', 'Delete the apt-get lists after installing something');
   },
 };
 
@@ -73,35 +97,20 @@ export const DL3013: Rule = {
   description: 'Pin versions in pip install',
   check(ctx) {
     const violations: Violation[] = [];
+    // Filter out flags and their values (e.g., --python-preference system, -t /path)
+    const flagsWithValue = new Set(['--target', '-t', '--prefix', '--root', '--src', '-b', '-d',
+      '--index-url', '-i', '--extra-index-url', '--constraint', '-c', '--requirement', '-r',
+      '--find-links', '-f', '--python', '--python-preference', '--cache-dir', '--config-settings',
+      '--global-option', '--install-option', '--build-option', '--platform', '--implementation',
+      '--abi', '--progress-bar', '--keyring-provider', '--break-system-packages',
+      '--index-strategy', '--index', '--keyring', '--pip-args']);
     forEachInstruction(ctx, 'RUN', (inst) => {
-      const m = inst.arguments.match(/pip3?\s+install\s+(.+?)(?:[;&|]|$)/s);
-      if (!m) return;
-      const tokens = m[1].split(/\s+/).map(p => p.replace(/[()]+$/g, '').replace(/^[()]+/g, '')).filter(p => p);
-      // Filter out flags and their values (e.g., --python-preference system, -t /path)
-      const pkgs: string[] = [];
-      const flagsWithValue = new Set(['--target', '-t', '--prefix', '--root', '--src', '-b', '-d',
-        '--index-url', '-i', '--extra-index-url', '--constraint', '-c', '--requirement', '-r',
-        '--find-links', '-f', '--python', '--python-preference', '--cache-dir', '--config-settings',
-        '--global-option', '--install-option', '--build-option', '--platform', '--implementation',
-        '--abi', '--progress-bar', '--keyring-provider', '--break-system-packages',
-        '--index-strategy', '--index', '--keyring', '--pip-args']);
-      let skipNext = false;
-      for (const t of tokens) {
-        if (skipNext) { skipNext = false; continue; }
-        if (t.startsWith('--') && t.includes('=')) continue; // --flag=value
-        if (t.startsWith('-')) {
-          if (flagsWithValue.has(t)) skipNext = true;
-          continue;
-        }
-        pkgs.push(t);
-      }
+      const pkgs = pipInstalls(inst).flatMap(({ args }) => positionals(resolveWords(ctx, inst, args), flagsWithValue).map(a => a.text));
       for (const pkg of pkgs) {
-        // Strip surrounding quotes (e.g., "Cython<3.0" → Cython<3.0)
-        const cleanPkg = pkg.replace(/^["']|["']$/g, '');
         // PEP 440 version specifiers: ==, >=, <=, ~=, !=, <, >, as well as extras [...]
-        const hasVersionSpec = cleanPkg.includes('==') || cleanPkg.includes('>=') || cleanPkg.includes('<=') ||
-          cleanPkg.includes('~=') || cleanPkg.includes('!=') || cleanPkg.includes('<') || cleanPkg.includes('>');
-        if (!hasVersionSpec && !cleanPkg.includes('.txt') && !cleanPkg.includes('.whl') && !cleanPkg.includes('/') && !cleanPkg.startsWith('.') && !cleanPkg.startsWith('$')) {
+        const hasVersionSpec = pkg.includes('==') || pkg.includes('>=') || pkg.includes('<=') ||
+          pkg.includes('~=') || pkg.includes('!=') || pkg.includes('<') || pkg.includes('>');
+        if (!hasVersionSpec && !pkg.includes('.txt') && !pkg.includes('.whl') && !pkg.includes('/') && !pkg.startsWith('.')) {
           violations.push({ rule: 'DL3013', severity: 'warning', message: `Pin versions in pip. Instead of \`pip install ${pkg}\` use \`pip install ${pkg}==<version>\``, line: inst.line });
         }
       }
@@ -114,14 +123,15 @@ export const DL3013: Rule = {
 export const DL3014: Rule = {
   id: 'DL3014', severity: 'warning',
   description: 'Use the -y switch to avoid manual input `apt-get -y install <package>`',
-  check(ctx) { return runCheckNeg(ctx, /(?:apt-get|apt)\s+install/, /(-y|--yes|--assume-yes)/, 'DL3014', 'warning', 'Use the -y switch to avoid manual input `apt-get -y install <package>`'); },
+  check(ctx) { return runCheckNeg(ctx, APT, { subcommand: 'install' }, cmd => hasFlag(effectiveArgv(cmd).slice(1), '-y', '--yes', '--assume-yes'), 'DL3014', 'warning', 'Use the -y switch to avoid manual input `apt-get -y install <package>`', { insert: ' -y', safety: 'safe' }); },
 };
 
 // DL3015: Avoid additional packages with apt-get
 export const DL3015: Rule = {
   id: 'DL3015', severity: 'info',
   description: 'Avoid additional packages by specifying --no-install-recommends',
-  check(ctx) { return runCheckNeg(ctx, /(?:apt-get|apt)\s+install/, /--no-install-recommends/, 'DL3015', 'info', 'Avoid additional packages by specifying --no-install-recommends'); },
+  // Unsafe: the image may rely on a package that was only pulled in as a recommendation
+  check(ctx) { return runCheckNeg(ctx, APT, { subcommand: 'install' }, cmd => hasFlag(effectiveArgv(cmd).slice(1), '--no-install-recommends'), 'DL3015', 'info', 'Avoid additional packages by specifying --no-install-recommends', { insert: ' --no-install-recommends', safety: 'unsafe' }); },
 };
 
 // DL3016: Pin versions in npm install
@@ -138,41 +148,16 @@ export const DL3016: Rule = {
     // File-like extensions that indicate the token is a file path, not a package name
     const fileExtensions = /\.(json|lock|txt|js|cjs|mjs|ts|yaml|yml|toml|sh|bash)$/i;
     forEachInstruction(ctx, 'RUN', (inst) => {
-      const m = inst.arguments.match(/npm\s+install\s+(.*?)(?:&&|\|\||[;\n]|$)/s);
-      if (!m) return;
-      // Strip inline comments (# ...) before parsing package names
-      const cleaned = m[1].replace(/#.*$/gm, '').trim();
-      if (!cleaned) return; // bare "npm install" (from package.json)
-      // Strip shell command substitutions $(...)  before tokenizing to avoid
-      // parsing their internals as package names (e.g., npm install -g $(jq -r '.packageManager' package.json))
-      const withoutSubshells = cleaned.replace(/\$\([^)]*\)/g, '__SUBSHELL__');
-      const tokens = withoutSubshells.split(/\s+/)
-        // Strip trailing quotes/backslashes that appear when npm install is inside a shell string
-        // e.g., su user -c "npm install eslint" → token becomes "eslint"
-        .map(p => p.replace(/["'\\]+$/, ''))
-        // Strip leading quotes too (e.g., 'pkg or "pkg)
-        .map(p => p.replace(/^["']+/, ''))
-        .filter(p => p);
-      let skipNext = false;
-      for (const token of tokens) {
-        if (skipNext) { skipNext = false; continue; }
-        // Skip subshell placeholders
-        if (token === '__SUBSHELL__') continue;
-        // Skip flags; if flag takes a value, skip the next token too
-        if (token.startsWith('-')) {
-          if (npmFlagsWithValue.has(token) || (token.startsWith('--') && token.includes('='))) {
-            if (!token.includes('=')) skipNext = true;
+      // A bare "npm install" installs from package.json
+      for (const cmd of findCommands(inst, 'npm', { subcommand: 'install' })) {
+        for (const { text: pkg } of positionals(resolveWords(ctx, inst, subcommandArgs(cmd)), npmFlagsWithValue)) {
+          // Skip paths, file-like names and tokens with characters of dynamic values
+          if (pkg.startsWith('.') || pkg.startsWith('/')) continue;
+          if (fileExtensions.test(pkg)) continue; // e.g., package.json, package-lock.json
+          if (/[`(){}]/.test(pkg)) continue;
+          if (!pkg.includes('@')) {
+            violations.push({ rule: 'DL3016', severity: 'warning', message: `Pin versions in npm. Instead of \`npm install ${pkg}\` use \`npm install ${pkg}@<version>\``, line: inst.line });
           }
-          continue;
-        }
-        // Skip paths, variables, file-like names, and scope-only tokens
-        if (token.startsWith('.') || token.startsWith('/') || token.startsWith('$')) continue;
-        if (fileExtensions.test(token)) continue; // e.g., package.json, package-lock.json
-        // Skip tokens with shell metacharacters (backticks, parentheses) that indicate dynamic values
-        if (/[`(){}]/.test(token)) continue;
-        const pkg = token;
-        if (!pkg.includes('@')) {
-          violations.push({ rule: 'DL3016', severity: 'warning', message: `Pin versions in npm. Instead of \`npm install ${pkg}\` use \`npm install ${pkg}@<version>\``, line: inst.line });
         }
       }
     });
@@ -186,17 +171,13 @@ export const DL3018: Rule = {
   description: 'Pin versions in apk add',
   check(ctx) {
     const violations: Violation[] = [];
+    // --virtual names the virtual package being created
+    const valueFlags = new Set(['--virtual', '-t', '--repository', '-X']);
     forEachInstruction(ctx, 'RUN', (inst) => {
-      const m = inst.arguments.match(/apk\s+(?:--[^\s]+\s+)*add\s+(.+?)(?:[;&|]|$)/s);
-      if (!m) return;
-      const tokens = m[1].split(/\s+/).filter(p => p);
-      // Filter out --virtual and its argument (the virtual package name)
-      const pkgs: string[] = [];
-      for (let i = 0; i < tokens.length; i++) {
-        if (tokens[i] === '--virtual' || tokens[i] === '-t') { i++; continue; }
-        if (tokens[i].startsWith('-') || tokens[i].startsWith('$') || tokens[i].includes('$') || tokens[i].startsWith('.')) continue;
-        pkgs.push(tokens[i]);
-      }
+      const pkgs = findCommands(inst, 'apk', { subcommand: 'add' })
+        .flatMap(cmd => positionals(resolveWords(ctx, inst, subcommandArgs(cmd)), valueFlags))
+        .map(a => a.text)
+        .filter(p => !p.startsWith('.') && !p.includes('$'));
       for (const pkg of pkgs) {
         // APK supports version constraints: =, >, <, >=, <=, ~
         if (!pkg.includes('=') && !pkg.includes('>') && !pkg.includes('<') && !pkg.includes('~')) {
@@ -212,21 +193,21 @@ export const DL3018: Rule = {
 export const DL3017: Rule = {
   id: 'DL3017', severity: 'error',
   description: 'Do not use apk upgrade',
-  check(ctx) { return runCheck(ctx, /apk\s+(?:--[^\s]+\s+)*upgrade/, 'DL3017', 'error', 'Do not use apk upgrade. Pin package versions instead for reproducible builds.'); },
+  check(ctx) { return runCheck(ctx, 'apk', { subcommand: 'upgrade' }, 'DL3017', 'error', 'Do not use apk upgrade. Pin package versions instead for reproducible builds.'); },
 };
 
 // DL3019: Use --no-cache switch with apk
 export const DL3019: Rule = {
   id: 'DL3019', severity: 'info',
   description: 'Use the --no-cache switch to avoid the need to use --update and remove /var/cache/apk/*',
-  check(ctx) { return runCheckNeg(ctx, /apk\s+(?:--[^\s]+\s+)*add/, /--no-cache/, 'DL3019', 'info', 'Use the --no-cache switch to avoid the need to use --update and remove /var/cache/apk/*'); },
+  check(ctx) { return runCheckNeg(ctx, 'apk', { subcommand: 'add' }, cmd => hasFlag(effectiveArgv(cmd).slice(1), '--no-cache'), 'DL3019', 'info', 'Use the --no-cache switch to avoid the need to use --update and remove /var/cache/apk/*', { insert: ' --no-cache', safety: 'safe' }); },
 };
 
 // DL3027: Do not use apt as it is meant to be an end-user tool
 export const DL3027: Rule = {
   id: 'DL3027', severity: 'warning',
   description: 'Do not use apt as it is meant to be an end-user tool, use apt-get or apt-cache instead',
-  check(ctx) { return runCheck(ctx, /(?:^|[;&|]\s*)\bapt\s+(install|update|upgrade|remove|purge)/, 'DL3027', 'warning', 'Do not use apt as it is meant to be an end-user tool, use apt-get or apt-cache instead'); },
+  check(ctx) { return runCheck(ctx, 'apt', { subcommand: ['install', 'update', 'upgrade', 'remove', 'purge'] }, 'DL3027', 'warning', 'Do not use apt as it is meant to be an end-user tool, use apt-get or apt-cache instead'); },
 };
 
 // DL3028: Pin versions in gem install
@@ -236,17 +217,11 @@ export const DL3028: Rule = {
   check(ctx) {
     const violations: Violation[] = [];
     forEachInstruction(ctx, 'RUN', (inst) => {
-      const m = inst.arguments.match(/gem\s+install\s+(.+?)(?:[;&|]|$)/s);
-      if (!m) return;
-      const allParts = m[1].split(/\s+/).filter(p => p);
-      for (let i = 0; i < allParts.length; i++) {
-        // Strip surrounding quotes (can occur when gem install is inside su -c "..." string)
-        const part = allParts[i].replace(/^["']|["']$/g, '');
-        if (!part) continue;
-        if (part === '-v' || part === '--version') { i++; continue; }
-        if (part.startsWith('-')) continue;
-        if (!part.startsWith('$') && !part.includes(':')) {
-          violations.push({ rule: 'DL3028', severity: 'warning', message: `Pin versions in gem install. Instead of \`gem install ${part}\` use \`gem install ${part}:<version>\``, line: inst.line });
+      for (const cmd of findCommands(inst, 'gem', { subcommand: 'install' })) {
+        for (const { text: part } of positionals(resolveWords(ctx, inst, subcommandArgs(cmd)), new Set(['-v', '--version']))) {
+          if (!part.includes(':')) {
+            violations.push({ rule: 'DL3028', severity: 'warning', message: `Pin versions in gem install. Instead of \`gem install ${part}\` use \`gem install ${part}:<version>\``, line: inst.line });
+          }
         }
       }
     });
@@ -258,14 +233,14 @@ export const DL3028: Rule = {
 export const DL3030: Rule = {
   id: 'DL3030', severity: 'warning',
   description: 'Use the -y switch to avoid manual input `yum install -y <package>`',
-  check(ctx) { return runCheckNeg(ctx, /yum\s+install/, /-y|--assumeyes/, 'DL3030', 'warning', 'Use the -y switch to avoid manual input `yum install -y <package>`'); },
+  check(ctx) { return runCheckNeg(ctx, 'yum', { subcommand: 'install' }, cmd => hasFlag(effectiveArgv(cmd).slice(1), '-y', '--assumeyes'), 'DL3030', 'warning', 'Use the -y switch to avoid manual input `yum install -y <package>`'); },
 };
 
 // DL3032: yum clean all
 export const DL3032: Rule = {
   id: 'DL3032', severity: 'warning',
   description: 'yum clean all missing after yum command',
-  check(ctx) { return runCheckNeg(ctx, /yum\s+(install|update)/, /yum\s+clean\s+all/, 'DL3032', 'warning', 'yum clean all missing after yum command'); },
+  check(ctx) { return runCheckNeg(ctx, 'yum', { subcommand: ['install', 'update'] }, (_, inst) => cleansAll(inst, 'yum'), 'DL3032', 'warning', 'yum clean all missing after yum command'); },
 };
 
 // DL3033: Pin versions in yum install
@@ -275,7 +250,7 @@ export const DL3033: Rule = {
   check(ctx) {
     return checkVersionPinning(
       ctx,
-      /yum\s+install\s+(.+?)(?:[;&|]|$)/s,
+      'yum', 'install',
       (pkg) => pkg.includes('-') && !pkg.split('-').every(p => !/^\d/.test(p)),
       'DL3033', 'warning',
       (pkg) => `Specify version with yum install -y ${pkg}-<version>`,
@@ -287,26 +262,26 @@ export const DL3033: Rule = {
 export const DL3031: Rule = {
   id: 'DL3031', severity: 'error',
   description: 'Do not use zypper update',
-  check(ctx) { return runCheck(ctx, /zypper\s+update/, 'DL3031', 'error', 'Do not use zypper update. Pin package versions for reproducible builds.'); },
+  check(ctx) { return runCheck(ctx, 'zypper', { subcommand: 'update' }, 'DL3031', 'error', 'Do not use zypper update. Pin package versions for reproducible builds.'); },
 };
 
 // DL3034-DL3037: zypper rules
 export const DL3034: Rule = {
   id: 'DL3034', severity: 'warning',
   description: 'Non-interactive switch missing from zypper command: zypper install -y',
-  check(ctx) { return runCheckNeg(ctx, /zypper\s+install/, /-y|--non-interactive/, 'DL3034', 'warning', 'Non-interactive switch missing from zypper command: zypper install -y'); },
+  check(ctx) { return runCheckNeg(ctx, 'zypper', { subcommand: 'install' }, cmd => hasFlag(effectiveArgv(cmd).slice(1), '-y', '--non-interactive'), 'DL3034', 'warning', 'Non-interactive switch missing from zypper command: zypper install -y'); },
 };
 
 export const DL3035: Rule = {
   id: 'DL3035', severity: 'warning',
   description: 'Do not use zypper dist-upgrade',
-  check(ctx) { return runCheck(ctx, /zypper\s+dist-upgrade/, 'DL3035', 'warning', 'Do not use zypper dist-upgrade'); },
+  check(ctx) { return runCheck(ctx, 'zypper', { subcommand: 'dist-upgrade' }, 'DL3035', 'warning', 'Do not use zypper dist-upgrade'); },
 };
 
 export const DL3036: Rule = {
   id: 'DL3036', severity: 'warning',
   description: 'zypper clean missing after zypper use',
-  check(ctx) { return runCheckNeg(ctx, /zypper\s+(install|update)/, /zypper\s+clean/, 'DL3036', 'warning', 'zypper clean missing after zypper use'); },
+  check(ctx) { return runCheckNeg(ctx, 'zypper', { subcommand: ['install', 'update'] }, (_, inst) => runsCommand(inst, 'zypper', { subcommand: 'clean' }), 'DL3036', 'warning', 'zypper clean missing after zypper use'); },
 };
 
 export const DL3037: Rule = {
@@ -315,7 +290,7 @@ export const DL3037: Rule = {
   check(ctx) {
     return checkVersionPinning(
       ctx,
-      /zypper\s+install\s+(.+?)(?:[;&|]|$)/s,
+      'zypper', 'install',
       (pkg) => pkg.includes('=') || pkg.includes('>'),
       'DL3037', 'warning',
       (pkg) => `Specify version with zypper install -y ${pkg}=<version>`,
@@ -327,20 +302,20 @@ export const DL3037: Rule = {
 export const DL3039: Rule = {
   id: 'DL3039', severity: 'warning',
   description: 'Non-interactive switch missing from zypper command: zypper addrepo -y',
-  check(ctx) { return runCheckNeg(ctx, /zypper\s+(?:addrepo|ar)\b/, /-y|--no-confirm/, 'DL3039', 'warning', 'Non-interactive switch missing. Use zypper addrepo -y to avoid interactive prompts.'); },
+  check(ctx) { return runCheckNeg(ctx, 'zypper', { subcommand: ['addrepo', 'ar'] }, cmd => hasFlag(effectiveArgv(cmd).slice(1), '-y', '--no-confirm', '--non-interactive'), 'DL3039', 'warning', 'Non-interactive switch missing. Use zypper addrepo -y to avoid interactive prompts.'); },
 };
 
 // DL3038-DL3041: dnf rules
 export const DL3038: Rule = {
   id: 'DL3038', severity: 'warning',
   description: 'Use the -y switch to avoid manual input `dnf install -y <package>`',
-  check(ctx) { return runCheckNeg(ctx, /(?<![a-z])dnf\s+install/, /-y|--assumeyes/, 'DL3038', 'warning', 'Use the -y switch to avoid manual input `dnf install -y <package>`'); },
+  check(ctx) { return runCheckNeg(ctx, 'dnf', { subcommand: 'install' }, cmd => hasFlag(effectiveArgv(cmd).slice(1), '-y', '--assumeyes'), 'DL3038', 'warning', 'Use the -y switch to avoid manual input `dnf install -y <package>`'); },
 };
 
 export const DL3040: Rule = {
   id: 'DL3040', severity: 'warning',
   description: 'dnf clean all missing after dnf command',
-  check(ctx) { return runCheckNeg(ctx, /(?<![a-z])dnf\s+(install|update)/, /dnf\s+clean\s+all/, 'DL3040', 'warning', 'dnf clean all missing after dnf command'); },
+  check(ctx) { return runCheckNeg(ctx, 'dnf', { subcommand: ['install', 'update'] }, (_, inst) => cleansAll(inst, 'dnf'), 'DL3040', 'warning', 'dnf clean all missing after dnf command'); },
 };
 
 export const DL3041: Rule = {
@@ -349,7 +324,7 @@ export const DL3041: Rule = {
   check(ctx) {
     return checkVersionPinning(
       ctx,
-      /(?<![a-z])dnf\s+install\s+(.+?)(?:[;&|]|$)/s,
+      'dnf', 'install',
       (pkg) => pkg.includes('-') && !pkg.split('-').every(p => !/^\d/.test(p)),
       'DL3041', 'warning',
       (pkg) => `Specify version with dnf install -y ${pkg}-<version>`,
@@ -373,10 +348,10 @@ export const DL3042: Rule = {
     // Skip RUN instructions that use BuildKit --mount=type=cache (pip cache is managed by BuildKit)
     const violations: Violation[] = [];
     forEachInstruction(ctx, 'RUN', (inst) => {
-      if (/--mount=type=cache/.test(inst.arguments)) return;
+      if (hasMount(inst, 'cache')) return;
       // Skip python -m pip install — covered by DV4015 to avoid duplicate warnings
-      if (/python3?\s+-m\s+pip\s+install/.test(inst.arguments)) return;
-      if (/pip3?\s+install/.test(inst.arguments) && !/--no-cache-dir/.test(inst.arguments)) {
+      const install = pipInstalls(inst, { module: false }).find(({ args }) => !hasFlag(args, '--no-cache-dir'));
+      if (install) {
         violations.push({ rule: 'DL3042', severity: 'warning', message: 'Avoid use of cache directory with pip. Use `pip install --no-cache-dir <package>`', line: inst.line });
       }
     });
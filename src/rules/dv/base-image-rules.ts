@@ -1,4 +1,6 @@
 import { Rule, Violation } from '../types';
+import { FromInstruction } from '../../parser/types';
+import { resolvedFrom } from '../utils';
 
 // ---------------------------------------------------------------------------
 // DV5xxx: Base Image Recommendation & Update Detection
@@ -218,6 +220,11 @@ function parseImageName(fullImage: string): { name: string; tag: string } {
   return { name: image.slice(0, colonIdx), tag: image.slice(colonIdx + 1) };
 }
 
+/** `image:tag` as written (the parser keeps the tag inside `image` for digest references) */
+function imageRef(f: FromInstruction): string {
+  return f.tag ? `${f.image}:${f.tag}` : f.image;
+}
+
 function isVersionOutdated(tag: string, outdatedList: string[]): boolean {
   return outdatedList.some(v => tag === v || tag.startsWith(v + '-') || tag.startsWith(v + '.'));
 }
@@ -233,11 +240,11 @@ export const DV5001: Rule = {
   check(ctx) {
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
-      const f = stage.from;
+      const f = resolvedFrom(ctx, stage);
       if (f.image === 'scratch') continue;
       if (/\$/.test(f.image)) continue; // variable reference
 
-      const { name, tag } = parseImageName(f.image);
+      const { name, tag } = parseImageName(imageRef(f));
       const info = OUTDATED_IMAGE_MAP[name.toLowerCase()];
       if (!info) continue;
       if (tag === 'latest') continue; // skip :latest — handled by DL3007
@@ -245,7 +252,7 @@ export const DV5001: Rule = {
       if (isVersionOutdated(tag, info.outdated)) {
         violations.push({
           rule: 'DV5001', severity: 'warning',
-          message: `Base image "${f.image}" is outdated. Recommended: ${info.recommended} (${info.note}).`,
+          message: `Base image "${imageRef(f)}" is outdated. Recommended: ${info.recommended} (${info.note}).`,
           line: f.line,
         });
       }
@@ -263,12 +270,12 @@ export const DV5002: Rule = {
     const now = new Date();
 
     for (const stage of ctx.ast.stages) {
-      const f = stage.from;
+      const f = resolvedFrom(ctx, stage);
       if (f.image === 'scratch') continue;
       if (/\$/.test(f.image)) continue;
 
       // Try exact match first, then name:tag
-      const { name, tag } = parseImageName(f.image);
+      const { name, tag } = parseImageName(imageRef(f));
       const key = `${name.toLowerCase()}:${tag}`;
       const eolInfo = EOL_IMAGE_DB[key];
 
@@ -277,7 +284,7 @@ export const DV5002: Rule = {
         if (eolDate <= now) {
           violations.push({
             rule: 'DV5002', severity: 'error',
-            message: `Base image "${f.image}" reached end-of-life on ${eolInfo.eolDate} (${eolInfo.note}). No security updates are available. Please upgrade immediately.`,
+            message: `Base image "${imageRef(f)}" reached end-of-life on ${eolInfo.eolDate} (${eolInfo.note}). No security updates are available. Please upgrade immediately.`,
             line: f.line,
           });
         }
@@ -305,11 +312,11 @@ export const DV5003: Rule = {
       return violations;
     }
 
-    const f = lastStage.from;
+    const f = resolvedFrom(ctx, lastStage);
     if (f.image === 'scratch') return violations;
     if (/\$/.test(f.image)) return violations;
 
-    const { name, tag } = parseImageName(f.image);
+    const { name, tag } = parseImageName(imageRef(f));
 
     // Skip if already using distroless, Alpine, or slim
     if (/distroless|alpine|slim|chainguard|cgr\.dev/.test(f.image)) return violations;
@@ -1,5 +1,6 @@
 import { Rule, Violation } from '../types';
-import { forEachInstruction } from '../utils';
+import { forEachInstruction, hasMount, stageGraphOf, platformOf, argumentEdit } from '../utils';
+import { isAbsolutePath } from '../../parser/platform';
 import { ArgInstruction, CopyInstruction, EnvInstruction, ExposeInstruction, HealthcheckInstruction, WorkdirInstruction } from '../../parser/types';
 
 // DV4001: Multiple package install in separate RUNs
@@ -52,6 +53,7 @@ export const DV4002: Rule = {
 export const DV4003: Rule = {
   id: 'DV4003', severity: 'info',
   description: 'No WORKDIR set before RUN instructions.',
+  scope: 'stage',
   check(ctx) {
     const violations: Violation[] = [];
     // Build alias→stage map to resolve parent WORKDIR inheritance
@@ -121,6 +123,7 @@ export const DV4004: Rule = {
 export const DV4005: Rule = {
   id: 'DV4005', severity: 'info',
   description: 'No CMD or ENTRYPOINT found in the final stage.',
+  scope: 'stage',
   check(ctx) {
     const violations: Violation[] = [];
     // Skip builder/base/test/data/verify Dockerfiles — they typically don't need CMD/ENTRYPOINT
@@ -308,9 +311,8 @@ export const DV4011: Rule = {
         const dir = w.path; // Parser already strips surrounding quotes
         // Skip variable references — cannot be resolved at lint time
         if (dir.startsWith('$')) continue;
-        // Skip absolute paths — Unix (/app) and Windows (C:/app, C:\app)
-        if (dir.startsWith('/')) continue;
-        if (/^[A-Za-z]:[/\\]/.test(dir)) continue;
+        // Skip absolute paths — Unix (/app) and Windows (C:/app, C:\app, \app)
+        if (isAbsolutePath(dir, platformOf(ctx, stage))) continue;
         // Skip if DL3000 would also fire on this path (same condition: non-absolute, non-variable,
         // non-Windows). DL3000 fires as an error; suppress DV4011 to avoid duplicate reporting.
         // DL3000 condition: !startsWith('/') && !startsWith('$') && !Windows drive
@@ -360,9 +362,14 @@ export const DV4015: Rule = {
     }
     const violations: Violation[] = [];
     forEachInstruction(ctx, 'RUN', (inst) => {
-      if (/--mount=type=cache/.test(inst.arguments)) return;
-      if (/python3?\s+-m\s+pip\s+install/.test(inst.arguments) && !/--no-cache-dir/.test(inst.arguments)) {
-        violations.push({ rule: 'DV4015', severity: 'warning', message: 'Avoid pip cache in Docker. Use `python -m pip install --no-cache-dir <package>` to reduce image size.', line: inst.line });
+      if (hasMount(inst, 'cache')) return;
+      const m = inst.arguments.match(/python3?\s+-m\s+pip\s+install/);
+      if (m && !/--no-cache-dir/.test(inst.arguments)) {
+        violations.push({
+          rule: 'DV4015', severity: 'warning', message: 'Avoid pip cache in Docker. Use `python -m pip install --no-cache-dir <package>` to reduce image size.',
+          line: inst.line,
+          fixes: [argumentEdit(inst, m.index! + m[0].length, 0, ' --no-cache-dir')], fixSafety: 'safe',
+        });
       }
     });
     return violations;
@@ -375,22 +382,16 @@ export const DV4016: Rule = {
   description: 'COPY --from references an invalid or self-referential stage index.',
   check(ctx) {
     const violations: Violation[] = [];
-    const totalStages = ctx.ast.stages.length;
+    const graph = stageGraphOf(ctx);
 
-    for (let stageIdx = 0; stageIdx < ctx.ast.stages.length; stageIdx++) {
-      const stage = ctx.ast.stages[stageIdx];
-      for (const inst of stage.instructions) {
-        if (inst.type !== 'COPY') continue;
-        const c = inst as CopyInstruction;
-        if (!c.from) continue;
+    for (const stage of ctx.ast.stages) {
+      for (const ref of graph.references(stage)) {
         // Only check numeric references (named refs are handled by DL3022)
-        if (!/^\d+$/.test(c.from)) continue;
-
-        const fromIdx = parseInt(c.from, 10);
-        if (totalStages === 1 && fromIdx === 0) {
-          violations.push({ rule: 'DV4016', severity: 'info', message: `COPY --from=0 in a single-stage build is self-referential and has no effect.`, line: inst.line });
-        } else if (fromIdx >= totalStages) {
-          violations.push({ rule: 'DV4016', severity: 'info', message: `COPY --from=${c.from} references non-existent stage (only ${totalStages} stage(s) exist).`, line: inst.line });
+        if (ref.kind !== 'copy' || ref.instruction.type !== 'COPY' || !/^\d+$/.test(ref.ref)) continue;
+        if (ref.stage === stage) {
+          violations.push({ rule: 'DV4016', severity: 'info', message: `COPY --from=${ref.ref} references its own stage and has no effect.`, line: ref.instruction.line });
+        } else if (!ref.stage) {
+          violations.push({ rule: 'DV4016', severity: 'info', message: `COPY --from=${ref.ref} references non-existent stage (only ${ctx.ast.stages.length} stage(s) exist).`, line: ref.instruction.line });
         }
       }
     }
@@ -456,10 +457,8 @@ export const DV4019: Rule = {
         const dir = w.path || inst.arguments.trim();
         // Skip variable references like $HOME or ${APP_DIR}
         if (/^\$/.test(dir)) continue;
-        // Skip Windows absolute paths (e.g., C:\app, D:\workspace)
-        if (/^[A-Za-z]:[\\\/]/.test(dir)) continue;
-        // Flag relative paths (not starting with /)
-        if (dir && !dir.startsWith('/')) {
+        // Flag relative paths; Windows stages also accept C:\app and \app
+        if (dir && !isAbsolutePath(dir, platformOf(ctx, stage))) {
           violations.push({ rule: 'DV4019', severity: 'warning', message: `WORKDIR "${dir}" uses a relative path. Use an absolute path for clarity and predictability.`, line: inst.line });
         }
       }
@@ -478,8 +477,13 @@ export const DV4021: Rule = {
       for (const inst of stage.instructions) {
         if (inst.type !== 'RUN') continue;
         const args = inst.arguments;
-        if (/gem\s+install\b/.test(args) && !(/--no-doc(ument)?/.test(args) || /--no-ri/.test(args) || /--no-rdoc/.test(args))) {
-          violations.push({ rule: 'DV4021', severity: 'info', message: 'gem install without --no-document includes unnecessary documentation. Use `gem install --no-document` to reduce image size.', line: inst.line });
+        const m = args.match(/gem\s+install\b/);
+        if (m && !(/--no-doc(ument)?/.test(args) || /--no-ri/.test(args) || /--no-rdoc/.test(args))) {
+          violations.push({
+            rule: 'DV4021', severity: 'info', message: 'gem install without --no-document includes unnecessary documentation. Use `gem install --no-document` to reduce image size.',
+            line: inst.line,
+            fixes: [argumentEdit(inst, m.index! + m[0].length, 0, ' --no-document')], fixSafety: 'safe',
+          });
         }
       }
     }
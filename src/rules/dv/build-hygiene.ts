@@ -1,5 +1,6 @@
 import { Rule, Violation } from '../types';
 import { CopyInstruction } from '../../parser/types';
+import { getFrontendVersion, frontendAtLeast, hasMount, stageGraphOf, runsCommand, cleansAll, removesPath } from '../utils';
 
 // ---------------------------------------------------------------------------
 // DV9xxx: Build Hygiene & Layer Optimization
@@ -124,6 +125,7 @@ export const DV9003: Rule = {
 export const DV9004: Rule = {
   id: 'DV9004', severity: 'info',
   description: 'Consider adding OCI-standard LABELs for image metadata (maintainer, version, description).',
+  scope: 'stage',
   check(ctx) {
     const violations: Violation[] = [];
     // Only check if there are no LABEL instructions at all
@@ -159,15 +161,12 @@ export const DV9005: Rule = {
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type !== 'RUN') continue;
-        const args = inst.arguments;
-
         // BuildKit --mount=type=cache manages the cache externally; cleanup is unnecessary
-        if (/--mount=type=cache/.test(args)) continue;
+        if (hasMount(inst, 'cache')) continue;
 
         // apt-get install without cleanup
-        if (/\bapt-get\s+install\b/.test(args)) {
-          const hasClean = /\bapt-get\s+clean\b/.test(args) ||
-            /\brm\s+-rf?\s+\/var\/lib\/apt\/lists/.test(args);
+        if (runsCommand(inst, 'apt-get', { subcommand: 'install' })) {
+          const hasClean = runsCommand(inst, 'apt-get', { subcommand: 'clean' }) || removesPath(inst, '/var/lib/apt/lists');
           if (!hasClean) {
             violations.push({
               rule: 'DV9005', severity: 'warning',
@@ -178,9 +177,8 @@ export const DV9005: Rule = {
         }
 
         // yum/dnf install without cleanup
-        if (/\b(?:yum|dnf)\s+install\b/.test(args)) {
-          const hasClean = /\b(?:yum|dnf)\s+clean\s+all\b/.test(args) ||
-            /\brm\s+-rf?\s+\/var\/cache\/(?:yum|dnf)/.test(args);
+        if (runsCommand(inst, ['yum', 'dnf'], { subcommand: 'install' })) {
+          const hasClean = cleansAll(inst, 'yum') || cleansAll(inst, 'dnf') || removesPath(inst, '/var/cache/yum', '/var/cache/dnf');
           if (!hasClean) {
             violations.push({
               rule: 'DV9005', severity: 'warning',
@@ -201,22 +199,17 @@ export const DV9005: Rule = {
 export const DV9006: Rule = {
   id: 'DV9006', severity: 'info',
   description: 'Multi-stage build detected but final stage copies from no prior stage. Consider using COPY --from to leverage multi-stage builds.',
+  scope: 'stage',
   check(ctx) {
     const violations: Violation[] = [];
     if (ctx.ast.stages.length < 2) return violations;
 
     const lastStage = ctx.ast.stages[ctx.ast.stages.length - 1];
-    const hasCopyFrom = lastStage.instructions.some(inst => {
-      if (inst.type !== 'COPY') return false;
-      return !!(inst as CopyInstruction).from;
-    });
+    const refs = stageGraphOf(ctx).references(lastStage);
+    const hasCopyFrom = refs.some(r => r.kind === 'copy' && r.instruction.type === 'COPY');
 
-    // If the last stage FROM references another stage alias, it's fine
-    const stageAliases = new Set(
-      ctx.ast.stages.slice(0, -1).map(s => s.from.alias).filter(Boolean)
-    );
-    const lastFromImage = lastStage.from.image;
-    const referencesStage = stageAliases.has(lastFromImage);
+    // If the last stage builds FROM or mounts another stage, it's fine
+    const referencesStage = refs.some(r => r.kind !== 'copy' && r.stage && r.stage !== lastStage);
 
     if (!hasCopyFrom && !referencesStage) {
       violations.push({
@@ -244,7 +237,7 @@ export const DV9007: Rule = {
         if (inst.type === 'VOLUME') {
           violations.push({
             rule: 'DV9007', severity: 'warning',
-            message: `VOLUME instruction in build stage ${i} (${stage.from.alias || stage.from.image}) has no effect on the final image. VOLUME in non-final stages is silently ignored. Move it to the final stage if needed.`,
+            message: `VOLUME instruction in build stage ${stage.index} (${stage.from.alias || stage.from.image}) has no effect on the final image. VOLUME in non-final stages is silently ignored. Move it to the final stage if needed.`,
             line: inst.line,
           });
         }
@@ -301,3 +294,41 @@ export const DV9009: Rule = {
     return violations;
   },
 };
+
+// DV9010: Heredoc used with a frontend that predates heredoc support
+// Heredocs became stable in docker/dockerfile:1.4 (1.3-labs behind the labs channel).
+// Only fires when `# syntax=` pins an official frontend to an older version.
+const HEREDOC_START = /(?<!<)<<(?!<)-?\s*(?:"[^"]+"|'[^']+'|[A-Za-z_][A-Za-z0-9_]*)/;
+export const DV9010: Rule = {
+  id: 'DV9010', severity: 'error',
+  description: 'Heredoc syntax requires docker/dockerfile:1.4 or later in the # syntax= directive.',
+  check(ctx) {
+    const violations: Violation[] = [];
+    const frontend = getFrontendVersion(ctx.ast);
+    if (!frontend || frontend.major === undefined) return violations;
+    if (frontendAtLeast(ctx.ast, 1, 4) || (frontend.labs && frontendAtLeast(ctx.ast, 1, 3))) return violations;
+    for (const stage of ctx.ast.stages) {
+      for (const inst of stage.instructions) {
+        if (inst.type !== 'RUN' && inst.type !== 'COPY' && inst.type !== 'ADD') continue;
+        if (HEREDOC_START.test(inst.arguments)) {
+          violations.push({
+            rule: 'DV9010', severity: 'error',
+            message: `Heredoc syntax is not supported by the declared frontend "${ctx.ast.directives.syntax!.value}" (line ${ctx.ast.directives.syntax!.line}). Use "# syntax=docker/dockerfile:1.4" or later.`,
+            line: inst.line,
+          });
+        }
+      }
+    }
+    return violations;
+  },
+};
+
+// DV9011: Inline suppression that silences nothing, or an expired config ignore entry
+// Reported by the linter, which knows which suppressions silenced a finding.
+export const DV9011: Rule = {
+  id: 'DV9011', severity: 'info',
+  description: 'Inline suppression matches no finding, or a config ignore entry has expired.',
+  check() {
+    return [];
+  },
+};
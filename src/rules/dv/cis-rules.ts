@@ -1,5 +1,6 @@
 import { Rule, Violation } from '../types';
 import { ExposeInstruction } from '../../parser/types';
+import { instructionEdit } from '../utils';
 
 // DV2001: apt-get update used alone (should be combined with install)
 export const DV2001: Rule = {
@@ -86,7 +87,11 @@ export const DV2005: Rule = {
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type === 'MAINTAINER') {
-          violations.push({ rule: 'DV2005', severity: 'warning', message: 'MAINTAINER is deprecated. Use LABEL maintainer="name" instead.', line: inst.line });
+          const maintainer = inst.arguments.trim().replace(/["\\]/g, '\\$&');
+          violations.push({
+            rule: 'DV2005', severity: 'warning', message: 'MAINTAINER is deprecated. Use LABEL maintainer="name" instead.', line: inst.line,
+            fixes: [instructionEdit(inst, `LABEL maintainer="${maintainer}"`)], fixSafety: 'safe',
+          });
         }
       }
     }
@@ -1,4 +1,5 @@
 import { Rule, Violation } from '../types';
+import { argumentRegion, heredocLines, stageGraphOf } from '../utils';
 
 // ---------------------------------------------------------------------------
 // DV8xxx: Container Isolation & Escape Prevention
@@ -115,6 +116,14 @@ export const DV8005: Rule = {
             violations.push({ rule: 'DV8005', severity: 'warning', message: msg, line: inst.line });
           }
         }
+        // Scripts run from heredocs (`RUN <<EOF`, `bash <<EOF`)
+        for (const l of heredocLines(inst, h => h.script !== undefined)) {
+          for (const { pattern, msg } of dangerousCommands) {
+            if (pattern.test(l.text)) {
+              violations.push({ rule: 'DV8005', severity: 'warning', message: msg, ...argumentRegion(inst, l.offset, l.text.length) });
+            }
+          }
+        }
       }
     }
     return violations;
@@ -175,28 +184,27 @@ export const DV8006: Rule = {
     const stages = ctx.ast.stages;
     if (stages.length < 2) return violations;
     const finalStage = stages[stages.length - 1];
-    for (const inst of finalStage.instructions) {
-      if (inst.type !== 'COPY') continue;
-      const c = inst as CopyInstruction;
-      if (!c.from) continue;
+    for (const ref of stageGraphOf(ctx).references(finalStage)) {
+      if (ref.kind !== 'copy' || ref.instruction.type !== 'COPY') continue;
+      const c = ref.instruction as CopyInstruction;
       for (const src of c.sources) {
         if (BUILD_TOOL_PATHS.test(src)) {
           violations.push({
             rule: 'DV8006', severity: 'warning',
             message: `COPY --from=${c.from} copies build tool path "${src}" into the final stage. This likely includes compilers, headers, and dev files that increase image size and attack surface. Copy only the specific build artifacts you need.`,
-            line: inst.line,
+            line: c.line,
           });
         } else if (BUILD_TOOL_SRC_BROAD.test(src)) {
           violations.push({
             rule: 'DV8006', severity: 'warning',
             message: `COPY --from=${c.from} copies broad source directory "${src}" into the final stage. This likely includes source code, build artifacts, and intermediate files. Copy only specific build artifacts you need.`,
-            line: inst.line,
+            line: c.line,
           });
         } else if (BUILD_TOOL_BROAD.test(src)) {
           violations.push({
             rule: 'DV8006', severity: 'warning',
             message: `COPY --from=${c.from} copies broad directory "${src}" into the final stage. This likely includes build tools, compilers, and development files. Copy only specific artifacts (e.g., compiled binaries) instead.`,
-            line: inst.line,
+            line: c.line,
           });
         }
       }
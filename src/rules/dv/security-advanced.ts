@@ -1,6 +1,12 @@
 import { Rule, Violation } from '../types';
-import { ArgInstruction, CopyInstruction, EnvInstruction, ExposeInstruction } from '../../parser/types';
-import { isUrl } from '../utils';
+import { ArgInstruction, CopyInstruction, DockerfileInstruction, EnvInstruction, ExposeInstruction, Heredoc, RunInstruction, RunMount, ShellNode, ShellWord } from '../../parser/types';
+import { walkShell } from '../../parser/shell';
+import {
+  isUrl, argumentRegion, heredocLines, isHeredocFile, hasMount, runMounts,
+  forEachInstruction, shellCommands, effectiveArgv, commandName, shellRegion,
+  findCommands, runsCommand, isDownload, findDownloadExecution,
+} from '../utils';
+import { defineOptions, optionsOf } from '../options';
 
 // DV3001: AWS/GCP credential patterns in ENV/ARG/RUN
 export const DV3001: Rule = {
@@ -82,10 +88,10 @@ export const DV3004: Rule = {
     // Public GPG keys (e.g., .gpg.key, gpgkey/) are not private keys
     const publicKeyExclusion = /\.gpg\.key$|gpg(?:key)?/i;
     const violations: Violation[] = [];
-    const lastStageIndex = ctx.ast.stages.length - 1;
+    const lastStage = ctx.ast.stages[ctx.ast.stages.length - 1];
     for (const stage of ctx.ast.stages) {
       // Skip non-final stages — cert files in build stages are discarded
-      if (stage.index !== lastStageIndex) continue;
+      if (stage !== lastStage) continue;
       for (const inst of stage.instructions) {
         if (inst.type !== 'COPY' && inst.type !== 'ADD') continue;
         const c = inst as CopyInstruction;
@@ -152,6 +158,31 @@ const TLS_DISABLE_ENV_PATTERNS: Array<{ key: RegExp; value: RegExp; description:
   { key: /^GOFLAGS$/i, value: /-insecure/, description: 'GOFLAGS=-insecure disables TLS verification for Go module downloads.' },
 ];
 
+// TLS-bypassing command lines (checked in RUN arguments and RUN heredoc scripts by DV3007)
+const TLS_DISABLE_COMMAND_PATTERNS: Array<{ pattern: RegExp; description: string }> = [
+  { pattern: /wget\s+.*--no-check-certificate|curl\s+.*\s-k[\s$]|curl\s+.*--insecure/, description: 'Avoid disabling TLS certificate verification (--no-check-certificate / -k / --insecure).' },
+  { pattern: /pip3?\s+install\s+.*--trusted-host/, description: 'pip install --trusted-host bypasses TLS certificate verification for package downloads. Use a properly configured package index with valid TLS.' },
+  { pattern: /git\s+config\s+.*http\.sslVerify\s+false/i, description: 'git config http.sslVerify false disables TLS verification for Git operations, enabling man-in-the-middle attacks.' },
+  { pattern: /npm\s+config\s+set\s+strict-ssl\s+false/i, description: 'npm config set strict-ssl false disables TLS certificate verification for npm registry connections.' },
+];
+
+// TLS-disabling settings in config files written from heredocs (.npmrc, .gitconfig, pip.conf, .curlrc, .wgetrc, .condarc)
+const TLS_DISABLE_CONFIG_PATTERNS: Array<{ pattern: RegExp; description: string }> = [
+  { pattern: /^\s*strict-ssl\s*=\s*false\b/i, description: 'strict-ssl=false in an npm/yarn config file disables TLS certificate verification for registry connections.' },
+  { pattern: /^\s*sslVerify\s*=\s*false\b/i, description: 'sslVerify = false in a Git config file disables TLS verification for Git operations, enabling man-in-the-middle attacks.' },
+  { pattern: /^\s*trusted-host\s*[=:]/i, description: 'trusted-host in a pip config file bypasses TLS certificate verification for the listed hosts.' },
+  { pattern: /^\s*(?:-k|--insecure|insecure)\s*$/, description: 'insecure in a .curlrc file disables TLS certificate verification for every curl invocation.' },
+  { pattern: /^\s*check_certificate\s*=\s*off\b/i, description: 'check_certificate = off in a .wgetrc file disables TLS certificate verification for every wget invocation.' },
+  { pattern: /^\s*ssl_verify\s*:\s*(?:false|no)\b/i, description: 'ssl_verify: false in a .condarc file disables TLS verification for Conda package downloads.' },
+];
+
+// `KEY=value` lines of environment files written from heredocs (e.g. /etc/environment)
+const ENV_FILE_ASSIGNMENT = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=["']?(.*?)["']?\s*$/;
+
+function isHeredocScript(heredoc: Heredoc): boolean {
+  return heredoc.script !== undefined;
+}
+
 export const DV3007: Rule = {
   id: 'DV3007', severity: 'warning',
   description: 'Avoid disabling TLS certificate verification.',
@@ -160,22 +191,28 @@ export const DV3007: Rule = {
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type === 'RUN') {
-          const args = inst.arguments;
-          // curl/wget TLS bypass
-          if (/wget\s+.*--no-check-certificate/.test(args) || /curl\s+.*\s-k[\s$]/.test(args) || /curl\s+.*--insecure/.test(args)) {
-            violations.push({ rule: 'DV3007', severity: 'warning', message: 'Avoid disabling TLS certificate verification (--no-check-certificate / -k / --insecure).', line: inst.line });
+          for (const { pattern, description } of TLS_DISABLE_COMMAND_PATTERNS) {
+            if (pattern.test(inst.arguments)) {
+              violations.push({ rule: 'DV3007', severity: 'warning', message: description, line: inst.line });
+            }
           }
-          // pip --trusted-host bypasses TLS verification for package downloads
-          if (/pip3?\s+install\s+.*--trusted-host/.test(args)) {
-            violations.push({ rule: 'DV3007', severity: 'warning', message: 'pip install --trusted-host bypasses TLS certificate verification for package downloads. Use a properly configured package index with valid TLS.', line: inst.line });
+          for (const l of heredocLines(inst, isHeredocScript)) {
+            for (const { pattern, description } of TLS_DISABLE_COMMAND_PATTERNS) {
+              if (pattern.test(l.text)) {
+                violations.push({ rule: 'DV3007', severity: 'warning', message: description, ...argumentRegion(inst, l.offset, l.text.length) });
+              }
+            }
           }
-          // git config http.sslVerify false
-          if (/git\s+config\s+.*http\.sslVerify\s+false/i.test(args)) {
-            violations.push({ rule: 'DV3007', severity: 'warning', message: 'git config http.sslVerify false disables TLS verification for Git operations, enabling man-in-the-middle attacks.', line: inst.line });
+        }
+        // Config files created from heredocs
+        for (const l of heredocLines(inst, isHeredocFile)) {
+          const found = TLS_DISABLE_CONFIG_PATTERNS.filter(p => p.pattern.test(l.text)).map(p => p.description);
+          const env = l.text.match(ENV_FILE_ASSIGNMENT);
+          if (env) {
+            found.push(...TLS_DISABLE_ENV_PATTERNS.filter(p => p.key.test(env[1]) && p.value.test(env[2])).map(p => p.description));
           }
-          // npm config set strict-ssl false
-          if (/npm\s+config\s+set\s+strict-ssl\s+false/i.test(args)) {
-            violations.push({ rule: 'DV3007', severity: 'warning', message: 'npm config set strict-ssl false disables TLS certificate verification for npm registry connections.', line: inst.line });
+          for (const description of found) {
+            violations.push({ rule: 'DV3007', severity: 'warning', message: `${description} (heredoc file "${l.heredoc.targetPath}")`, ...argumentRegion(inst, l.offset, l.text.length) });
           }
         }
         // ENV-based TLS disabling patterns
@@ -296,16 +333,27 @@ export const DV3012: Rule = {
       /\bdapi[0-9a-f]{32,}/,                                           // Databricks PAT
       /\bAKCp[A-Za-z0-9]{10,}/,                                       // JFrog Artifactory token
     ];
+    // .npmrc auth lines written from heredocs carry no `npm` prefix
+    const filePatterns = [...patterns, /^\s*(?:\/\/\S+?\/:)?_auth(?:Token)?\s*=\s*(?!\$)\S+/];
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
-        if (inst.type !== 'RUN') continue;
-        for (const pat of patterns) {
-          if (pat.test(inst.arguments)) {
-            violations.push({ rule: 'DV3012', severity: 'error', message: 'Possible hardcoded token or password in RUN instruction. Use --mount=type=secret or build args.', line: inst.line });
-            break;
+        if (inst.type === 'RUN') {
+          for (const pat of patterns) {
+            if (pat.test(inst.arguments)) {
+              violations.push({ rule: 'DV3012', severity: 'error', message: 'Possible hardcoded token or password in RUN instruction. Use --mount=type=secret or build args.', line: inst.line });
+              break;
+            }
           }
         }
+        for (const l of heredocLines(inst)) {
+          const m = (l.heredoc.targetPath ? filePatterns : patterns).map(p => p.exec(l.text)).find(Boolean);
+          if (!m) continue;
+          const message = l.heredoc.targetPath
+            ? `Possible hardcoded token or password in heredoc file "${l.heredoc.targetPath}". Use --mount=type=secret instead of writing credentials into the image.`
+            : 'Possible hardcoded token or password in RUN heredoc. Use --mount=type=secret or build args.';
+          violations.push({ rule: 'DV3012', severity: 'error', message, ...argumentRegion(inst, l.offset + m.index, m[0].length) });
+        }
       }
     }
     return violations;
@@ -391,26 +439,32 @@ export const DV3014: Rule = {
   },
 };
 
+/** Whether a RUN verifies what it downloads: sha256sum and friends, `gpg --verify` or `cosign verify` */
+function verifiesChecksum(inst: DockerfileInstruction): boolean {
+  return runsCommand(inst, ['sha256sum', 'sha384sum', 'sha512sum', 'shasum', 'md5sum'])
+    || runsCommand(inst, 'gpg', { flag: '--verify' })
+    || runsCommand(inst, 'cosign', { subcommand: 'verify' });
+}
+
+// Shells DV1003 does not cover; DV3015 reports downloads piped into them
+const DV3015_SHELLS = ['ash'];
+
 // DV3015: Downloading scripts and piping to shell without checksum verification
-// Note: DV1003 already fires as an error for the same curl|sh patterns (sh/bash/zsh/ksh/dash/source).
-// DV3015 skips those to avoid double-reporting — it only fires for shells not covered by DV1003 (e.g. ash).
+// Note: DV1003 already fires as an error for downloads piped into sh/bash/python and the like.
+// DV3015 asks the same shell tree whether DV1003 fires, and only reports the shells it leaves out (e.g. ash).
 export const DV3015: Rule = {
   id: 'DV3015', severity: 'warning',
   description: 'Avoid piping curl/wget output to shell without checksum verification.',
   check(ctx) {
-    const pipeToShell = /(?:curl|wget)\s+[^|]*\|\s*(?:sh|bash|zsh|dash|ash|python3?|perl|ruby|node)/;
-    // DV1003 covers sh|bash|zsh|ksh|dash|source|python3?|perl|ruby|node as an error; avoid double-reporting on same line
-    const dv1003Pattern = /(?:curl|wget)\s+[^|]*\|\s*(?:sh|bash|zsh|ksh|dash|source|python3?|perl|ruby|node)\b/;
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
-        if (inst.type !== 'RUN') continue;
-        if (pipeToShell.test(inst.arguments)) {
-          // Skip if DV1003 already fires on this instruction (prevents error+warning duplicate)
-          if (dv1003Pattern.test(inst.arguments)) continue;
-          if (!/sha256sum|sha512sum|shasum|gpg\s+--verify|md5sum/.test(inst.arguments)) {
-            violations.push({ rule: 'DV3015', severity: 'warning', message: 'Piping curl/wget to shell without checksum verification. Download first, verify, then execute.', line: inst.line });
-          }
+        if (inst.type !== 'RUN' || !inst.shell) continue;
+        // Skip if DV1003 already fires on this instruction (prevents error+warning duplicate)
+        if (findDownloadExecution(inst.shell)) continue;
+        const match = findDownloadExecution(inst.shell, DV3015_SHELLS);
+        if (match && !verifiesChecksum(inst)) {
+          violations.push({ rule: 'DV3015', severity: 'warning', message: 'Piping curl/wget to shell without checksum verification. Download first, verify, then execute.', ...shellRegion(inst, match) });
         }
       }
     }
@@ -522,28 +576,39 @@ export const DV3017: Rule = {
 };
 
 // DV3021: Dangerous service port EXPOSE detection
+type PortSeverity = 'error' | 'warning' | 'info';
+const DANGEROUS_PORTS: Record<number, { severity: PortSeverity; name: string }> = {
+  2375: { severity: 'error', name: 'Docker API (unencrypted)' },
+  2376: { severity: 'error', name: 'Docker API (TLS)' },
+  6379: { severity: 'warning', name: 'Redis' },
+  27017: { severity: 'warning', name: 'MongoDB' },
+  5432: { severity: 'warning', name: 'PostgreSQL' },
+  3306: { severity: 'warning', name: 'MySQL/MariaDB' },
+  11211: { severity: 'warning', name: 'Memcached' },
+  9200: { severity: 'warning', name: 'Elasticsearch HTTP' },
+  9300: { severity: 'warning', name: 'Elasticsearch Transport' },
+  4444: { severity: 'warning', name: 'Selenium Grid Hub' },
+  4445: { severity: 'warning', name: 'Selenium Grid' },
+  4446: { severity: 'warning', name: 'Selenium Grid' },
+  5000: { severity: 'info', name: 'Docker Registry / common web app port (Flask, etc.)' },
+  // 8080 removed: too common as standard web app port (Java/Tomcat, Spring Boot, Node.js, etc.) to be meaningful
+  8443: { severity: 'info', name: 'HTTPS alternate (admin UI)' },
+};
+const DV3021_OPTIONS = defineOptions({
+  ports: {
+    type: 'number[]',
+    default: Object.keys(DANGEROUS_PORTS).map(Number),
+    description: 'Ports reported when exposed; ports without a built-in name are reported as warnings',
+  },
+});
 export const DV3021: Rule = {
   id: 'DV3021', severity: 'warning',
   description: 'Exposing sensitive service ports can enable unauthorized access.',
+  options: DV3021_OPTIONS,
   check(ctx) {
-    type PortSeverity = 'error' | 'warning' | 'info';
-    const dangerousPorts: Record<number, { severity: PortSeverity; name: string }> = {
-      2375: { severity: 'error', name: 'Docker API (unencrypted)' },
-      2376: { severity: 'error', name: 'Docker API (TLS)' },
-      6379: { severity: 'warning', name: 'Redis' },
-      27017: { severity: 'warning', name: 'MongoDB' },
-      5432: { severity: 'warning', name: 'PostgreSQL' },
-      3306: { severity: 'warning', name: 'MySQL/MariaDB' },
-      11211: { severity: 'warning', name: 'Memcached' },
-      9200: { severity: 'warning', name: 'Elasticsearch HTTP' },
-      9300: { severity: 'warning', name: 'Elasticsearch Transport' },
-      4444: { severity: 'warning', name: 'Selenium Grid Hub' },
-      4445: { severity: 'warning', name: 'Selenium Grid' },
-      4446: { severity: 'warning', name: 'Selenium Grid' },
-      5000: { severity: 'info', name: 'Docker Registry / common web app port (Flask, etc.)' },
-      // 8080 removed: too common as standard web app port (Java/Tomcat, Spring Boot, Node.js, etc.) to be meaningful
-      8443: { severity: 'info', name: 'HTTPS alternate (admin UI)' },
-    };
+    const { ports } = optionsOf(ctx, DV3021_OPTIONS);
+    const dangerousPorts: Record<number, { severity: PortSeverity; name: string }> = {};
+    for (const port of ports) dangerousPorts[port] = DANGEROUS_PORTS[port] ?? { severity: 'warning', name: 'configured sensitive port' };
 
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
@@ -582,24 +647,29 @@ export const DV3021: Rule = {
 };
 
 // DV3010: VOLUME with sensitive paths
+const DV3010_OPTIONS = defineOptions({
+  paths: { type: 'string[]', default: ['/root', '/home'], description: 'VOLUME paths reported as warnings' },
+  infoPaths: { type: 'string[]', default: ['/tmp'], description: 'VOLUME paths reported as info, for data that should stay ephemeral' },
+});
 export const DV3010: Rule = {
   id: 'DV3010', severity: 'warning',
   description: 'Avoid VOLUME on sensitive paths like /root, /home, /tmp.',
+  options: DV3010_OPTIONS,
   check(ctx) {
-    const warningPaths = ['/root', '/home'];
-    const infoPaths = ['/tmp'];
+    const { paths: warningPaths, infoPaths } = optionsOf(ctx, DV3010_OPTIONS);
+    const pathRe = (p: string) => new RegExp(`(?:^|[\\s,\\["])${p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:[\\s,\\]"]|$)`);
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type !== 'VOLUME') continue;
         for (const p of warningPaths) {
-          const re = new RegExp(`(?:^|[\\s,\\["])${p.replace('/', '\\/')}(?:[\\s,\\]"]|$)`);
+          const re = pathRe(p);
           if (re.test(inst.arguments)) {
             violations.push({ rule: 'DV3010', severity: 'warning', message: `VOLUME on sensitive path "${p}" may expose sensitive data.`, line: inst.line });
           }
         }
         for (const p of infoPaths) {
-          const re = new RegExp(`(?:^|[\\s,\\["])${p.replace('/', '\\/')}(?:[\\s,\\]"]|$)`);
+          const re = pathRe(p);
           if (re.test(inst.arguments)) {
             violations.push({ rule: 'DV3010', severity: 'info', message: `VOLUME on "${p}" is common but may expose ephemeral data. Ensure no secrets are written there.`, line: inst.line });
           }
@@ -620,7 +690,7 @@ export const DV3022: Rule = {
       for (const inst of stage.instructions) {
         if (inst.type !== 'RUN') continue;
         const args = inst.arguments;
-        if (/--mount=type=secret/.test(args)) continue;
+        if (hasMount(inst, 'secret')) continue;
 
         // 1. Authentication file generation (.netrc or /etc/apt/auth.conf)
         if ((/echo\b/.test(args) || /tee\b/.test(args) || />/.test(args)) &&
@@ -676,7 +746,7 @@ export const DV3023: Rule = {
       for (const inst of stage.instructions) {
         if (inst.type !== 'RUN') continue;
         const args = inst.arguments;
-        if (/--mount=type=secret/.test(args)) continue;
+        if (hasMount(inst, 'secret')) continue;
 
         let flagged = false;
         for (const name of argNames) {
@@ -730,26 +800,35 @@ export const DV3024: Rule = {
   id: 'DV3024', severity: 'error',
   description: 'Downloaded file executed without checksum verification.',
   check(ctx) {
-    const checksumPattern = /(?:sha256sum|sha512sum|sha384sum|md5sum|shasum|gpg\s+--verify|cosign\s+verify)/;
-    // Patterns already covered by DV1003 (pipe to shell) — skip to avoid duplicate
-    const dv1003Pattern = /(?:curl|wget)\s+[^|]*\|\s*(?:sh|bash|zsh|ksh|dash|source|ash)\b/;
     const violations: Violation[] = [];
 
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
-        if (inst.type !== 'RUN') continue;
-        const args = inst.arguments;
-        if (checksumPattern.test(args)) continue;
-        if (dv1003Pattern.test(args)) continue;
+        if (inst.type !== 'RUN' || !inst.shell || verifiesChecksum(inst)) continue;
+        // Downloads piped into a shell are reported by DV1003 or DV3015 — skip to avoid duplicate
+        if (findDownloadExecution(inst.shell, DV3015_SHELLS)) continue;
+        const commands = shellCommands(inst);
+        const downloads = commands.filter(isDownload);
+        if (downloads.length === 0) continue;
 
         // Pattern 1: download → chmod +x → execute chain
-        if (/(?:curl|wget)\b/.test(args) && /chmod\s+\+x\b/.test(args) && /(?:\.\s*\/|\bexec\s+\.\/)/.test(args)) {
+        const chmodX = findCommands(inst, 'chmod').some(cmd => effectiveArgv(cmd).slice(1).some(w => /^[ugoa]*\+[rwX]*x/.test(w.text)));
+        const runsLocal = commands.some((cmd) => {
+          const name = effectiveArgv(cmd)[0]?.text;
+          return name !== undefined && (name.startsWith('./') || name === '.');
+        });
+        if (chmodX && runsLocal) {
           violations.push({ rule: 'DV3024', severity: 'error', message: 'Downloaded file made executable and run without checksum verification. Verify file integrity before execution.', line: inst.line });
           continue;
         }
 
-        // Pattern 2: download + extract tarball without verification
-        if (/(?:curl|wget)\b[^;]*(?:&&|;)\s*tar\s/.test(args)) {
+        // Pattern 2: download + extract tarball without verification (`curl | tar` streams, and is not matched)
+        const streamed = new Set<ShellNode>();
+        walkShell(inst.shell, (node) => {
+          if (node.type === 'pipeline' && node.commands.some(isDownload)) node.commands.forEach(c => streamed.add(c));
+        });
+        const tar = findCommands(inst, 'tar').find(t => !streamed.has(t) && downloads.some(d => d.offset < t.offset));
+        if (tar) {
           violations.push({ rule: 'DV3024', severity: 'error', message: 'Tarball downloaded and extracted without checksum verification. Verify integrity before extraction.', line: inst.line });
           continue;
         }
@@ -1180,10 +1259,15 @@ export const DV3035: Rule = {
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
-        if (inst.type !== 'RUN') continue;
-        if (jwtPattern.test(inst.arguments)) {
+        if (inst.type === 'RUN' && jwtPattern.test(inst.arguments)) {
           violations.push({ rule: 'DV3035', severity: 'error', message: 'Hardcoded JWT token detected in RUN instruction. JWT tokens should be provided via --mount=type=secret or runtime environment variables.', line: inst.line });
         }
+        for (const l of heredocLines(inst)) {
+          const m = jwtPattern.exec(l.text);
+          if (!m) continue;
+          const where = l.heredoc.targetPath ? `heredoc file "${l.heredoc.targetPath}"` : 'RUN heredoc';
+          violations.push({ rule: 'DV3035', severity: 'error', message: `Hardcoded JWT token detected in ${where}. JWT tokens should be provided via --mount=type=secret or runtime environment variables.`, ...argumentRegion(inst, l.offset + m.index, m[0].length) });
+        }
       }
     }
     return violations;
@@ -1473,18 +1557,32 @@ export const DV3043: Rule = {
 
 // DV3044: CI/CD token in ENV/ARG
 // Detects well-known CI/CD token variable names with non-empty values in ENV or ARG instructions.
-const CICD_TOKEN_NAMES = /^(GITHUB_TOKEN|GH_TOKEN|GITLAB_TOKEN|GL_TOKEN|BITBUCKET_APP_PASSWORD|NPM_TOKEN|PYPI_TOKEN|CI_JOB_TOKEN|ACCESS_TOKEN|DOCKER_PASSWORD|DOCKER_TOKEN|AWS_SECRET_ACCESS_KEY|CODECOV_TOKEN|SONAR_TOKEN|SNYK_TOKEN|CIRCLE_TOKEN|TRAVIS_TOKEN|HEROKU_API_KEY|NETLIFY_AUTH_TOKEN|VERCEL_TOKEN|NUGET_API_KEY|RUBYGEMS_API_KEY)$/i;
+const DV3044_OPTIONS = defineOptions({
+  tokenNames: {
+    type: 'string[]',
+    default: [
+      'GITHUB_TOKEN', 'GH_TOKEN', 'GITLAB_TOKEN', 'GL_TOKEN', 'BITBUCKET_APP_PASSWORD', 'NPM_TOKEN', 'PYPI_TOKEN',
+      'CI_JOB_TOKEN', 'ACCESS_TOKEN', 'DOCKER_PASSWORD', 'DOCKER_TOKEN', 'AWS_SECRET_ACCESS_KEY', 'CODECOV_TOKEN',
+      'SONAR_TOKEN', 'SNYK_TOKEN', 'CIRCLE_TOKEN', 'TRAVIS_TOKEN', 'HEROKU_API_KEY', 'NETLIFY_AUTH_TOKEN',
+      'VERCEL_TOKEN', 'NUGET_API_KEY', 'RUBYGEMS_API_KEY',
+    ],
+    description: 'Variable names (case-insensitive) that must not get a literal value',
+  },
+});
 export const DV3044: Rule = {
   id: 'DV3044', severity: 'error',
   description: 'ENV or ARG sets a well-known CI/CD token variable with a non-empty value, leaking credentials into image layers.',
+  options: DV3044_OPTIONS,
   check(ctx) {
+    const tokenNames = new Set(optionsOf(ctx, DV3044_OPTIONS).tokenNames.map(name => name.toUpperCase()));
+    const isTokenName = (name: string) => tokenNames.has(name.toUpperCase());
     const violations: Violation[] = [];
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type === 'ENV') {
           const env = inst as import('../../parser/types').EnvInstruction;
           for (const pair of env.pairs) {
-            if (CICD_TOKEN_NAMES.test(pair.key) && pair.value.trim() !== '') {
+            if (isTokenName(pair.key) && pair.value.trim() !== '') {
               // Skip if value is just a variable reference like $VAR or ${VAR}
               if (/^\$\{?\w+\}?$/.test(pair.value.trim())) continue;
               violations.push({
@@ -1497,7 +1595,7 @@ export const DV3044: Rule = {
         }
         if (inst.type === 'ARG') {
           const arg = inst as import('../../parser/types').ArgInstruction;
-          if (arg.defaultValue && CICD_TOKEN_NAMES.test(arg.name) && arg.defaultValue.trim() !== '') {
+          if (arg.defaultValue && isTokenName(arg.name) && arg.defaultValue.trim() !== '') {
             if (/^\$\{?\w+\}?$/.test(arg.defaultValue.trim())) continue;
             violations.push({
               rule: 'DV3044', severity: 'error',
@@ -1510,7 +1608,7 @@ export const DV3044: Rule = {
     }
     // Also check global args
     for (const arg of ctx.ast.globalArgs) {
-      if (arg.defaultValue && CICD_TOKEN_NAMES.test(arg.name) && arg.defaultValue.trim() !== '') {
+      if (arg.defaultValue && isTokenName(arg.name) && arg.defaultValue.trim() !== '') {
         if (/^\$\{?\w+\}?$/.test(arg.defaultValue.trim())) continue;
         violations.push({
           rule: 'DV3044', severity: 'error',
@@ -1563,3 +1661,70 @@ export const DV3045: Rule = {
     return violations;
   },
 };
+
+// DV3046: Secret mount contents copied into the image
+// A --mount=type=secret file is only visible while the RUN executes; copying it (or
+// redirecting a command that reads it) to another path writes the secret into the layer.
+const SECRET_COPY_COMMANDS = new Set(['cp', 'install', 'rsync']);
+const OUTPUT_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>']);
+export const DV3046: Rule = {
+  id: 'DV3046', severity: 'error',
+  description: 'Secret mounted with --mount=type=secret is copied into the image.',
+  check(ctx) {
+    const violations: Violation[] = [];
+    forEachInstruction(ctx, 'RUN', (inst) => {
+      const secrets = runMounts(inst, 'secret').filter(m => m.target);
+      if (secrets.length === 0) return;
+      const commands = shellCommands(inst);
+      // Files deleted again in the same RUN never reach the layer
+      const removed = new Set(commands
+        .filter(cmd => commandName(cmd) === 'rm')
+        .flatMap(cmd => effectiveArgv(cmd).slice(1).map(w => w.text)));
+      const secretIn = (words: ShellWord[]) => secrets.find(m => words.some(w => w.text.includes(m.target!)));
+
+      for (const cmd of commands) {
+        const argv = effectiveArgv(cmd);
+        const operands = argv.slice(1).filter(w => !w.text.startsWith('-'));
+        let secret: RunMount | undefined;
+        let dest: string | undefined;
+        if (SECRET_COPY_COMMANDS.has(commandName(cmd) ?? '') && operands.length >= 2) {
+          secret = secretIn(operands.slice(0, -1));
+          dest = operands[operands.length - 1].text;
+        } else {
+          const out = cmd.redirects.find(r => OUTPUT_REDIRECTS.has(r.op) && r.target && !r.target.text.startsWith('/dev/'));
+          if (out) {
+            secret = secretIn(argv.slice(1));
+            dest = out.target!.text;
+          }
+        }
+        if (!secret || !dest || removed.has(dest)) continue;
+        violations.push({
+          rule: 'DV3046', severity: 'error',
+          message: `Secret "${secret.id ?? secret.target}" from ${secret.target} is written to "${dest}", which stores it in the image layer. Read the secret from the mount where it is needed instead of copying it.`,
+          ...shellRegion(inst, cmd),
+        });
+      }
+    });
+    return violations;
+  },
+};
+
+// DV3047: RUN --security=insecure
+export const DV3047: Rule = {
+  id: 'DV3047', severity: 'error',
+  description: 'RUN --security=insecure disables the build sandbox.',
+  check(ctx) {
+    const violations: Violation[] = [];
+    forEachInstruction(ctx, 'RUN', (inst) => {
+      if ((inst as RunInstruction).security !== 'insecure') return;
+      const offset = Math.max(inst.arguments.indexOf('--security'), 0);
+      const length = inst.arguments.slice(offset).match(/^\S+(?:\s+insecure\b)?/)?.[0].length ?? 0;
+      violations.push({
+        rule: 'DV3047', severity: 'error',
+        message: 'RUN --security=insecure runs the command without the build sandbox, like a privileged container, and requires the security.insecure entitlement. Remove it or move the step out of the image build.',
+        ...argumentRegion(inst, offset, length),
+      });
+    });
+    return violations;
+  },
+};
@@ -1,5 +1,6 @@
 import { Rule, Violation } from '../types';
 import { EnvInstruction, ArgInstruction, CopyInstruction, UserInstruction } from '../../parser/types';
+import { findDownloadExecution, runsCommand, cleansAll, removesPath, shellRegion, argumentRegion, heredocLines, isHeredocFile, resolvedFrom, hasMount } from '../utils';
 
 // 'token' uses a word-boundary guard so that library names containing 'token'
 // as a compound syllable (e.g. TIKTOKEN, BITTOKEN) don't trigger false positives.
@@ -69,12 +70,19 @@ function isNonSecretValue(key: string, value: string): boolean {
   return false;
 }
 
-// DV1001: Hardcoded secrets in ENV/ARG
+// Key/value lines of config files written from heredocs: `KEY=value`, `key: value`, `"key": "value",`
+const CONFIG_ASSIGNMENT = /^\s*(?:export\s+)?["']?([A-Za-z_][\w.-]*)["']?\s*[:=]\s*(.*?)\s*$/;
+
+function configValue(raw: string): string {
+  return raw.replace(/,$/, '').replace(/^(["'])(.*)\1$/, '$2');
+}
+
+// DV1001: Hardcoded secrets in ENV/ARG and heredoc-created config files
 // _meta directories are module test fixtures (e.g. elastic/beats) where dummy credentials are expected
 const DV1001_SKIP_DIRS = /(?:^|[/\\])(?:testdata|test-framework|e2e-tests?|fixtures?|__tests__|_meta|demo|example|sample|getting[_-]?started|[a-z0-9_-]+-fixtures?)(?:[/\\]|$)/i;
 export const DV1001: Rule = {
   id: 'DV1001', severity: 'error',
-  description: 'Secrets should not be hardcoded in ENV or ARG instructions',
+  description: 'Secrets should not be hardcoded in ENV or ARG instructions or heredoc-created files',
   check(ctx) {
     const violations: Violation[] = [];
     // Skip test/fixture Dockerfiles where dummy secrets are expected
@@ -95,6 +103,14 @@ export const DV1001: Rule = {
             violations.push({ rule: 'DV1001', severity: 'error', message: `Possible secret hardcoded in ARG: "${a.name}". Use --build-arg at build time without default values.`, line: inst.line });
           }
         }
+        for (const l of heredocLines(inst, isHeredocFile)) {
+          const m = l.text.match(CONFIG_ASSIGNMENT);
+          if (!m) continue;
+          const [, key, raw] = m;
+          if (SECRET_PATTERNS.test(key) && !NEGATED_SECRET_NAME.test(key) && !isNonSecretValue(key, configValue(raw))) {
+            violations.push({ rule: 'DV1001', severity: 'error', message: `Possible secret hardcoded in heredoc file "${l.heredoc.targetPath}": "${key}". Use build secrets or mount the file at runtime instead.`, ...argumentRegion(inst, l.offset, l.text.length) });
+          }
+        }
       }
     }
     // Check global args too
@@ -133,22 +149,18 @@ export const DV1002: Rule = {
 };
 
 // DV1003: Unsafe curl pipe
+// Uses the parsed shell tree so that quoted text (`echo "curl ... | sh"`) is not mistaken for a pipeline.
 export const DV1003: Rule = {
   id: 'DV1003', severity: 'error',
   description: 'Avoid piping curl/wget output to shell',
   check(ctx) {
     const violations: Violation[] = [];
-    // Match curl/wget piped to shell, with optional sudo/env/nohup prefixes before the shell command
-    // Covers: curl ... | sh, curl ... | sudo bash, curl ... | ENV=val sh, curl ... | sudo -E bash
-    const unsafePipe = /(?:curl|wget)\s+[^|]*\|\s*(?:sudo\s+(?:-\w+\s+)*)?(?:\w+=\S+\s+)*(?:sh|bash|zsh|ksh|dash|source|python3?|perl|ruby|node)\b/;
-    // Also detect process substitution: bash <(curl ...) or bash -c "$(curl ...)"
-    const processSubst = /(?:sh|bash|zsh|ksh|dash)\s+<\((?:curl|wget)\b/;
-    const cmdSubst = /(?:sh|bash|zsh|ksh|dash)\s+-c\s+["']?\$\((?:curl|wget)\b/;
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
-        if (inst.type !== 'RUN') continue;
-        if (unsafePipe.test(inst.arguments) || processSubst.test(inst.arguments) || cmdSubst.test(inst.arguments)) {
-          violations.push({ rule: 'DV1003', severity: 'error', message: 'Avoid piping curl/wget output directly to a shell. Download first, verify, then execute.', line: inst.line });
+        if (inst.type !== 'RUN' || !inst.shell) continue;
+        const match = findDownloadExecution(inst.shell);
+        if (match) {
+          violations.push({ rule: 'DV1003', severity: 'error', message: 'Avoid piping curl/wget output directly to a shell. Download first, verify, then execute.', ...shellRegion(inst, match) });
         }
       }
     }
@@ -160,6 +172,7 @@ export const DV1003: Rule = {
 export const DV1004: Rule = {
   id: 'DV1004', severity: 'info',
   description: 'Consider using multi-stage builds to reduce image size',
+  scope: 'stage',
   check(ctx) {
     if (ctx.ast.stages.length > 1) return [];
     const violations: Violation[] = [];
@@ -201,6 +214,7 @@ export const DV1005: Rule = {
 export const DV1006: Rule = {
   id: 'DV1006', severity: 'warning',
   description: 'No USER instruction found. Container will run as root.',
+  scope: 'stage',
   check(ctx) {
     const violations: Violation[] = [];
     const lastStage = ctx.ast.stages[ctx.ast.stages.length - 1];
@@ -239,37 +253,37 @@ export const DV1007: Rule = {
   description: 'Package manager cache not cleaned in same RUN instruction',
   check(ctx) {
     const violations: Violation[] = [];
-    const lastStageIndex = ctx.ast.stages.length - 1;
+    const lastStage = ctx.ast.stages[ctx.ast.stages.length - 1];
     for (const stage of ctx.ast.stages) {
       // Skip non-final stages — cache bloat in build stages is discarded
-      if (stage.index !== lastStageIndex) continue;
+      if (stage !== lastStage) continue;
       for (const inst of stage.instructions) {
         if (inst.type !== 'RUN') continue;
-        const a = inst.arguments;
         // BuildKit --mount=type=cache manages the cache externally; cleanup is unnecessary
-        if (/--mount=type=cache/.test(a)) continue;
+        if (hasMount(inst, 'cache')) continue;
+        const installs = (name: string | string[], subcommand: string | string[] = 'install') => runsCommand(inst, name, { subcommand });
         // apt-get
-        if (/(?:apt-get|apt)\s+install/.test(a) && !/rm\s+(?:-[rf]+\s+|(?:--(?:recursive|force|verbose)\s+)+)*\/var\/lib\/apt\/lists/.test(a)) {
+        if (installs(['apt-get', 'apt']) && !removesPath(inst, '/var/lib/apt/lists')) {
           violations.push({ rule: 'DV1007', severity: 'warning', message: 'apt-get cache not cleaned. Add `rm -rf /var/lib/apt/lists/*` in the same RUN instruction.', line: inst.line });
         }
         // yum
-        if (/yum\s+install/.test(a) && !/yum\s+clean\s+all/.test(a)) {
+        if (installs('yum') && !cleansAll(inst, 'yum')) {
           violations.push({ rule: 'DV1007', severity: 'warning', message: 'yum cache not cleaned. Add `yum clean all` in the same RUN instruction.', line: inst.line });
         }
         // dnf (but not microdnf which has its own cache management)
-        if (/(?<![a-z])dnf\s+install/.test(a) && !/dnf\s+clean\s+all/.test(a)) {
+        if (installs('dnf') && !cleansAll(inst, 'dnf')) {
           violations.push({ rule: 'DV1007', severity: 'warning', message: 'dnf cache not cleaned. Add `dnf clean all` in the same RUN instruction.', line: inst.line });
         }
         // microdnf
-        if (/microdnf\s+install/.test(a) && !/microdnf\s+clean\s+all/.test(a)) {
+        if (installs('microdnf') && !cleansAll(inst, 'microdnf')) {
           violations.push({ rule: 'DV1007', severity: 'warning', message: 'microdnf cache not cleaned. Add `microdnf clean all` in the same RUN instruction.', line: inst.line });
         }
         // zypper (SUSE/openSUSE)
-        if (/\bzypper\s+(?:install|in)\b/.test(a) && !/zypper\s+clean/.test(a) && !/rm\s+-rf?\s+\/var\/cache\/zypp/.test(a)) {
+        if (installs('zypper', ['install', 'in']) && !runsCommand(inst, 'zypper', { subcommand: 'clean' }) && !removesPath(inst, '/var/cache/zypp')) {
           violations.push({ rule: 'DV1007', severity: 'warning', message: 'zypper cache not cleaned. Add `zypper clean --all` in the same RUN instruction.', line: inst.line });
         }
         // tdnf (VMware Photon OS)
-        if (/\btdnf\s+install\b/.test(a) && !/tdnf\s+clean\s+all/.test(a)) {
+        if (installs('tdnf') && !cleansAll(inst, 'tdnf')) {
           violations.push({ rule: 'DV1007', severity: 'warning', message: 'tdnf cache not cleaned. Add `tdnf clean all` in the same RUN instruction.', line: inst.line });
         }
       }
@@ -569,7 +583,7 @@ export const DV1014: Rule = {
       if (stage.from.alias) stageAliases.add(stage.from.alias.toLowerCase());
     }
     for (const stage of ctx.ast.stages) {
-      const f = stage.from;
+      const f = resolvedFrom(ctx, stage);
       // Skip scratch
       if (f.image === 'scratch') continue;
       // Skip stage aliases (e.g., FROM builder)
@@ -1,5 +1,7 @@
 import { Rule, Violation } from '../types';
 import { CopyInstruction, WorkdirInstruction } from '../../parser/types';
+import { defineOptions, optionsOf, parseDuration } from '../options';
+import { findCommands, hasFlag, effectiveArgv, shellRegion } from '../utils';
 
 // ---------------------------------------------------------------------------
 // DV6xxx: Supply Chain & Runtime Hardening
@@ -47,14 +49,25 @@ export const DV6002: Rule = {
 };
 
 // DV6003: Installing network debugging tools increases attack surface
+const DV6003_OPTIONS = defineOptions({
+  tools: {
+    type: 'string[]',
+    default: ['netcat', 'netcat-openbsd', 'netcat-traditional', 'ncat', 'nmap', 'socat', 'telnet', 'tcpdump', 'wireshark', 'tshark', 'ettercap', 'hping3'],
+    description: 'Package names reported when installed',
+  },
+});
 export const DV6003: Rule = {
   id: 'DV6003', severity: 'info',
   description: 'Avoid installing network debugging tools in production images.',
+  options: DV6003_OPTIONS,
   check(ctx) {
     const violations: Violation[] = [];
+    const { tools } = optionsOf(ctx, DV6003_OPTIONS);
+    if (tools.length === 0) return violations;
     // Match package names in apt-get install, apk add, yum/dnf install
     const installCmd = /(?:apt-get\s+install|apk\s+add|yum\s+install|dnf\s+install)\b/;
-    const debugTools = /\b(netcat|netcat-openbsd|netcat-traditional|ncat|nmap|socat|telnet|tcpdump|wireshark|tshark|ettercap|hping3)\b/;
+    const names = tools.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const debugTools = new RegExp(`\\b(${names.join('|')})\\b`);
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type !== 'RUN') continue;
@@ -273,10 +286,10 @@ export const DV6013: Rule = {
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type !== 'RUN') continue;
-        const args = inst.arguments;
-        // Check curl without --fail or -f (ignore -fsSL etc. which includes f)
-        if (/\bcurl\b/.test(args) && !/\bcurl\b[^|;]*\s(?:--fail\b|-[a-zA-Z]*f)/.test(args)) {
-          violations.push({ rule: 'DV6013', severity: 'warning', message: 'curl used without --fail/-f flag. HTTP error responses (4xx/5xx) will be silently saved instead of failing the build. Use `curl -fsSL` or `curl --fail`.', line: inst.line });
+        // Check curl without --fail or -f (-fsSL etc. include f)
+        const curl = findCommands(inst, 'curl').find(cmd => !hasFlag(effectiveArgv(cmd).slice(1), '--fail', '--fail-with-body', '-f'));
+        if (curl) {
+          violations.push({ rule: 'DV6013', severity: 'warning', message: 'curl used without --fail/-f flag. HTTP error responses (4xx/5xx) will be silently saved instead of failing the build. Use `curl -fsSL` or `curl --fail`.', ...shellRegion(inst, effectiveArgv(curl)[0]) });
         }
         // Check wget without --tries or specific failure handling isn't the concern;
         // wget fails on HTTP errors by default, but not with -q which hides errors
@@ -287,24 +300,26 @@ export const DV6013: Rule = {
 };
 
 // DV6014: HEALTHCHECK with too-short interval (< 5s)
+const DV6014_OPTIONS = defineOptions({
+  minInterval: { type: 'duration', default: '5s', description: 'Shortest HEALTHCHECK --interval accepted' },
+});
 export const DV6014: Rule = {
   id: 'DV6014', severity: 'info',
   description: 'HEALTHCHECK interval too short, causing unnecessary resource consumption.',
+  options: DV6014_OPTIONS,
   check(ctx) {
     const violations: Violation[] = [];
-    const intervalRe = /--interval=(\d+)(s|ms|m)?/;
+    const { minInterval } = optionsOf(ctx, DV6014_OPTIONS);
+    const intervalRe = /--interval=(\S+)/;
     for (const stage of ctx.ast.stages) {
       for (const inst of stage.instructions) {
         if (inst.type !== 'HEALTHCHECK') continue;
         const match = inst.arguments.match(intervalRe);
         if (match) {
-          const val = parseInt(match[1], 10);
-          const unit = match[2] || 's';
-          let seconds = val;
-          if (unit === 'ms') seconds = val / 1000;
-          else if (unit === 'm') seconds = val * 60;
-          if (seconds < 5) {
-            violations.push({ rule: 'DV6014', severity: 'info', message: `HEALTHCHECK interval is ${match[0]} (< 5s). Very frequent health checks waste CPU and network resources. Use at least 10s.`, line: inst.line });
+          // Docker durations such as 1m30s; values from variables are not checked
+          const seconds = parseDuration(match[1]);
+          if (seconds !== undefined && seconds < minInterval) {
+            violations.push({ rule: 'DV6014', severity: 'info', message: `HEALTHCHECK interval is ${match[0]} (< ${minInterval}s). Very frequent health checks waste CPU and network resources. Use at least ${Math.max(minInterval, 10)}s.`, line: inst.line });
           }
         }
       }
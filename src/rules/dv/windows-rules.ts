@@ -0,0 +1,112 @@
+/**
+ * Windows container rules (DV3048-DV3050, DV4030).
+ *
+ * Checks for PowerShell-based builds. Each rule declares `platform: 'windows'`, so the linter
+ * only reports them in stages detected as Windows (see parser/platform).
+ */
+import { Rule, Violation } from '../types';
+import { UserInstruction } from '../../parser/types';
+import { argumentRegion, forEachInstruction } from '../utils';
+
+const DOWNLOAD_CMDLET = /\b(?:Invoke-WebRequest|Invoke-RestMethod|iwr|irm)\b/i;
+// Windows PowerShell aliases curl and wget to Invoke-WebRequest
+const DOWNLOAD_PIPED_TO_IEX = /(?:\b(?:Invoke-WebRequest|Invoke-RestMethod|iwr|irm|curl|wget)\b|\.DownloadString\b)[^|;\n]*\|\s*(?:iex|Invoke-Expression)\b/i;
+const IEX_OF_DOWNLOAD = /\b(?:iex|Invoke-Expression)\b[\s(&]*(?:\(\s*New-Object\s+(?:System\.)?Net\.WebClient\s*\)\.DownloadString|Invoke-WebRequest|Invoke-RestMethod|iwr|irm)\b/i;
+const PROGRESS_SILENCED = /\$(?:global:)?ProgressPreference\s*=\s*['"]?(?:SilentlyContinue|Ignore)\b/i;
+
+// DV3048: Remote script piped into Invoke-Expression
+export const DV3048: Rule = {
+  id: 'DV3048', severity: 'error',
+  description: 'Avoid piping downloaded scripts into Invoke-Expression (iex).',
+  platform: 'windows',
+  check(ctx) {
+    const violations: Violation[] = [];
+    forEachInstruction(ctx, 'RUN', (inst) => {
+      const m = inst.arguments.match(DOWNLOAD_PIPED_TO_IEX) ?? inst.arguments.match(IEX_OF_DOWNLOAD);
+      if (!m) return;
+      violations.push({
+        rule: 'DV3048', severity: 'error',
+        message: 'Downloaded script is executed with Invoke-Expression without verification. Save it with Invoke-WebRequest -OutFile, check Get-FileHash against a known SHA256, then run it.',
+        ...argumentRegion(inst, m.index!, m[0].length),
+      });
+    });
+    return violations;
+  },
+};
+
+// DV3049: Set-ExecutionPolicy Bypass/Unrestricted
+export const DV3049: Rule = {
+  id: 'DV3049', severity: 'warning',
+  description: 'Avoid Set-ExecutionPolicy Bypass or Unrestricted.',
+  platform: 'windows',
+  check(ctx) {
+    const violations: Violation[] = [];
+    forEachInstruction(ctx, 'RUN', (inst) => {
+      const m = inst.arguments.match(/\bSet-ExecutionPolicy\b[^;|\n]*?\b(Bypass|Unrestricted)\b/i);
+      if (!m) return;
+      violations.push({
+        rule: 'DV3049', severity: 'warning',
+        message: `Set-ExecutionPolicy ${m[1]} turns off PowerShell script signing checks, and without -Scope Process the policy persists in the image. Prefer RemoteSigned and signed scripts.`,
+        ...argumentRegion(inst, m.index!, m[0].length),
+      });
+    });
+    return violations;
+  },
+};
+
+// DV3050: Final USER is ContainerAdministrator
+export const DV3050: Rule = {
+  id: 'DV3050', severity: 'warning',
+  description: 'Last USER should not be ContainerAdministrator',
+  platform: 'windows',
+  check(ctx) {
+    const violations: Violation[] = [];
+    const lastStage = ctx.ast.stages[ctx.ast.stages.length - 1];
+    if (!lastStage) return violations;
+    const users = lastStage.instructions.filter(i => i.type === 'USER');
+    const last = users[users.length - 1] as UserInstruction | undefined;
+    if (last && last.user.toLowerCase() === 'containeradministrator') {
+      violations.push({
+        rule: 'DV3050', severity: 'warning',
+        message: 'Last USER is ContainerAdministrator, the administrator account of Windows containers. Switch to ContainerUser or a dedicated account after the steps that need administrator rights.',
+        line: last.line,
+      });
+    }
+    return violations;
+  },
+};
+
+// DV4030: Invoke-WebRequest with the progress bar enabled
+// Windows PowerShell redraws the progress bar for every chunk, slowing downloads by an order
+// of magnitude. Official images set $ProgressPreference in their SHELL for this reason.
+export const DV4030: Rule = {
+  id: 'DV4030', severity: 'info',
+  description: "Set $ProgressPreference = 'SilentlyContinue' before Invoke-WebRequest.",
+  platform: 'windows',
+  check(ctx) {
+    const violations: Violation[] = [];
+    // A stage built FROM another stage inherits its SHELL
+    const silencedByAlias = new Map<string, boolean>();
+    for (const stage of ctx.ast.stages) {
+      let silenced = silencedByAlias.get(stage.from.image.toLowerCase()) ?? false;
+      for (const inst of stage.instructions) {
+        if (inst.type === 'SHELL') {
+          silenced = PROGRESS_SILENCED.test(inst.arguments);
+          continue;
+        }
+        if (inst.type !== 'RUN' || silenced) continue;
+        const m = inst.arguments.match(DOWNLOAD_CMDLET);
+        if (!m) continue;
+        const set = inst.arguments.match(PROGRESS_SILENCED);
+        if (set && set.index! < m.index!) continue;
+        violations.push({
+          rule: 'DV4030', severity: 'info',
+          message: `${m[0]} shows a progress bar that slows downloads considerably. Set $ProgressPreference = 'SilentlyContinue' in the SHELL instruction or before the call.`,
+          ...argumentRegion(inst, m.index!, m[0].length),
+        });
+      }
+      if (stage.from.alias) silencedByAlias.set(stage.from.alias.toLowerCase(), silenced);
+    }
+    return violations;
+  },
+};
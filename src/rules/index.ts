@@ -34,7 +34,7 @@ import {
   DV3021, DV3022, DV3023, DV3024, DV3025, DV3026, DV3027,
   DV3028, DV3029, DV3030, DV3031, DV3032, DV3033, DV3034,
   DV3035, DV3036, DV3037, DV3038, DV3039, DV3040,
-  DV3041, DV3042, DV3043, DV3044, DV3045,
+  DV3041, DV3042, DV3043, DV3044, DV3045, DV3046, DV3047,
   DV4017,
 } from './dv/security-advanced';
 import {
@@ -46,7 +46,8 @@ import { DV5001, DV5002, DV5003 } from './dv/base-image-rules';
 import { DV6001, DV6002, DV6003, DV6004, DV6005, DV6006, DV6007, DV6008, DV6009, DV6010, DV6011, DV6012, DV6013, DV6014, DV6015, DV6016, DV6017, DV6018, DV6019, DV6020, DV6021, DV6022, DV6023, DV6024, DV6025 } from './dv/supply-chain-hardening';
 import { DV7001, DV7002, DV7003, DV7004, DV7005, DV7006, DV7007, DV7008 } from './dv/runtime-hardening';
 import { DV8001, DV8002, DV8003, DV8004, DV8005, DV8006 } from './dv/container-isolation';
-import { DV9001, DV9002, DV9003, DV9004, DV9005, DV9006, DV9007, DV9008, DV9009 } from './dv/build-hygiene';
+import { DV9001, DV9002, DV9003, DV9004, DV9005, DV9006, DV9007, DV9008, DV9009, DV9010, DV9011 } from './dv/build-hygiene';
+import { DV3048, DV3049, DV3050, DV4030 } from './dv/windows-rules';
 
 export const ALL_RULES: Rule[] = [
   DL3000, DL3001, DL3002, DL3003, DL3004, DL3005, DL3006, DL3007,
@@ -62,16 +63,69 @@ export const ALL_RULES: Rule[] = [
   DV3001, DV3002, DV3003, DV3004, DV3005, DV3006, DV3007, DV3008, DV3009, DV3010,
   DV3011, DV3012, DV3013, DV3014, DV3015, DV3016, DV3017, DV3018, DV3019, DV3020,
   DV3021, DV3022, DV3023, DV3024, DV3025, DV3026, DV3027, DV3028, DV3029, DV3030,
-  DV3031, DV3032, DV3033, DV3034, DV3035, DV3036, DV3037, DV3038, DV3039, DV3040, DV3041, DV3042, DV3043, DV3044, DV3045,
+  DV3031, DV3032, DV3033, DV3034, DV3035, DV3036, DV3037, DV3038, DV3039, DV3040, DV3041, DV3042, DV3043, DV3044, DV3045, DV3046, DV3047,
+  DV3048, DV3049, DV3050,
   DV4001, DV4002, DV4003, DV4004, DV4005, DV4006, DV4007, DV4008, DV4009, DV4010,
   DV4011, DV4012, DV4013, DV4014, DV4015, DV4016, DV4017, DV4018, DV4019, DV4020, DV4021, DV4022, DV4023,
-  DV4024, DV4025, DV4026, DV4027, DV4028, DV4029,
+  DV4024, DV4025, DV4026, DV4027, DV4028, DV4029, DV4030,
   DV5001, DV5002, DV5003,
   DV6001, DV6002, DV6003, DV6004, DV6005, DV6006, DV6007, DV6008, DV6009, DV6010,
   DV6011, DV6012, DV6013, DV6014, DV6015, DV6016, DV6017, DV6018, DV6019, DV6020, DV6021, DV6022, DV6023, DV6024, DV6025,
   DV7001, DV7002, DV7003, DV7004, DV7005, DV7006, DV7007, DV7008,
   DV8001, DV8002, DV8003, DV8004, DV8005, DV8006,
-  DV9001, DV9002, DV9003, DV9004, DV9005, DV9006, DV9007, DV9008, DV9009,
+  DV9001, DV9002, DV9003, DV9004, DV9005, DV9006, DV9007, DV9008, DV9009, DV9010, DV9011,
 ];
 
 export const RULE_MAP = new Map<string, Rule>(ALL_RULES.map(r => [r.id, r]));
+
+/** IDs of the rules shipped with DockerVet, as opposed to plugin rules added later */
+export const BUILTIN_RULE_IDS: ReadonlySet<string> = new Set(ALL_RULES.map(r => r.id));
+
+const SEVERITIES = new Set(['error', 'warning', 'info', 'style']);
+// Plugin rules live under a namespace so they can never shadow DL/DV rules: acme/XYZ001
+const NAMESPACED_ID = /^[A-Za-z0-9][A-Za-z0-9_-]*\/[A-Za-z0-9_-]+$/;
+// Rule -> its namespaced copy, so that preparing a rule again yields the same object
+const namespacedCopies = new WeakMap<Rule, Rule>();
+
+/**
+ * Check a plugin rule and, with `namespace`, prefix its ID (and the rule ID of the
+ * violations it reports) with `namespace/`. Throws on invalid rules and unnamespaced IDs.
+ */
+export function pluginRule(rule: Rule, namespace?: string): Rule {
+  if (!rule || typeof rule.id !== 'string' || typeof rule.check !== 'function') {
+    throw new Error('A rule needs a string id and a check(ctx) function');
+  }
+  if (!SEVERITIES.has(rule.severity)) {
+    throw new Error(`Rule "${rule.id}" has invalid severity "${rule.severity}"`);
+  }
+  let prepared = rule;
+  if (namespace && !rule.id.startsWith(`${namespace}/`)) {
+    const id = `${namespace}/${rule.id}`;
+    const cached = namespacedCopies.get(rule);
+    prepared = cached?.id === id ? cached : {
+      ...rule,
+      id,
+      check: (ctx) => rule.check(ctx).map(v => v.rule === rule.id ? { ...v, rule: id } : v),
+    };
+    namespacedCopies.set(rule, prepared);
+  }
+  if (!NAMESPACED_ID.test(prepared.id)) {
+    throw new Error(`Rule ID "${prepared.id}" must be namespaced, e.g. "acme/${prepared.id}"`);
+  }
+  return prepared;
+}
+
+/**
+ * Add a rule to ALL_RULES and RULE_MAP, so that it runs under every config; see
+ * `pluginRule` for `namespace`. Registering the same rule again is a no-op; a different
+ * rule with a taken ID throws.
+ */
+export function registerRule(rule: Rule, namespace?: string): Rule {
+  const registered = pluginRule(rule, namespace);
+  const existing = RULE_MAP.get(registered.id);
+  if (existing === registered) return existing;
+  if (existing) throw new Error(`Rule ID "${registered.id}" is already registered`);
+  ALL_RULES.push(registered);
+  RULE_MAP.set(registered.id, registered);
+  return registered;
+}
@@ -0,0 +1,85 @@
+/**
+ * Typed rule options. A rule declares a schema as `Rule.options`; the config sets values
+ * under `rules: { <ID>: { options: {...} } }`, which the linter validates with
+ * `resolveOptions` and passes to the rule as `RuleContext.options`.
+ */
+import { RuleContext, RuleOptionSchema, RuleOptionSpec, RuleOptionValues } from './types';
+
+/** Identity, so that option types stay literal and `optionsOf` can type the values */
+export function defineOptions<S extends RuleOptionSchema>(schema: S): S {
+  return schema;
+}
+
+const DURATION_UNITS: Record<string, number> = { ms: 0.001, s: 1, m: 60, h: 3600 };
+
+/** Seconds in a duration such as `10s`, `500ms`, `1m30s` or a bare number of seconds */
+export function parseDuration(text: string): number | undefined {
+  const trimmed = text.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+  if (!/^(\d+(\.\d+)?(ms|s|m|h))+$/.test(trimmed)) return undefined;
+  let seconds = 0;
+  for (const [, value, , unit] of trimmed.matchAll(/(\d+(\.\d+)?)(ms|s|m|h)/g)) {
+    seconds += parseFloat(value) * DURATION_UNITS[unit];
+  }
+  return seconds;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value);
+  return undefined;
+}
+
+/** Convert a configured value to what the rule sees; throws with `where` in the message */
+function parseValue(spec: RuleOptionSpec, value: unknown, where: string): unknown {
+  const invalid = () => new Error(`${where} must be ${spec.type === 'duration' ? 'a duration such as 10s' : `a ${spec.type}`}, got ${JSON.stringify(value)}`);
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string') throw invalid();
+      return value;
+    case 'number': {
+      const n = toNumber(value);
+      if (n === undefined) throw invalid();
+      return n;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') throw invalid();
+      return value;
+    case 'duration': {
+      const seconds = typeof value === 'number' ? value : typeof value === 'string' ? parseDuration(value) : undefined;
+      if (seconds === undefined) throw invalid();
+      return seconds;
+    }
+    case 'string[]':
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string' && typeof v !== 'number')) throw invalid();
+      return value.map(String);
+    case 'number[]': {
+      const numbers = Array.isArray(value) ? value.map(toNumber) : [undefined];
+      if (numbers.some(n => n === undefined)) throw invalid();
+      return numbers;
+    }
+  }
+}
+
+/**
+ * Every option of `schema`: the configured value where `values` has one, else the default.
+ * Throws on unknown options and values of the wrong type; `where` names the rule in errors.
+ */
+export function resolveOptions(schema: RuleOptionSchema, values: Record<string, unknown> = {}, where = 'Rule'): Record<string, unknown> {
+  const unknown = Object.keys(values).find(name => !(name in schema));
+  if (unknown) {
+    const known = Object.keys(schema);
+    throw new Error(`${where} has no option "${unknown}"${known.length > 0 ? `. Expected one of: ${known.join(', ')}` : ''}`);
+  }
+  const resolved: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(schema)) {
+    const configured = Object.prototype.hasOwnProperty.call(values, name);
+    resolved[name] = parseValue(spec, configured ? values[name] : spec.default, `${where} option "${name}"`);
+  }
+  return resolved;
+}
+
+/** The running rule's options, typed by its schema; the defaults when linted without a config */
+export function optionsOf<S extends RuleOptionSchema>(ctx: RuleContext, schema: S): RuleOptionValues<S> {
+  return (ctx.options ?? resolveOptions(schema)) as RuleOptionValues<S>;
+}
@@ -1,14 +1,51 @@
 import { DockerfileAST, DockerfileInstruction, Stage } from '../parser/types';
+import { VariableResolver } from '../parser/variables';
+import { Platform } from '../parser/platform';
 
 export type Severity = 'error' | 'warning' | 'info' | 'style';
 
+/** Whether a fix preserves the build's behaviour (safe) or may change what it produces (unsafe) */
+export type FixSafety = 'safe' | 'unsafe';
+
+/**
+ * Replacement of the text between two 1-based positions of the file; `endColumn` is just
+ * past the replaced region, so an edit with equal start and end inserts `text`.
+ */
+export interface TextEdit {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  text: string;
+}
+
+/** Why a finding is waived: an inline comment, a config `ignore` entry or a baseline */
+export interface ViolationSuppression {
+  kind: 'inline' | 'config' | 'baseline';
+  reason?: string;
+  /** Expiry date of the config `ignore` entry */
+  expires?: string;
+}
+
 export interface Violation {
   rule: string;
   severity: Severity;
   message: string;
   line: number;
   column?: number;
+  /** Last physical line of the offending region */
+  endLine?: number;
+  /** 1-based column just past the offending region on endLine */
+  endColumn?: number;
   instruction?: string;
+  /** Line-independent identity set by the linter; see engine/fingerprint */
+  fingerprint?: string;
+  /** Edits that resolve the violation, applied together by `--fix` */
+  fixes?: TextEdit[];
+  /** Unsafe fixes are only applied with `--fix-unsafe`; defaults to safe */
+  fixSafety?: FixSafety;
+  /** Set on suppressed findings, which are kept (see `LintOptions.keepSuppressed`) but not counted */
+  suppression?: ViolationSuppression;
 }
 
 export interface RuleContext {
@@ -17,6 +54,57 @@ export interface RuleContext {
   requiredLabels: string[];
   allowedLabels?: string[];
   filePath?: string;
+  /** ARG/ENV values in effect (build args applied); see `variablesOf` in rules/utils */
+  variables?: VariableResolver;
+  /** The running rule's options with defaults filled in; read them with `optionsOf` in rules/options */
+  options?: Record<string, unknown>;
+}
+
+/** Value type of a rule option; a `duration` is written like `10s` or `500ms` and read as seconds */
+export type RuleOptionType = 'string' | 'number' | 'boolean' | 'duration' | 'string[]' | 'number[]';
+
+/** What a rule sees for an option of type `T` */
+export type RuleOptionValue<T extends RuleOptionType> =
+  T extends 'number' | 'duration' ? number
+  : T extends 'boolean' ? boolean
+  : T extends 'string[]' ? string[]
+  : T extends 'number[]' ? number[]
+  : string;
+
+export interface RuleOptionSpec<T extends RuleOptionType = RuleOptionType> {
+  type: T;
+  /** Default, written as in the config */
+  default: T extends 'duration' ? string : RuleOptionValue<T>;
+  description: string;
+}
+
+export type RuleOptionSchema = Record<string, RuleOptionSpec>;
+
+export type RuleOptionValues<S extends RuleOptionSchema> = { [K in keyof S]: RuleOptionValue<S[K]['type']> };
+
+/** Broad area a rule belongs to, used to group and filter the catalogue */
+export type RuleCategory = 'security' | 'supply-chain' | 'reliability' | 'efficiency' | 'maintainability';
+
+export interface RuleExample {
+  /** Dockerfile snippet that triggers the rule */
+  bad: string;
+  /** The same snippet with the problem fixed */
+  good: string;
+}
+
+/** Catalogue information shown by `rules`/`explain` and in JSON and SARIF output */
+export interface RuleMeta {
+  category: RuleCategory;
+  /** CWE IDs, e.g. `CWE-798` */
+  cwe?: string[];
+  /** CIS Docker Benchmark recommendations, e.g. `4.1` */
+  cis?: string[];
+  tags?: string[];
+  /** Why the pattern is a problem */
+  rationale: string;
+  /** How to fix it */
+  remediation: string;
+  example?: RuleExample;
 }
 
 export interface Rule {
@@ -24,5 +112,17 @@ export interface Rule {
   severity: Severity;
   description: string;
   url?: string;
+  /** Catalogue metadata; built-in rules get theirs from dl/metadata and dv/metadata */
+  meta?: RuleMeta;
+  /** Platform the rule is written for; its violations in stages of another platform are dropped */
+  platform?: Platform;
+  /**
+   * `stage` when a violation concerns the whole stage it points at (e.g. a missing USER)
+   * rather than the instruction on its line; diff-aware linting then reports it when any
+   * line of the stage changed.
+   */
+  scope?: 'stage';
+  /** Options settable under `rules: { <id>: { options } }` in the config; see rules/options */
+  options?: RuleOptionSchema;
   check(ctx: RuleContext): Violation[];
 }
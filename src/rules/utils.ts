@@ -1,8 +1,17 @@
 /**
  * Shared utility functions for Dockerfile lint rules.
  */
-import { RuleContext, Violation, Severity } from './types';
-import { Stage, DockerfileInstruction } from '../parser/types';
+import { RuleContext, Violation, Severity, TextEdit, FixSafety } from './types';
+import { Stage, DockerfileInstruction, DockerfileAST, ShellCommand, ShellNode, ShellWord, Heredoc, FromInstruction, RunInstruction, RunMount } from '../parser/types';
+import { positionAt } from '../parser/lexer';
+import { instructionAt } from '../parser/cst';
+import { walkShell, basename } from '../parser/shell';
+import { createVariableResolver, VariableResolver } from '../parser/variables';
+import { buildStageGraph, StageGraph } from '../parser/stage-graph';
+import { stagePlatforms, Platform } from '../parser/platform';
+
+/** Physical location of a violation */
+export type Region = Pick<Violation, 'line' | 'column' | 'endLine' | 'endColumn'>;
 
 /** Archive file extensions pattern */
 // Docker's ADD only auto-extracts tar-based archives (not zip).
@@ -14,6 +23,91 @@ export function isUrl(s: string): boolean {
   return s.startsWith('http://') || s.startsWith('https://');
 }
 
+/**
+ * Physical region of `length` characters starting at `offset` within an instruction's arguments.
+ * Falls back to the instruction line when no source map is available.
+ */
+export function argumentRegion(inst: DockerfileInstruction, offset: number, length: number): Region {
+  if (!inst.argumentsMap || inst.argumentsMap.length === 0) return { line: inst.line };
+  const start = positionAt(inst.argumentsMap, offset);
+  const end = positionAt(inst.argumentsMap, offset + Math.max(length, 1) - 1);
+  return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column + 1 };
+}
+
+/** Edit replacing `length` characters at `offset` of an instruction's arguments; 0 inserts `text` */
+export function argumentEdit(inst: DockerfileInstruction, offset: number, length: number, text: string): TextEdit {
+  const map = inst.argumentsMap ?? [];
+  const start = positionAt(map, offset);
+  if (length === 0) return { line: start.line, column: start.column, endLine: start.line, endColumn: start.column, text };
+  const end = positionAt(map, offset + length - 1);
+  return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column + 1, text };
+}
+
+/** Edit replacing the instruction keyword (e.g. ADD) with `keyword`, keeping its case */
+export function keywordEdit(ctx: RuleContext, inst: DockerfileInstruction, keyword: string): TextEdit {
+  const column = inst.column ?? 1;
+  // `raw` has the keyword upper-cased; the CST keeps it as written
+  const written = ctx.ast.cst ? instructionAt(ctx.ast.cst, inst.line)?.keyword : undefined;
+  const lower = written !== undefined && written === written.toLowerCase();
+  return { line: inst.line, column, endLine: inst.line, endColumn: column + inst.type.length, text: lower ? keyword.toLowerCase() : keyword };
+}
+
+/** Edit replacing the whole instruction, continuation lines included */
+export function instructionEdit(inst: DockerfileInstruction, text: string): TextEdit {
+  const column = inst.column ?? 1;
+  return { line: inst.line, column, endLine: inst.endLine ?? inst.line, endColumn: inst.endColumn ?? column + inst.raw.length, text };
+}
+
+// Resolvers for contexts built without one (e.g. rules invoked directly)
+const defaultResolvers = new WeakMap<DockerfileAST, VariableResolver>();
+
+/** ARG/ENV resolver for the lint run, falling back to declared defaults only */
+export function variablesOf(ctx: RuleContext): VariableResolver {
+  if (ctx.variables) return ctx.variables;
+  let resolver = defaultResolvers.get(ctx.ast);
+  if (!resolver) {
+    resolver = createVariableResolver(ctx.ast);
+    defaultResolvers.set(ctx.ast, resolver);
+  }
+  return resolver;
+}
+
+/** A stage's FROM with ARG references in the image resolved */
+export function resolvedFrom(ctx: RuleContext, stage: Stage): FromInstruction {
+  return variablesOf(ctx).from(stage);
+}
+
+/** An instruction's arguments with ARG/ENV references resolved at its position */
+export function resolvedArguments(ctx: RuleContext, inst: DockerfileInstruction): string {
+  return variablesOf(ctx).resolve(inst);
+}
+
+const stageGraphs = new WeakMap<DockerfileAST, StageGraph>();
+
+/** Stage dependency graph of the AST being linted */
+export function stageGraphOf(ctx: RuleContext): StageGraph {
+  let graph = stageGraphs.get(ctx.ast);
+  if (!graph) {
+    graph = buildStageGraph(ctx.ast);
+    stageGraphs.set(ctx.ast, graph);
+  }
+  return graph;
+}
+
+// Keyed by resolver: `--build-arg` values can change which base image a stage uses
+const platforms = new WeakMap<VariableResolver, Map<Stage, Platform>>();
+
+/** Whether `stage` builds a Linux or a Windows image; see parser/platform */
+export function platformOf(ctx: RuleContext, stage: Stage): Platform {
+  const variables = variablesOf(ctx);
+  let byStage = platforms.get(variables);
+  if (!byStage) {
+    byStage = stagePlatforms(ctx.ast, s => variables.from(s));
+    platforms.set(variables, byStage);
+  }
+  return byStage.get(stage) ?? 'linux';
+}
+
 /**
  * Iterate over all stages and instructions, calling the callback for each instruction.
  */
@@ -32,82 +126,422 @@ export function forEachInstruction(
 }
 
 /**
- * Simple RUN instruction check: flag if regex matches.
+ * Simple RUN instruction check: flag the first command named `names` that matches `query`
+ * (`apt-get dist-upgrade`). Quoted text such as `echo "apt-get dist-upgrade"` is not a command.
  */
 export function runCheck(
   ctx: RuleContext,
-  regex: RegExp,
+  names: string | string[],
+  query: CommandQuery,
   ruleId: string,
   severity: Severity,
   msg: string,
 ): Violation[] {
   const violations: Violation[] = [];
   forEachInstruction(ctx, 'RUN', (inst) => {
-    if (regex.test(inst.arguments)) {
-      violations.push({ rule: ruleId, severity, message: msg, line: inst.line });
+    const [cmd] = findCommands(inst, names, query);
+    if (cmd) {
+      violations.push({ rule: ruleId, severity, message: msg, ...commandRegion(inst, cmd) });
     }
   });
   return violations;
 }
 
 /**
- * RUN instruction check: flag if triggerRegex matches but mustHaveRegex does not.
+ * RUN instruction check: flag the first command named `names` (matching `query`) that is not
+ * `satisfied`. With `fix`, the violation carries an edit inserting `fix.insert` after the
+ * command's subcommand.
  */
 export function runCheckNeg(
   ctx: RuleContext,
-  triggerRegex: RegExp,
-  mustHaveRegex: RegExp,
+  names: string | string[],
+  query: CommandQuery,
+  satisfied: (cmd: ShellCommand, inst: DockerfileInstruction) => boolean,
   ruleId: string,
   severity: Severity,
   msg: string,
+  fix?: { insert: string; safety: FixSafety },
 ): Violation[] {
   const violations: Violation[] = [];
   forEachInstruction(ctx, 'RUN', (inst) => {
-    if (triggerRegex.test(inst.arguments) && !mustHaveRegex.test(inst.arguments)) {
-      violations.push({ rule: ruleId, severity, message: msg, line: inst.line });
+    const cmd = findCommands(inst, names, query).find(c => !satisfied(c, inst));
+    if (!cmd) return;
+    const v: Violation = { rule: ruleId, severity, message: msg, ...commandRegion(inst, cmd) };
+    const anchor = subcommandWord(cmd) ?? effectiveArgv(cmd)[0];
+    // Words of a quoted `sh -c` script need not sit at their offset verbatim; leave those unfixed
+    if (fix && inst.arguments.slice(anchor.offset, anchor.end) === anchor.raw) {
+      v.fixes = [argumentEdit(inst, anchor.end, 0, fix.insert)];
+      v.fixSafety = fix.safety;
     }
+    violations.push(v);
   });
   return violations;
 }
 
+/** A command argument after ARG/ENV resolution */
+export interface ResolvedArgument {
+  text: string;
+  word: ShellWord;
+  /** False when the text is one item of a variable's value rather than the word itself */
+  literal: boolean;
+}
+
 /**
- * Extract packages from a RUN instruction matching a package manager install pattern.
- * Returns parsed package names (excluding flags and variables).
+ * Resolve ARG/ENV references in command arguments at the instruction. An unquoted reference
+ * to a list (`$PACKAGES`) yields one argument per item. Words that still start with a
+ * reference or command substitution are left out; other partly resolved words are kept whole.
  */
-export function extractPackages(
-  args: string,
-  installPattern: RegExp,
-  opts?: { excludeFlags?: boolean },
-): string[] {
-  const m = args.match(installPattern);
-  if (!m) return [];
-  return m[1]
-    .split(/\s+/)
-    .filter(p => p && !p.startsWith('-') && !p.startsWith('$') && p !== '\\' && !/^[<%>]+$/.test(p) && !p.startsWith('/dev/') && !/^[>|&]+$/.test(p));
+export function resolveWords(ctx: RuleContext, inst: DockerfileInstruction, words: ShellWord[]): ResolvedArgument[] {
+  const args: ResolvedArgument[] = [];
+  for (const word of words) {
+    if (word.expansions.length === 0) {
+      args.push({ text: word.text, word, literal: true });
+      continue;
+    }
+    const text = variablesOf(ctx).expand(word.text, inst);
+    if (/^[$`]/.test(text)) continue;
+    const items = word.quoted || /[$`]/.test(text) ? [text] : text.split(/\s+/).filter(t => t);
+    for (const item of items) args.push({ text: item, word, literal: false });
+  }
+  return args;
 }
 
 /**
- * Check RUN instructions for a package manager install command
- * and flag packages that don't satisfy the version pin predicate.
+ * Check the packages of `<names> <subcommand>` commands in RUN instructions and flag those
+ * that don't satisfy the version pin predicate. Packages are read after ARG/ENV resolution;
+ * packages that came from a variable are reported on the instruction line.
  */
 export function checkVersionPinning(
   ctx: RuleContext,
-  installPattern: RegExp,
+  names: string | string[],
+  subcommand: string | string[],
   isPinned: (pkg: string) => boolean,
   ruleId: string,
   severity: Severity,
   makeMsg: (pkg: string) => string,
-  extraFilter?: (pkg: string) => boolean,
 ): Violation[] {
   const violations: Violation[] = [];
   forEachInstruction(ctx, 'RUN', (inst) => {
-    const pkgs = extractPackages(inst.arguments, installPattern);
-    for (const pkg of pkgs) {
-      if (extraFilter && !extraFilter(pkg)) continue;
-      if (!isPinned(pkg)) {
-        violations.push({ rule: ruleId, severity, message: makeMsg(pkg), line: inst.line });
+    for (const cmd of findCommands(inst, names, { subcommand })) {
+      for (const arg of resolveWords(ctx, inst, subcommandArgs(cmd))) {
+        const pkg = arg.text;
+        if (pkg.startsWith('-') || pkg.startsWith('/dev/') || isPinned(pkg)) continue;
+        const region = arg.literal ? shellRegion(inst, arg.word) : { line: inst.line };
+        violations.push({ rule: ruleId, severity, message: makeMsg(pkg), ...region });
       }
     }
   });
   return violations;
 }
+
+/** Dockerfile frontend declared by the `# syntax=` directive */
+export interface FrontendVersion {
+  image: string;
+  /** Undefined for non-numeric tags (e.g. `labs`, `master`) or digest-only references */
+  major?: number;
+  /** Undefined when the tag floats over a major version (e.g. `docker/dockerfile:1`) */
+  minor?: number;
+  patch?: number;
+  /** `-labs` channel, which enables experimental features one release early */
+  labs: boolean;
+}
+
+/**
+ * Parse the `# syntax=` directive into the frontend image and its version.
+ * Returns undefined when no syntax directive is declared.
+ */
+export function getFrontendVersion(ast: DockerfileAST): FrontendVersion | undefined {
+  const syntax = ast.directives.syntax?.value;
+  if (!syntax) return undefined;
+  const ref = syntax.split('@')[0];
+  const lastColon = ref.lastIndexOf(':');
+  const hasTag = lastColon > ref.lastIndexOf('/');
+  const image = (hasTag ? ref.slice(0, lastColon) : ref).replace(/^(?:docker\.io\/)?/, '');
+  const tag = hasTag ? ref.slice(lastColon + 1) : '';
+  const result: FrontendVersion = { image, labs: /(?:^|-)labs$/.test(tag) };
+  // Only the official frontends follow the docker/dockerfile release numbering
+  if (!/^docker\/dockerfile(?:-upstream)?$/.test(image)) return result;
+  const m = tag.match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  if (m) {
+    result.major = parseInt(m[1], 10);
+    if (m[2] !== undefined) result.minor = parseInt(m[2], 10);
+    if (m[3] !== undefined) result.patch = parseInt(m[3], 10);
+  }
+  return result;
+}
+
+/**
+ * Whether the declared frontend is at least `major.minor`.
+ * Returns undefined when the version cannot be determined (no directive, custom frontend,
+ * non-numeric tag) so callers can decide how to treat the built-in frontend.
+ */
+export function frontendAtLeast(ast: DockerfileAST, major: number, minor = 0): boolean | undefined {
+  const v = getFrontendVersion(ast);
+  if (!v || v.major === undefined) return undefined;
+  if (v.major !== major) return v.major > major;
+  // A floating major tag (docker/dockerfile:1) always resolves to the newest minor
+  return v.minor === undefined || v.minor >= minor;
+}
+
+// ---------------------------------------------------------------------------
+// Shell command helpers (operate on the parsed `inst.shell` tree)
+// ---------------------------------------------------------------------------
+
+/** Commands that run their arguments as another command, with the flags that take a value */
+const COMMAND_WRAPPERS: Record<string, { valueFlags: string[]; positional?: number }> = {
+  sudo: { valueFlags: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U'] },
+  doas: { valueFlags: ['-u', '-C'] },
+  env: { valueFlags: ['-u', '-C', '-S'] },
+  nice: { valueFlags: ['-n'] },
+  exec: { valueFlags: ['-a'] },
+  nohup: { valueFlags: [] },
+  time: { valueFlags: [] },
+  command: { valueFlags: [] },
+  gosu: { valueFlags: [], positional: 1 },
+  'su-exec': { valueFlags: [], positional: 1 },
+};
+
+/**
+ * All simple commands in an instruction, including those inside command substitutions,
+ * subshells, control structures and `sh -c '...'` scripts.
+ */
+export function shellCommands(inst: DockerfileInstruction): ShellCommand[] {
+  const commands: ShellCommand[] = [];
+  if (inst.shell) {
+    walkShell(inst.shell, (node) => {
+      if (node.type === 'command') commands.push(node);
+    });
+  }
+  return commands;
+}
+
+/**
+ * argv with leading wrapper commands removed: `sudo -E env FOO=1 nohup curl -x` -> `curl -x`.
+ */
+export function effectiveArgv(cmd: ShellCommand): ShellWord[] {
+  let argv = cmd.argv;
+  for (;;) {
+    const wrapper = argv.length > 1 ? COMMAND_WRAPPERS[basename(argv[0].text)] : undefined;
+    if (!wrapper) return argv;
+    let k = 1;
+    while (k < argv.length && argv[k].text.startsWith('-')) {
+      if (argv[k].text === '--') { k++; break; }
+      k += wrapper.valueFlags.includes(argv[k].text) ? 2 : 1;
+    }
+    while (k < argv.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[k].text)) k++;
+    k += wrapper.positional ?? 0;
+    argv = argv.slice(k);
+  }
+}
+
+/** Effective command name (basename, wrappers removed) */
+export function commandName(cmd: ShellCommand): string | undefined {
+  const argv = effectiveArgv(cmd);
+  return argv.length > 0 ? basename(argv[0].text) : undefined;
+}
+
+/**
+ * Whether the arguments contain any of the given flags. Single-letter short flags also
+ * match inside clusters (`-y` matches `-qy`); long flags match `--flag` and `--flag=value`.
+ */
+export function hasFlag(args: ShellWord[], ...flags: string[]): boolean {
+  for (const word of args) {
+    const a = word.text;
+    if (a === '--') return false;
+    for (const flag of flags) {
+      if (a === flag) return true;
+      if (flag.startsWith('--') && a.startsWith(flag + '=')) return true;
+      if (/^-[A-Za-z0-9]$/.test(flag) && /^-[A-Za-z0-9]{2,}$/.test(a) && a.includes(flag[1])) return true;
+    }
+  }
+  return false;
+}
+
+/** Value of `--flag=value`, `--flag value` or `-f value` */
+export function flagValue(args: ShellWord[], flag: string): string | undefined {
+  for (let k = 0; k < args.length; k++) {
+    const a = args[k].text;
+    if (a.startsWith(flag + '=')) return a.slice(flag.length + 1);
+    if (a === flag) return args[k + 1]?.text;
+  }
+  return undefined;
+}
+
+/**
+ * First positional argument after the command name — the subcommand for tools like
+ * `apt-get install` or `npm ci`. The value of `-o`/`--option` is not a positional.
+ */
+export function subcommandWord(cmd: ShellCommand): ShellWord | undefined {
+  const argv = effectiveArgv(cmd);
+  for (let k = 1; k < argv.length; k++) {
+    const a = argv[k].text;
+    if (a === '-o' || a === '--option') { k++; continue; }
+    if (!a.startsWith('-')) return argv[k];
+  }
+  return undefined;
+}
+
+/** Text of `subcommandWord` */
+export function subcommandOf(cmd: ShellCommand): string | undefined {
+  return subcommandWord(cmd)?.text;
+}
+
+/** Arguments after the subcommand: `apt-get -y install curl=8.5.0` -> `curl=8.5.0` */
+export function subcommandArgs(cmd: ShellCommand): ShellWord[] {
+  const sub = subcommandWord(cmd);
+  const argv = effectiveArgv(cmd);
+  return sub ? argv.slice(argv.indexOf(sub) + 1) : [];
+}
+
+export interface CommandQuery {
+  /** Required subcommand(s), e.g. `install` */
+  subcommand?: string | string[];
+  /** Required flag(s); any one of them must be present */
+  flag?: string | string[];
+}
+
+/**
+ * Find commands named `names` in an instruction, optionally requiring a subcommand or flag.
+ *
+ * @example findCommands(inst, ['apt-get', 'apt'], { subcommand: 'install' })
+ */
+export function findCommands(
+  inst: DockerfileInstruction,
+  names: string | string[],
+  query: CommandQuery = {},
+): ShellCommand[] {
+  const nameList = Array.isArray(names) ? names : [names];
+  const subcommands = query.subcommand === undefined ? undefined : ([] as string[]).concat(query.subcommand);
+  const flags = query.flag === undefined ? undefined : ([] as string[]).concat(query.flag);
+  return shellCommands(inst).filter((cmd) => {
+    const name = commandName(cmd);
+    if (!name || !nameList.includes(name)) return false;
+    if (subcommands && !subcommands.includes(subcommandOf(cmd) ?? '')) return false;
+    if (flags && !hasFlag(effectiveArgv(cmd).slice(1), ...flags)) return false;
+    return true;
+  });
+}
+
+/**
+ * Iterate over matching commands in all RUN instructions.
+ */
+export function forEachCommand(
+  ctx: RuleContext,
+  names: string | string[],
+  cb: (cmd: ShellCommand, inst: DockerfileInstruction, stage: Stage) => void,
+  query: CommandQuery = {},
+): void {
+  forEachInstruction(ctx, 'RUN', (inst, stage) => {
+    for (const cmd of findCommands(inst, names, query)) cb(cmd, inst, stage);
+  });
+}
+
+/** Physical region of a shell command or word */
+export function shellRegion(inst: DockerfileInstruction, node: { offset: number; end: number }): Region {
+  return argumentRegion(inst, node.offset, node.end - node.offset);
+}
+
+/** Region from a command's effective name through its subcommand: `apt-get install` */
+export function commandRegion(inst: DockerfileInstruction, cmd: ShellCommand): Region {
+  const argv = effectiveArgv(cmd);
+  const first = argv[0] ?? cmd;
+  return argumentRegion(inst, first.offset, (subcommandWord(cmd) ?? first).end - first.offset);
+}
+
+/** Whether the instruction runs one of `names`, optionally with a subcommand or flag */
+export function runsCommand(inst: DockerfileInstruction, names: string | string[], query: CommandQuery = {}): boolean {
+  return findCommands(inst, names, query).length > 0;
+}
+
+/** Whether the instruction runs `<name> clean all` */
+export function cleansAll(inst: DockerfileInstruction, name: string): boolean {
+  return findCommands(inst, name, { subcommand: 'clean' }).some(cmd => subcommandArgs(cmd).some(w => w.text === 'all'));
+}
+
+/** Whether the instruction deletes (`rm`) a path under one of `prefixes` */
+export function removesPath(inst: DockerfileInstruction, ...prefixes: string[]): boolean {
+  return findCommands(inst, 'rm').some(cmd =>
+    effectiveArgv(cmd).slice(1).some(w => prefixes.some(p => w.text.startsWith(p))));
+}
+
+/** Interpreters a download is executed by when piped into them */
+const PIPE_INTERPRETERS = ['sh', 'bash', 'zsh', 'ksh', 'dash', 'source', 'python', 'python3', 'perl', 'ruby', 'node'];
+const SUBST_SHELLS = new Set(['sh', 'bash', 'zsh', 'ksh', 'dash', 'source', '.']);
+
+/** Whether the node is a curl or wget command */
+export function isDownload(node: ShellNode): boolean {
+  return node.type === 'command' && ['curl', 'wget'].includes(commandName(node) ?? '');
+}
+
+function containsDownload(script: ShellNode): boolean {
+  let found = false;
+  walkShell(script, (n) => { if (isDownload(n)) found = true; });
+  return found;
+}
+
+/**
+ * Find a pipeline or shell invocation that executes downloaded content (DV1003):
+ * `curl ... | sh`, `bash <(curl ...)`, `bash -c "$(curl ...)"`. `extraInterpreters` adds
+ * commands a download may be piped into.
+ */
+export function findDownloadExecution(shell: ShellNode, extraInterpreters: string[] = []): ShellNode | undefined {
+  const interpreters = new Set([...PIPE_INTERPRETERS, ...extraInterpreters]);
+  let match: ShellNode | undefined;
+  walkShell(shell, (node) => {
+    if (match) return;
+    // curl ... | [sudo] [VAR=x] sh
+    if (node.type === 'pipeline') {
+      const dl = node.commands.findIndex(isDownload);
+      const runner = node.commands.slice(dl + 1).some(c => c.type === 'command' && interpreters.has(commandName(c) ?? ''));
+      if (dl >= 0 && runner) match = node;
+    }
+    // bash <(curl ...) / bash -c "$(curl ...)"
+    if (node.type === 'command' && SUBST_SHELLS.has(commandName(node) ?? '')) {
+      const substituted = effectiveArgv(node).slice(1).some(w =>
+        w.expansions.some(e => (e.kind === 'process' || e.kind === 'command') && e.script && containsDownload(e.script)));
+      if (substituted) match = node;
+    }
+  });
+  return match;
+}
+
+/** One line of a heredoc body with its offset in the instruction's argument space */
+export interface HeredocLine {
+  heredoc: Heredoc;
+  text: string;
+  line: number;
+  offset: number;
+}
+
+/**
+ * Lines of an instruction's heredoc bodies, optionally limited to heredocs matching `filter`.
+ * Pass `line.offset` to `argumentRegion` to locate a match within the line.
+ */
+export function heredocLines(inst: DockerfileInstruction, filter: (h: Heredoc) => boolean = () => true): HeredocLine[] {
+  const lines: HeredocLine[] = [];
+  for (const heredoc of inst.heredocs ?? []) {
+    if (!filter(heredoc)) continue;
+    let offset = heredoc.offset;
+    heredoc.body.split('\n').forEach((text, k) => {
+      lines.push({ heredoc, text, line: heredoc.startLine + k, offset });
+      offset += text.length + 1;
+    });
+  }
+  return lines;
+}
+
+/** Heredocs that create a file in the image (COPY/ADD bodies, `cat > file`, `tee file`) */
+export function isHeredocFile(heredoc: Heredoc): boolean {
+  return heredoc.targetPath !== undefined;
+}
+
+/** `--mount` flags of a RUN instruction, optionally only those of one type */
+export function runMounts(inst: DockerfileInstruction, type?: string): RunMount[] {
+  const mounts = (inst as RunInstruction).mounts ?? [];
+  return type === undefined ? mounts : mounts.filter(m => m.type === type);
+}
+
+/** Whether a RUN instruction has a `--mount` of the given type */
+export function hasMount(inst: DockerfileInstruction, type: string): boolean {
+  return runMounts(inst, type).length > 0;
+}
@@ -9,6 +9,7 @@
 
 import { DockerfileAST } from '../parser/types';
 import { EnvInstruction, ArgInstruction, CopyInstruction } from '../parser/types';
+import { createVariableResolver, BuildArgs } from '../parser/variables';
 
 export type ComponentType = 'container' | 'library' | 'framework' | 'operating-system' | 'file';
 
@@ -146,11 +147,16 @@ function buildPurl(type: string, name: string, version?: string): string {
 // Main extraction function
 // ---------------------------------------------------------------------------
 
-export function extractComponents(ast: DockerfileAST): SbomComponent[] {
+/**
+ * Extract components, resolving ARG/ENV references (`curl=${CURL_VERSION}`) with their
+ * declared defaults and any `buildArgs` overrides.
+ */
+export function extractComponents(ast: DockerfileAST, buildArgs: BuildArgs = {}): SbomComponent[] {
   const components: SbomComponent[] = [];
+  const variables = createVariableResolver(ast, buildArgs);
 
   for (const stage of ast.stages) {
-    const f = stage.from;
+    const f = variables.from(stage);
 
     // Base image component
     if (f.image !== 'scratch') {
@@ -172,7 +178,7 @@ export function extractComponents(ast: DockerfileAST): SbomComponent[] {
     for (const inst of stage.instructions) {
       if (inst.type !== 'RUN') continue;
 
-      const args = inst.arguments;
+      const args = variables.resolve(inst);
 
       for (const pm of PKG_MANAGERS) {
         if (!pm.installCmd.test(args)) continue;
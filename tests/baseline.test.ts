@@ -0,0 +1,87 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { defaultConfig } from './helpers';
+import { parse } from '../src/parser/parser';
+import { lint } from '../src/engine/linter';
+import {
+  baselineFileKey, baselineIndex, createBaseline, filterBaseline, loadBaseline, pruneBaseline, writeBaseline,
+} from '../src/engine/baseline';
+
+function findings(content: string, filename = 'Dockerfile') {
+  return { filename, violations: lint(parse(content), { config: defaultConfig, filePath: filename }) };
+}
+
+
+const LEGACY = `FROM ubuntu:22.04 AS build
+RUN apt-get update && apt-get install -y curl
+RUN apt-get install -y \\
+    wget
+FROM ubuntu:22.04
+RUN apt-get install -y git
+`;
+
+describe('baseline', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-baseline-'));
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('keys files relative to the baseline directory', () => {
+    expect(baselineFileKey(path.join(dir, 'svc', 'Dockerfile'), dir)).toBe('svc/Dockerfile');
+    expect(baselineFileKey('<stdin>', dir)).toBe('<stdin>');
+    expect(baselineFileKey('github:acme/app/Dockerfile', dir)).toBe('github:acme/app/Dockerfile');
+  });
+
+  it('suppresses recorded findings and reports new ones', () => {
+    const before = findings(LEGACY, path.join(dir, 'Dockerfile'));
+    const baseline = createBaseline([before], dir);
+    expect(baseline.entries).toHaveLength(before.violations.length);
+    expect(baseline.entries[0].file).toBe('Dockerfile');
+
+    const after = findings('# legacy image\n' + LEGACY + 'RUN sudo make install\n', path.join(dir, 'Dockerfile'));
+    const remaining = filterBaseline(baselineIndex(baseline), 'Dockerfile', after.violations);
+    expect(remaining.length).toBeGreaterThan(0);
+    expect(remaining.every(v => v.line === 8)).toBe(true);
+    expect(filterBaseline(baselineIndex(baseline), 'other/Dockerfile', after.violations)).toHaveLength(after.violations.length);
+  });
+
+  it('matches findings when run from another working directory', () => {
+    const file = path.join(dir, 'svc', 'Dockerfile');
+    const baseline = createBaseline([findings(LEGACY, path.relative(process.cwd(), file))], dir);
+    const cwd = process.cwd();
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      process.chdir(path.dirname(file));
+      const again = findings(LEGACY, 'Dockerfile');
+      expect(filterBaseline(baselineIndex(baseline), baselineFileKey('Dockerfile', dir), again.violations)).toEqual([]);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('round-trips through the baseline file', () => {
+    const file = path.join(dir, '.dockervet-baseline.json');
+    const baseline = createBaseline([findings(LEGACY, path.join(dir, 'Dockerfile'))], dir);
+    writeBaseline(file, baseline);
+    expect(loadBaseline(file)).toEqual(baseline);
+  });
+
+  it('rejects files that are not baselines', () => {
+    const file = path.join(dir, 'bad.json');
+    fs.writeFileSync(file, '{"entries": {}}');
+    expect(() => loadBaseline(file)).toThrow(/not a version 1 DockerVet baseline/);
+    expect(() => loadBaseline(path.join(dir, 'missing.json'))).toThrow(/Cannot read baseline/);
+  });
+
+  it('prunes entries that no longer reproduce', () => {
+    const baseline = createBaseline([
+      findings(LEGACY, path.join(dir, 'Dockerfile')),
+      findings(LEGACY, path.join(dir, 'gone', 'Dockerfile')),
+    ], dir);
+    const fixed = findings(LEGACY.replace('install -y git', 'install -y git=1:2.34.1-1ubuntu1'), path.join(dir, 'Dockerfile'));
+    const pruned = pruneBaseline(baseline, new Map([['Dockerfile', new Set(fixed.violations.map(v => v.fingerprint!))]]));
+    expect(pruned.entries.every(e => e.file === 'Dockerfile')).toBe(true);
+    expect(pruned.entries.some(e => e.line === 6 && e.rule === 'DL3008')).toBe(false);
+    expect(pruned.entries.some(e => e.line === 2 && e.rule === 'DL3008')).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { defaultConfig, hasRule } from './helpers';
+import { parse } from '../src/parser/parser';
+import { lint } from '../src/engine/linter';
+import { changedLinesOf, gitChangedLines, parseUnifiedDiff } from '../src/engine/changed-lines';
+import { scanDockerfileContent } from '../src/lib';
+
+const BEFORE = `FROM golang:1.22 AS build
+RUN go build -o /app .
+FROM ubuntu:22.04
+COPY --from=build /app /app
+CMD ["/app"]
+`;
+
+// Adds an unpinned install to the build stage (line 3, continued on line 4)
+const PATCH = `diff --git a/Dockerfile b/Dockerfile
+index 1111111..2222222 100644
+--- a/Dockerfile
++++ b/Dockerfile
+@@ -2,0 +3,2 @@ RUN go build -o /app .
++RUN apt-get update && apt-get install -y \\
++    curl
+`;
+
+const AFTER = BEFORE.replace('RUN go build -o /app .\n', 'RUN go build -o /app .\nRUN apt-get update && apt-get install -y \\\n    curl\n');
+
+function lintChanged(content: string, changedLines: number[]) {
+  return lint(parse(content), { config: defaultConfig, changedLines: new Set(changedLines) });
+}
+
+describe('parseUnifiedDiff', () => {
+  it('collects added lines per file, resolved against the root', () => {
+    const changes = parseUnifiedDiff(PATCH, '/repo');
+    expect([...changes.keys()]).toEqual([path.resolve('/repo/Dockerfile')]);
+    expect([...changes.get(path.resolve('/repo/Dockerfile'))!]).toEqual([3, 4]);
+  });
+
+  it('follows context lines across hunks and files, and skips deleted files', () => {
+    const patch = [
+      '--- svc/Dockerfile\t2026-01-01 00:00:00',
+      '+++ svc/Dockerfile\t2026-01-02 00:00:00',
+      '@@ -1,3 +1,4 @@',
+      ' FROM alpine:3.20',
+      '-RUN apk add curl',
+      '+RUN apk add --no-cache curl',
+      '+++ not a header',
+      ' USER app',
+      '@@ -10 +11 @@',
+      '-CMD ["a"]',
+      '+CMD ["b"]',
+      '\\ No newline at end of file',
+      '--- a/old/Dockerfile',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-FROM scratch',
+      '',
+    ].join('\n');
+    const changes = parseUnifiedDiff(patch, '/repo');
+    expect([...changes.keys()]).toEqual([path.resolve('/repo/svc/Dockerfile')]);
+    expect([...changes.get(path.resolve('/repo/svc/Dockerfile'))!]).toEqual([2, 3, 11]);
+  });
+
+  it('matches files by path, falling back to the only file for stdin', () => {
+    const changes = parseUnifiedDiff(PATCH);
+    expect([...changedLinesOf(changes, './Dockerfile')]).toEqual([3, 4]);
+    expect([...changedLinesOf(changes, '<stdin>')]).toEqual([3, 4]);
+    expect(changedLinesOf(changes, 'other/Dockerfile').size).toBe(0);
+  });
+});
+
+describe('linting changed lines', () => {
+  it('keeps only violations whose instruction overlaps an added line', () => {
+    const all = lintChanged(AFTER, []);
+    expect(all).toEqual([]);
+    const v = lintChanged(AFTER, [4]);
+    expect(hasRule(v, 'DL3008')).toBe(true);
+    // DV4003 (no WORKDIR) is reported on the FROM of the changed stage
+    expect(v.filter(x => x.line !== 3 && x.line !== 4).map(x => x.rule)).toEqual(['DV4003']);
+  });
+
+  it('reports stage-wide rules only when their stage changed', () => {
+    // The change is in the build stage; the final stage still has no USER
+    expect(hasRule(lint(parse(AFTER), { config: defaultConfig }), 'DV1006')).toBe(true);
+    expect(hasRule(lintChanged(AFTER, [3, 4]), 'DV1006')).toBe(false);
+    const v = lintChanged(AFTER.replace('CMD ["/app"]', 'EXPOSE 8080\nCMD ["/app"]'), [7]);
+    expect(hasRule(v, 'DV1006')).toBe(true);
+    expect(hasRule(v, 'DL3057')).toBe(true);
+  });
+
+  it('keeps fingerprints independent of the diff', () => {
+    const all = lint(parse(AFTER), { config: defaultConfig });
+    for (const v of lintChanged(AFTER, [3])) {
+      expect(all.find(x => x.rule === v.rule && x.line === v.line)?.fingerprint).toBe(v.fingerprint);
+    }
+  });
+
+  it('filters scanDockerfileContent results with a diff', () => {
+    const result = scanDockerfileContent(AFTER, 'Dockerfile', { config: { ...defaultConfig }, diff: PATCH });
+    expect(result.violations.length).toBeGreaterThan(0);
+    expect(hasRule(result.violations, 'DL3008')).toBe(true);
+    expect(result.violations.every(v => v.line <= 4)).toBe(true);
+    expect(scanDockerfileContent(AFTER, 'svc/Dockerfile', { config: { ...defaultConfig }, diff: PATCH }).violations).toEqual([]);
+  });
+});
+
+describe('gitChangedLines', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-diff-'));
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, stdio: 'pipe' });
+
+  it('diffs the working tree against the merge base', () => {
+    git('init', '-q', '-b', 'main');
+    fs.mkdirSync(path.join(dir, 'svc'));
+    fs.writeFileSync(path.join(dir, 'svc', 'Dockerfile'), BEFORE);
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'x\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'base');
+    // main moves on after the branch point; diffing against main itself would count notes.txt as added
+    git('checkout', '-q', '-b', 'feature');
+    git('checkout', '-q', 'main');
+    git('rm', '-q', 'notes.txt');
+    git('commit', '-q', '-m', 'later');
+    git('checkout', '-q', 'feature');
+    fs.writeFileSync(path.join(dir, 'svc', 'Dockerfile'), AFTER);
+
+    const changes = gitChangedLines('main', path.join(dir, 'svc'));
+    const file = fs.realpathSync(path.join(dir, 'svc', 'Dockerfile'));
+    expect([...changes.keys()]).toEqual([file]);
+    expect([...changes.get(file)!]).toEqual([3, 4]);
+    expect(() => gitChangedLines('no-such-rev', dir)).toThrow(/git merge-base failed/);
+  });
+});
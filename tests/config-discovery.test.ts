@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { hasRule } from './helpers';
+import { discoverConfig, loadConfig } from '../src/engine/config';
+import { presetsOf } from '../src/engine/presets';
+import { resolveConfig, scanDockerfile } from '../src/lib';
+
+let dir: string;
+
+function write(file: string, content: string): string {
+  const full = path.join(dir, file);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+  return full;
+}
+
+beforeAll(() => {
+  dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-discovery-')));
+  fs.mkdirSync(path.join(dir, 'repo', '.git'), { recursive: true });
+  // Outside the repository, so never picked up
+  write('.dockervet.yaml', 'ignore:\n  - DL3008\n');
+  write('repo/.dockervet.yaml', 'ignore:\n  - DV1006\ntrustedRegistries:\n  - docker.io\nseverity-threshold: info\n');
+  write('repo/services/payments/.dockervet.yaml', 'ignore:\n  - DL3015\ntrustedRegistries:\n  - gcr.io\nseverity-threshold: error\n');
+  write('repo/services/payments/Dockerfile', 'FROM ubuntu:22.04\nRUN apt-get install -y curl\n');
+  write('repo/tools/.dockervet.yml', 'root: true\noverride:\n  DL3008:\n    severity: error\n');
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('config discovery', () => {
+  it('merges configs from the directory up to the repository root, nearer ones winning', () => {
+    const config = discoverConfig(path.join(dir, 'repo/services/payments'));
+    expect(config.ignore).toEqual(['DV1006', 'DL3015']);
+    expect(config.trustedRegistries).toEqual(['docker.io', 'gcr.io']);
+    expect(config.severityThreshold).toBe('error');
+  });
+
+  it('stops at a config with root: true', () => {
+    const config = discoverConfig(path.join(dir, 'repo/tools'));
+    expect(config.ignore).toEqual([]);
+    expect(config.override).toEqual({ DL3008: { severity: 'error' } });
+  });
+
+  it('returns the defaults when no config is found', () => {
+    fs.mkdirSync(path.join(dir, 'repo/empty/.git'), { recursive: true });
+    expect(discoverConfig(path.join(dir, 'repo/empty'))).toEqual({ ignore: [], trustedRegistries: [], requiredLabels: [], override: {} });
+  });
+
+  it('uses the config next to each Dockerfile in scans', () => {
+    const file = path.join(dir, 'repo/services/payments/Dockerfile');
+    const result = scanDockerfile(file);
+    expect(hasRule(result.violations, 'DV1006')).toBe(false);
+    expect(hasRule(result.violations, 'DL3015')).toBe(false);
+    expect(result.violations.every(v => v.severity === 'error')).toBe(true);
+    expect(resolveConfig({ filePath: file }).ignore).toEqual(['DV1006', 'DL3015']);
+  });
+});
+
+describe('extends', () => {
+  it('merges local files and packages under the config, keeping preset names', () => {
+    write('shared/base.yaml', 'extends: recommended\nignore:\n  - DV4003\ncustom-rules:\n  - id: acme/no-upgrade\n    severity: error\n    message: old\n    pattern: upgrade\n');
+    write('node_modules/@acme/dockervet-config/package.json', '{"name": "@acme/dockervet-config", "main": "index.js"}');
+    write('node_modules/@acme/dockervet-config/index.js', 'module.exports = { ignore: ["DL3057"], override: { DV1001: { severity: "warning" } }, plugins: ["./rules.js"] };');
+    const file = write('app/.dockervet.yaml', [
+      'extends:',
+      '  - ../shared/base.yaml',
+      "  - '@acme/dockervet-config'",
+      '  - cis',
+      'ignore:',
+      '  - DL3008',
+      'custom-rules:',
+      '  - id: acme/no-upgrade',
+      '    severity: warning',
+      '    message: new',
+      '    pattern: upgrade',
+    ].join('\n'));
+
+    const config = loadConfig(file);
+    expect(config.ignore).toEqual(['DV4003', 'DL3057', 'DL3008']);
+    expect(config.override).toEqual({ DV1001: { severity: 'warning' } });
+    expect(config.plugins).toEqual([path.join(dir, 'node_modules/@acme/dockervet-config/rules.js')]);
+    expect(config.customRules).toEqual([{ id: 'acme/no-upgrade', severity: 'warning', message: 'new', pattern: 'upgrade' }]);
+    expect(presetsOf(config)).toEqual(['recommended', 'cis']);
+  });
+
+  it('reports configs that cannot be loaded', () => {
+    const missing = write('bad/.dockervet.yaml', 'extends: ./nope.yaml\n');
+    expect(() => loadConfig(missing)).toThrow(/Cannot load config "\.\/nope\.yaml" extended by .*bad/);
+    const typo = write('typo/.dockervet.yaml', 'extends: recomended\n');
+    expect(() => loadConfig(typo)).toThrow(/presets are hadolint, recommended/);
+    write('loop/a.yaml', 'extends: ./b.yaml\n');
+    const loop = write('loop/b.yaml', 'extends: ./a.yaml\n');
+    expect(() => loadConfig(loop)).toThrow(/extends itself/);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from '../src/parser/parser';
+import {
+  parseCst, print, instructionAt, replaceArguments, insertInstruction, deleteInstruction,
+} from '../src/parser/cst';
+import { CstInstruction } from '../src/parser/types';
+
+const SAMPLE = [
+  '# syntax=docker/dockerfile:1.4',
+  '',
+  'ARG BASE=alpine:3.19',
+  'FROM ${BASE} AS build   ',
+  '  # indented comment',
+  'RUN apk add --no-cache \\',
+  '    # comment inside a continuation',
+  '    curl \\',
+  '\tgit',
+  'COPY <<EOF /etc/app.conf',
+  'key=value',
+  '',
+  'EOF',
+  'run echo lower-case keyword',
+  'CMD ["sh"]',
+].join('\n');
+
+describe('CST', () => {
+  it.each([
+    ['sample', SAMPLE],
+    ['trailing newline', SAMPLE + '\n'],
+    ['CRLF line endings', SAMPLE.replace(/\n/g, '\r\n') + '\r\n'],
+    ['empty file', ''],
+    ['only blank lines', '\n\n  \n'],
+    ['unclosed heredoc', 'FROM alpine:3.19\nRUN <<EOF\necho hi\n'],
+    ['dangling continuation', 'FROM alpine:3.19\nRUN echo \\\n# trailing comment\n'],
+    ['backtick escape', '# escape=`\nFROM mcr.microsoft.com/windows/servercore:ltsc2022\nRUN dir `\n    C:\\'],
+    ['test-samples/Dockerfile.bad', fs.readFileSync(path.join(__dirname, '../test-samples/Dockerfile.bad'), 'utf-8')],
+  ])('round-trips %s', (_name, content) => {
+    expect(print(parseCst(content))).toBe(content);
+  });
+
+  it('splits the file into instruction, comment and blank nodes', () => {
+    const cst = parseCst(SAMPLE);
+    expect(cst.nodes.map(n => [n.kind, n.line, n.endLine])).toEqual([
+      ['comment', 1, 1], ['blank', 2, 2], ['instruction', 3, 3], ['instruction', 4, 4], ['comment', 5, 5],
+      ['instruction', 6, 9], ['instruction', 10, 13], ['instruction', 14, 14], ['instruction', 15, 15],
+    ]);
+    for (const node of cst.nodes) expect(SAMPLE.slice(node.offset, node.offset + node.text.length)).toBe(node.text);
+  });
+
+  it('locates instruction arguments', () => {
+    const cst = parseCst(SAMPLE);
+    const copy = instructionAt(cst, 10)!;
+    expect(copy.keyword).toBe('COPY');
+    expect(copy.text.slice(copy.argumentsStart, copy.argumentsEnd)).toBe('<<EOF /etc/app.conf');
+    const run = instructionAt(cst, 14)!;
+    expect(run.keyword).toBe('run');
+  });
+
+  it('is attached to the AST', () => {
+    const ast = parse(SAMPLE);
+    expect(print(ast.cst)).toBe(SAMPLE);
+    expect(instructionAt(ast.cst, ast.stages[0].instructions[0].line)?.line).toBe(6);
+  });
+});
+
+describe('CST edits', () => {
+  const df = 'FROM alpine:3.19\r\n# install\r\n  RUN apk add \\\r\n      curl\r\nCMD ["sh"]\r\n';
+
+  it('replaces arguments and keeps indentation and line endings', () => {
+    const cst = parseCst(df);
+    const out = print(replaceArguments(cst, instructionAt(cst, 3)!, 'apk add --no-cache curl'));
+    expect(out).toBe('FROM alpine:3.19\r\n# install\r\n  RUN apk add --no-cache curl\r\nCMD ["sh"]\r\n');
+  });
+
+  it('keeps heredoc bodies when replacing arguments', () => {
+    const cst = parseCst('FROM alpine:3.19\nCOPY <<EOF /a\nbody\nEOF\n');
+    const out = print(replaceArguments(cst, instructionAt(cst, 2)!, '--chmod=0644 <<EOF /b'));
+    expect(out).toBe('FROM alpine:3.19\nCOPY --chmod=0644 <<EOF /b\nbody\nEOF\n');
+  });
+
+  it('inserts instructions', () => {
+    const cst = parseCst(df);
+    expect(print(insertInstruction(cst, 'USER app', instructionAt(cst, 5)))).toBe(
+      'FROM alpine:3.19\r\n# install\r\n  RUN apk add \\\r\n      curl\r\nUSER app\r\nCMD ["sh"]\r\n',
+    );
+    expect(print(insertInstruction(parseCst('FROM alpine:3.19'), 'USER app'))).toBe('FROM alpine:3.19\nUSER app\n');
+  });
+
+  it('deletes instructions with their continuation lines', () => {
+    const cst = parseCst(df);
+    const next = deleteInstruction(cst, instructionAt(cst, 3)!);
+    expect(print(next)).toBe('FROM alpine:3.19\r\n# install\r\nCMD ["sh"]\r\n');
+    expect(instructionAt(next, 3)?.keyword).toBe('CMD');
+  });
+
+  it('rejects nodes from another tree', () => {
+    const node = instructionAt(parseCst(df), 1) as CstInstruction;
+    expect(() => deleteInstruction(parseCst(df), node)).toThrow(/does not belong/);
+  });
+});
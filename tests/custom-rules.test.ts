@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintDockerfile, hasRule, defaultConfig } from './helpers';
+import { loadConfig, DockerVetConfig, CustomRuleConfig } from '../src/engine/config';
+import { customRulesOf } from '../src/engine/custom-rules';
+import { formatSARIF } from '../src/formatter/sarif';
+
+const YAML = `
+custom-rules:
+  - id: acme/no-upgrade
+    severity: error
+    message: Do not upgrade packages in the image
+    instruction: RUN
+    pattern: 'apt-get\\s+(dist-)?upgrade'
+  - id: acme/team-label
+    severity: warning
+    message: "Final stage must set LABEL \\"team\\""
+    description: Images must carry a team label
+    instruction: LABEL
+    pattern: '\\bteam='
+    stage: final
+    in-stage: must-appear
+  - id: acme/copy-link
+    severity: info
+    message: Builder COPY should use --link and not --chmod
+    instruction: [COPY, ADD]
+    stage: builder
+    required-flags: [--link]
+    forbidden-flags:
+      - --chmod
+`;
+
+function withRules(...customRules: CustomRuleConfig[]): DockerVetConfig {
+  return { ...defaultConfig, customRules };
+}
+
+let config: DockerVetConfig;
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-custom-'));
+  fs.writeFileSync(path.join(dir, '.dockervet.yaml'), YAML);
+  config = loadConfig(path.join(dir, '.dockervet.yaml'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('customRules config', () => {
+  it('parses entries from YAML', () => {
+    expect(config.customRules).toHaveLength(3);
+    expect(config.customRules![0]).toMatchObject({ id: 'acme/no-upgrade', instruction: 'RUN', pattern: 'apt-get\\s+(dist-)?upgrade' });
+    expect(config.customRules![1]).toMatchObject({ message: 'Final stage must set LABEL "team"', stage: 'final', inStage: 'must-appear' });
+    expect(config.customRules![2]).toMatchObject({ instruction: ['COPY', 'ADD'], requiredFlags: ['--link'], forbiddenFlags: ['--chmod'] });
+  });
+});
+
+describe('Custom rules', () => {
+  it('reports instructions matching a pattern', () => {
+    const v = lintDockerfile('FROM ubuntu:22.04\nLABEL team=core\nRUN apt-get upgrade -y', config);
+    expect(v.find(v => v.rule === 'acme/no-upgrade')).toMatchObject({ severity: 'error', line: 3 });
+  });
+  it('reports stages missing a required instruction', () => {
+    const v = lintDockerfile('FROM golang:1.22 AS build\nFROM alpine:3.21\nLABEL owner=me', config);
+    expect(v.filter(v => v.rule === 'acme/team-label').map(v => v.line)).toEqual([2]);
+    expect(hasRule(lintDockerfile('FROM alpine:3.21\nLABEL team=core', config), 'acme/team-label')).toBe(false);
+  });
+  it('checks required and forbidden flags in builder stages only', () => {
+    const content = [
+      'FROM golang:1.22 AS build',
+      'COPY --link go.mod ./',
+      'COPY main.go ./',
+      'COPY --link --chmod=755 run.sh ./',
+      'FROM alpine:3.21',
+      'LABEL team=core',
+      'COPY --from=build /app /app',
+    ].join('\n');
+    expect(lintDockerfile(content, config).filter(v => v.rule === 'acme/copy-link').map(v => v.line)).toEqual([3, 4]);
+  });
+  it('matches flag values', () => {
+    const rule: CustomRuleConfig = {
+      id: 'acme/no-network', severity: 'warning', message: 'RUN must use --network=none',
+      instruction: 'RUN', requiredFlags: ['network=none'],
+    };
+    const v = lintDockerfile('FROM alpine:3.21\nRUN --network=none make\nRUN --network=host make\nRUN make', withRules(rule));
+    expect(v.filter(v => v.rule === 'acme/no-network').map(v => v.line)).toEqual([3, 4]);
+  });
+  it('matches --mount criteria against each mount of a RUN by field', () => {
+    const secret: CustomRuleConfig = {
+      id: 'acme/npm-secret', severity: 'warning', message: 'npm ci must read .npmrc from a secret mount',
+      instruction: 'RUN', pattern: 'npm ci', requiredFlags: ['--mount=type=secret'],
+    };
+    const noCache: CustomRuleConfig = {
+      id: 'acme/no-cache-mount', severity: 'info', message: 'No cache mounts', instruction: 'RUN', forbiddenFlags: ['--mount=type=cache'],
+    };
+    const content = [
+      'FROM node:22',
+      'RUN --mount=type=secret,id=npmrc npm ci',
+      'RUN --mount=type=cache,target=/root/.npm --mount=type=secret,id=npmrc,dst=/root/.npmrc npm ci',
+      'RUN --mount=type=bind,source=.,target=/src npm ci',
+      'RUN npm ci',
+    ].join('\n');
+    const lines = (rule: CustomRuleConfig) => lintDockerfile(content, withRules(rule)).filter(v => v.rule === rule.id).map(v => v.line);
+    expect(lines(secret)).toEqual([4, 5]);
+    expect(lines(noCache)).toEqual([3]);
+    expect(lines({ ...secret, requiredFlags: ['--mount=type=secret,target=/root/.npmrc'] })).toEqual([2, 4, 5]);
+  });
+  it('supports inline ignores, ignore and severity override', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu:22.04\n# dockervet ignore=acme/no-upgrade\nRUN apt-get upgrade', config), 'acme/no-upgrade')).toBe(false);
+    expect(hasRule(lintDockerfile('FROM ubuntu:22.04\n# dockervet ignore=acme/no-upgrade\nRUN apt-get upgrade', config), 'DL3056')).toBe(false);
+    const ignored = { ...config, ignore: ['acme/no-upgrade'] };
+    expect(hasRule(lintDockerfile('FROM ubuntu:22.04\nRUN apt-get upgrade', ignored), 'acme/no-upgrade')).toBe(false);
+    const overridden = { ...config, override: { 'acme/no-upgrade': { severity: 'info' } } };
+    expect(lintDockerfile('FROM ubuntu:22.04\nRUN apt-get upgrade', overridden).find(v => v.rule === 'acme/no-upgrade')?.severity).toBe('info');
+  });
+  it('describes custom rules in SARIF output', () => {
+    const v = lintDockerfile('FROM alpine:3.21', config).filter(v => v.rule === 'acme/team-label');
+    const sarif = JSON.parse(formatSARIF(v, 'Dockerfile', customRulesOf(config)));
+    const rule = sarif.runs[0].tool.driver.rules[0];
+    expect(rule.id).toBe('acme/team-label');
+    expect(rule.shortDescription.text).toBe('Images must carry a team label');
+    expect(rule.defaultConfiguration.level).toBe('warning');
+  });
+});
+
+describe('Custom rule validation', () => {
+  const base: CustomRuleConfig = { id: 'acme/x', severity: 'warning', message: 'x' };
+  it('rejects invalid entries', () => {
+    expect(() => customRulesOf(withRules({ ...base, severity: 'fatal' }))).toThrow(/invalid severity/);
+    expect(() => customRulesOf(withRules({ ...base, pattern: '(' }))).toThrow(/invalid pattern/);
+    expect(() => customRulesOf(withRules({ ...base, instruction: 'RUNN' }))).toThrow(/unknown instruction/);
+    expect(() => customRulesOf(withRules({ ...base, id: 'DL3008' }))).toThrow(/built-in/);
+    expect(() => customRulesOf(withRules(base, base))).toThrow(/more than once/);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintDockerfile } from './helpers';
+import { formatJSON } from '../src/formatter/json';
+import { formatSARIF, formatSARIFBatch } from '../src/formatter/sarif';
+
+function fingerprintsOf(content: string, rule: string, filename = 'Dockerfile'): string[] {
+  return lintDockerfile(content, undefined, filename).filter(v => v.rule === rule).map(v => v.fingerprint!);
+}
+
+const LEGACY = `FROM ubuntu:22.04 AS build
+RUN apt-get update && apt-get install -y curl
+RUN apt-get install -y \\
+    wget
+FROM ubuntu:22.04
+RUN apt-get install -y git
+`;
+
+describe('violation fingerprints', () => {
+  it('is unchanged when unrelated lines are added above', () => {
+    const shifted = LEGACY.replace('FROM ubuntu:22.04 AS build\n', 'FROM ubuntu:22.04 AS build\nLABEL team=core\n\n# comment\n');
+    expect(fingerprintsOf(shifted, 'DL3008')).toEqual(fingerprintsOf(LEGACY, 'DL3008'));
+  });
+
+  it('keeps every existing fingerprint when unrelated instructions are inserted', () => {
+    const all = (content: string) => lintDockerfile(content, undefined, 'Dockerfile').map(v => v.fingerprint);
+    const inserted = LEGACY
+      .replace('FROM ubuntu:22.04\n', 'FROM ubuntu:22.04\nARG VERSION=1\n')
+      .replace('RUN apt-get update', 'ENV LANG=C.UTF-8\nRUN apt-get update');
+    expect(all(inserted)).toEqual(expect.arrayContaining(all(LEGACY)));
+  });
+
+  it('ignores whitespace and line continuations in the instruction', () => {
+    const reflowed = LEGACY.replace('RUN apt-get install -y \\\n    wget', 'RUN apt-get   install -y wget');
+    expect(fingerprintsOf(reflowed, 'DL3008')).toEqual(fingerprintsOf(LEGACY, 'DL3008'));
+  });
+
+  it('changes when the instruction changes', () => {
+    const edited = LEGACY.replace('install -y git', 'install -y git make');
+    expect(fingerprintsOf(edited, 'DL3008')[3]).not.toBe(fingerprintsOf(LEGACY, 'DL3008')[3]);
+  });
+
+  it('differs between files', () => {
+    expect(fingerprintsOf(LEGACY, 'DL3008', 'svc/Dockerfile')).not.toEqual(fingerprintsOf(LEGACY, 'DL3008'));
+    expect(fingerprintsOf(LEGACY, 'DL3008', './Dockerfile')).toEqual(fingerprintsOf(LEGACY, 'DL3008'));
+    expect(fingerprintsOf(LEGACY, 'DL3008', path.resolve('svc/Dockerfile'))).toEqual(fingerprintsOf(LEGACY, 'DL3008', 'svc/Dockerfile'));
+  });
+
+  it('keys files by their path in the repository, whatever the working directory', () => {
+    const repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-fingerprint-')));
+    const cwd = process.cwd();
+    try {
+      fs.mkdirSync(path.join(repo, '.git'));
+      fs.mkdirSync(path.join(repo, 'services', 'api'), { recursive: true });
+      fs.mkdirSync(path.join(repo, 'services', 'web'), { recursive: true });
+      const fromRoot = fingerprintsOf(LEGACY, 'DL3008', path.join(repo, 'services/api/Dockerfile'));
+      process.chdir(path.join(repo, 'services', 'api'));
+      expect(fingerprintsOf(LEGACY, 'DL3008', 'Dockerfile')).toEqual(fromRoot);
+      // Identical Dockerfiles of two services in a monorepo stay apart
+      expect(fingerprintsOf(LEGACY, 'DL3008', '../web/Dockerfile')).not.toEqual(fromRoot);
+    } finally {
+      process.chdir(cwd);
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  it('tells apart identical instructions in different stages and repeats in one stage', () => {
+    const content = 'FROM alpine:3.21 AS a\nRUN pip install flask\nRUN pip install flask\nFROM alpine:3.21 AS b\nRUN pip install flask\n';
+    const fps = fingerprintsOf(content, 'DL3013');
+    expect(fps).toHaveLength(3);
+    expect(new Set(fps).size).toBe(3);
+  });
+});
+
+describe('fingerprints in output', () => {
+  const violations = lintDockerfile(LEGACY, undefined, 'Dockerfile');
+
+  it('sets a fingerprint on every violation', () => {
+    expect(violations.length).toBeGreaterThan(0);
+    for (const v of violations) expect(v.fingerprint).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('adds the fingerprint to JSON entries', () => {
+    const entries = JSON.parse(formatJSON(violations, 'Dockerfile'));
+    expect(entries.map((e: { fingerprint: string }) => e.fingerprint)).toEqual(violations.map(v => v.fingerprint));
+  });
+
+  it('adds partialFingerprints to SARIF results', () => {
+    const results = JSON.parse(formatSARIF(violations, 'Dockerfile')).runs[0].results;
+    expect(results[0].partialFingerprints).toEqual({ 'dockervetFingerprint/v1': violations[0].fingerprint });
+    const batch = JSON.parse(formatSARIFBatch([{ filename: 'Dockerfile', violations, exitCode: 1 }])).runs[0].results;
+    expect(batch.map((r: { partialFingerprints: Record<string, string> }) => r.partialFingerprints['dockervetFingerprint/v1']))
+      .toEqual(violations.map(v => v.fingerprint));
+  });
+
+  it('keeps SARIF fingerprints when an instruction is inserted above', () => {
+    const shifted = lintDockerfile(LEGACY.replace('RUN apt-get update', 'ENV DEBIAN_FRONTEND=noninteractive\nRUN apt-get update'), undefined, 'Dockerfile');
+    const fingerprints = (vs: typeof violations) =>
+      JSON.parse(formatSARIF(vs.filter(v => v.rule === 'DL3008'), 'Dockerfile')).runs[0].results
+        .map((r: { partialFingerprints: Record<string, string> }) => r.partialFingerprints['dockervetFingerprint/v1']);
+    expect(fingerprints(shifted)).toEqual(fingerprints(violations));
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { defaultConfig } from './helpers';
+import { fixContent, applyFixes } from '../src/engine/fixer';
+import { formatUnifiedDiff } from '../src/formatter/diff';
+import { Violation } from '../src/rules/types';
+
+function fix(content: string, unsafe = false): string {
+  return fixContent(content, { config: defaultConfig, unsafe }).output;
+}
+
+describe('applyFixes', () => {
+  const v = (line: number, column: number, endColumn: number, text: string, extra: Partial<Violation> = {}): Violation => ({
+    rule: 'T', severity: 'info', message: '', line,
+    fixes: [{ line, column, endLine: line, endColumn, text }], ...extra,
+  });
+
+  it('applies replacements and insertions', () => {
+    const { output, applied } = applyFixes('ab\ncd\n', [v(1, 1, 2, 'A'), v(2, 3, 3, '!')]);
+    expect(output).toBe('Ab\ncd!\n');
+    expect(applied).toHaveLength(2);
+  });
+  it('skips fixes overlapping an earlier one', () => {
+    const { output, applied } = applyFixes('abcd', [v(1, 1, 3, 'X'), v(1, 2, 4, 'Y')]);
+    expect(output).toBe('Xcd');
+    expect(applied).toHaveLength(1);
+  });
+  it('skips unsafe fixes unless asked', () => {
+    const unsafe = v(1, 1, 2, 'A', { fixSafety: 'unsafe' });
+    expect(applyFixes('ab', [unsafe]).output).toBe('ab');
+    expect(applyFixes('ab', [unsafe], true).output).toBe('Ab');
+  });
+  it('ignores edits outside the file', () => {
+    expect(applyFixes('ab', [v(3, 1, 1, 'X')]).applied).toHaveLength(0);
+  });
+});
+
+describe('fixContent', () => {
+  it('DL3014: adds -y to apt-get install', () => {
+    expect(fix('FROM ubuntu:22.04\nRUN apt-get install --no-install-recommends curl=7.81.0\n'))
+      .toBe('FROM ubuntu:22.04\nRUN apt-get install -y --no-install-recommends curl=7.81.0\n');
+  });
+  it('DL3015: adds --no-install-recommends only with unsafe fixes', () => {
+    const content = 'FROM ubuntu:22.04\nRUN apt-get install -y curl=7.81.0\n';
+    expect(fix(content)).toBe(content);
+    expect(fix(content, true)).toBe('FROM ubuntu:22.04\nRUN apt-get install --no-install-recommends -y curl=7.81.0\n');
+  });
+  it('applies fixes at the same point over several passes', () => {
+    expect(fix('FROM ubuntu:22.04\nRUN apt-get install curl=7.81.0\n', true))
+      .toBe('FROM ubuntu:22.04\nRUN apt-get install --no-install-recommends -y curl=7.81.0\n');
+  });
+  it('DL3019: adds --no-cache to apk add', () => {
+    expect(fix('FROM alpine:3.21\nRUN apk add curl=8.11.0-r2\n')).toBe('FROM alpine:3.21\nRUN apk add --no-cache curl=8.11.0-r2\n');
+  });
+  it('DV4015: adds --no-cache-dir to python -m pip install', () => {
+    expect(fix('FROM python:3.12\nRUN python -m pip install flask==3.0.0\n'))
+      .toBe('FROM python:3.12\nRUN python -m pip install --no-cache-dir flask==3.0.0\n');
+  });
+  it('DV4021: adds --no-document to gem install', () => {
+    expect(fix('FROM ruby:3.3\nRUN gem install rails:7.1.0\n')).toBe('FROM ruby:3.3\nRUN gem install --no-document rails:7.1.0\n');
+  });
+  it('DV2005: turns MAINTAINER into a maintainer LABEL', () => {
+    expect(fix('FROM alpine:3.21\nMAINTAINER Jane "JD" Doe\n')).toBe('FROM alpine:3.21\nLABEL maintainer="Jane \\"JD\\" Doe"\n');
+  });
+  it('DL3020: replaces ADD with COPY, keeping the keyword case', () => {
+    expect(fix('FROM alpine:3.21\nADD app.py /app/\nadd --chown=1000 conf/ /etc/app/\n'))
+      .toBe('FROM alpine:3.21\nCOPY app.py /app/\ncopy --chown=1000 conf/ /etc/app/\n');
+  });
+  it('DL3020: leaves ADD with variable sources alone', () => {
+    const content = 'FROM alpine:3.21\nARG SRC\nADD $SRC /app/\n';
+    expect(fix(content)).toBe(content);
+  });
+  it('fixes commands on continuation lines', () => {
+    expect(fix('FROM ruby:3.3\nRUN bundle config set frozen true && \\\n    gem install bundler:2.5.0\n'))
+      .toBe('FROM ruby:3.3\nRUN bundle config set frozen true && \\\n    gem install --no-document bundler:2.5.0\n');
+  });
+  it('respects inline ignores', () => {
+    const content = 'FROM alpine:3.21\n# dockervet ignore=DL3019\nRUN apk add curl=8.11.0-r2\n';
+    expect(fix(content)).toBe(content);
+  });
+  it('keeps CRLF line endings', () => {
+    expect(fix('FROM ruby:3.3\r\nRUN gem install rails:7.1.0\r\n')).toBe('FROM ruby:3.3\r\nRUN gem install --no-document rails:7.1.0\r\n');
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('prints changed lines with context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'].join('\n') + '\n';
+    const after = before.replace('e\n', 'E\n');
+    expect(formatUnifiedDiff(before, after, 'Dockerfile')).toBe([
+      '--- Dockerfile', '+++ Dockerfile', '@@ -2,7 +2,7 @@', ' b', ' c', ' d', '-e', '+E', ' f', ' g', ' h', '',
+    ].join('\n'));
+  });
+  it('is empty for identical content', () => {
+    expect(formatUnifiedDiff('a\n', 'a\n', 'Dockerfile')).toBe('');
+  });
+});
@@ -5,6 +5,7 @@ import { loadConfig } from '../src/engine/config';
 import { formatTTY } from '../src/formatter/tty';
 import { formatJSON } from '../src/formatter/json';
 import { formatSARIF } from '../src/formatter/sarif';
+import { scanDockerfileContent, EXIT_CODES } from '../src/lib';
 
 const defaultConfig = { ignore: [], trustedRegistries: [], requiredLabels: [], override: {} };
 
@@ -132,6 +133,96 @@ describe('Formatters', () => {
   });
 });
 
+describe('Violation regions', () => {
+  const content = `FROM ubuntu:22.04
+RUN apt-get update && \\
+    apt-get install -y --no-install-recommends \\
+      curl=7.0 \\
+      wget \\
+    && rm -rf /var/lib/apt/lists/*
+`;
+
+  it('points package pinning violations at the offending token', () => {
+    const violations = lint(parse(content), { config: defaultConfig });
+    const v = violations.find(x => x.rule === 'DL3008');
+    expect(v).toMatchObject({ line: 5, column: 7, endLine: 5, endColumn: 11 });
+  });
+
+  it('falls back to the whole instruction range', () => {
+    const violations = lint(parse(content), { config: defaultConfig });
+    const v = violations.find(x => x.rule === 'DV1009');
+    expect(v).toMatchObject({ line: 1, column: 1, endLine: 1, endColumn: 18 });
+  });
+
+  it('honours inline ignores for violations on continuation lines', () => {
+    const ignored = lint(parse(content.replace('RUN apt-get', '# dockervet ignore=DL3008\nRUN apt-get')), { config: defaultConfig });
+    expect(ignored.some(v => v.rule === 'DL3008')).toBe(false);
+  });
+
+  it('emits SARIF regions with end positions', () => {
+    const violations = lint(parse(content), { config: defaultConfig }).filter(v => v.rule === 'DL3008');
+    const region = JSON.parse(formatSARIF(violations, 'Dockerfile')).runs[0].results[0].locations[0].physicalLocation.region;
+    expect(region).toEqual({ startLine: 5, startColumn: 7, endLine: 5, endColumn: 11 });
+  });
+
+  it('prints line:column in TTY output', () => {
+    const violations = lint(parse(content), { config: defaultConfig }).filter(v => v.rule === 'DL3008');
+    expect(formatTTY(violations, 'Dockerfile', false)).toContain('5:7 warning DL3008');
+  });
+
+  it('orders findings on one line by column before rule', () => {
+    const violations = lint(parse('FROM debian:12.8\nRUN apt-get install -y curl && cd /tmp\n'), { config: defaultConfig });
+    expect(violations.filter(v => v.line === 2).map(v => [v.column, v.rule])).toEqual([
+      [1, 'DV1007'], [1, 'DV2004'], [1, 'DV9005'], [5, 'DL3009'], [5, 'DL3015'], [24, 'DL3008'], [32, 'DL3003'],
+    ]);
+  });
+});
+
+describe('ARG/ENV resolution', () => {
+  it('checks base images after expanding ARG defaults', () => {
+    const violations = lint(parse('ARG UBUNTU=18.04\nFROM ubuntu:${UBUNTU}\n'), { config: defaultConfig });
+    expect(violations.some(v => v.rule === 'DV5002')).toBe(true);
+    expect(violations.some(v => v.rule === 'DL3006')).toBe(false);
+  });
+
+  it('applies build args to FROM', () => {
+    const content = 'ARG NODE_VERSION=22\nFROM node:${NODE_VERSION}\n';
+    expect(lint(parse(content), { config: defaultConfig }).some(v => v.rule === 'DV5001')).toBe(false);
+    const violations = lint(parse(content), { config: defaultConfig, buildArgs: { NODE_VERSION: '14' } });
+    expect(violations.find(v => v.rule === 'DV5001')?.message).toContain('node:14');
+  });
+
+  it('flags DL3007 when a variable resolves to latest', () => {
+    const violations = lint(parse('ARG TAG=latest\nFROM alpine:$TAG\n'), { config: defaultConfig });
+    expect(violations.some(v => v.rule === 'DL3007')).toBe(true);
+  });
+
+  it('checks packages installed through a variable', () => {
+    const content = 'FROM ubuntu:22.04\nARG PKGS="curl=7.81.0 wget"\nRUN apt-get install -y --no-install-recommends $PKGS\n';
+    const violations = lint(parse(content), { config: defaultConfig });
+    expect(violations.filter(v => v.rule === 'DL3008').map(v => v.message)).toEqual([expect.stringContaining('wget')]);
+  });
+});
+
+describe('Parse diagnostics', () => {
+  it('reports diagnostics as violations', () => {
+    const violations = lint(parse('FROM alpine:3.19\nCOPPY a /a\n'), { config: defaultConfig });
+    expect(violations.find(v => v.rule === 'DV0001')).toMatchObject({ severity: 'error', line: 2, column: 1, endColumn: 6 });
+  });
+
+  it('honours config and inline ignores', () => {
+    const content = "FROM alpine:3.19\n# dockervet ignore=DV0003\nCMD ['sh']\n";
+    expect(lint(parse(content), { config: defaultConfig }).some(v => v.rule === 'DV0003' || v.rule === 'DL3056')).toBe(false);
+    const config = { ...defaultConfig, ignore: ['DV0001'] };
+    expect(lint(parse('FROM alpine:3.19\nCOPPY a /a\n'), { config }).some(v => v.rule === 'DV0001')).toBe(false);
+  });
+
+  it('returns exit code 3 for fatal parse errors', () => {
+    expect(scanDockerfileContent('RUN echo hi\n', 'Dockerfile', { config: defaultConfig }).exitCode).toBe(EXIT_CODES.FAILURE);
+    expect(scanDockerfileContent('FROM alpine:3.19\nCOPY <<EOF /a\nx\n', 'Dockerfile', { config: defaultConfig }).exitCode).toBe(EXIT_CODES.FAILURE);
+  });
+});
+
 describe('Config', () => {
   it('returns default config when no file exists', () => {
     const config = loadConfig('/nonexistent/path');
@@ -181,6 +272,40 @@ COPY --from=nonexistent /a /b
   });
 });
 
+describe('Build target', () => {
+  const content = `FROM node:20 AS build
+RUN sudo npm ci && npm run build
+
+FROM node:20-slim AS runtime
+COPY --from=build /app/dist /app
+USER node
+HEALTHCHECK CMD ["node", "/app/health.js"]
+CMD ["node", "/app/index.js"]
+
+FROM runtime AS debug
+USER root
+RUN apt-get install -y gdb
+`;
+
+  it('treats the target as the final stage', () => {
+    const all = lint(parse(content), { config: defaultConfig });
+    expect(all.some(v => v.rule === 'DL3002')).toBe(true);
+    const runtime = lint(parse(content), { config: defaultConfig, target: 'runtime' });
+    expect(runtime.some(v => v.rule === 'DL3002')).toBe(false);
+    expect(runtime.some(v => v.line > 8)).toBe(false);
+  });
+
+  it('lints the stages the target depends on', () => {
+    const violations = lint(parse(content), { config: defaultConfig, target: 'runtime' });
+    expect(violations.some(v => v.rule === 'DL3004' && v.line === 2)).toBe(true);
+  });
+
+  it('fails for an unknown target', () => {
+    expect(() => lint(parse(content), { config: defaultConfig, target: 'prod' })).toThrow(/"prod" not found/);
+    expect(scanDockerfileContent(content, 'Dockerfile', { config: defaultConfig, target: 'prod' }).exitCode).toBe(EXIT_CODES.FAILURE);
+  });
+});
+
 describe('Edge cases', () => {
   it('handles empty Dockerfile', () => {
     const ast = parse('');
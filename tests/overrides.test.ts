@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { defaultConfig, hasRule } from './helpers';
+import { loadConfig, DockerVetConfig } from '../src/engine/config';
+import { configForFile, globToRegExp, overridesOf } from '../src/engine/overrides';
+import { resolveConfig, scanDockerfileContent } from '../src/lib';
+
+const YAML = `
+ignore:
+  - DL3015
+overrides:
+  - files: ['**/testdata/**', '**/Dockerfile.dev']
+    severity-threshold: warning
+    ignore:
+      - DV1006
+      - id: DV4003
+        reason: fixtures have no WORKDIR
+  - files:
+      - services/api/**
+    override:
+      DL3008:
+        severity: error
+`;
+
+const CONTENT = 'FROM ubuntu:22.04\nRUN apt-get install -y curl\n';
+
+let config: DockerVetConfig;
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-overrides-'));
+  fs.writeFileSync(path.join(dir, '.dockervet.yaml'), YAML);
+  config = loadConfig(path.join(dir, '.dockervet.yaml'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('globToRegExp', () => {
+  const matches = (glob: string, file: string) => globToRegExp(glob).test(file);
+
+  it('keeps * and ? within a path segment', () => {
+    expect(matches('Dockerfile.*', 'Dockerfile.dev')).toBe(true);
+    expect(matches('*/Dockerfile', 'svc/Dockerfile')).toBe(true);
+    expect(matches('*/Dockerfile', 'a/svc/Dockerfile')).toBe(false);
+    expect(matches('Dockerfile.?', 'Dockerfile.1')).toBe(true);
+    expect(matches('Dockerfile.dev', 'Dockerfilexdev')).toBe(false);
+  });
+
+  it('lets ** span zero or more directories', () => {
+    expect(matches('**/testdata/**', 'testdata/Dockerfile')).toBe(true);
+    expect(matches('**/testdata/**', 'pkg/a/testdata/x/Dockerfile')).toBe(true);
+    expect(matches('**/testdata/**', 'pkg/testdata2/Dockerfile')).toBe(false);
+    expect(matches('services/**/Dockerfile', 'services/Dockerfile')).toBe(true);
+    expect(matches('**', '.devcontainer/Dockerfile')).toBe(true);
+  });
+
+  it('matches brace alternatives', () => {
+    expect(matches('{examples,.devcontainer}/**', '.devcontainer/Dockerfile')).toBe(true);
+    expect(matches('**/Dockerfile.{dev,test}', 'a/Dockerfile.test')).toBe(true);
+    expect(matches('**/Dockerfile.{dev,test}', 'a/Dockerfile.prod')).toBe(false);
+  });
+});
+
+describe('overrides config', () => {
+  it('parses entries from YAML, relative to the config file', () => {
+    expect(config.overrides).toEqual([
+      {
+        files: ['**/testdata/**', '**/Dockerfile.dev'],
+        severityThreshold: 'warning',
+        ignore: ['DV1006', { id: 'DV4003', reason: 'fixtures have no WORKDIR' }],
+        baseDir: dir,
+      },
+      { files: ['services/api/**'], override: { DL3008: { severity: 'error' } }, baseDir: dir },
+    ]);
+  });
+
+  it('merges the entries matching a file into its config', () => {
+    const fixture = configForFile(config, path.join(dir, 'pkg/testdata/Dockerfile'));
+    expect(fixture.ignore).toEqual(['DL3015', 'DV1006', { id: 'DV4003', reason: 'fixtures have no WORKDIR' }]);
+    expect(fixture.severityThreshold).toBe('warning');
+    expect(fixture.overrides).toBeUndefined();
+
+    const api = configForFile(config, path.join(dir, 'services/api/Dockerfile'));
+    expect(api.override).toEqual({ DL3008: { severity: 'error' } });
+    expect(api.severityThreshold).toBeUndefined();
+    // Paths are relative to the config's directory, not the working directory
+    expect(configForFile(config, 'services/api/Dockerfile')).toBe(config);
+  });
+
+  it('lets later entries win and leaves the base config untouched', () => {
+    const base: DockerVetConfig = {
+      ...defaultConfig,
+      override: { DV1006: { severity: 'info' } },
+      overrides: [
+        { files: '**', override: { DV1006: { severity: 'warning' } }, severityThreshold: 'info' },
+        { files: 'Dockerfile', severityThreshold: 'error' },
+      ],
+    };
+    const resolved = configForFile(base, 'Dockerfile');
+    expect(resolved.override.DV1006).toEqual({ severity: 'warning' });
+    expect(resolved.severityThreshold).toBe('error');
+    expect(base.override.DV1006).toEqual({ severity: 'info' });
+  });
+
+  it('rejects entries without files', () => {
+    expect(() => overridesOf({ ...defaultConfig, overrides: [{ files: [] }] })).toThrow('overrides[0] has no files patterns');
+  });
+});
+
+describe('overrides in scans', () => {
+  it('applies ignores, severities and the threshold by file path', () => {
+    const scan = (file: string) => scanDockerfileContent(CONTENT, path.join(dir, file), { config: { ...config } });
+    const fixture = scan('examples/testdata/Dockerfile');
+    expect(hasRule(fixture.violations, 'DV1006')).toBe(false);
+    expect(fixture.violations.every(v => v.severity === 'error' || v.severity === 'warning')).toBe(true);
+    expect(hasRule(scan('Dockerfile').violations, 'DV1006')).toBe(true);
+    expect(scan('services/api/Dockerfile').violations.find(v => v.rule === 'DL3008')?.severity).toBe('error');
+    expect(scan('Dockerfile').violations.find(v => v.rule === 'DL3008')?.severity).toBe('warning');
+    // The top-level ignore applies everywhere
+    expect(hasRule(scan('services/api/Dockerfile').violations, 'DL3015')).toBe(false);
+  });
+
+  it('resolves the config editors see for a file', () => {
+    const resolved = resolveConfig({ config: { ...defaultConfig, overrides: [{ files: '**/Dockerfile.dev', ignore: ['DV1006'] }] }, filePath: 'app/Dockerfile.dev' });
+    expect(resolved.ignore).toEqual(['DV1006']);
+    expect(resolved.enabledBy.DV1006).toBeUndefined();
+    expect(resolved.enabledBy.DL3008).toBeDefined();
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { parse } from '../src/parser/parser';
-import { FromInstruction, CopyInstruction, EnvInstruction, ArgInstruction, ExposeInstruction, HealthcheckInstruction, LabelInstruction, UserInstruction, WorkdirInstruction } from '../src/parser/types';
-import { tokenize } from '../src/parser/lexer';
+import { FromInstruction, CopyInstruction, EnvInstruction, ArgInstruction, ExposeInstruction, HealthcheckInstruction, LabelInstruction, UserInstruction, WorkdirInstruction, RunInstruction } from '../src/parser/types';
+import { tokenize, positionAt } from '../src/parser/lexer';
 
 describe('Lexer', () => {
   it('tokenizes empty lines', () => {
@@ -27,6 +27,14 @@ describe('Lexer', () => {
     expect(tokens[0].value).toContain('apt-get install');
   });
 
+  it('maps continuation lines back to physical positions', () => {
+    const tokens = tokenize('RUN apt-get install \\\n    curl \\\n    wget');
+    expect(tokens[0].endLine).toBe(3);
+    expect(tokens[0].endColumn).toBe(9);
+    const offset = tokens[0].value.indexOf('wget');
+    expect(positionAt(tokens[0].segments, offset)).toEqual({ line: 3, column: 5 });
+  });
+
   it('strips comments within line continuations', () => {
     const tokens = tokenize('RUN apk add --no-cache \\\n  # This is a comment\n  bash \\\n  curl');
     expect(tokens[0].type).toBe('INSTRUCTION');
@@ -200,6 +208,45 @@ describe('Parser', () => {
     expect(inst.innerInstruction?.type).toBe('RUN');
   });
 
+  it('records instruction end positions and argument source map', () => {
+    const ast = parse('FROM ubuntu\n  RUN apt-get install -y \\\n      curl\nUSER app');
+    const run = ast.stages[0].instructions[0];
+    expect(run.line).toBe(2);
+    expect(run.column).toBe(3);
+    expect(run.endLine).toBe(3);
+    expect(run.endColumn).toBe(11);
+    const offset = run.arguments.indexOf('curl');
+    expect(positionAt(run.argumentsMap!, offset)).toEqual({ line: 3, column: 7 });
+  });
+
+  it('records end position of heredoc instructions', () => {
+    const ast = parse('FROM alpine\nRUN <<EOF\necho hi\nEOF\nUSER app');
+    const run = ast.stages[0].instructions[0];
+    expect(run.endLine).toBe(4);
+    expect(ast.stages[0].instructions[1].line).toBe(5);
+  });
+
+  it('parses parser directives with their lines', () => {
+    const ast = parse('# syntax=docker/dockerfile:1.7\n# Check = skip=JSONArgsRecommended\nFROM alpine');
+    expect(ast.directives.syntax).toEqual({ value: 'docker/dockerfile:1.7', line: 1 });
+    expect(ast.directives.check).toEqual({ value: 'skip=JSONArgsRecommended', line: 2 });
+    expect(ast.directives.escape).toBeUndefined();
+  });
+
+  it('stops reading directives after a blank line, comment or instruction', () => {
+    expect(parse('\n# syntax=docker/dockerfile:1\nFROM alpine').directives.syntax).toBeUndefined();
+    expect(parse('# hello\n# escape=`\nFROM alpine').directives.escape).toBeUndefined();
+    expect(parse('FROM alpine\n# syntax=docker/dockerfile:1').directives.syntax).toBeUndefined();
+  });
+
+  it('honours the escape directive for line continuations', () => {
+    const ast = parse('# escape=`\nFROM mcr.microsoft.com/windows/servercore:ltsc2022\nRUN powershell -Command `\n    Write-Host hi\nCOPY app.exe C:\\app\\');
+    const insts = ast.stages[0].instructions;
+    expect(insts.length).toBe(2);
+    expect(insts[0].arguments).toContain('Write-Host hi');
+    expect((insts[1] as CopyInstruction).destination).toBe('C:\\app\\');
+  });
+
   it('parses inline ignores (dockervet)', () => {
     const ast = parse('FROM ubuntu\n# dockervet ignore=DL3008,DV1001\nRUN apt-get install curl');
     expect(ast.inlineIgnores.get(3)).toEqual(['DL3008', 'DV1001']);
@@ -298,3 +345,151 @@ describe('Parser', () => {
     expect(ast.stages[0].instructions.length).toBe(2); // COPY + RUN
   });
 });
+
+describe('Heredocs', () => {
+  it('exposes COPY heredocs as files under the destination', () => {
+    const ast = parse([
+      'FROM alpine:3.18',
+      'COPY <<file1 <<-"file2" /dst/',
+      'content of file1',
+      'file1',
+      '\tcontent of file2',
+      '\tfile2',
+    ].join('\n'));
+    expect(ast.stages[0].instructions[0].heredocs).toMatchObject([
+      { delimiter: 'file1', stripTabs: false, quoted: false, targetPath: '/dst/file1', body: 'content of file1', startLine: 3 },
+      { delimiter: 'file2', stripTabs: true, quoted: true, targetPath: '/dst/file2', body: '\tcontent of file2', startLine: 5 },
+    ]);
+  });
+
+  it('uses the COPY destination as the file path', () => {
+    const ast = parse('FROM alpine:3.18\nCOPY <<EOF /etc/app.conf\nkey=value\nEOF\n');
+    expect(ast.stages[0].instructions[0].heredocs?.[0].targetPath).toBe('/etc/app.conf');
+  });
+
+  it('parses RUN heredoc bodies as scripts with physical positions', () => {
+    const ast = parse('FROM alpine:3.18\nRUN <<EOF\nset -e\n  sudo apk add curl\nEOF\n');
+    const inst = ast.stages[0].instructions[0];
+    expect(inst.heredocs?.[0].script).toBe(inst.shell);
+    const sudo = inst.shell!.items[1];
+    expect(positionAt(inst.argumentsMap!, sudo.offset)).toEqual({ line: 4, column: 3 });
+  });
+
+  it('does not parse heredoc bodies with a non-shell shebang', () => {
+    const ast = parse('FROM python:3.12\nRUN <<EOF\n#!/usr/bin/env python3\nprint("hi")\nEOF\n');
+    const inst = ast.stages[0].instructions[0];
+    expect(inst.heredocs?.[0].body).toContain('print');
+    expect(inst.shell).toBeUndefined();
+  });
+
+  it('records files written by cat and tee in RUN', () => {
+    const ast = parse([
+      'FROM alpine:3.18',
+      "RUN cat <<'EOF' > /etc/app.conf && tee -a /etc/motd <<MOTD",
+      'a=1',
+      'EOF',
+      'hello',
+      'MOTD',
+    ].join('\n'));
+    const inst = ast.stages[0].instructions[0];
+    expect(inst.heredocs?.map(h => h.targetPath)).toEqual(['/etc/app.conf', '/etc/motd']);
+    expect(inst.heredocs?.[0].quoted).toBe(true);
+  });
+
+  it('does not treat here-strings as heredocs', () => {
+    const ast = parse('FROM alpine:3.18\nRUN cat <<< "$X"\nRUN echo done\n');
+    expect(ast.stages[0].instructions).toHaveLength(2);
+    expect(ast.stages[0].instructions[0].heredocs).toBeUndefined();
+  });
+
+  it('keeps the body of an unterminated heredoc', () => {
+    const ast = parse('FROM alpine:3.18\nCOPY <<EOF /a\nline1\nline2');
+    expect(ast.stages[0].instructions[0].heredocs?.[0]).toMatchObject({ body: 'line1\nline2', startLine: 3 });
+  });
+});
+
+describe('RUN flags', () => {
+  const run = (df: string) => parse(`FROM alpine:3.19\n${df}`).stages[0].instructions[0] as RunInstruction;
+
+  it('keeps every --mount', () => {
+    const inst = run('RUN --mount=type=secret,id=npm --mount=type=cache,target=/root/.npm,sharing=locked npm ci');
+    expect(inst.mounts).toHaveLength(2);
+    expect(inst.mounts[0]).toMatchObject({ type: 'secret', id: 'npm', target: '/run/secrets/npm' });
+    expect(inst.mounts[1]).toMatchObject({ type: 'cache', target: '/root/.npm', sharing: 'locked' });
+  });
+
+  it('parses mount options and aliases', () => {
+    const inst = run('RUN --mount=from=build,src=/out,dst=/in,ro --mount=type=secret,target=/root/.npmrc,required,mode=0400,uid=1000 true');
+    expect(inst.mounts[0]).toMatchObject({ type: 'bind', from: 'build', source: '/out', target: '/in', readonly: true });
+    expect(inst.mounts[1]).toMatchObject({ type: 'secret', id: '.npmrc', target: '/root/.npmrc', required: true, mode: '0400', uid: '1000' });
+  });
+
+  it('does not invent a target for secrets exposed as environment variables', () => {
+    const inst = run('RUN --mount=type=secret,id=token,env=TOKEN ./deploy.sh');
+    expect(inst.mounts[0]).toMatchObject({ id: 'token', env: 'TOKEN' });
+    expect(inst.mounts[0].target).toBeUndefined();
+  });
+
+  it('records the offset of each mount', () => {
+    const inst = run('RUN  --mount=type=ssh --network=none git fetch');
+    expect(inst.arguments.substr(inst.mounts[0].offset, inst.mounts[0].length)).toBe('--mount=type=ssh');
+    expect(inst.network).toBe('none');
+    expect(inst.shell?.items[0]).toMatchObject({ type: 'command', name: 'git' });
+  });
+
+  it('parses --security', () => {
+    expect(run('RUN --security=insecure mount -t tmpfs none /mnt').security).toBe('insecure');
+    expect(run('RUN echo hi')).toMatchObject({ mounts: [], network: undefined, security: undefined });
+  });
+});
+
+describe('Parse diagnostics', () => {
+  const codes = (df: string) => parse(df).diagnostics.map(d => [d.code, d.line]);
+
+  it('reports nothing for a valid Dockerfile', () => {
+    expect(parse('ARG V=3.19\nFROM alpine:${V}\nCMD ["sh"]\n').diagnostics).toEqual([]);
+    expect(parse('').diagnostics).toEqual([]);
+  });
+
+  it('reports and drops unknown instructions', () => {
+    const ast = parse('FROM alpine:3.19\n  RUNN echo hi\nRUN echo ok');
+    expect(ast.diagnostics[0]).toMatchObject({ code: 'DV0001', line: 2, column: 3, endColumn: 7, severity: 'error' });
+    expect(ast.stages[0].instructions.map(i => i.arguments)).toEqual(['echo ok']);
+  });
+
+  it('reports instructions before the first FROM', () => {
+    expect(codes('ARG A=1\nENV B=2\nFROM alpine:3.19')).toEqual([['DV0002', 2]]);
+  });
+
+  it('reports a missing FROM once as fatal', () => {
+    const ast = parse('# comment\nRUN echo hi\nCMD ["sh"]');
+    expect(ast.diagnostics).toHaveLength(1);
+    expect(ast.diagnostics[0]).toMatchObject({ code: 'DV0002', line: 2, column: 1, fatal: true });
+  });
+
+  it('reports CMD and ENTRYPOINT that are not valid JSON arrays', () => {
+    expect(codes("FROM alpine:3.19\nCMD ['sh', '-c', 'echo']\nENTRYPOINT [\"app\",]\nCMD [ -f /x ] && echo")).toEqual([
+      ['DV0003', 2], ['DV0003', 3],
+    ]);
+  });
+
+  it('describes why a CMD or ENTRYPOINT is not a valid JSON array', () => {
+    const message = (line: string) => parse(`FROM alpine:3.19\n${line}`).diagnostics[0].message;
+    expect(message('CMD ["node", "app.js"')).toContain('is not a valid JSON array (missing closing ]), so it runs');
+    expect(message("CMD ['sh', '-c', 'echo']")).toContain('(strings need double quotes)');
+    expect(message('ENTRYPOINT ["app", 1]')).toContain('(elements must be strings)');
+    expect(message('ENTRYPOINT ["app",]')).toContain('is not a valid JSON array, so it runs');
+  });
+
+  it('reports an unclosed heredoc as fatal', () => {
+    const ast = parse('FROM alpine:3.19\nRUN <<EOF\necho hi\nUSER app');
+    expect(ast.diagnostics).toEqual([expect.objectContaining({ code: 'DV0004', line: 2, fatal: true })]);
+    expect(ast.diagnostics[0].message).toContain('lines 3-4');
+  });
+
+  it('reports a continuation at the end of the file', () => {
+    expect(codes('FROM alpine:3.19\nRUN apk add \\\n    curl \\')).toEqual([['DV0005', 3]]);
+    expect(codes('FROM alpine:3.19\nRUN echo \\\n\n')).toEqual([['DV0005', 2]]);
+    expect(codes('FROM alpine:3.19\nRUN echo \\\n  hi\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '../src/parser/parser';
+import { createVariableResolver } from '../src/parser/variables';
+import { stagePlatforms, isWindowsImage, isWindowsShell, isAbsolutePath } from '../src/parser/platform';
+
+function platforms(content: string): string[] {
+  const ast = parse(content);
+  const byStage = stagePlatforms(ast);
+  return ast.stages.map(s => byStage.get(s)!);
+}
+
+describe('isWindowsImage', () => {
+  it('recognises Windows base images and tags', () => {
+    expect(isWindowsImage('mcr.microsoft.com/windows/servercore', 'ltsc2022')).toBe(true);
+    expect(isWindowsImage('mcr.microsoft.com/windows/nanoserver')).toBe(true);
+    expect(isWindowsImage('mcr.microsoft.com/dotnet/aspnet', '8.0-nanoserver-ltsc2022')).toBe(true);
+    expect(isWindowsImage('python', '3.12-windowsservercore-ltsc2022')).toBe(true);
+  });
+  it('does not match Linux images', () => {
+    expect(isWindowsImage('ubuntu', '22.04')).toBe(false);
+    expect(isWindowsImage('mcr.microsoft.com/dotnet/aspnet', '8.0')).toBe(false);
+    expect(isWindowsImage('acme/windowsupdate-exporter')).toBe(false);
+  });
+});
+
+describe('isWindowsShell', () => {
+  it('matches powershell and cmd but not pwsh', () => {
+    expect(isWindowsShell('powershell')).toBe(true);
+    expect(isWindowsShell('C:\\Windows\\System32\\cmd.exe')).toBe(true);
+    expect(isWindowsShell('pwsh')).toBe(false);
+    expect(isWindowsShell('/bin/bash')).toBe(false);
+  });
+});
+
+describe('stagePlatforms', () => {
+  it('detects Windows from the base image', () => {
+    expect(platforms('FROM mcr.microsoft.com/windows/servercore:ltsc2022\nRUN dir')).toEqual(['windows']);
+  });
+  it('detects Windows from a SHELL instruction', () => {
+    expect(platforms('FROM myorg/base:1.0\nSHELL ["powershell", "-Command"]\nRUN Get-ChildItem')).toEqual(['windows']);
+  });
+  it('detects Windows from the backtick escape directive', () => {
+    expect(platforms('# escape=`\nFROM myorg/base:1.0\nRUN dir')).toEqual(['windows']);
+  });
+  it('honours an explicit --platform', () => {
+    expect(platforms('# escape=`\nFROM --platform=linux/amd64 myorg/base:1.0')).toEqual(['linux']);
+    expect(platforms('FROM --platform=windows/amd64 myorg/base:1.0')).toEqual(['windows']);
+  });
+  it('inherits the platform of a parent stage', () => {
+    expect(platforms([
+      'FROM mcr.microsoft.com/windows/nanoserver:ltsc2022 AS base',
+      'FROM base AS app',
+      'FROM alpine:3.19',
+    ].join('\n'))).toEqual(['windows', 'windows', 'linux']);
+  });
+  it('uses the resolved FROM when given one', () => {
+    const ast = parse('ARG BASE=alpine:3.19\nFROM ${BASE}');
+    const variables = createVariableResolver(ast, { BASE: 'mcr.microsoft.com/windows/servercore:ltsc2022' });
+    expect(stagePlatforms(ast, s => variables.from(s)).get(ast.stages[0])).toBe('windows');
+    expect(stagePlatforms(ast).get(ast.stages[0])).toBe('linux');
+  });
+});
+
+describe('isAbsolutePath', () => {
+  it('accepts POSIX and drive paths everywhere', () => {
+    expect(isAbsolutePath('/app')).toBe(true);
+    expect(isAbsolutePath('C:\\app')).toBe(true);
+    expect(isAbsolutePath('c:/app')).toBe(true);
+    expect(isAbsolutePath('app')).toBe(false);
+  });
+  it('accepts drive-rooted paths only on Windows', () => {
+    expect(isAbsolutePath('\\app', 'windows')).toBe(true);
+    expect(isAbsolutePath('\\app', 'linux')).toBe(false);
+    expect(isAbsolutePath('C:app', 'windows')).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintDockerfile, hasRule } from './helpers';
+import { registerRule, RULE_MAP, ALL_RULES } from '../src/rules/index';
+import { loadPlugins, pluginRulesOf } from '../src/engine/plugins';
+import { discoverConfig, loadConfig } from '../src/engine/config';
+import { resolveConfig, scanDockerfile, scanDockerfileContent } from '../src/lib';
+import { Rule } from '../src/rules/types';
+
+const PLUGIN = `
+exports.namespace = 'acme';
+exports.rules = [
+  {
+    id: 'BASE001', severity: 'error', description: 'Final stage must derive from registry.corp/base/*',
+    check(ctx) {
+      const last = ctx.ast.stages[ctx.ast.stages.length - 1];
+      if (!last || last.from.image.startsWith('registry.corp/base/')) return [];
+      return [{ rule: 'BASE001', severity: 'error', message: 'Use a registry.corp/base image', line: last.from.line }];
+    },
+  },
+  {
+    id: 'LABEL001', severity: 'warning', description: 'Images must set LABEL team=',
+    check(ctx) {
+      const last = ctx.ast.stages[ctx.ast.stages.length - 1];
+      if (!last) return [];
+      const ok = last.instructions.some(i => i.type === 'LABEL' && i.pairs.some(p => p.key === 'team'));
+      return ok ? [] : [{ rule: 'LABEL001', severity: 'warning', message: 'Missing LABEL team=', line: last.from.line }];
+    },
+  },
+];
+`;
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-plugins-'));
+  fs.writeFileSync(path.join(dir, 'acme-rules.js'), PLUGIN);
+  fs.writeFileSync(path.join(dir, 'bad-rules.js'), 'module.exports = { hello: 1 };');
+  fs.writeFileSync(path.join(dir, '.dockervet.yaml'), 'plugins:\n  - ./acme-rules.js\n');
+  loadPlugins([path.join(dir, 'acme-rules.js')]);
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('Plugin rules', () => {
+  it('registers rules under their namespace', () => {
+    expect(RULE_MAP.has('acme/BASE001')).toBe(true);
+    expect(RULE_MAP.has('acme/LABEL001')).toBe(true);
+  });
+  it('reports violations with the namespaced rule ID', () => {
+    const v = lintDockerfile('FROM ubuntu:22.04\nLABEL team=payments');
+    expect(hasRule(v, 'acme/BASE001')).toBe(true);
+    expect(hasRule(v, 'acme/LABEL001')).toBe(false);
+    expect(hasRule(lintDockerfile('FROM registry.corp/base/node:20\nLABEL team=payments'), 'acme/BASE001')).toBe(false);
+  });
+  it('honours inline ignores and config ignores', () => {
+    expect(hasRule(lintDockerfile('# dockervet ignore=acme/BASE001\nFROM ubuntu:22.04'), 'acme/BASE001')).toBe(false);
+    const config = { ignore: ['acme/LABEL001'], trustedRegistries: [], requiredLabels: [], override: {} };
+    expect(hasRule(lintDockerfile('FROM ubuntu:22.04', config), 'acme/LABEL001')).toBe(false);
+  });
+  it('accepts plugin IDs in inline ignores and flags unknown ones in DL3056', () => {
+    expect(hasRule(lintDockerfile('# dockervet ignore=acme/BASE001\nFROM ubuntu:22.04'), 'DL3056')).toBe(false);
+    const v = lintDockerfile('# dockervet ignore=acme/BASE999\nFROM ubuntu:22.04').find(v => v.rule === 'DL3056');
+    expect(v?.message).toContain('plugin');
+  });
+  it('applies severity overrides', () => {
+    const config = { ignore: [], trustedRegistries: [], requiredLabels: [], override: { 'acme/BASE001': { severity: 'info' } } };
+    expect(lintDockerfile('FROM ubuntu:22.04', config).find(v => v.rule === 'acme/BASE001')?.severity).toBe('info');
+  });
+  it('loading the same plugin again registers nothing new', () => {
+    const count = ALL_RULES.length;
+    loadPlugins([path.join(dir, 'acme-rules.js')]);
+    expect(ALL_RULES.length).toBe(count);
+  });
+  it('rejects modules without rules', () => {
+    expect(() => loadPlugins(['./bad-rules.js'], dir)).toThrow(/does not export an array of rules/);
+  });
+  it('resolves plugin paths against the config file', () => {
+    const config = loadConfig(path.join(dir, '.dockervet.yaml'));
+    expect(config.plugins).toEqual([path.join(dir, 'acme-rules.js')]);
+  });
+  it('surfaces plugin load errors from the library API as exit code 3', () => {
+    const config = { ignore: [], trustedRegistries: [], requiredLabels: [], override: {}, plugins: [path.join(dir, 'missing.js')] };
+    expect(scanDockerfileContent('FROM alpine:3.21', 'Dockerfile', { config }).exitCode).toBe(3);
+  });
+});
+
+describe('Plugins listed in a config', () => {
+  const SCOPED = `
+exports.namespace = 'scoped';
+exports.rules = [{
+  id: 'NOFROM', severity: 'warning', description: 'Every FROM is reported',
+  check: ctx => ctx.ast.stages.map(s => ({ rule: 'NOFROM', severity: 'warning', message: 'FROM', line: s.from.line })),
+}];
+`;
+
+  beforeAll(() => {
+    fs.mkdirSync(path.join(dir, 'repo', '.git'), { recursive: true });
+    fs.mkdirSync(path.join(dir, 'repo', 'a', 'node_modules', 'scoped-rules'), { recursive: true });
+    fs.mkdirSync(path.join(dir, 'repo', 'b'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'repo', 'a', 'node_modules', 'scoped-rules', 'index.js'), SCOPED);
+    fs.writeFileSync(path.join(dir, 'repo', 'a', '.dockervet.yaml'), 'plugins:\n  - scoped-rules\n');
+    for (const sub of ['a', 'b']) fs.writeFileSync(path.join(dir, 'repo', sub, 'Dockerfile'), 'FROM alpine:3.21\n');
+  });
+
+  it('resolves plugin packages from the config file\'s directory', () => {
+    const config = discoverConfig(path.join(dir, 'repo', 'a'));
+    expect(config.plugins).toEqual([path.join(dir, 'repo', 'a', 'node_modules', 'scoped-rules', 'index.js')]);
+    expect(pluginRulesOf(config).map(r => r.id)).toEqual(['scoped/NOFROM']);
+  });
+
+  it('runs plugin rules only for files linted with that config', () => {
+    const a = path.join(dir, 'repo', 'a', 'Dockerfile');
+    const b = path.join(dir, 'repo', 'b', 'Dockerfile');
+    expect(hasRule(scanDockerfile(a).violations, 'scoped/NOFROM')).toBe(true);
+    expect(hasRule(scanDockerfile(b).violations, 'scoped/NOFROM')).toBe(false);
+    expect(RULE_MAP.has('scoped/NOFROM')).toBe(false);
+    expect(resolveConfig({ filePath: a }).enabledBy).toHaveProperty('scoped/NOFROM');
+    expect(resolveConfig({ filePath: b }).enabledBy).not.toHaveProperty('scoped/NOFROM');
+  });
+
+  it('reports plugin packages that cannot be found', () => {
+    fs.writeFileSync(path.join(dir, 'repo', 'b', '.dockervet.yaml'), 'plugins:\n  - missing-rules\n');
+    expect(() => discoverConfig(path.join(dir, 'repo', 'b'))).toThrow(/Cannot load plugin "missing-rules"/);
+    fs.rmSync(path.join(dir, 'repo', 'b', '.dockervet.yaml'));
+  });
+});
+
+describe('registerRule', () => {
+  const rule = (id: string): Rule => ({ id, severity: 'warning', description: 'test', check: () => [] });
+
+  it('rejects IDs without a namespace', () => {
+    expect(() => registerRule(rule('XYZ001'))).toThrow(/must be namespaced/);
+  });
+  it('rejects IDs that are already taken', () => {
+    expect(() => registerRule(rule('acme/BASE001'))).toThrow(/already registered/);
+    expect(() => registerRule(rule('DL3008'), 'acme')).not.toThrow();
+    expect(() => registerRule(rule('DL3008'), 'acme')).toThrow(/already registered/);
+  });
+  it('rejects rules with an invalid severity', () => {
+    expect(() => registerRule({ ...rule('test/BAD001'), severity: 'fatal' as any })).toThrow(/invalid severity/);
+  });
+  it('is idempotent for the same rule object', () => {
+    const r = rule('test/SAME001');
+    expect(registerRule(r)).toBe(registerRule(r));
+  });
+});
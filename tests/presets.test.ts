@@ -0,0 +1,141 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintDockerfile, hasRule, defaultConfig } from './helpers';
+import { DockerVetConfig, loadConfig, ruleStatus } from '../src/engine/config';
+import { HADOLINT_SEVERITIES, PRESETS, presetsOf, resolvePresets } from '../src/engine/presets';
+import { ALL_RULES, RULE_MAP } from '../src/rules/index';
+import { ruleMeta } from '../src/rules/catalog';
+import { resolveConfig } from '../src/lib';
+
+function withPreset(preset: string | string[], extra: Partial<DockerVetConfig> = {}): DockerVetConfig {
+  return { ...defaultConfig, preset, ...extra };
+}
+
+const rule = (id: string) => RULE_MAP.get(id)!;
+
+// Triggers DL3006 (untagged FROM), DL3057 (no HEALTHCHECK) and DV1006 (no USER)
+const DOCKERFILE = 'FROM ubuntu\nRUN apt-get update && apt-get install -y --no-install-recommends curl=8.5.0\nCMD ["curl"]\n';
+
+describe('presets', () => {
+  it('hadolint enables only DL rules, without DL3057 and rules hadolint removed', () => {
+    const ids = [...resolvePresets(['hadolint']).keys()];
+    expect(ids.length).toBeGreaterThan(50);
+    expect(ids.every(id => id.startsWith('DL'))).toBe(true);
+    for (const id of ['DL3057', 'DL3005', 'DL3017', 'DL3031', 'DL3039']) expect(ids).not.toContain(id);
+  });
+
+  it('hadolint uses hadolint default severities', () => {
+    expect(ruleStatus(withPreset('hadolint'), rule('DL3048')).severity).toBe('style');
+    expect(ruleStatus(withPreset('hadolint'), rule('DL3052')).severity).toBe('warning');
+    expect(ruleStatus(withPreset('hadolint'), rule('DL3002')).severity).toBe('warning');
+    // Every DL rule is either in hadolint's table or deliberately left out
+    const removed = ['DL3005', 'DL3017', 'DL3031', 'DL3039', 'DL3057'];
+    const dl = ALL_RULES.filter(r => r.id.startsWith('DL')).map(r => r.id);
+    expect(dl.filter(id => !(id in HADOLINT_SEVERITIES) && !removed.includes(id))).toEqual([]);
+  });
+
+  it('recommended holds security and supply-chain rules at error or warning', () => {
+    const rules = resolvePresets(['recommended']);
+    expect(rules.has('DV1001')).toBe(true);
+    expect(rules.has('DL3006')).toBe(true);
+    expect(rules.has('DL3009')).toBe(false);
+    for (const id of rules.keys()) {
+      expect(['security', 'supply-chain']).toContain(ruleMeta(rule(id))!.category);
+      expect(['error', 'warning']).toContain(rule(id).severity);
+    }
+  });
+
+  it('strict enables every rule and promotes info to warning', () => {
+    expect(resolvePresets(['strict']).size).toBe(ALL_RULES.length);
+    const v = lintDockerfile(DOCKERFILE, withPreset('strict')).find(x => x.rule === 'DL3057');
+    expect(v?.severity).toBe('warning');
+  });
+
+  it('cis holds the rules mapped to CIS section 4', () => {
+    const rules = resolvePresets(['cis']);
+    expect(rules.has('DL3002')).toBe(true);
+    expect(rules.has('DV3030')).toBe(false);
+    for (const id of rules.keys()) expect(ruleMeta(rule(id))!.cis!.some(c => c.startsWith('4.'))).toBe(true);
+  });
+
+  it('rejects unknown presets', () => {
+    expect(() => resolvePresets(['lenient'])).toThrow(/Unknown preset "lenient". Expected one of: hadolint, recommended, strict, cis/);
+    expect(() => lintDockerfile(DOCKERFILE, withPreset('lenient'))).toThrow(/Unknown preset/);
+  });
+
+  it('lists every preset with a description', () => {
+    expect(Object.keys(PRESETS)).toEqual(['hadolint', 'recommended', 'strict', 'cis']);
+    for (const preset of Object.values(PRESETS)) expect(preset.description).toBeTruthy();
+  });
+});
+
+describe('presets in the linter', () => {
+  it('runs only the rules a preset enables', () => {
+    const v = lintDockerfile(DOCKERFILE, withPreset('hadolint'));
+    expect(hasRule(v, 'DL3006')).toBe(true);
+    expect(v.every(x => x.rule.startsWith('DL'))).toBe(true);
+    expect(hasRule(lintDockerfile(DOCKERFILE), 'DV1006')).toBe(true);
+  });
+
+  it('combines presets, crediting a rule to the last preset that enables it', () => {
+    const config = withPreset(['hadolint'], { extends: 'recommended' });
+    expect(presetsOf(config)).toEqual(['recommended', 'hadolint']);
+    const v = lintDockerfile(DOCKERFILE, config);
+    expect(hasRule(v, 'DL3006')).toBe(true);
+    expect(hasRule(v, 'DV1006')).toBe(true);
+    expect(ruleStatus(config, rule('DL3006')).preset).toBe('hadolint');
+    expect(ruleStatus(config, rule('DV1006')).preset).toBe('recommended');
+  });
+
+  it('applies ignore and override on top of the preset', () => {
+    const config = withPreset('recommended', {
+      ignore: ['DL3006'],
+      override: { DV1006: { severity: 'error' }, DV4001: { severity: 'info' } },
+    });
+    const v = lintDockerfile(DOCKERFILE, config);
+    expect(hasRule(v, 'DL3006')).toBe(false);
+    expect(v.find(x => x.rule === 'DV1006')?.severity).toBe('error');
+    // An override turns on a rule outside the presets
+    expect(ruleStatus(config, rule('DV4001'))).toEqual({ severity: 'info', enabled: true });
+  });
+
+  it('leaves plugin and custom rules on', () => {
+    const config = withPreset('hadolint', {
+      customRules: [{ id: 'acme/no-curl', severity: 'warning', message: 'no curl', instruction: 'RUN', pattern: 'curl' }],
+    });
+    expect(hasRule(lintDockerfile(DOCKERFILE, config), 'acme/no-curl')).toBe(true);
+  });
+});
+
+describe('preset config', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-preset-'));
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('reads preset and extends from YAML', () => {
+    const file = path.join(dir, '.dockervet.yaml');
+    fs.writeFileSync(file, 'extends:\n  - cis\npreset: hadolint\nignore:\n  - DL3008\n');
+    const config = loadConfig(file);
+    expect(presetsOf(config)).toEqual(['cis', 'hadolint']);
+  });
+
+  it('resolveConfig reports which preset enabled each rule', () => {
+    const config = resolveConfig({ config: withPreset('cis', { ignore: ['DV1006'] }), preset: 'hadolint' });
+    expect(config.enabledBy.DL3002).toBe('hadolint');
+    expect(config.enabledBy.DV5001).toBe('cis');
+    expect(config.enabledBy).not.toHaveProperty('DV1006');
+    expect(config.enabledBy).not.toHaveProperty('DV4001');
+    expect(resolveConfig({ config: { ...defaultConfig } }).enabledBy.DV4001).toBeNull();
+  });
+
+  it('resolveConfig leaves the caller\'s config untouched', () => {
+    const config = withPreset('cis', { ignore: ['DV1006'] });
+    const options = { config, preset: 'hadolint', ignoreRules: ['DL3008'], trustedRegistries: ['gcr.io'] };
+    resolveConfig(options);
+    const again = resolveConfig(options);
+    expect(again.preset).toEqual(['cis', 'hadolint']);
+    expect(again.ignore).toEqual(['DV1006', 'DL3008']);
+    expect(config).toEqual(withPreset('cis', { ignore: ['DV1006'] }));
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintDockerfile, hasRule, defaultConfig } from './helpers';
+import { ALL_RULES } from '../src/rules/index';
+import { ruleMeta, ruleCatalog, ruleDocsUrl } from '../src/rules/catalog';
+import { DL_METADATA } from '../src/rules/dl/metadata';
+import { DV_METADATA } from '../src/rules/dv/metadata';
+import { formatSARIF } from '../src/formatter/sarif';
+import { formatJSON } from '../src/formatter/json';
+import { formatRuleExplanation, formatRuleExplanations, formatRuleList } from '../src/formatter/rules';
+import { loadConfig, ruleStatus } from '../src/engine/config';
+import { Rule } from '../src/rules/types';
+
+// DV1005 reads .dockerignore from disk; DV2013 and DV4011 never report (covered by other rules)
+const EXAMPLE_EXEMPT = new Set(['DV1005', 'DV2013', 'DV4011']);
+
+const exampleConfig = {
+  ...defaultConfig,
+  trustedRegistries: ['registry.example.com'],
+  requiredLabels: ['org.opencontainers.image.source'],
+  allowedLabels: ['org.opencontainers.image.version'],
+};
+
+function exampleDockerfile(rule: Rule, snippet: string): string {
+  if (/^FROM /im.test(snippet)) return snippet;
+  const base = rule.platform === 'windows' ? 'mcr.microsoft.com/windows/servercore:ltsc2022' : 'debian:12.8';
+  return `FROM ${base}\n${snippet}`;
+}
+
+describe('rule metadata catalogue', () => {
+  it('covers every built-in rule', () => {
+    const missing = ALL_RULES.filter(r => {
+      const meta = ruleMeta(r);
+      return !meta?.category || !meta.rationale || !meta.remediation || !meta.example;
+    });
+    expect(missing.map(r => r.id)).toEqual([]);
+  });
+
+  it('has no entries for unknown rules', () => {
+    const ids = new Set(ALL_RULES.map(r => r.id));
+    const stale = [...Object.keys(DL_METADATA), ...Object.keys(DV_METADATA)].filter(id => !ids.has(id));
+    expect(stale).toEqual([]);
+  });
+
+  it('uses CWE-<n> and CIS section references', () => {
+    for (const rule of ALL_RULES) {
+      const meta = ruleMeta(rule)!;
+      for (const cwe of meta.cwe ?? []) expect(cwe, rule.id).toMatch(/^CWE-\d+$/);
+      for (const cis of meta.cis ?? []) expect(cis, rule.id).toMatch(/^\d+\.\d+$/);
+    }
+  });
+
+  it('maps the CIS Docker Benchmark user and secrets checks', () => {
+    expect(ruleMeta(ALL_RULES.find(r => r.id === 'DL3002')!)!.cis).toContain('4.1');
+    expect(ruleMeta(ALL_RULES.find(r => r.id === 'DV1001')!)!.cis).toContain('4.10');
+  });
+
+  it('prefers metadata carried by the rule itself', () => {
+    const rule: Rule = {
+      id: 'acme/x', severity: 'info', description: 'x', check: () => [],
+      meta: { category: 'reliability', rationale: 'r', remediation: 'm' },
+    };
+    expect(ruleMeta(rule)!.category).toBe('reliability');
+  });
+
+  for (const rule of ALL_RULES.filter(r => !EXAMPLE_EXEMPT.has(r.id))) {
+    it(`${rule.id} example: bad triggers, good does not`, () => {
+      const { bad, good } = ruleMeta(rule)!.example!;
+      expect(hasRule(lintDockerfile(exampleDockerfile(rule, bad), exampleConfig, 'Dockerfile'), rule.id)).toBe(true);
+      expect(hasRule(lintDockerfile(exampleDockerfile(rule, good), exampleConfig, 'Dockerfile'), rule.id)).toBe(false);
+    });
+  }
+});
+
+describe('ruleCatalog', () => {
+  it('lists all rules sorted by ID with documentation links', () => {
+    const catalog = ruleCatalog();
+    expect(catalog).toHaveLength(ALL_RULES.length);
+    expect(catalog.map(e => e.id)).toEqual([...catalog.map(e => e.id)].sort((a, b) => a.localeCompare(b)));
+    expect(catalog.find(e => e.id === 'DL3002')!.url).toBe('https://github.com/3-shake/DockerVet#hadolint-compatible-dl3xxx');
+  });
+
+  it('links Windows rules to their README section', () => {
+    expect(ruleDocsUrl({ id: 'DV3048', platform: 'windows' })).toBe('https://github.com/3-shake/DockerVet#windows-rules');
+  });
+
+  it('links every rule family to its README section', () => {
+    expect(ruleDocsUrl({ id: 'DV5002' })).toBe('https://github.com/3-shake/DockerVet#base-image-rules-dv5xxx');
+    expect(ruleDocsUrl({ id: 'DV9011' })).toBe('https://github.com/3-shake/DockerVet#build-hygiene-rules-dv9xxx');
+    expect(ruleCatalog().filter(e => e.url.endsWith('#rules'))).toEqual([]);
+  });
+
+  it('prints an aligned table or JSON', () => {
+    const entries = ruleCatalog().filter(e => e.id === 'DL3002' || e.id === 'DV4001');
+    const lines = formatRuleList(entries, 'tty').trimEnd().split('\n');
+    expect(lines[0]).toMatch(/^RULE\s+LEVEL\s+CATEGORY\s+STATUS\s+DESCRIPTION$/);
+    expect(lines[1]).toMatch(/^DL3002\s+warning\s+security\s+enabled\s+/);
+    expect(JSON.parse(formatRuleList(entries, 'json'))[0].cwe).toEqual(['CWE-250']);
+  });
+
+  it('prints a Markdown table', () => {
+    const md = formatRuleList(ruleCatalog().filter(e => e.id === 'DL3002'), 'md').trimEnd().split('\n');
+    expect(md[0]).toBe('| Rule | Severity | Category | Status | Description |');
+    expect(md[2]).toMatch(/^\| \[DL3002\]\(https:\/\/github\.com\/3-shake\/DockerVet#hadolint-compatible-dl3xxx\) \| warning \| security \| enabled \| /);
+  });
+});
+
+describe('configured rule catalogue', () => {
+  const config = {
+    ...defaultConfig,
+    ignore: ['DL3008', { id: 'DL3013', expires: '2000-01-01' }],
+    override: { DV3023: { severity: 'error' } },
+  };
+  const catalog = ruleCatalog(ALL_RULES, rule => ruleStatus(config, rule));
+  const entry = (id: string) => catalog.find(e => e.id === id)!;
+
+  it('applies severity overrides and keeps the default', () => {
+    expect(entry('DV3023')).toMatchObject({ severity: 'error', defaultSeverity: 'warning', enabled: true });
+    expect(entry('DL3002').defaultSeverity).toBeUndefined();
+  });
+
+  it('marks rules ignored by the config as disabled', () => {
+    expect(entry('DL3008').enabled).toBe(false);
+    expect(entry('DL3013').enabled).toBe(true);
+  });
+
+  it('explains a rule with its configured severity and status', () => {
+    const text = formatRuleExplanation(entry('DV3023'), 'tty');
+    expect(text).toMatch(/^DV3023: /);
+    expect(text).toContain('Severity:    error (default: warning)');
+    expect(text).toContain('Status:      enabled');
+    expect(text).toContain('References:  CWE-78');
+    expect(text).toContain(`Why:\n  ${entry('DV3023').rationale}`);
+    expect(text).toContain(`Bad:\n  ARG VERSION\n`);
+    expect(formatRuleExplanation(entry('DL3008'), 'tty')).toContain('Status:      disabled');
+  });
+
+  it('explains a rule in Markdown', () => {
+    const md = formatRuleExplanation(entry('DL3002'), 'md');
+    expect(md).toMatch(/^## DL3002: /);
+    expect(md).toContain('**References:** CWE-250, CIS Docker Benchmark 4.1');
+    expect(md).toContain('```dockerfile\nFROM alpine:3.21\nUSER root');
+  });
+
+  it('explains several rules as a JSON array', () => {
+    expect(JSON.parse(formatRuleExplanations([entry('DL3008'), entry('DL3009')], 'json')).map((e: { id: string }) => e.id))
+      .toEqual(['DL3008', 'DL3009']);
+    expect(JSON.parse(formatRuleExplanations([entry('DL3008')], 'json')).id).toBe('DL3008');
+    expect(formatRuleExplanations([entry('DL3008'), entry('DL3009')], 'tty')).toMatch(/^DL3008: [\s\S]*\n\nDL3009: /);
+  });
+
+  it('reads severity overrides from a YAML config', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-override-'));
+    try {
+      const file = path.join(dir, '.dockervet.yaml');
+      fs.writeFileSync(file, 'override:\n  DV3023:\n    severity: error\n  acme/LABEL001:\n    severity: info\nignore:\n  - DL3008\n');
+      const loaded = loadConfig(file);
+      expect(loaded.override).toEqual({ DV3023: { severity: 'error' }, 'acme/LABEL001': { severity: 'info' } });
+      expect(hasRule(lintDockerfile('FROM debian:12.8\nARG V\nRUN curl -fsSLO https://example.com/$V/tool\n', loaded)
+        .filter(v => v.severity === 'error'), 'DV3023')).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('metadata in output', () => {
+  const violations = lintDockerfile('FROM alpine:3.21\nUSER root\nCMD ["app"]').filter(v => v.rule === 'DL3002');
+
+  it('adds category, CWE and CIS to JSON entries', () => {
+    const [entry] = JSON.parse(formatJSON(violations, 'Dockerfile'));
+    expect(entry).toMatchObject({ rule: 'DL3002', category: 'security', cwe: ['CWE-250'], cis: ['4.1'] });
+  });
+
+  it('adds tags, help and properties to SARIF rules', () => {
+    const sarif = JSON.parse(formatSARIF(violations, 'Dockerfile'));
+    const rule = sarif.runs[0].tool.driver.rules[0];
+    expect(rule.properties.tags).toEqual(expect.arrayContaining([
+      'security', 'dockerfile', 'external/cwe/cwe-250', 'cis-docker-benchmark/4.1',
+    ]));
+    expect(rule.properties.category).toBe('security');
+    expect(rule.properties.cis).toEqual(['4.1']);
+    expect(rule.fullDescription.text).toBe(ruleMeta(ALL_RULES.find(r => r.id === 'DL3002')!)!.rationale);
+    expect(rule.help.markdown).toContain('**Remediation:**');
+    expect(rule.help.markdown).toContain('```dockerfile\nFROM alpine:3.21\nRUN adduser');
+  });
+
+  it('does not mark non-security rules as security alerts', () => {
+    const v = lintDockerfile('FROM debian:12.8\nWORKDIR app\n').filter(x => x.rule === 'DL3000');
+    const tags = JSON.parse(formatSARIF(v, 'Dockerfile')).runs[0].tool.driver.rules[0].properties.tags;
+    expect(tags).not.toContain('security');
+    expect(tags).toContain('reliability');
+  });
+
+  it('lists the security tag once for security rules', () => {
+    const tags = JSON.parse(formatSARIF(violations, 'Dockerfile')).runs[0].tool.driver.rules[0].properties.tags;
+    expect(tags.filter((t: string) => t === 'security')).toEqual(['security']);
+    expect(new Set(tags).size).toBe(tags.length);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintDockerfile, hasRule, defaultConfig } from './helpers';
+import { checkRuleSettings, loadConfig, DockerVetConfig } from '../src/engine/config';
+import { configForFile } from '../src/engine/overrides';
+import { parseDuration, resolveOptions } from '../src/rules/options';
+import { catalogEntry } from '../src/rules/catalog';
+import { ALL_RULES, RULE_MAP } from '../src/rules/index';
+import { formatRuleExplanation } from '../src/formatter/rules';
+import { scanDockerfileContent } from '../src/lib';
+
+const YAML = `
+rules:
+  DV6014:
+    severity: warning
+    options:
+      min-interval: 10s
+  DV3021:
+    options:
+      ports: [2375, 8080]
+  DV6003:
+    options:
+      tools:
+        - nmap
+        - strace
+overrides:
+  - files: legacy/**
+    rules:
+      DV6014:
+        options:
+          minInterval: 1s
+`;
+
+const HEALTHCHECK = 'FROM alpine:3.20\nHEALTHCHECK --interval=5s CMD true\n';
+
+let config: DockerVetConfig;
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-rule-options-'));
+  fs.writeFileSync(path.join(dir, '.dockervet.yaml'), YAML);
+  config = loadConfig(path.join(dir, '.dockervet.yaml'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const withRules = (rules: DockerVetConfig['rules']): DockerVetConfig => ({ ...defaultConfig, rules });
+const messages = (content: string, rule: string, cfg: DockerVetConfig = defaultConfig) =>
+  lintDockerfile(content, cfg as typeof defaultConfig).filter(v => v.rule === rule).map(v => v.message);
+
+describe('rules config', () => {
+  it('parses severities and options from YAML', () => {
+    expect(config.rules).toEqual({
+      DV6014: { severity: 'warning', options: { minInterval: '10s' } },
+      DV3021: { options: { ports: [2375, 8080] } },
+      DV6003: { options: { tools: ['nmap', 'strace'] } },
+    });
+    expect(config.overrides?.[0].rules).toEqual({ DV6014: { options: { minInterval: '1s' } } });
+  });
+
+  it('passes options to rules and applies the severity', () => {
+    const v = lintDockerfile(HEALTHCHECK, config as typeof defaultConfig).filter(x => x.rule === 'DV6014');
+    expect(v.map(x => [x.severity, x.message])).toEqual([
+      ['warning', 'HEALTHCHECK interval is --interval=5s (< 10s). Very frequent health checks waste CPU and network resources. Use at least 10s.'],
+    ]);
+    expect(hasRule(lintDockerfile(HEALTHCHECK), 'DV6014')).toBe(false);
+  });
+
+  it('merges rules settings from matching overrides', () => {
+    const legacy = configForFile(config, path.join(dir, 'legacy/Dockerfile'));
+    expect(legacy.rules?.DV6014).toEqual({ severity: 'warning', options: { minInterval: '1s' } });
+    expect(hasRule(scanDockerfileContent(HEALTHCHECK, path.join(dir, 'legacy/Dockerfile'), { config: { ...config } }).violations, 'DV6014')).toBe(false);
+    expect(hasRule(scanDockerfileContent(HEALTHCHECK, path.join(dir, 'Dockerfile'), { config: { ...config } }).violations, 'DV6014')).toBe(true);
+  });
+
+  it('rejects unknown rules, options, bad values and severities', () => {
+    const check = (rules: DockerVetConfig['rules']) => () => checkRuleSettings(withRules(rules), ALL_RULES);
+    expect(check(config.rules)).not.toThrow();
+    expect(check({ DV9999: { severity: 'error' } })).toThrow('Unknown rule "DV9999" under rules');
+    expect(check({ DV6014: { options: { interval: '10s' } } })).toThrow('Rule DV6014 has no option "interval". Expected one of: minInterval');
+    expect(check({ DV6014: { options: { minInterval: 'soon' } } })).toThrow('Rule DV6014 option "minInterval" must be a duration such as 10s, got "soon"');
+    expect(check({ DV3021: { options: { ports: ['http'] } } })).toThrow('Rule DV3021 option "ports" must be a number[]');
+    expect(check({ DL3008: { severity: 'fatal' as any } })).toThrow('Rule DL3008 has invalid severity "fatal"');
+    expect(check({ DL3008: { options: { strict: true } } })).toThrow('Rule DL3008 has no option "strict"');
+  });
+});
+
+describe('rule options', () => {
+  it('parses durations', () => {
+    expect(parseDuration('10s')).toBe(10);
+    expect(parseDuration('1m30s')).toBe(90);
+    expect(parseDuration('500ms')).toBe(0.5);
+    expect(parseDuration('15')).toBe(15);
+    expect(parseDuration('10 seconds')).toBeUndefined();
+  });
+
+  it('fills in defaults for options that are not set', () => {
+    expect(resolveOptions(RULE_MAP.get('DV3010')!.options!, { paths: ['/data'] })).toEqual({ paths: ['/data'], infoPaths: ['/tmp'] });
+  });
+
+  it('lets DV3021 report configured ports', () => {
+    const content = 'FROM alpine:3.20\nEXPOSE 8080 6379 2375\n';
+    const v = messages(content, 'DV3021', withRules({ DV3021: { options: { ports: [2375, 8080] } } }));
+    expect(v).toHaveLength(2);
+    expect(v[0]).toContain('8080');
+    expect(v[1]).toContain('2375');
+    expect(messages(content, 'DV3021')).toHaveLength(2);
+  });
+
+  it('lets DV6003 report configured tools', () => {
+    const content = 'FROM debian:12.8\nRUN apt-get install -y strace netcat\n';
+    expect(messages(content, 'DV6003', withRules({ DV6003: { options: { tools: ['strace'] } } })).join()).toContain("'strace'");
+    expect(messages(content, 'DV6003').join()).toContain("'netcat'");
+  });
+
+  it('lets DV3010 check configured volume paths', () => {
+    const content = 'FROM alpine:3.20\nVOLUME /data /tmp /root\n';
+    const cfg = withRules({ DV3010: { options: { paths: ['/data'], infoPaths: [] } } });
+    expect(messages(content, 'DV3010', cfg)).toEqual(['VOLUME on sensitive path "/data" may expose sensitive data.']);
+    expect(messages(content, 'DV3010')).toHaveLength(2);
+  });
+
+  it('lets DV3044 check configured token names', () => {
+    const content = 'FROM alpine:3.20\nENV ACME_DEPLOY_TOKEN=abc123\n';
+    expect(hasRule(lintDockerfile(content, withRules({ DV3044: { options: { tokenNames: ['acme_deploy_token'] } } }) as typeof defaultConfig), 'DV3044')).toBe(true);
+    expect(hasRule(lintDockerfile(content), 'DV3044')).toBe(false);
+  });
+});
+
+describe('explain', () => {
+  it('documents options and their defaults', () => {
+    const entry = catalogEntry(RULE_MAP.get('DV6014')!);
+    expect(entry.options).toEqual([{ name: 'minInterval', type: 'duration', default: '5s', description: 'Shortest HEALTHCHECK --interval accepted' }]);
+    expect(formatRuleExplanation(entry, 'tty')).toContain('Options (rules.DV6014.options):\n  minInterval (duration, default: 5s)  Shortest HEALTHCHECK --interval accepted\n');
+    expect(formatRuleExplanation(entry, 'md')).toContain('**Options:**\n\n- `minInterval` (duration, default: `5s`): Shortest HEALTHCHECK --interval accepted');
+    expect(formatRuleExplanation(catalogEntry(RULE_MAP.get('DV3010')!), 'tty')).toContain('paths (string[], default: /root, /home)');
+    expect(catalogEntry(RULE_MAP.get('DL3008')!).options).toBeUndefined();
+  });
+});
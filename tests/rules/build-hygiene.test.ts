@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { DV9001, DV9002, DV9003, DV9004, DV9005, DV9006 } from '../../src/rules/dv/build-hygiene';
+import { DV9001, DV9002, DV9003, DV9004, DV9005, DV9006, DV9010 } from '../../src/rules/dv/build-hygiene';
 import { parse } from '../../src/parser/parser';
 import { RuleContext } from '../../src/rules/types';
 
@@ -179,6 +179,9 @@ describe('DV9005: Package cache not cleaned', () => {
     const v = DV9005.check(ctx('FROM fedora:39\nRUN dnf install -y curl'));
     expect(v.length).toBe(1);
   });
+  it('does not flag apt-get install inside a quoted echo argument', () => {
+    expect(DV9005.check(ctx('FROM ubuntu:24.04\nRUN echo "apt-get install -y curl" >> /notes.txt'))).toEqual([]);
+  });
 });
 
 describe('DV9006: Multi-stage without COPY --from', () => {
@@ -203,3 +206,32 @@ describe('DV9006: Multi-stage without COPY --from', () => {
     expect(v.length).toBe(0);
   });
 });
+
+describe('DV9010: Heredoc with old frontend', () => {
+  const heredoc = 'FROM alpine:3.20\nRUN <<EOF\necho hi\nEOF\n';
+
+  it('flags heredoc when syntax pins docker/dockerfile:1.2', () => {
+    const v = DV9010.check(ctx('# syntax=docker/dockerfile:1.2\n' + heredoc));
+    expect(v.length).toBe(1);
+    expect(v[0].line).toBe(3);
+  });
+
+  it('does not flag docker/dockerfile:1.4 or a floating major tag', () => {
+    expect(DV9010.check(ctx('# syntax=docker/dockerfile:1.4\n' + heredoc)).length).toBe(0);
+    expect(DV9010.check(ctx('# syntax=docker/dockerfile:1\n' + heredoc)).length).toBe(0);
+  });
+
+  it('accepts the 1.3-labs channel', () => {
+    expect(DV9010.check(ctx('# syntax=docker/dockerfile:1.3-labs\n' + heredoc)).length).toBe(0);
+  });
+
+  it('does not flag without a syntax directive or with a custom frontend', () => {
+    expect(DV9010.check(ctx(heredoc)).length).toBe(0);
+    expect(DV9010.check(ctx('# syntax=example.com/frontend:0.1\n' + heredoc)).length).toBe(0);
+  });
+
+  it('ignores here-strings', () => {
+    const v = DV9010.check(ctx('# syntax=docker/dockerfile:1.2\nFROM alpine:3.20\nRUN cat <<<"hello"'));
+    expect(v.length).toBe(0);
+  });
+});
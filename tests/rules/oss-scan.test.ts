@@ -5920,7 +5920,7 @@ CMD ["-config.file=/etc/promtail/config.yml"]
 `);
     expect(v.some(v => v.rule === 'DL3008')).toBe(true);    // Pin versions in apt-get install. Instead of `apt-g
     expect(v.some(v => v.rule === 'DL3009')).toBe(true);    // Delete the apt-get lists after installing somethin
-    expect(v.some(v => v.rule === 'DL3014')).toBe(true);    // Use the -y switch to avoid manual input `apt-get -
+    expect(v.some(v => v.rule === 'DL3014')).toBe(false);   // -qy includes -y
     expect(v.some(v => v.rule === 'DL3015')).toBe(true);    // Avoid additional packages by specifying --no-insta
     expect(v.some(v => v.rule === 'DL3057')).toBe(true);    // HEALTHCHECK instruction missing
     expect(v.some(v => v.rule === 'DV1005')).toBe(true);    // When using COPY with broad sources, ensure a .dock
@@ -5964,7 +5964,7 @@ CMD ["-config.file=/etc/promtail/config.yml"]
 `);
     expect(v.some(v => v.rule === 'DL3008')).toBe(true);    // Pin versions in apt-get install. Instead of `apt-g
     expect(v.some(v => v.rule === 'DL3009')).toBe(true);    // Delete the apt-get lists after installing somethin
-    expect(v.some(v => v.rule === 'DL3014')).toBe(true);    // Use the -y switch to avoid manual input `apt-get -
+    expect(v.some(v => v.rule === 'DL3014')).toBe(false);   // -qy includes -y
     expect(v.some(v => v.rule === 'DL3015')).toBe(true);    // Avoid additional packages by specifying --no-insta
     expect(v.some(v => v.rule === 'DL3057')).toBe(true);    // HEALTHCHECK instruction missing
     expect(v.some(v => v.rule === 'DV1005')).toBe(true);    // When using COPY with broad sources, ensure a .dock
@@ -6005,7 +6005,7 @@ ENTRYPOINT ["/usr/bin/promtail"]
 CMD ["-config.file=/etc/promtail/config.yml"]
 `);
     expect(v.some(v => v.rule === 'DL3008')).toBe(true);    // Pin versions in apt-get install. Instead of `apt-g
-    expect(v.some(v => v.rule === 'DL3014')).toBe(true);    // Use the -y switch to avoid manual input `apt-get -
+    expect(v.some(v => v.rule === 'DL3014')).toBe(false);   // -qy includes -y
     expect(v.some(v => v.rule === 'DL3015')).toBe(true);    // Avoid additional packages by specifying --no-insta
     expect(v.some(v => v.rule === 'DL3029')).toBe(true);    // Do not use --platform flag with FROM
     expect(v.some(v => v.rule === 'DL3057')).toBe(true);    // HEALTHCHECK instruction missing
@@ -6513,7 +6513,7 @@ ENTRYPOINT ["/build.sh"]
     expect(v.some(v => v.rule === 'DL3003')).toBe(true);    // Use WORKDIR to switch to a directory
     expect(v.some(v => v.rule === 'DL3006')).toBe(true);    // Always tag the version of an image explicitly. Tag
     expect(v.some(v => v.rule === 'DL3008')).toBe(true);    // Pin versions in apt-get install. Instead of `apt-g
-    expect(v.some(v => v.rule === 'DL3014')).toBe(true);    // Use the -y switch to avoid manual input `apt-get -
+    expect(v.some(v => v.rule === 'DL3014')).toBe(false);   // -qy includes -y
     expect(v.some(v => v.rule === 'DL3015')).toBe(true);    // Avoid additional packages by specifying --no-insta
     expect(v.some(v => v.rule === 'DL3018')).toBe(true);    // Pin versions in apk add. Instead of `apk add curl`
     expect(v.some(v => v.rule === 'DL3052')).toBe(false);   // ARG GO_VERSION is used in another global ARG default (no longer FP)VERSION is declared but never referenced in
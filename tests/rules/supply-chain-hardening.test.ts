@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { lintDockerfile, hasRule } from '../helpers';
+import { lintDockerfile, hasRule, defaultConfig } from '../helpers';
 
 // ---------------------------------------------------------------------------
 // DV6001 - Insecure pip install (--trusted-host or http:// index)
@@ -261,6 +261,12 @@ describe('DV6013 - curl without --fail flag', () => {
   it('passes curl with -fsSL combined flags', () => {
     expect(hasRule(lintDockerfile('FROM alpine\nRUN curl -fsSL https://deb.nodesource.com/setup_20.x | bash -'), 'DV6013')).toBe(false);
   });
+  it('does not flag curl inside a quoted echo argument', () => {
+    expect(hasRule(lintDockerfile('FROM alpine\nRUN echo "fetch with curl -sL https://example.com" > /README'), 'DV6013')).toBe(false);
+  });
+  it('checks each curl command for the flag', () => {
+    expect(hasRule(lintDockerfile('FROM alpine\nRUN curl -fsSL https://example.com/a -o /a && curl -sL https://example.com/b -o /b'), 'DV6013')).toBe(true);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -285,6 +291,14 @@ describe('DV6014 - HEALTHCHECK with too-short interval', () => {
   it('passes HEALTHCHECK without interval (uses default 30s)', () => {
     expect(hasRule(lintDockerfile('FROM alpine\nHEALTHCHECK CMD curl -f http://localhost/'), 'DV6014')).toBe(false);
   });
+  it('reads compound and hour durations', () => {
+    expect(hasRule(lintDockerfile('FROM alpine\nHEALTHCHECK --interval=1m30s CMD true'), 'DV6014')).toBe(false);
+    expect(hasRule(lintDockerfile('FROM alpine\nHEALTHCHECK --interval=1h CMD true'), 'DV6014')).toBe(false);
+    expect(hasRule(lintDockerfile('FROM alpine\nHEALTHCHECK --interval=0m3s CMD true'), 'DV6014')).toBe(true);
+    const cfg = { ...defaultConfig, rules: { DV6014: { options: { minInterval: '2m' } } } };
+    expect(hasRule(lintDockerfile('FROM alpine\nHEALTHCHECK --interval=1m30s CMD true', cfg), 'DV6014')).toBe(true);
+    expect(hasRule(lintDockerfile('FROM alpine\nHEALTHCHECK --interval=1h CMD true', cfg), 'DV6014')).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
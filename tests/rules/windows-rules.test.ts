@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { lintDockerfile, hasRule } from '../helpers';
+
+const WIN = 'FROM mcr.microsoft.com/windows/servercore:ltsc2022\nSHELL ["powershell", "-Command", "$ErrorActionPreference = \'Stop\'; $ProgressPreference = \'SilentlyContinue\';"]\n';
+
+describe('Windows stages - Linux-only rules', () => {
+  it('does not ask for pipefail in PowerShell stages', () => {
+    expect(hasRule(lintDockerfile(WIN + 'RUN Get-ChildItem | Select-Object Name'), 'DL4006')).toBe(false);
+  });
+  it('does not ask for pipefail in cmd stages detected from the base image', () => {
+    expect(hasRule(lintDockerfile('FROM mcr.microsoft.com/windows/nanoserver:ltsc2022\nRUN dir | findstr foo'), 'DL4006')).toBe(false);
+  });
+  it('still asks for pipefail in Linux stages of the same file', () => {
+    const content = 'FROM mcr.microsoft.com/windows/servercore:ltsc2022 AS win\nRUN dir | findstr foo\nFROM alpine:3.19\nRUN wget -O - https://example.com | tar xz';
+    const v = lintDockerfile(content).filter(v => v.rule === 'DL4006');
+    expect(v.map(v => v.line)).toEqual([4]);
+  });
+  it('does not treat USER root as the root account', () => {
+    expect(hasRule(lintDockerfile(WIN + 'USER root'), 'DL3002')).toBe(false);
+  });
+  it('accepts drive-rooted WORKDIR paths', () => {
+    const v = lintDockerfile(WIN + 'WORKDIR \\app\nWORKDIR C:\\tools');
+    expect(hasRule(v, 'DL3000')).toBe(false);
+    expect(hasRule(v, 'DV4019')).toBe(false);
+  });
+  it('still rejects relative WORKDIR paths', () => {
+    expect(hasRule(lintDockerfile(WIN + 'WORKDIR app'), 'DL3000')).toBe(true);
+  });
+  it('accepts a drive-rooted COPY destination without WORKDIR', () => {
+    expect(hasRule(lintDockerfile('# escape=`\n' + WIN + 'COPY app.ps1 \\app\\'), 'DL3045')).toBe(false);
+  });
+});
+
+describe('DV3048 - Download piped to Invoke-Expression', () => {
+  it('flags Invoke-WebRequest | iex', () => {
+    const v = lintDockerfile(WIN + 'RUN Invoke-WebRequest https://example.com/install.ps1 -UseBasicParsing | iex');
+    const hit = v.find(v => v.rule === 'DV3048');
+    expect(hit).toBeDefined();
+    expect(hit!.column).toBe(5);
+  });
+  it('flags iex of WebClient.DownloadString', () => {
+    const content = WIN + "RUN iex ((New-Object System.Net.WebClient).DownloadString('https://community.chocolatey.org/install.ps1'))";
+    expect(hasRule(lintDockerfile(content), 'DV3048')).toBe(true);
+  });
+  it('flags irm piped to Invoke-Expression', () => {
+    expect(hasRule(lintDockerfile(WIN + 'RUN irm https://get.scoop.sh | Invoke-Expression'), 'DV3048')).toBe(true);
+  });
+  it('passes a download saved to disk', () => {
+    expect(hasRule(lintDockerfile(WIN + 'RUN Invoke-WebRequest https://example.com/tool.zip -OutFile tool.zip'), 'DV3048')).toBe(false);
+  });
+  it('is not reported in Linux stages', () => {
+    expect(hasRule(lintDockerfile('FROM ubuntu:22.04\nRUN curl https://example.com | iex'), 'DV3048')).toBe(false);
+  });
+});
+
+describe('DV3049 - Set-ExecutionPolicy Bypass', () => {
+  it('flags Bypass', () => {
+    expect(hasRule(lintDockerfile(WIN + 'RUN Set-ExecutionPolicy Bypass -Scope Process -Force'), 'DV3049')).toBe(true);
+  });
+  it('flags -ExecutionPolicy Unrestricted', () => {
+    expect(hasRule(lintDockerfile(WIN + 'RUN Set-ExecutionPolicy -ExecutionPolicy Unrestricted -Force'), 'DV3049')).toBe(true);
+  });
+  it('passes RemoteSigned', () => {
+    expect(hasRule(lintDockerfile(WIN + 'RUN Set-ExecutionPolicy RemoteSigned -Force'), 'DV3049')).toBe(false);
+  });
+});
+
+describe('DV3050 - ContainerAdministrator as final USER', () => {
+  it('flags ContainerAdministrator as the last USER', () => {
+    const v = lintDockerfile(WIN + 'USER ContainerUser\nUSER ContainerAdministrator');
+    expect(v.find(v => v.rule === 'DV3050')?.line).toBe(4);
+  });
+  it('passes when switching back to ContainerUser', () => {
+    expect(hasRule(lintDockerfile(WIN + 'USER ContainerAdministrator\nRUN setup.exe\nUSER ContainerUser'), 'DV3050')).toBe(false);
+  });
+  it('only checks the final stage', () => {
+    const content = WIN.replace('servercore:ltsc2022', 'servercore:ltsc2022 AS build') + 'USER ContainerAdministrator\nFROM mcr.microsoft.com/windows/nanoserver:ltsc2022\nUSER ContainerUser';
+    expect(hasRule(lintDockerfile(content), 'DV3050')).toBe(false);
+  });
+});
+
+describe('DV4030 - $ProgressPreference before Invoke-WebRequest', () => {
+  const BARE = 'FROM mcr.microsoft.com/windows/servercore:ltsc2022\nSHELL ["powershell", "-Command"]\n';
+  it('flags Invoke-WebRequest without $ProgressPreference', () => {
+    expect(hasRule(lintDockerfile(BARE + 'RUN Invoke-WebRequest https://example.com/a.zip -OutFile a.zip'), 'DV4030')).toBe(true);
+  });
+  it('passes when the SHELL sets $ProgressPreference', () => {
+    expect(hasRule(lintDockerfile(WIN + 'RUN Invoke-WebRequest https://example.com/a.zip -OutFile a.zip'), 'DV4030')).toBe(false);
+  });
+  it('passes when the RUN sets $ProgressPreference first', () => {
+    const content = BARE + "RUN $ProgressPreference = 'SilentlyContinue'; iwr https://example.com/a.zip -OutFile a.zip";
+    expect(hasRule(lintDockerfile(content), 'DV4030')).toBe(false);
+  });
+  it('inherits the SHELL of a parent stage', () => {
+    const content = WIN.replace('servercore:ltsc2022', 'servercore:ltsc2022 AS base') + 'FROM base\nRUN iwr https://example.com/a.zip -OutFile a.zip';
+    expect(hasRule(lintDockerfile(content), 'DV4030')).toBe(false);
+  });
+});
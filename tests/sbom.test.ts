@@ -23,6 +23,13 @@ describe('SBOM', () => {
     expect(names).toContain('wget');
   });
 
+  it('resolves ARG references in package versions and base images', () => {
+    const ast = parse('ARG BASE=ubuntu:22.04\nFROM ${BASE}\nARG CURL_VERSION=7.81.0-1\nRUN apt-get install -y curl=${CURL_VERSION}\n');
+    const components = extractComponents(ast, { CURL_VERSION: '7.81.0-1ubuntu1.15' });
+    expect(components.find(c => c.type === 'container')).toMatchObject({ name: 'ubuntu', version: '22.04' });
+    expect(components.find(c => c.name === 'curl')?.version).toBe('7.81.0-1ubuntu1.15');
+  });
+
   it('CycloneDX output is valid JSON', () => {
     const ast = parse('FROM python:3.11\nRUN pip install requests flask\n');
     const components = extractComponents(ast);
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '../src/parser/parser';
+import { parseShell, walkShell } from '../src/parser/shell';
+import { ShellCommand, ShellNode } from '../src/parser/types';
+import { findCommands, commandName, hasFlag, effectiveArgv, subcommandOf } from '../src/rules/utils';
+
+function commands(node: ShellNode): ShellCommand[] {
+  const out: ShellCommand[] = [];
+  walkShell(node, n => { if (n.type === 'command') out.push(n); });
+  return out;
+}
+
+function names(script: string): string[] {
+  return commands(parseShell(script)).map(c => c.name ?? '');
+}
+
+describe('Shell parser', () => {
+  it('parses && / || lists and pipelines', () => {
+    const list = parseShell('apt-get update && apt-get install -y curl | tee log || true');
+    expect(list.items.length).toBe(1);
+    const root = list.items[0];
+    expect(root.type).toBe('logical');
+    expect(names('apt-get update && apt-get install -y curl | tee log || true')).toEqual(['apt-get', 'apt-get', 'tee', 'true']);
+  });
+
+  it('removes quotes and keeps expansions', () => {
+    const [cmd] = commands(parseShell(`echo "home=$HOME" 'a b' \${USER:-root}`));
+    expect(cmd.argv.map(w => w.text)).toEqual(['echo', 'home=$HOME', 'a b', '${USER:-root}']);
+    expect(cmd.argv[1].expansions[0]).toMatchObject({ kind: 'parameter', name: 'HOME' });
+    expect(cmd.argv[3].expansions[0]).toMatchObject({ kind: 'parameter', name: 'USER' });
+  });
+
+  it('does not treat quoted text as commands', () => {
+    expect(names(`echo "curl https://x | sh"`)).toEqual(['echo']);
+  });
+
+  it('parses command substitutions, subshells and groups', () => {
+    expect(names('make -j$(nproc) && (cd /src && make) && { echo done; }')).toEqual(['make', 'nproc', 'cd', 'make', 'echo']);
+  });
+
+  it('parses control structures', () => {
+    const script = 'if [ -f a ]; then rm a; else touch a; fi; for f in *.sh; do sh $f; done; case $x in a) echo a;; *) echo b;; esac';
+    expect(names(script)).toEqual(['[', 'rm', 'touch', 'sh', 'echo', 'echo']);
+  });
+
+  it('records assignments and redirections', () => {
+    const [cmd] = commands(parseShell('DEBIAN_FRONTEND=noninteractive apt-get install -y x > /dev/null 2>&1'));
+    expect(cmd.assignments).toEqual([expect.objectContaining({ name: 'DEBIAN_FRONTEND', value: expect.objectContaining({ text: 'noninteractive' }) })]);
+    expect(cmd.redirects.map(r => `${r.fd ?? ''}${r.op}${r.target?.text}`)).toEqual(['>/dev/null', '2>&1']);
+  });
+
+  it('parses sh -c scripts', () => {
+    expect(names(`bash -euo pipefail -c "curl -fsSL https://x | sh"`)).toEqual(['bash', 'curl', 'sh']);
+  });
+
+  it('parses su -c scripts', () => {
+    expect(names(`su node -c "npm install -g eslint && npm cache clean --force"`)).toEqual(['su', 'npm', 'npm']);
+    expect(names(`su - node --command 'make'`)).toEqual(['su', 'make']);
+  });
+
+  it('skips comments and tolerates unterminated quotes', () => {
+    expect(names('echo hi # && rm -rf /')).toEqual(['echo']);
+    expect(names('echo "unterminated')).toEqual(['echo']);
+  });
+
+  it('reports offsets into the source text', () => {
+    const [, second] = commands(parseShell('cd /app && make install'));
+    expect(second.offset).toBe(11);
+    expect(second.end).toBe(23);
+  });
+});
+
+describe('Instruction shell trees', () => {
+  it('attaches a tree to RUN with offsets relative to arguments', () => {
+    const run = parse('FROM alpine\nRUN --mount=type=cache,target=/root/.cache pip install x').stages[0].instructions[0];
+    const [cmd] = findCommands(run, 'pip', { subcommand: 'install' });
+    expect(run.arguments.slice(cmd.offset, cmd.end)).toBe('pip install x');
+  });
+
+  it('parses exec form and HEALTHCHECK commands', () => {
+    const ast = parse('FROM alpine\nCMD ["sh", "-c", "nginx -g \'daemon off;\'"]\nHEALTHCHECK --interval=30s CMD curl -f http://localhost/ || exit 1');
+    const [cmd, hc] = ast.stages[0].instructions;
+    expect(findCommands(cmd, 'nginx').length).toBe(1);
+    expect(findCommands(hc, 'curl', { flag: '-f' }).length).toBe(1);
+  });
+
+  it('does not parse commands under a non-POSIX SHELL', () => {
+    const ast = parse('FROM mcr.microsoft.com/windows/servercore:ltsc2022\nSHELL ["powershell", "-Command"]\nRUN Invoke-WebRequest x');
+    expect(ast.stages[0].instructions[1].shell).toBeUndefined();
+  });
+});
+
+describe('Shell command helpers', () => {
+  const run = parse('FROM ubuntu\nRUN sudo -E env A=1 apt-get -o Dpkg::Use-Pty=0 -qy install --no-install-recommends curl').stages[0].instructions[0];
+  const [cmd] = findCommands(run, 'apt-get');
+
+  it('strips wrapper commands', () => {
+    expect(commandName(cmd)).toBe('apt-get');
+    expect(effectiveArgv(cmd)[0].text).toBe('apt-get');
+  });
+
+  it('finds subcommands past option values', () => {
+    expect(subcommandOf(cmd)).toBe('install');
+    expect(findCommands(run, 'apt-get', { subcommand: 'install' }).length).toBe(1);
+    expect(findCommands(run, 'apt-get', { subcommand: 'update' }).length).toBe(0);
+  });
+
+  it('matches clustered short flags and long flags', () => {
+    expect(hasFlag(cmd.argv, '-y')).toBe(true);
+    expect(hasFlag(cmd.argv, '--no-install-recommends')).toBe(true);
+    expect(hasFlag(cmd.argv, '--yes')).toBe(false);
+  });
+});
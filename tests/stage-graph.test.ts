@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '../src/parser/parser';
+import { buildStageGraph, selectTarget } from '../src/parser/stage-graph';
+
+const df = [
+  'FROM golang:1.22 AS deps',
+  'RUN go mod download',
+  'FROM deps AS build',
+  'RUN --mount=type=cache,target=/root/.cache --mount=from=tools,source=/bin/lint,target=/lint go build',
+  'FROM alpine:3.19 AS tools',
+  'COPY --from=busybox:1.36 /bin/busybox /bin/',
+  'FROM Build AS test',
+  'RUN go test ./...',
+  'FROM gcr.io/distroless/static AS runtime',
+  'COPY --from=1 /out/app /app',
+  'COPY --from=runtime /app /app2',
+].join('\n');
+
+describe('buildStageGraph', () => {
+  const ast = parse(df);
+  const graph = buildStageGraph(ast);
+  const [deps, build, tools, test, runtime] = ast.stages;
+
+  it('resolves FROM, COPY --from and RUN --mount=from references', () => {
+    expect(graph.references(build).map(r => [r.kind, r.ref, r.stage?.index])).toEqual([
+      ['from', 'deps', 0], ['mount', 'tools', 2],
+    ]);
+    expect(graph.references(runtime).map(r => [r.kind, r.ref, r.stage?.index])).toEqual([
+      ['from', 'gcr.io/distroless/static', undefined], ['copy', '1', 1], ['copy', 'runtime', 4],
+    ]);
+  });
+
+  it('keeps external images unresolved', () => {
+    expect(graph.references(tools).map(r => r.stage)).toEqual([undefined, undefined]);
+  });
+
+  it('matches stage names case-insensitively and only earlier stages for FROM', () => {
+    expect(graph.dependencies(test)).toEqual([build]);
+    const forward = buildStageGraph(parse('FROM later AS first\nFROM alpine:3.19 AS later'));
+    expect(forward.references(forward.stages[0])[0].stage).toBeUndefined();
+  });
+
+  it('computes the stages reachable from a target', () => {
+    expect(graph.reachable(runtime)).toEqual([deps, build, tools, runtime]);
+    expect(graph.reachable(tools)).toEqual([tools]);
+    expect(graph.find('TEST')).toBe(test);
+    expect(graph.find('2')).toBe(tools);
+    expect(graph.find('missing')).toBeUndefined();
+  });
+});
+
+describe('selectTarget', () => {
+  it('keeps the reachable stages and moves the target last', () => {
+    const ast = parse('FROM alpine:3.19 AS base\nFROM base AS app\nFROM node:20 AS unrelated\n');
+    const selected = selectTarget(ast, 'app')!;
+    expect(selected.stages.map(s => [s.from.alias, s.index])).toEqual([['base', 0], ['app', 1]]);
+    expect(selectTarget(ast, 'nope')).toBeUndefined();
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintDockerfile, hasRule, defaultConfig } from './helpers';
+import { parse } from '../src/parser/parser';
+import { lint } from '../src/engine/linter';
+import { ConfigIgnore, createSuppressionUsage, unusedIgnores } from '../src/engine/suppression-usage';
+import { formatUnusedIgnores } from '../src/formatter/ignores';
+import { baselineIndex, createBaseline, markBaseline } from '../src/engine/baseline';
+import { formatJSON } from '../src/formatter/json';
+import { formatSARIF } from '../src/formatter/sarif';
+import { formatTTY } from '../src/formatter/tty';
+import { scanDockerfileContent } from '../src/lib';
+import { discoverConfig } from '../src/engine/config';
+import { configForFile } from '../src/engine/overrides';
+
+const lines = (content: string, rule: string) => lintDockerfile(content).filter(v => v.rule === rule).map(v => v.line);
+
+describe('inline suppressions', () => {
+  it('parses scope, range and reason', () => {
+    const ast = parse([
+      '# dockervet disable-file=DL3057 reason="batch job"',
+      'FROM ubuntu:22.04',
+      '# dockervet ignore=DL3008, DL3015 reason=\'pinned by the base image\'',
+      'RUN apt-get install -y \\',
+      '    curl',
+      '# dockervet disable=DL3009',
+      'RUN apt-get update',
+      '# dockervet enable=DL3009',
+    ].join('\n'));
+    expect(ast.suppressions).toEqual([
+      { rule: 'DL3057', scope: 'file', line: 1, startLine: 1, endLine: 8, reason: 'batch job' },
+      { rule: 'DL3008', scope: 'next-line', line: 3, startLine: 4, endLine: 5, reason: 'pinned by the base image' },
+      { rule: 'DL3015', scope: 'next-line', line: 3, startLine: 4, endLine: 5, reason: 'pinned by the base image' },
+      { rule: 'DL3009', scope: 'block', line: 6, startLine: 7, endLine: 7 },
+    ]);
+    expect(ast.inlineIgnores.get(4)).toEqual(['DL3008', 'DL3015']);
+  });
+
+  it('covers continuation lines of the next instruction', () => {
+    const content = 'FROM ubuntu:22.04\nRUN apt-get update && apt-get install -y \\\n    curl\n';
+    expect(lines(content, 'DL3008')).toEqual([3]);
+    expect(lines(content.replace('RUN', '# dockervet ignore=DL3008\nRUN'), 'DL3008')).toEqual([]);
+  });
+
+  it('applies a next-line ignore only to an instruction directly below', () => {
+    const content = 'FROM ubuntu:22.04\n# dockervet ignore=DL3008\n\nRUN apt-get install -y curl\n';
+    expect(lines(content, 'DL3008')).toEqual([4]);
+    expect(parse(content).inlineIgnores.size).toBe(0);
+    // Other comments may sit in between
+    expect(lines(content.replace('\n\n', '\n# install tools\n'), 'DL3008')).toEqual([]);
+  });
+
+  it('silences a rule between disable and enable', () => {
+    const content = [
+      'FROM ubuntu:22.04',
+      '# dockervet disable=DL3008,DL3015',
+      'RUN apt-get install -y curl',
+      'RUN apt-get install -y wget',
+      '# dockervet enable=DL3008',
+      'RUN apt-get install -y git',
+    ].join('\n');
+    expect(lines(content, 'DL3008')).toEqual([6]);
+    // DL3015 was not re-enabled, so it stays off to the end of the file
+    expect(lines(content, 'DL3015')).toEqual([]);
+  });
+
+  it('silences a rule in the whole file', () => {
+    const content = 'FROM ubuntu:22.04\nCMD ["sleep", "infinity"]\n';
+    expect(hasRule(lintDockerfile(content), 'DV1006')).toBe(true);
+    expect(hasRule(lintDockerfile('# dockervet disable-file=DV1006\n' + content), 'DV1006')).toBe(false);
+    expect(hasRule(lintDockerfile(content + '# hadolint global ignore=DV1006\n'), 'DV1006')).toBe(false);
+  });
+
+  it('ignores unknown pragmas and checks rule IDs in every kind', () => {
+    expect(parse('# hadolint disable=DL3008\n# dockervet global ignore=DL3008\nFROM ubuntu:22.04').suppressions).toEqual([]);
+    const v = lintDockerfile('# dockervet disable-file=DL9999\nFROM ubuntu:22.04\n# dockervet disable=DV9999\n');
+    expect(v.filter(x => x.rule === 'DL3056').map(x => x.line)).toEqual([1, 3]);
+  });
+});
+
+describe('unused suppressions', () => {
+  const PINNED = 'FROM debian:12.8\nRUN apt-get install -y --no-install-recommends curl=7.88.1-10+deb12u8\n';
+  const UNPINNED = 'FROM debian:12.8\nRUN apt-get install -y --no-install-recommends curl\n';
+
+  it('reports inline suppressions that silence nothing', () => {
+    const unused = lintDockerfile(PINNED.replace('RUN', '# dockervet ignore=DL3008\nRUN')).filter(v => v.rule === 'DV9011');
+    expect(unused.map(v => [v.line, v.message])).toEqual([[2, 'Inline suppression of DL3008 matches no finding. Remove the comment.']]);
+    expect(hasRule(lintDockerfile(UNPINNED.replace('RUN', '# dockervet ignore=DL3008\nRUN')), 'DV9011')).toBe(false);
+    const dangling = lintDockerfile(PINNED + '# dockervet ignore=DL3008\n').find(v => v.rule === 'DV9011');
+    expect(dangling?.message).toMatch(/no instruction directly below/);
+  });
+
+  it('leaves alone suppressions of unknown rules and rules that did not run', () => {
+    const content = PINNED.replace('RUN', '# dockervet ignore=DL9999,DL3008\nRUN');
+    const v = lintDockerfile(content, { ...defaultConfig, ignore: ['DL3008'] });
+    expect(hasRule(v, 'DL3056')).toBe(true);
+    expect(hasRule(v, 'DV9011')).toBe(false);
+  });
+
+  it('reports an expired config ignore entry at the finding it no longer hides', () => {
+    const config = { ...defaultConfig, ignore: [{ id: 'DL3008', expires: '2020-01-01' }] as any[] };
+    const v = lintDockerfile(UNPINNED, config).filter(x => x.rule === 'DV9011');
+    expect(v.map(x => [x.line, x.message])).toEqual([
+      [2, 'The config ignore entry for DL3008 expired on 2020-01-01, so its findings are reported again. Fix them or renew the entry.'],
+    ]);
+    expect(hasRule(lintDockerfile(PINNED, config), 'DV9011')).toBe(false);
+  });
+
+  it('collects config ignores used by any file and inline suppressions used by none', () => {
+    const config = {
+      ...defaultConfig,
+      ignore: ['DL3008', 'DV4009', { id: 'DL3015', expires: '2020-01-01', reason: 'legacy' }] as any[],
+    };
+    const usage = createSuppressionUsage();
+    lint(parse(UNPINNED), { config, filePath: 'a/Dockerfile', usage });
+    lint(parse('FROM debian:12.8\n# dockervet ignore=DV1006 reason="runs as nobody"\nUSER nobody\n'), { config, filePath: 'b/Dockerfile', usage });
+    const report = unusedIgnores(config, usage);
+    expect(report.config.map(u => u.entry)).toEqual(['DV4009']);
+    expect(report.expired.map(u => u.entry.id)).toEqual(['DL3015']);
+    expect(report.inline.map(u => [u.filePath, u.suppression.rule])).toEqual([['b/Dockerfile', 'DV1006']]);
+    expect(formatUnusedIgnores(report)).toBe([
+      'Unused and expired suppressions (3):',
+      '  b/Dockerfile:2  DV1006  ignore matches no finding (reason: runs as nobody)',
+      '  config  DV4009  ignore entry matches no finding',
+      '  config  DL3015  ignore entry expired on 2020-01-01',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('unused suppressions across configs', () => {
+  const UNPINNED = 'FROM debian:12.8\nRUN apt-get install -y --no-install-recommends curl\n';
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dockervet-unused-')));
+    fs.mkdirSync(path.join(dir, '.git'));
+    fs.mkdirSync(path.join(dir, 'svc'));
+    fs.writeFileSync(path.join(dir, 'base.yaml'), 'ignore:\n  - DV4009\n');
+    fs.writeFileSync(path.join(dir, '.dockervet.yaml'), [
+      'extends: ./base.yaml',
+      'ignore:',
+      '  - DL3008',
+      'overrides:',
+      '  - files: svc/**',
+      '    ignore:',
+      '      - DV4003',
+      '      - DV1006',
+      '  - files: legacy/**',
+      '    ignore:',
+      '      - DL3015',
+    ].join('\n'));
+    fs.mkdirSync(path.join(dir, 'tools'));
+    fs.writeFileSync(path.join(dir, 'tools', '.dockervet.yaml'), 'ignore:\n  - id: DV1009\n    expires: "2020-01-01"\n  - DL3020\n');
+    fs.writeFileSync(path.join(dir, 'svc', '.dockervet.yaml'), 'ignore:\n  - DL3059\n  - DV1006\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports entries of discovered configs, extends chains and overrides against their source', () => {
+    const usage = createSuppressionUsage();
+    const root = discoverConfig(dir);
+    for (const file of ['Dockerfile', 'svc/Dockerfile']) {
+      const filePath = path.join(dir, file);
+      const config = configForFile(discoverConfig(path.dirname(filePath)), filePath);
+      lint(parse(UNPINNED), { config, filePath, usage });
+    }
+    const report = unusedIgnores(root, usage);
+    const unused = report.config.map(u => [u.source.file && path.relative(dir, u.source.file), u.source.override, u.entry]);
+    expect(unused).toEqual([
+      ['base.yaml', undefined, 'DV4009'],
+      ['svc/.dockervet.yaml', undefined, 'DL3059'],
+    ]);
+    // The overrides entry for legacy/** matched no file, so it silenced nothing
+    expect(unusedIgnores(configForFile(root, path.join(dir, 'legacy/Dockerfile')), usage).config.map(u => u.entry)).toContain('DL3015');
+    const cwd = process.cwd();
+    try {
+      process.chdir(dir);
+      expect(formatUnusedIgnores(report)).toContain('  base.yaml  DV4009  ignore entry matches no finding');
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('reports the entries of a subdirectory config when only files below it are linted', () => {
+    const usage = createSuppressionUsage();
+    const filePath = path.join(dir, 'tools', 'Dockerfile');
+    const config = configForFile(discoverConfig(path.dirname(filePath)), filePath);
+    // Nothing in the file is silenced by the tools config, as the CLI lints it
+    lint(parse('FROM debian:12.8\n'), { config, filePath, usage, keepSuppressed: true });
+    const report = unusedIgnores(discoverConfig(dir), usage);
+    const tools = (u: ConfigIgnore) => u.source.file === path.join(dir, 'tools', '.dockervet.yaml');
+    expect(report.config.filter(tools).map(u => u.entry)).toEqual(['DL3020']);
+    expect(report.expired.filter(tools).map(u => u.entry.id)).toEqual(['DV1009']);
+  });
+});
+
+describe('suppressed findings', () => {
+  const CONTENT = [
+    'FROM debian:12.8',
+    '# dockervet ignore=DL3008 reason="pinned upstream"',
+    'RUN apt-get install -y --no-install-recommends curl',
+    'RUN apt-get install -y --no-install-recommends wget',
+  ].join('\n');
+  const keep = (content: string, config = defaultConfig) =>
+    lint(parse(content), { config, filePath: 'Dockerfile', keepSuppressed: true });
+
+  it('keeps inline- and config-suppressed findings marked with their suppression', () => {
+    const config = { ...defaultConfig, ignore: [{ id: 'DV1006', reason: 'runs as root by design', expires: '2999-01-01' }] as any[] };
+    const v = keep(CONTENT, config);
+    expect(v.filter(x => x.rule === 'DL3008').map(x => [x.line, x.suppression])).toEqual([
+      [3, { kind: 'inline', reason: 'pinned upstream' }],
+      [4, undefined],
+    ]);
+    expect(v.find(x => x.rule === 'DV1006')?.suppression).toEqual({ kind: 'config', reason: 'runs as root by design', expires: '2999-01-01' });
+    // Without keepSuppressed they are dropped
+    expect(lintDockerfile(CONTENT, config).filter(x => x.rule === 'DL3008').map(x => x.line)).toEqual([4]);
+    expect(hasRule(lintDockerfile(CONTENT, config), 'DV1006')).toBe(false);
+  });
+
+  it('does not change the fingerprints of unsuppressed findings', () => {
+    const dropped = lintDockerfile(CONTENT, defaultConfig, 'Dockerfile');
+    const kept = keep(CONTENT).filter(v => !v.suppression);
+    expect(kept.map(v => v.fingerprint)).toEqual(dropped.map(v => v.fingerprint));
+  });
+
+  it('marks baselined findings and leaves them out of a new baseline', () => {
+    const before = keep(CONTENT);
+    const baseline = createBaseline([{ filename: 'Dockerfile', violations: before }], process.cwd());
+    expect(baseline.entries.some(e => e.rule === 'DL3008' && e.line === 3)).toBe(false);
+    const after = markBaseline(baselineIndex(baseline), 'Dockerfile', keep(CONTENT));
+    expect(after.filter(v => !v.suppression)).toEqual([]);
+    expect(after.find(v => v.line === 4 && v.rule === 'DL3008')?.suppression).toEqual({ kind: 'baseline' });
+  });
+
+  it('emits suppressions in JSON and SARIF', () => {
+    const v = keep(CONTENT).filter(x => x.rule === 'DL3008');
+    expect(JSON.parse(formatJSON(v, 'Dockerfile')).map((e: any) => e.suppression)).toEqual([
+      { kind: 'inline', reason: 'pinned upstream' },
+      undefined,
+    ]);
+    v[1].suppression = { kind: 'baseline' };
+    const results = JSON.parse(formatSARIF(v, 'Dockerfile')).runs[0].results;
+    expect(results.map((r: any) => r.suppressions)).toEqual([
+      [{ kind: 'inSource', status: 'accepted', justification: 'pinned upstream' }],
+      [{ kind: 'external', status: 'accepted' }],
+    ]);
+  });
+
+  it('hides suppressed findings in the terminal unless asked', () => {
+    const v = keep(CONTENT).filter(x => x.rule === 'DL3008');
+    const hidden = formatTTY(v, 'Dockerfile', false);
+    expect(hidden).not.toContain('suppressed');
+    expect(hidden).toContain('0 error(s), 1 warning(s), 0 info(s)\n');
+    const shown = formatTTY(v, 'Dockerfile', false, true);
+    expect(shown).toContain('(suppressed: inline, pinned upstream)');
+    expect(shown).toContain('0 error(s), 1 warning(s), 0 info(s), 1 suppressed\n');
+  });
+
+  it('leaves suppressed findings out of the exit code', () => {
+    const content = 'FROM debian:12.8\n# dockervet ignore=DL3008\nRUN apt-get install -y --no-install-recommends curl\n';
+    const config = { ...defaultConfig, failOn: ['warning'] as any };
+    const result = scanDockerfileContent(content, 'Dockerfile', { config, includeSuppressed: true });
+    expect(result.violations.find(v => v.rule === 'DL3008')?.suppression?.kind).toBe('inline');
+    expect(result.exitCode).toBe(scanDockerfileContent(content, 'Dockerfile', { config }).exitCode);
+  });
+});
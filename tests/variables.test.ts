@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from '../src/parser/parser';
+import { createVariableResolver, expandVariables } from '../src/parser/variables';
+
+const scope = new Map<string, string | undefined>([['NAME', 'app'], ['EMPTY', ''], ['DECLARED', undefined]]);
+
+describe('expandVariables', () => {
+  it('expands $VAR and ${VAR}', () => {
+    expect(expandVariables('/opt/$NAME/${NAME}.conf', scope)).toBe('/opt/app/app.conf');
+  });
+
+  it('supports default and alternate values', () => {
+    expect(expandVariables('${MISSING:-1.0}', scope)).toBe('1.0');
+    expect(expandVariables('${EMPTY:-1.0}', scope)).toBe('1.0');
+    expect(expandVariables('${EMPTY-1.0}', scope)).toBe('');
+    expect(expandVariables('${NAME:+--name=$NAME}', scope)).toBe('--name=app');
+    expect(expandVariables('${MISSING:+x}', scope)).toBe('');
+  });
+
+  it('leaves unresolvable references, single quotes and escapes alone', () => {
+    expect(expandVariables('$MISSING ${DECLARED} ${NAME%%.*}', scope)).toBe('$MISSING ${DECLARED} ${NAME%%.*}');
+    expect(expandVariables("echo '$NAME' \\$NAME \"$NAME\"", scope)).toBe("echo '$NAME' \\$NAME \"app\"");
+  });
+});
+
+describe('createVariableResolver', () => {
+  const df = [
+    'ARG NODE_VERSION=18',
+    'ARG DISTRO',
+    'FROM node:${NODE_VERSION}-${DISTRO:-alpine} AS base',
+    'ENV APP_HOME=/srv/app',
+    'RUN echo $NODE_VERSION $APP_HOME',
+    'ARG NODE_VERSION',
+    'RUN echo $NODE_VERSION',
+    'FROM base',
+    'RUN echo $APP_HOME',
+  ].join('\n');
+
+  it('applies global ARGs to FROM only', () => {
+    const ast = parse(df);
+    const vars = createVariableResolver(ast);
+    expect(vars.from(ast.stages[0])).toMatchObject({ image: 'node', tag: '18-alpine', alias: 'base' });
+    expect(vars.resolve(ast.stages[0].instructions[1])).toBe('echo $NODE_VERSION /srv/app');
+  });
+
+  it('exposes a global ARG after it is re-declared in the stage', () => {
+    const ast = parse(df);
+    expect(createVariableResolver(ast).resolve(ast.stages[0].instructions[3])).toBe('echo 18');
+  });
+
+  it('inherits ENV from the parent stage', () => {
+    const ast = parse(df);
+    expect(createVariableResolver(ast).resolve(ast.stages[1].instructions[0])).toBe('echo /srv/app');
+  });
+
+  it('lets build args override declared defaults', () => {
+    const ast = parse(df);
+    const vars = createVariableResolver(ast, { NODE_VERSION: '14', DISTRO: 'bullseye', UNDECLARED: 'x' });
+    expect(vars.from(ast.stages[0]).tag).toBe('14-bullseye');
+    expect(vars.scopeAt(ast.stages[0].instructions[3]).has('UNDECLARED')).toBe(false);
+  });
+
+  it('does not let ARG override ENV of the same name', () => {
+    const ast = parse('FROM alpine:3.19\nENV V=1\nARG V=2\nRUN echo $V');
+    expect(createVariableResolver(ast).resolve(ast.stages[0].instructions[2])).toBe('echo 1');
+  });
+});